@@ -12,6 +12,7 @@ import { useNetInfo } from '@react-native-community/netinfo';
 import { useDispatch } from 'react-redux';
 import { setNetworkStatus, syncPendingOperations } from './app/store/slices/networkSlice';
 import { initializeNotifications } from './app/services/NotificationService';
+import { DEMO_MODE } from './app/repositories';
 
 import Dashboard from './app/screens/Dashboard';
 import ManageTasks from './app/screens/ManageTasks';
@@ -20,12 +21,17 @@ import Journal from './app/screens/Journal';
 import History from './app/screens/History';
 import Profile from './app/screens/Profile';
 import Settings from './app/screens/Settings';
+import SyncIssues from './app/screens/SyncIssues';
 import Login from './app/screens/Login';
 import SignUp from './app/screens/SignUp';
 import Home from './app/screens/Home';
 import Sidebar from './app/components/Sidebar';
 import NetworkMonitor from './app/components/NetworkMonitor';
+import DaySettingsManager from './app/components/DaySettingsManager';
 import TaskResetManager from './app/components/TaskResetManager';
+import XPReconciliationManager from './app/components/XPReconciliationManager';
+import LevelUpManager from './app/components/LevelUpManager';
+import AchievementManager from './app/components/AchievementManager';
 import { ThemeProvider } from './app/contexts/ThemeContext';
 // Using statsService instead of context provider
 
@@ -44,6 +50,7 @@ export type DrawerParamList = {
   History: undefined;
   Profile: undefined;
   Settings: undefined;
+  SyncIssues: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -67,6 +74,7 @@ const DrawerNavigator = () => {
       <Drawer.Screen name="History" component={History} />
       <Drawer.Screen name="Profile" component={Profile} />
       <Drawer.Screen name="Settings" component={Settings} />
+      <Drawer.Screen name="SyncIssues" component={SyncIssues} />
     </Drawer.Navigator>
   );
 };
@@ -109,7 +117,16 @@ const NetworkAwareApp = () => {
             <Stack.Screen name="Main" component={DrawerNavigator} />
           </Stack.Navigator>
           <NetworkMonitor />
-          <TaskResetManager />
+          <DaySettingsManager />
+          {/* These keep Firestore data in step, so demo mode leaves them out */}
+          {!DEMO_MODE && (
+            <>
+              <TaskResetManager />
+              <XPReconciliationManager />
+              <LevelUpManager />
+              <AchievementManager />
+            </>
+          )}
         </NavigationContainer>
       </ThemeProvider>
     </GestureHandlerRootView>
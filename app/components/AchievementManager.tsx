@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import { FIREBASE_AUTH } from '../../FirebaseConfig';
+import CelebrationAnimation from './CelebrationAnimation';
+import { AchievementDefinition, checkAchievements, subscribeToAchievementProgress } from '../utils/achievements';
+
+// Wait for a burst of changes (a completion writes several documents) to settle
+const CHECK_DELAY_MS = 3000;
+
+/**
+ * AchievementManager
+ *
+ * Re-checks the signed-in user's achievements whenever their stats or journal change
+ * and celebrates each new unlock in turn. Only the device that stores an unlock
+ * celebrates it.
+ */
+const AchievementManager = () => {
+  const [queue, setQueue] = useState<AchievementDefinition[]>([]);
+
+  useEffect(() => {
+    let unsubscribeProgress: (() => void) | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleCheck = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(async () => {
+        timer = null;
+        const unlocked = await checkAchievements();
+        if (unlocked.length > 0) {
+          setQueue(prev => [...prev, ...unlocked]);
+        }
+      }, CHECK_DELAY_MS);
+    };
+
+    const unsubscribeAuth = onAuthStateChanged(FIREBASE_AUTH, (user) => {
+      unsubscribeProgress?.();
+      unsubscribeProgress = null;
+      if (!user) return;
+
+      unsubscribeProgress = subscribeToAchievementProgress(scheduleCheck);
+    });
+
+    return () => {
+      unsubscribeAuth();
+      unsubscribeProgress?.();
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
+  const current = queue[0];
+
+  return (
+    <CelebrationAnimation
+      visible={!!current}
+      heading="Achievement Unlocked!"
+      subtitle={current?.title || ''}
+      detail={current?.description}
+      onAnimationEnd={() => setQueue(prev => prev.slice(1))}
+    />
+  );
+};
+
+export default AchievementManager;
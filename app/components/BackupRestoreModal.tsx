@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSelector } from 'react-redux';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import { selectNetworkStatus } from '../store/slices/networkSlice';
+import {
+  AccountBackup,
+  RestoreMode,
+  BACKUP_COLLECTIONS,
+  BACKUP_COLLECTION_LABELS,
+  exportAccountBackup,
+  pickBackupFile,
+  restoreAccountBackup,
+} from '../utils/accountBackup';
+
+interface BackupRestoreModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ visible, onClose }) => {
+  const { colors } = useTheme();
+  const isConnected = useSelector(selectNetworkStatus);
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [backup, setBackup] = useState<AccountBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const handleClose = () => {
+    setBackup(null);
+    setMode('merge');
+    onClose();
+  };
+
+  const handleExport = async () => {
+    if (!isConnected) {
+      Alert.alert('Offline', 'Connect to the internet to back up your data.');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      await exportAccountBackup();
+    } catch (error: any) {
+      Alert.alert('Backup Failed', error.message || 'Failed to back up your data.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await pickBackupFile();
+      if (!result) return;
+
+      if (result.errors) {
+        Alert.alert('Invalid Backup', result.errors.join('\n'));
+        return;
+      }
+
+      setBackup(result.backup);
+    } catch (error: any) {
+      Alert.alert('Restore Failed', error.message || 'Failed to read the backup file.');
+    }
+  };
+
+  const runRestore = async (selectedBackup: AccountBackup) => {
+    setRestoring(true);
+    try {
+      const result = await restoreAccountBackup(selectedBackup, mode);
+      if (result.success) {
+        Alert.alert('Restore Complete', result.message);
+        handleClose();
+      } else {
+        Alert.alert('Restore Failed', result.message || 'Failed to restore your data.');
+      }
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    if (!isConnected) {
+      Alert.alert('Offline', 'Connect to the internet to restore a backup.');
+      return;
+    }
+
+    if (mode === 'replace') {
+      Alert.alert(
+        'Replace All Data?',
+        'Everything currently in your account will be replaced by this backup. This cannot be undone.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace', style: 'destructive', onPress: () => runRestore(backup) },
+        ]
+      );
+    } else {
+      runRestore(backup);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+      width: '90%',
+      maxHeight: '80%',
+      backgroundColor: colors.cardBackground || colors.surface,
+      borderRadius: 16,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.medium,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: Theme.Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingBottom: Theme.Spacing.sm,
+    },
+    title: {
+      ...Theme.Typography.h3,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    closeButton: {
+      padding: Theme.Spacing.xs,
+    },
+    description: {
+      ...Theme.Typography.body,
+      color: colors.textSecondary,
+      marginBottom: Theme.Spacing.md,
+    },
+    actionButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: Theme.Spacing.sm,
+      marginBottom: Theme.Spacing.sm,
+    },
+    secondaryButton: {
+      backgroundColor: 'transparent',
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    actionButtonText: {
+      ...Theme.Typography.body,
+      color: colors.textLight,
+      fontWeight: '600',
+      marginLeft: Theme.Spacing.xs,
+    },
+    secondaryButtonText: {
+      color: colors.primary,
+    },
+    summaryHeading: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginBottom: Theme.Spacing.sm,
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: Theme.Spacing.xs,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    summaryLabel: {
+      ...Theme.Typography.body,
+      color: colors.text,
+    },
+    summaryCount: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    modeOption: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: Theme.Spacing.sm,
+      marginTop: Theme.Spacing.sm,
+    },
+    modeOptionSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.surface,
+    },
+    modeText: {
+      flex: 1,
+      marginLeft: Theme.Spacing.sm,
+    },
+    modeTitle: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      fontWeight: '500',
+    },
+    modeDescription: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+    },
+    footer: {
+      marginTop: Theme.Spacing.md,
+    },
+  });
+
+  const renderModeOption = (value: RestoreMode, title: string, description: string) => (
+    <TouchableOpacity
+      style={[styles.modeOption, mode === value && styles.modeOptionSelected]}
+      onPress={() => setMode(value)}
+    >
+      <MaterialIcons
+        name={mode === value ? 'radio-button-checked' : 'radio-button-unchecked'}
+        size={20}
+        color={mode === value ? colors.primary : colors.textSecondary}
+      />
+      <View style={styles.modeText}>
+        <Text style={styles.modeTitle}>{title}</Text>
+        <Text style={styles.modeDescription}>{description}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderRestorePreview = (selectedBackup: AccountBackup) => (
+    <>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <Text style={styles.summaryHeading}>
+          Backup of {selectedBackup.source.email || 'an unknown account'}
+          {selectedBackup.exportedAt ? ` · ${new Date(selectedBackup.exportedAt).toLocaleString()}` : ''}
+        </Text>
+        {BACKUP_COLLECTIONS.map(name => (
+          <View key={name} style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>{BACKUP_COLLECTION_LABELS[name]}</Text>
+            <Text style={styles.summaryCount}>{selectedBackup.collections[name].length}</Text>
+          </View>
+        ))}
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>Profile</Text>
+          <Text style={styles.summaryCount}>{selectedBackup.profile ? 'Included' : 'None'}</Text>
+        </View>
+
+        {renderModeOption(
+          'merge',
+          'Merge into my account',
+          'Adds items from the backup. Anything already in your account is kept.'
+        )}
+        {renderModeOption(
+          'replace',
+          'Replace my account data',
+          'Your account will contain exactly what is in the backup.'
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.actionButton} onPress={handleRestore} disabled={restoring}>
+          {restoring ? (
+            <ActivityIndicator size="small" color={colors.textLight} />
+          ) : (
+            <>
+              <MaterialIcons name="restore" size={20} color={colors.textLight} />
+              <Text style={styles.actionButtonText}>Restore</Text>
+            </>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.secondaryButton]}
+          onPress={() => setBackup(null)}
+          disabled={restoring}
+        >
+          <Text style={[styles.actionButtonText, styles.secondaryButtonText]}>Back</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{backup ? 'Restore Backup' : 'Backup & Restore'}</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+              <MaterialIcons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {backup ? renderRestorePreview(backup) : (
+            <>
+              <Text style={styles.description}>
+                Save a copy of your tasks, history, XP bank, journal, schedule and profile,
+                or restore one into this account.
+              </Text>
+              <TouchableOpacity style={styles.actionButton} onPress={handleExport} disabled={exporting}>
+                {exporting ? (
+                  <ActivityIndicator size="small" color={colors.textLight} />
+                ) : (
+                  <>
+                    <MaterialIcons name="backup" size={20} color={colors.textLight} />
+                    <Text style={styles.actionButtonText}>Create Backup</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.actionButton, styles.secondaryButton]} onPress={handlePickFile}>
+                <MaterialIcons name="settings-backup-restore" size={20} color={colors.primary} />
+                <Text style={[styles.actionButtonText, styles.secondaryButtonText]}>Restore from File</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default BackupRestoreModal;
@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useDispatch } from 'react-redux';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import type { AppDispatch } from '../store/types';
+import { runOrQueueOperation } from '../store/slices/networkSlice';
+import { ScheduledTask } from '../types/scheduledTask';
+import {
+  IcsImportItem,
+  buildIcsImportPreview,
+  exportScheduledTasksToIcs,
+  parseIcsEvents,
+  pickIcsFile,
+} from '../utils/icsCalendar';
+import { describeRRule, parseRRule } from '../utils/rrule';
+import { getDayKey } from '../utils/dateUtils';
+
+interface CalendarImportExportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  tasks: ScheduledTask[];
+}
+
+const describeImportItem = (item: IcsImportItem): string => {
+  const { task } = item;
+  const date = new Date(`${task.scheduledDate}T12:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  const parts = [task.scheduledTime ? `${date} at ${task.scheduledTime}` : `${date} (all day)`];
+
+  if (task.rrule) {
+    parts.push(describeRRule(parseRRule(task.rrule)));
+  }
+
+  return parts.join(' · ');
+};
+
+const CalendarImportExportModal: React.FC<CalendarImportExportModalProps> = ({ visible, onClose, tasks }) => {
+  const { colors } = useTheme();
+  const dispatch = useDispatch<AppDispatch>();
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [previewItems, setPreviewItems] = useState<IcsImportItem[] | null>(null);
+
+  const itemsToImport = previewItems?.filter(item => !item.skipReason) || [];
+
+  const handleClose = () => {
+    setPreviewItems(null);
+    onClose();
+  };
+
+  const handleExport = async () => {
+    if (tasks.length === 0) {
+      Alert.alert('Nothing to Export', 'You have no scheduled events yet.');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      await exportScheduledTasksToIcs(tasks);
+    } catch (error: any) {
+      Alert.alert('Export Failed', error.message || 'Failed to export your schedule.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const content = await pickIcsFile();
+      if (content === null) return;
+
+      const events = parseIcsEvents(content);
+      if (events.length === 0) {
+        Alert.alert('No Events Found', 'This calendar file does not contain any events.');
+        return;
+      }
+
+      setPreviewItems(buildIcsImportPreview(events, tasks, getDayKey()));
+    } catch (error: any) {
+      Alert.alert('Import Failed', error.message || 'Failed to read the calendar file.');
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    let added = 0;
+    let queued = 0;
+    const failures: string[] = [];
+
+    try {
+      // Add one at a time so a failure doesn't stop the rest of the import
+      for (const item of itemsToImport) {
+        const result = await dispatch(runOrQueueOperation({ type: 'addScheduledTask', payload: { task: item.task } }));
+        if (!result.success) {
+          failures.push(`${item.task.title}: ${result.message || 'Failed to add event'}`);
+        } else if (result.queued) {
+          queued++;
+        } else {
+          added++;
+        }
+      }
+    } finally {
+      setImporting(false);
+    }
+
+    const summary = [`${added} event${added === 1 ? '' : 's'} imported.`];
+    if (queued > 0) {
+      summary.push(`${queued} will be added when you reconnect.`);
+    }
+    if (failures.length > 0) {
+      summary.push(`\nCould not import:\n${failures.join('\n')}`);
+    }
+
+    Alert.alert('Import Complete', summary.join(' '));
+    if (failures.length === 0) {
+      handleClose();
+    }
+  };
+
+  const styles = StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+      width: '90%',
+      maxHeight: '80%',
+      backgroundColor: colors.cardBackground || colors.surface,
+      borderRadius: 16,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.medium,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: Theme.Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingBottom: Theme.Spacing.sm,
+    },
+    title: {
+      ...Theme.Typography.h3,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    closeButton: {
+      padding: Theme.Spacing.xs,
+    },
+    description: {
+      ...Theme.Typography.body,
+      color: colors.textSecondary,
+      marginBottom: Theme.Spacing.md,
+    },
+    actionButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: Theme.Spacing.sm,
+      marginBottom: Theme.Spacing.sm,
+    },
+    secondaryButton: {
+      backgroundColor: 'transparent',
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    actionButtonText: {
+      ...Theme.Typography.body,
+      color: colors.textLight,
+      fontWeight: '600',
+      marginLeft: Theme.Spacing.xs,
+    },
+    secondaryButtonText: {
+      color: colors.primary,
+    },
+    previewSummary: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      fontWeight: '500',
+      marginBottom: Theme.Spacing.sm,
+    },
+    previewItem: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      paddingVertical: Theme.Spacing.sm,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    previewText: {
+      flex: 1,
+      marginLeft: Theme.Spacing.sm,
+    },
+    previewTitle: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      fontWeight: '500',
+    },
+    previewSkipped: {
+      color: colors.textSecondary,
+      textDecorationLine: 'line-through',
+    },
+    previewDetail: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+    },
+    previewWarning: {
+      ...Theme.Typography.caption,
+      color: colors.warning,
+    },
+    footer: {
+      marginTop: Theme.Spacing.md,
+    },
+  });
+
+  const renderPreview = (items: IcsImportItem[]) => (
+    <>
+      <Text style={styles.previewSummary}>
+        {itemsToImport.length} of {items.length} event{items.length === 1 ? '' : 's'} will be added
+      </Text>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        {items.map((item, index) => (
+          <View key={`${item.uid}-${index}`} style={styles.previewItem}>
+            <MaterialIcons
+              name={item.skipReason ? 'block' : 'add-circle-outline'}
+              size={20}
+              color={item.skipReason ? colors.textSecondary : colors.success}
+            />
+            <View style={styles.previewText}>
+              <Text style={[styles.previewTitle, item.skipReason ? styles.previewSkipped : null]}>
+                {item.task.title}
+              </Text>
+              <Text style={styles.previewDetail}>{describeImportItem(item)}</Text>
+              {item.skipReason && <Text style={styles.previewDetail}>Skipped: {item.skipReason}</Text>}
+              {item.warning && <Text style={styles.previewWarning}>{item.warning}</Text>}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={handleImport}
+          disabled={importing || itemsToImport.length === 0}
+        >
+          {importing ? (
+            <ActivityIndicator size="small" color={colors.textLight} />
+          ) : (
+            <>
+              <MaterialIcons name="file-download" size={20} color={colors.textLight} />
+              <Text style={styles.actionButtonText}>
+                Import {itemsToImport.length} Event{itemsToImport.length === 1 ? '' : 's'}
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.secondaryButton]}
+          onPress={() => setPreviewItems(null)}
+          disabled={importing}
+        >
+          <Text style={[styles.actionButtonText, styles.secondaryButtonText]}>Back</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{previewItems ? 'Import Preview' : 'Calendar Files'}</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+              <MaterialIcons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {previewItems ? renderPreview(previewItems) : (
+            <>
+              <Text style={styles.description}>
+                Share your events with other calendar apps, or bring events in from an .ics file.
+                Events that were already imported are skipped.
+              </Text>
+              <TouchableOpacity style={styles.actionButton} onPress={handleExport} disabled={exporting}>
+                {exporting ? (
+                  <ActivityIndicator size="small" color={colors.textLight} />
+                ) : (
+                  <>
+                    <MaterialIcons name="ios-share" size={20} color={colors.textLight} />
+                    <Text style={styles.actionButtonText}>Export {tasks.length} Events (.ics)</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.actionButton, styles.secondaryButton]} onPress={handlePickFile}>
+                <MaterialIcons name="event-note" size={20} color={colors.primary} />
+                <Text style={[styles.actionButtonText, styles.secondaryButtonText]}>Import from .ics File</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default CalendarImportExportModal;
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import { FIREBASE_AUTH } from '../../FirebaseConfig';
+import { applyDaySettings, loadCachedDaySettings, saveDaySettings, subscribeToDaySettings } from '../utils/daySettings';
+
+/**
+ * DaySettingsManager
+ *
+ * Keeps the day settings used by getDayKey in step with the signed-in user's
+ * time zone and day start hour. Accounts without a stored time zone get the
+ * device's, so their days stay put when they travel.
+ *
+ * This is a "headless" component that doesn't render anything visible.
+ */
+const DaySettingsManager = () => {
+  useEffect(() => {
+    loadCachedDaySettings();
+
+    let unsubscribeSettings = () => {};
+    const unsubscribeAuth = onAuthStateChanged(FIREBASE_AUTH, (user) => {
+      unsubscribeSettings();
+      unsubscribeSettings = () => {};
+      if (!user) return;
+
+      unsubscribeSettings = subscribeToDaySettings((settings, stored) => {
+        applyDaySettings(settings);
+        if (!stored) {
+          saveDaySettings(settings);
+        }
+      });
+    });
+
+    return () => {
+      unsubscribeAuth();
+      unsubscribeSettings();
+    };
+  }, []);
+
+  // This component doesn't render anything visible
+  return null;
+};
+
+export default DaySettingsManager;
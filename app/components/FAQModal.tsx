@@ -36,6 +36,21 @@ const FAQModal: React.FC<FAQModalProps> = ({ visible, onClose }) => {
       answer: "When you complete a task, you earn XP based on the task's difficulty. Your streak counter increases, and the task is marked as complete in your history. For recurring tasks, they'll reset the next day so you can build consistent habits.",
       userJourney: "Tap confirm to complete task → Earn XP → Task moves to completed section"
     },
+    {
+      question: "What if I miss a day of my streak?",
+      answer: "For every 500 XP you earn a streak freeze, which automatically covers a missed day so your streak keeps going. Tasks completed shortly after your day starts can also count for the day before; set how long this grace period lasts in Settings. Tap the streak on your Dashboard to see which days were protected.",
+      userJourney: "Earn XP → Collect streak freezes → Miss a day → Freeze keeps your streak alive"
+    },
+    {
+      question: "I work nights or travel. When does my day end?",
+      answer: "By default your day ends at midnight in the time zone you signed up in. In Settings, choose Day Starts At to have a late night count for the day before, for example until 4 AM. Your time zone stays the same while you travel so your XP and streak land on the right day; switch it in Settings under Time Zone if you move.",
+      userJourney: "Settings → Day Starts At → Pick an hour → Tasks and XP roll over at that hour"
+    },
+    {
+      question: "What happens to my tasks when I don't open the app for a few days?",
+      answer: "Each new day your recurring tasks due that day are reset, finished one-off tasks are archived and today's XP starts at zero. If the app was closed, the days you missed are caught up in order the next time you open it, on whichever device you use, and each day is only ever rolled over once.",
+      userJourney: "Open the app → Missed days are rolled over → Today's tasks are ready"
+    },
     {
       question: "How do I save my mood for the day?",
       answer: "You can select your mood in the Journal section each day. This allows you to track how your emotional state aligns with your habits and productivity over time.",
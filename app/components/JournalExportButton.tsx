@@ -12,7 +12,7 @@ import {
 import { MaterialIcons } from '@expo/vector-icons';
 import Theme from '../styles/theme';
 import { FIREBASE_AUTH } from '../../FirebaseConfig';
-import { exportJournalToText, exportSingleJournalEntryToText, downloadJournalAsTextFile } from '../utils/journalExport';
+import { JournalExportFormat, exportJournal, downloadJournal, getJournalExporters } from '../utils/journalExport';
 import moment from 'moment';
 
 interface JournalExportButtonProps {
@@ -28,8 +28,37 @@ const JournalExportButton: React.FC<JournalExportButtonProps> = ({ style, asMenu
   const [endDate, setEndDate] = useState('');
   const [specificDate, setSpecificDate] = useState('');
   const [exportMode, setExportMode] = useState<'all' | 'range' | 'specific'>('all');
+  const [format, setFormat] = useState<JournalExportFormat | string>('text');
 
   const user = FIREBASE_AUTH.currentUser;
+  const exporters = getJournalExporters();
+  const selectedExporter = exporters.find(exporter => exporter.format === format) || exporters[0];
+
+  // Resolve the selected mode into a validated [startDate, endDate] pair
+  const getExportRange = (): [string?, string?] => {
+    if (exportMode === 'specific' && specificDate) {
+      // Validate date format
+      if (!moment(specificDate, 'YYYY-MM-DD', true).isValid()) {
+        throw new Error('Invalid date format. Please use YYYY-MM-DD format.');
+      }
+      // Export just the single date by setting both start and end date to the same value
+      return [specificDate, specificDate];
+    }
+
+    if (exportMode === 'range') {
+      // Validate date formats
+      if (startDate && !moment(startDate, 'YYYY-MM-DD', true).isValid()) {
+        throw new Error('Invalid start date format. Please use YYYY-MM-DD format.');
+      }
+      if (endDate && !moment(endDate, 'YYYY-MM-DD', true).isValid()) {
+        throw new Error('Invalid end date format. Please use YYYY-MM-DD format.');
+      }
+      return [startDate || undefined, endDate || undefined];
+    }
+
+    // Export all
+    return [];
+  };
 
   const handleExport = async () => {
     if (!user) {
@@ -39,25 +68,8 @@ const JournalExportButton: React.FC<JournalExportButtonProps> = ({ style, asMenu
 
     setShareLoading(true);
     try {
-      if (exportMode === 'specific' && specificDate) {
-        // Validate date format
-        if (!moment(specificDate, 'YYYY-MM-DD', true).isValid()) {
-          throw new Error('Invalid date format. Please use YYYY-MM-DD format.');
-        }
-        await exportSingleJournalEntryToText(user.uid, specificDate);
-      } else if (exportMode === 'range') {
-        // Validate date formats
-        if (startDate && !moment(startDate, 'YYYY-MM-DD', true).isValid()) {
-          throw new Error('Invalid start date format. Please use YYYY-MM-DD format.');
-        }
-        if (endDate && !moment(endDate, 'YYYY-MM-DD', true).isValid()) {
-          throw new Error('Invalid end date format. Please use YYYY-MM-DD format.');
-        }
-        await exportJournalToText(user.uid, startDate, endDate);
-      } else {
-        // Export all
-        await exportJournalToText(user.uid);
-      }
+      const [rangeStart, rangeEnd] = getExportRange();
+      await exportJournal(user.uid, selectedExporter.format, rangeStart, rangeEnd);
       setModalVisible(false);
     } catch (error: any) {
       Alert.alert('Export Failed', error.message || 'Failed to export journal data.');
@@ -66,6 +78,24 @@ const JournalExportButton: React.FC<JournalExportButtonProps> = ({ style, asMenu
     }
   };
 
+  const handleDownload = async () => {
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to export journal data.');
+      return;
+    }
+
+    setDownloadLoading(true);
+    try {
+      const [rangeStart, rangeEnd] = getExportRange();
+      await downloadJournal(user.uid, selectedExporter.format, rangeStart, rangeEnd);
+      setModalVisible(false);
+    } catch (error: any) {
+      Alert.alert('Download Failed', error.message || 'Failed to download journal data.');
+    } finally {
+      setDownloadLoading(false);
+    }
+  };
+
   return (
     <>
       {asMenuItem ? (
@@ -173,6 +203,22 @@ const JournalExportButton: React.FC<JournalExportButtonProps> = ({ style, asMenu
               </View>
             )}
 
+            <Text style={styles.sectionLabel}>Format</Text>
+            <View style={styles.formatOptions}>
+              {exporters.map(exporter => (
+                <TouchableOpacity
+                  key={exporter.format}
+                  style={[
+                    styles.formatChip,
+                    exporter.format === selectedExporter.format && styles.selectedOption
+                  ]}
+                  onPress={() => setFormat(exporter.format)}
+                >
+                  <Text style={styles.optionText}>{exporter.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
             <View style={styles.exportButtonsContainer}>
               <TouchableOpacity
                 style={styles.exportActionButton}
@@ -184,44 +230,14 @@ const JournalExportButton: React.FC<JournalExportButtonProps> = ({ style, asMenu
                 ) : (
                   <>
                     <MaterialIcons name="share" size={20} color="#fff" />
-                    <Text style={styles.exportActionButtonText}>Share as Text</Text>
+                    <Text style={styles.exportActionButtonText}>Share as {selectedExporter.label}</Text>
                   </>
                 )}
               </TouchableOpacity>
               
               <TouchableOpacity
                 style={[styles.exportActionButton, styles.downloadButton]}
-                onPress={async () => {
-                  if (!user) {
-                    Alert.alert('Error', 'You must be logged in to export journal data.');
-                    return;
-                  }
-                  
-                  setDownloadLoading(true);
-                  try {
-                    if (exportMode === 'specific' && specificDate) {
-                      if (!moment(specificDate, 'YYYY-MM-DD', true).isValid()) {
-                        throw new Error('Invalid date format. Please use YYYY-MM-DD format.');
-                      }
-                      await downloadJournalAsTextFile(user.uid, specificDate);
-                    } else if (exportMode === 'range') {
-                      if (startDate && !moment(startDate, 'YYYY-MM-DD', true).isValid()) {
-                        throw new Error('Invalid start date format. Please use YYYY-MM-DD format.');
-                      }
-                      if (endDate && !moment(endDate, 'YYYY-MM-DD', true).isValid()) {
-                        throw new Error('Invalid end date format. Please use YYYY-MM-DD format.');
-                      }
-                      await downloadJournalAsTextFile(user.uid, startDate, endDate);
-                    } else {
-                      await downloadJournalAsTextFile(user.uid);
-                    }
-                    setModalVisible(false);
-                  } catch (error: any) {
-                    Alert.alert('Download Failed', error.message || 'Failed to download journal data.');
-                  } finally {
-                    setDownloadLoading(false);
-                  }
-                }}
+                onPress={handleDownload}
                 disabled={shareLoading || downloadLoading}
               >
                 {downloadLoading ? (
@@ -229,14 +245,14 @@ const JournalExportButton: React.FC<JournalExportButtonProps> = ({ style, asMenu
                 ) : (
                   <>
                     <MaterialIcons name="file-download" size={20} color="#fff" />
-                    <Text style={styles.exportActionButtonText}>Download as .txt</Text>
+                    <Text style={styles.exportActionButtonText}>Download as .{selectedExporter.extension}</Text>
                   </>
                 )}
               </TouchableOpacity>
             </View>
 
             <Text style={styles.helpText}>
-              The exported file will be saved as a text file and shared using your device's sharing options.
+              The exported file will be saved as a {selectedExporter.label} file and shared using your device's sharing options.
             </Text>
           </View>
         </View>
@@ -288,6 +304,21 @@ const styles = StyleSheet.create({
     ...Theme.Typography.body,
     fontWeight: '500',
   },
+  sectionLabel: {
+    ...Theme.ComponentStyles.formLabel,
+  },
+  formatOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Theme.Spacing.sm,
+    marginBottom: Theme.Spacing.md,
+  },
+  formatChip: {
+    paddingVertical: Theme.Spacing.xs,
+    paddingHorizontal: Theme.Spacing.md,
+    borderRadius: Theme.Layout.radiusMd,
+    backgroundColor: Theme.Colors.surfaceHover,
+  },
   dateInputs: {
     marginBottom: Theme.Spacing.md,
   },
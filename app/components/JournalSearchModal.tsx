@@ -0,0 +1,338 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import moment from 'moment';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import {
+  HighlightSegment,
+  JournalSearchIndex,
+  JournalSearchResult,
+  searchJournal,
+} from '../utils/journalSearch';
+import { findMood } from '../utils/moodPalette';
+import { MoodDefinition } from '../types';
+
+interface JournalSearchModalProps {
+  visible: boolean;
+  onClose: () => void;
+  index: JournalSearchIndex;
+  // Bumped by the parent whenever the index is updated in place
+  indexVersion: number;
+  moods: MoodDefinition[];
+  onSelectResult: (date: string) => void;
+}
+
+const isValidFilterDate = (value: string) => !value || moment(value, 'YYYY-MM-DD', true).isValid();
+
+const JournalSearchModal: React.FC<JournalSearchModalProps> = ({
+  visible,
+  onClose,
+  index,
+  indexVersion,
+  moods,
+  onSelectResult,
+}) => {
+  const { colors } = useTheme();
+  const [queryText, setQueryText] = useState('');
+  const [moodFilter, setMoodFilter] = useState<string | undefined>(undefined);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+
+  const datesValid = isValidFilterDate(startDate) && isValidFilterDate(endDate);
+  const hasCriteria = queryText.trim().length > 0 || !!moodFilter || !!startDate || !!endDate;
+
+  const results = useMemo<JournalSearchResult[]>(() => {
+    if (!visible || !hasCriteria || !datesValid) return [];
+    return searchJournal(index, queryText, {
+      mood: moodFilter,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+    });
+  }, [visible, index, indexVersion, queryText, moodFilter, startDate, endDate, hasCriteria, datesValid]);
+
+  const styles = StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+      width: '92%',
+      height: '85%',
+      backgroundColor: colors.cardBackground || colors.surface,
+      borderRadius: 16,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.medium,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: Theme.Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingBottom: Theme.Spacing.sm,
+    },
+    title: {
+      ...Theme.Typography.h3,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    closeButton: {
+      padding: Theme.Spacing.xs,
+    },
+    searchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingHorizontal: Theme.Spacing.sm,
+      backgroundColor: colors.surface,
+    },
+    searchInput: {
+      flex: 1,
+      ...Theme.Typography.body,
+      color: colors.text,
+      paddingVertical: Theme.Spacing.sm,
+      marginLeft: Theme.Spacing.xs,
+    },
+    filterToggle: {
+      padding: Theme.Spacing.xs,
+    },
+    filters: {
+      marginTop: Theme.Spacing.sm,
+    },
+    moodChips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: Theme.Spacing.xs,
+      marginBottom: Theme.Spacing.sm,
+    },
+    moodChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 16,
+      paddingVertical: 4,
+      paddingHorizontal: Theme.Spacing.sm,
+    },
+    moodChipText: {
+      ...Theme.Typography.caption,
+      color: colors.text,
+      marginLeft: 4,
+    },
+    dateRow: {
+      flexDirection: 'row',
+      gap: Theme.Spacing.sm,
+    },
+    dateInput: {
+      flex: 1,
+      ...Theme.Typography.body,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingHorizontal: Theme.Spacing.sm,
+      paddingVertical: Theme.Spacing.xs,
+    },
+    errorText: {
+      ...Theme.Typography.caption,
+      color: colors.error,
+      marginTop: Theme.Spacing.xs,
+    },
+    resultCount: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginVertical: Theme.Spacing.sm,
+    },
+    resultItem: {
+      paddingVertical: Theme.Spacing.sm,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    resultHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 4,
+    },
+    resultDate: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    resultMood: {
+      ...Theme.Typography.caption,
+      fontWeight: '600',
+    },
+    resultThought: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      fontStyle: 'italic',
+      marginBottom: 2,
+    },
+    resultEntry: {
+      ...Theme.Typography.body,
+      color: colors.textSecondary,
+    },
+    highlight: {
+      backgroundColor: colors.warning + '55',
+      color: colors.text,
+      fontWeight: '600',
+    },
+    emptyText: {
+      ...Theme.Typography.body,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: Theme.Spacing.lg,
+    },
+  });
+
+  const renderSegments = (segments: HighlightSegment[]) =>
+    segments.map((segment, segmentIndex) => (
+      <Text key={segmentIndex} style={segment.match ? styles.highlight : undefined}>
+        {segment.text}
+      </Text>
+    ));
+
+  const renderResult = ({ item }: { item: JournalSearchResult }) => {
+    const moodInfo = findMood(item.mood, moods);
+    return (
+      <TouchableOpacity style={styles.resultItem} onPress={() => onSelectResult(item.date)}>
+        <View style={styles.resultHeader}>
+          <Text style={styles.resultDate}>{moment(item.date, 'YYYY-MM-DD').format('ddd, MMM D, YYYY')}</Text>
+          {moodInfo && (
+            <Text style={[styles.resultMood, { color: moodInfo.color }]}>
+              {moodInfo.emoji} {moodInfo.label}
+            </Text>
+          )}
+        </View>
+        {item.thought.length > 0 && (
+          <Text style={styles.resultThought} numberOfLines={2}>"{renderSegments(item.thought)}"</Text>
+        )}
+        {item.entry.length > 0 && (
+          <Text style={styles.resultEntry} numberOfLines={3}>{renderSegments(item.entry)}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Search Journal</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <MaterialIcons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.searchRow}>
+            <MaterialIcons name="search" size={20} color={colors.textSecondary} />
+            <TextInput
+              style={styles.searchInput}
+              value={queryText}
+              onChangeText={setQueryText}
+              placeholder="Search thoughts and entries"
+              placeholderTextColor={colors.textSecondary}
+              autoFocus
+              autoCorrect={false}
+              returnKeyType="search"
+            />
+            {queryText.length > 0 && (
+              <TouchableOpacity style={styles.filterToggle} onPress={() => setQueryText('')}>
+                <MaterialIcons name="clear" size={20} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.filterToggle} onPress={() => setShowFilters(!showFilters)}>
+              <MaterialIcons
+                name="filter-list"
+                size={22}
+                color={showFilters || moodFilter || startDate || endDate ? colors.primary : colors.textSecondary}
+              />
+            </TouchableOpacity>
+          </View>
+
+          {showFilters && (
+            <View style={styles.filters}>
+              <View style={styles.moodChips}>
+                {moods.map(m => {
+                  const selected = moodFilter === m.label;
+                  return (
+                    <TouchableOpacity
+                      key={m.label}
+                      style={[styles.moodChip, selected && { backgroundColor: `${m.color}30`, borderColor: m.color }]}
+                      onPress={() => setMoodFilter(selected ? undefined : m.label)}
+                    >
+                      <Text>{m.emoji}</Text>
+                      <Text style={styles.moodChipText}>{m.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <View style={styles.dateRow}>
+                <TextInput
+                  style={styles.dateInput}
+                  value={startDate}
+                  onChangeText={setStartDate}
+                  placeholder="From (YYYY-MM-DD)"
+                  placeholderTextColor={colors.textSecondary}
+                />
+                <TextInput
+                  style={styles.dateInput}
+                  value={endDate}
+                  onChangeText={setEndDate}
+                  placeholder="To (YYYY-MM-DD)"
+                  placeholderTextColor={colors.textSecondary}
+                />
+              </View>
+              {!datesValid && (
+                <Text style={styles.errorText}>Dates must use the YYYY-MM-DD format.</Text>
+              )}
+            </View>
+          )}
+
+          {hasCriteria && datesValid && (
+            <Text style={styles.resultCount}>
+              {results.length} matching entr{results.length === 1 ? 'y' : 'ies'} of {index.entries.size}
+            </Text>
+          )}
+
+          <FlatList
+            data={results}
+            keyExtractor={item => item.date}
+            renderItem={renderResult}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>
+                {hasCriteria ? 'No entries match your search.' : 'Type a word or pick a filter to search your journal.'}
+              </Text>
+            }
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default JournalSearchModal;
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import { FIREBASE_AUTH } from '../../FirebaseConfig';
+import LevelUpAnimation from './LevelUpAnimation';
+import { getLevelTitle, recordLevelUps, subscribeToLevelProgress } from '../utils/leveling';
+
+/**
+ * LevelUpManager
+ *
+ * Watches the signed-in user's level and records every new level in their level
+ * history. The level-up animation only plays on the device that records the level,
+ * so each level is celebrated exactly once across all devices.
+ */
+const LevelUpManager = () => {
+  const [celebratedLevel, setCelebratedLevel] = useState<number | null>(null);
+
+  useEffect(() => {
+    let unsubscribeProgress: (() => void) | null = null;
+    let lastCheckedLevel = 0;
+
+    const unsubscribeAuth = onAuthStateChanged(FIREBASE_AUTH, (user) => {
+      unsubscribeProgress?.();
+      unsubscribeProgress = null;
+      lastCheckedLevel = 0;
+      if (!user) return;
+
+      unsubscribeProgress = subscribeToLevelProgress(async (progress) => {
+        // Only a level higher than any seen this session can be new
+        if (progress.levelInfo.level <= lastCheckedLevel) return;
+        lastCheckedLevel = progress.levelInfo.level;
+
+        const level = await recordLevelUps(progress);
+        if (level !== null) {
+          setCelebratedLevel(level);
+        }
+      });
+    });
+
+    return () => {
+      unsubscribeAuth();
+      unsubscribeProgress?.();
+    };
+  }, []);
+
+  return (
+    <LevelUpAnimation
+      visible={celebratedLevel !== null}
+      level={celebratedLevel || 0}
+      title={celebratedLevel !== null ? getLevelTitle(celebratedLevel) : undefined}
+      onAnimationEnd={() => setCelebratedLevel(null)}
+    />
+  );
+};
+
+export default LevelUpManager;
@@ -0,0 +1,345 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import { MoodDefinition } from '../types';
+import {
+  DEFAULT_MOOD_PALETTE,
+  MAX_MOOD_VALENCE,
+  MAX_PALETTE_SIZE,
+  MIN_MOOD_VALENCE,
+  MOOD_COLOR_OPTIONS,
+  saveMoodPalette,
+  validateMoodPalette,
+} from '../utils/moodPalette';
+
+interface MoodPaletteModalProps {
+  visible: boolean;
+  onClose: () => void;
+  palette: MoodDefinition[];
+}
+
+const VALENCE_OPTIONS = Array.from(
+  { length: MAX_MOOD_VALENCE - MIN_MOOD_VALENCE + 1 },
+  (_, index) => MIN_MOOD_VALENCE + index
+);
+
+const formatValence = (valence: number) => (valence > 0 ? `+${valence}` : `${valence}`);
+
+const MoodPaletteModal: React.FC<MoodPaletteModalProps> = ({ visible, onClose, palette }) => {
+  const { colors } = useTheme();
+  const [draft, setDraft] = useState<MoodDefinition[]>(palette);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved palette every time the editor opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(palette);
+    }
+  }, [visible]);
+
+  const updateMood = (index: number, updates: Partial<MoodDefinition>) => {
+    setDraft(prev => prev.map((mood, i) => (i === index ? { ...mood, ...updates } : mood)));
+  };
+
+  const removeMood = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addMood = () => {
+    setDraft(prev => [
+      ...prev,
+      { label: '', emoji: '🙂', color: MOOD_COLOR_OPTIONS[prev.length % MOOD_COLOR_OPTIONS.length], valence: 0 },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const errors = validateMoodPalette(draft);
+    if (errors.length > 0) {
+      Alert.alert('Check Your Moods', errors.join('\n'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveMoodPalette(draft);
+      if (result.success) {
+        onClose();
+      } else {
+        Alert.alert('Error', result.message);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+      width: '92%',
+      maxHeight: '85%',
+      backgroundColor: colors.cardBackground || colors.surface,
+      borderRadius: 16,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.medium,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: Theme.Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingBottom: Theme.Spacing.sm,
+    },
+    title: {
+      ...Theme.Typography.h3,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    closeButton: {
+      padding: Theme.Spacing.xs,
+    },
+    description: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginBottom: Theme.Spacing.sm,
+    },
+    moodCard: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      padding: Theme.Spacing.sm,
+      marginBottom: Theme.Spacing.sm,
+    },
+    moodRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    emojiInput: {
+      width: 48,
+      fontSize: 24,
+      textAlign: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingVertical: 4,
+      color: colors.text,
+    },
+    labelInput: {
+      flex: 1,
+      ...Theme.Typography.body,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingHorizontal: Theme.Spacing.sm,
+      paddingVertical: Theme.Spacing.xs,
+      marginHorizontal: Theme.Spacing.sm,
+    },
+    sectionLabel: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginTop: Theme.Spacing.sm,
+      marginBottom: 4,
+    },
+    swatchRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    swatch: {
+      width: 24,
+      height: 24,
+      borderRadius: 12,
+      borderWidth: 2,
+      borderColor: 'transparent',
+    },
+    swatchSelected: {
+      borderColor: colors.text,
+    },
+    valenceRow: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    valenceOption: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 4,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    valenceText: {
+      ...Theme.Typography.caption,
+      color: colors.text,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: Theme.Spacing.sm,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.primary,
+      borderRadius: 8,
+    },
+    addButtonText: {
+      ...Theme.Typography.body,
+      color: colors.primary,
+      marginLeft: Theme.Spacing.xs,
+    },
+    footer: {
+      flexDirection: 'row',
+      marginTop: Theme.Spacing.md,
+      gap: Theme.Spacing.sm,
+    },
+    footerButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: Theme.Spacing.sm,
+      borderRadius: 8,
+    },
+    resetButton: {
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    resetButtonText: {
+      ...Theme.Typography.body,
+      color: colors.text,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+    },
+    saveButtonText: {
+      ...Theme.Typography.body,
+      color: colors.textLight,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Customize Moods</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <MaterialIcons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.description}>
+            Feeling sets where a mood sits on your mood chart, from {MIN_MOOD_VALENCE} (rough) to +{MAX_MOOD_VALENCE} (great).
+            Removing a mood doesn't change past entries.
+          </Text>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {draft.map((mood, index) => (
+              <View key={index} style={styles.moodCard}>
+                <View style={styles.moodRow}>
+                  <TextInput
+                    style={styles.emojiInput}
+                    value={mood.emoji}
+                    onChangeText={emoji => updateMood(index, { emoji })}
+                    maxLength={8}
+                  />
+                  <TextInput
+                    style={styles.labelInput}
+                    value={mood.label}
+                    onChangeText={label => updateMood(index, { label })}
+                    placeholder="Mood name"
+                    placeholderTextColor={colors.textSecondary}
+                    maxLength={20}
+                  />
+                  <TouchableOpacity onPress={() => removeMood(index)} disabled={draft.length <= 1}>
+                    <MaterialIcons
+                      name="delete-outline"
+                      size={22}
+                      color={draft.length <= 1 ? colors.border : colors.error}
+                    />
+                  </TouchableOpacity>
+                </View>
+
+                <Text style={styles.sectionLabel}>Colour</Text>
+                <View style={styles.swatchRow}>
+                  {MOOD_COLOR_OPTIONS.map(color => (
+                    <TouchableOpacity
+                      key={color}
+                      style={[styles.swatch, { backgroundColor: color }, mood.color === color && styles.swatchSelected]}
+                      onPress={() => updateMood(index, { color })}
+                    />
+                  ))}
+                </View>
+
+                <Text style={styles.sectionLabel}>Feeling</Text>
+                <View style={styles.valenceRow}>
+                  {VALENCE_OPTIONS.map(valence => {
+                    const selected = mood.valence === valence;
+                    return (
+                      <TouchableOpacity
+                        key={valence}
+                        style={[styles.valenceOption, selected && { backgroundColor: `${mood.color}30`, borderColor: mood.color }]}
+                        onPress={() => updateMood(index, { valence })}
+                      >
+                        <Text style={styles.valenceText}>{formatValence(valence)}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+
+            {draft.length < MAX_PALETTE_SIZE && (
+              <TouchableOpacity style={styles.addButton} onPress={addMood}>
+                <MaterialIcons name="add" size={20} color={colors.primary} />
+                <Text style={styles.addButtonText}>Add Mood</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.footerButton, styles.resetButton]}
+              onPress={() => setDraft(DEFAULT_MOOD_PALETTE)}
+              disabled={saving}
+            >
+              <Text style={styles.resetButtonText}>Use Defaults</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.footerButton, styles.saveButton]} onPress={handleSave} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.textLight} />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default MoodPaletteModal;
@@ -30,6 +30,23 @@ const NetworkMonitor: React.FC = () => {
     }
   }, [isConnected, pendingOperations.length, dispatch]);
 
+  // Schedule the next replay when the oldest failed operation's backoff expires
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const retryTimes = pendingOperations
+      .map(op => op.nextAttemptAt)
+      .filter((time): time is number => typeof time === 'number');
+    if (retryTimes.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...retryTimes) - Date.now());
+    const timer = setTimeout(() => {
+      dispatch(syncPendingOperations());
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [isConnected, pendingOperations, dispatch]);
+
   // Always return null to disable the offline banner UI
   return null;
 };
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState } from 'react';
 
 import {
   View,
@@ -12,9 +12,9 @@ import { MaterialIcons } from '@expo/vector-icons';
 import OfflineStatusIcon from './OfflineStatusIcon';
 import ProfilePictureSelector from './ProfilePictureSelector';
 import { Colors, Typography, Spacing, GlobalStyles, Layout } from '../styles/global';
-import LevelUpAnimation from './LevelUpAnimation';
 import { FIREBASE_AUTH, FIREBASE_DB } from '../../FirebaseConfig';
 import { getTotalXPFromBank, getTodayXPFromBank } from '../utils/firebaseService';
+import { getLevelTitle, subscribeToLevelProgress } from '../utils/leveling';
 import { DrawerContentComponentProps } from '@react-navigation/drawer';
 import {
   collection,
@@ -37,6 +37,7 @@ interface UserStats {
   totalXP: number;
   todayXP: number;
   level: number;
+  levelTitle: string;
   levelProgress: number;
   nextLevelXP: number;
   weightedPoints: number;
@@ -48,34 +49,6 @@ interface UserProfile {
   profilePictureId: string | null;
 }
 
-type LevelInfo = { 
-  level: number;
-  progress: number; // value between 0 and 1
-  currentLevelXP: number;
-  nextLevelXP: number;
-};
-
-// Weighted blend level calculation (60% XP, 40% task count)
-const getLevelInfo = (totalPoints: number, taskCount: number = 0): LevelInfo => {
-  // Calculate the weighted score using 60% XP and 40% task count
-  const weightedScore = (totalPoints * 0.6 + taskCount * 40) / 10;
-  const level = Math.floor(Math.sqrt(weightedScore));
-  
-  // Calculate the current and next level thresholds based on the weighted formula
-  const currentLevelThreshold = (level ** 2) * 10;
-  const nextLevelThreshold = ((level + 1) ** 2) * 10;
-  
-  // Calculate progress to next level
-  const progress = (weightedScore * 10 - currentLevelThreshold) / (nextLevelThreshold - currentLevelThreshold);
-
-  return {
-    level,
-    progress: Math.min(Math.max(progress, 0), 1), // clamp between 0 and 1
-    currentLevelXP: Math.round(currentLevelThreshold),
-    nextLevelXP: Math.round(nextLevelThreshold),
-  };
-};
-
 const menuItems: MenuItem[] = [
   { name: 'Dashboard', icon: 'dashboard' },
   { name: 'ManageTasks', icon: 'list', label: 'Tasks' },
@@ -87,23 +60,13 @@ const menuItems: MenuItem[] = [
   { name: 'Settings', icon: 'settings' },
 ];
 
-// Legacy level calculation - replaced by getLevelInfo
-const calculateLevel = (xp: number): number => {
-  return Math.floor(Math.sqrt(xp / 100)) + 1;
-};
-
 const Sidebar: React.FC<DrawerContentComponentProps> = ({ navigation, state }) => {
-  const [showLevelUp, setShowLevelUp] = useState(false);
-  const prevLevel = useRef(1);
-  // Local states to always have the latest values
-  const [localTotalXP, setLocalTotalXP] = useState(0);
-  const [localCompletedTasks, setLocalCompletedTasks] = useState(0);
-
   const { stats: contextStats } = require('../contexts/StatsContext').useStats ? require('../contexts/StatsContext').useStats() : { stats: null };
 const [stats, setStats] = useState<UserStats>({
   totalXP: 0,
   todayXP: 0,
   level: 1,
+  levelTitle: getLevelTitle(1),
   levelProgress: 0,
   nextLevelXP: 10,
   weightedPoints: 0,
@@ -123,9 +86,6 @@ const [xpLoading, setXPLoading] = useState(false);
 
   useEffect(() => {
     if (!user) return;
-    // Local states for XP/tasks
-    setLocalTotalXP(0);
-    setLocalCompletedTasks(0);
     // Load user profile information (one-time fetch)
     const loadUserProfile = async () => {
       try {
@@ -151,74 +111,23 @@ const [xpLoading, setXPLoading] = useState(false);
     };
     loadUserProfile();
     setXPLoading(true);
-    // Real-time XP and task stats
-    const xpBankRef = collection(FIREBASE_DB, 'users', user.uid, 'xpBank');
-    const tasksRef = collection(FIREBASE_DB, 'users', user.uid, 'tasks');
-
-    // Listen to XP bank changes
-    const unsubscribeXP = onSnapshot(xpBankRef, async (snapshot) => {
-      let totalXP = 0;
-      let daysWithXP = 0;
-      snapshot.forEach(doc => {
-        const data = doc.data();
-        if (typeof data.totalXP === 'number') {
-          totalXP += data.totalXP;
-          daysWithXP++;
-        }
-      });
-      // Fetch today's XP
+    // Real-time XP and level progress
+    const unsubscribeLevel = subscribeToLevelProgress(async (progress) => {
       const todayXP = await getTodayXPFromBank();
-      setLocalTotalXP(totalXP);
-      setStats(prev => {
-          // Use the latest completedTasks from localCompletedTasks
-          const levelInfo = getLevelInfo(totalXP, localCompletedTasks);
-          // Level-up animation trigger
-          if (levelInfo.level > prev.level) {
-            setShowLevelUp(true);
-          }
-          prevLevel.current = levelInfo.level;
-          return {
-            ...prev,
-            totalXP,
-            todayXP,
-            level: levelInfo.level,
-            levelProgress: levelInfo.progress,
-            nextLevelXP: levelInfo.nextLevelXP,
-            weightedPoints: Math.round((totalXP * 0.6 + localCompletedTasks * 40)),
-          };
-        });
-      setXPLoading(false);
-    });
-
-    // Listen to tasks changes for completedTasks and level
-    const unsubscribeTasks = onSnapshot(tasksRef, (tasksSnapshot) => {
-      let completedTasks = 0;
-      tasksSnapshot.forEach(doc => {
-        const data = doc.data();
-        if (data.status === 'completed') completedTasks++;
-      });
-      setLocalCompletedTasks(completedTasks);
-      setStats(prev => {
-        // Use latest totalXP from localTotalXP
-        const levelInfo = getLevelInfo(localTotalXP, completedTasks);
-        // Level-up animation trigger
-        if (levelInfo.level > prev.level) {
-          setShowLevelUp(true);
-        }
-        prevLevel.current = levelInfo.level;
-        return {
-          ...prev,
-          level: levelInfo.level,
-          levelProgress: levelInfo.progress,
-          nextLevelXP: levelInfo.nextLevelXP,
-          weightedPoints: Math.round((localTotalXP * 0.6 + completedTasks * 40)),
-        };
+      setStats({
+        totalXP: progress.totalXP,
+        todayXP,
+        level: progress.levelInfo.level,
+        levelTitle: progress.levelInfo.title,
+        levelProgress: progress.levelInfo.progress,
+        nextLevelXP: progress.levelInfo.nextLevelPoints,
+        weightedPoints: progress.levelInfo.points,
       });
+      setXPLoading(false);
     });
 
     return () => {
-      unsubscribeXP();
-      unsubscribeTasks();
+      unsubscribeLevel();
     };
   }, [user]);
 
@@ -238,11 +147,6 @@ const [xpLoading, setXPLoading] = useState(false);
 
   return (
     <View style={[styles.container, isSmallScreen && styles.smallScreen]}>
-      <LevelUpAnimation
-        visible={showLevelUp}
-        level={stats.level}
-        onAnimationEnd={() => setShowLevelUp(false)}
-      />
       <View style={styles.header}>
         <View style={{ flexDirection: 'row', alignItems: 'center' }}>
           <Text style={styles.title}>DailyX</Text>
@@ -276,7 +180,7 @@ const [xpLoading, setXPLoading] = useState(false);
         {/* Level Progress Bar */}
         <View style={styles.levelProgressContainer}>
           <View style={styles.levelProgressHeader}>
-            <Text style={styles.levelProgressLabel}>Level {stats.level}</Text>
+            <Text style={styles.levelProgressLabel}>Level {stats.level} · {stats.levelTitle}</Text>
             <Text style={styles.levelProgressText}>
               {Math.floor(stats.levelProgress * 100)}% to Level {stats.level + 1}
             </Text>
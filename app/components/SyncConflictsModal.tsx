@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useDispatch, useSelector } from 'react-redux';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import type { AppDispatch } from '../store/types';
+import {
+  selectSyncConflicts,
+  resolveSyncConflict,
+  ConflictChoice,
+  SyncConflict,
+} from '../store/slices/networkSlice';
+import { SubTask } from '../types';
+
+interface SyncConflictsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Human-readable labels for task fields shown in the conflict list
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  emoji: 'Emoji',
+  xp: 'XP',
+  recurring: 'Recurring',
+  subtasks: 'Subtasks',
+  pinned: 'Pinned',
+};
+
+const formatConflictValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (field === 'subtasks' && Array.isArray(value)) {
+    if (value.length === 0) return '(no subtasks)';
+    return (value as SubTask[])
+      .map(subtask => `${subtask.completed ? '✓' : '○'} ${subtask.title}`)
+      .join('\n');
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const SyncConflictsModal: React.FC<SyncConflictsModalProps> = ({ visible, onClose }) => {
+  const { colors } = useTheme();
+  const dispatch = useDispatch<AppDispatch>();
+  const conflicts = useSelector(selectSyncConflicts);
+  const [choices, setChoices] = useState<Record<string, Record<string, ConflictChoice>>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const choose = (conflictId: string, field: string, choice: ConflictChoice) => {
+    setChoices(prev => ({
+      ...prev,
+      [conflictId]: { ...prev[conflictId], [field]: choice },
+    }));
+  };
+
+  const handleApply = async (conflict: SyncConflict) => {
+    const conflictChoices = choices[conflict.id] || {};
+    const allChosen = conflict.fields.every(field => conflictChoices[field.field]);
+    if (!allChosen) {
+      Alert.alert('Choose a Version', 'Pick a version for every field before applying.');
+      return;
+    }
+
+    setResolvingId(conflict.id);
+    try {
+      const result = await dispatch(resolveSyncConflict(conflict.id, conflictChoices));
+      if (!result.success) {
+        Alert.alert('Error', result.message || 'Failed to resolve conflict');
+      }
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+      width: '90%',
+      maxHeight: '80%',
+      backgroundColor: colors.cardBackground || colors.surface,
+      borderRadius: 16,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.medium,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: Theme.Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingBottom: Theme.Spacing.sm,
+    },
+    title: {
+      ...Theme.Typography.h3,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    closeButton: {
+      padding: Theme.Spacing.xs,
+    },
+    emptyText: {
+      ...Theme.Typography.body,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      paddingVertical: Theme.Spacing.lg,
+    },
+    conflictCard: {
+      marginBottom: Theme.Spacing.lg,
+      backgroundColor: colors.background,
+      borderRadius: 12,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.small,
+    },
+    taskTitle: {
+      ...Theme.Typography.h4,
+      color: colors.primary,
+      fontWeight: '600',
+    },
+    detectedAt: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginBottom: Theme.Spacing.sm,
+    },
+    fieldLabel: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      fontWeight: '500',
+      marginTop: Theme.Spacing.sm,
+      marginBottom: Theme.Spacing.xs,
+    },
+    optionRow: {
+      flexDirection: 'row',
+    },
+    option: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: Theme.Spacing.sm,
+      marginRight: Theme.Spacing.xs,
+    },
+    optionSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.surface,
+    },
+    optionHeading: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginBottom: 2,
+    },
+    optionValue: {
+      ...Theme.Typography.body,
+      color: colors.text,
+    },
+    applyButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: Theme.Spacing.sm,
+      alignItems: 'center',
+      marginTop: Theme.Spacing.md,
+    },
+    applyButtonText: {
+      ...Theme.Typography.body,
+      color: colors.textLight,
+      fontWeight: '600',
+    },
+  });
+
+  const renderOption = (conflict: SyncConflict, field: string, choice: ConflictChoice, value: unknown) => {
+    const selected = choices[conflict.id]?.[field] === choice;
+    return (
+      <TouchableOpacity
+        style={[styles.option, selected && styles.optionSelected]}
+        onPress={() => choose(conflict.id, field, choice)}
+      >
+        <Text style={styles.optionHeading}>
+          {choice === 'local' ? 'This device' : 'Other device'}
+        </Text>
+        <Text style={styles.optionValue}>{formatConflictValue(field, value)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Sync Conflicts</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <MaterialIcons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {conflicts.length === 0 ? (
+              <Text style={styles.emptyText}>All your changes are in sync.</Text>
+            ) : (
+              conflicts.map(conflict => (
+                <View key={conflict.id} style={styles.conflictCard}>
+                  <Text style={styles.taskTitle}>{conflict.taskTitle}</Text>
+                  <Text style={styles.detectedAt}>
+                    Edited on another device · {new Date(conflict.detectedAt).toLocaleString()}
+                  </Text>
+
+                  {conflict.fields.map(fieldConflict => (
+                    <View key={fieldConflict.field}>
+                      <Text style={styles.fieldLabel}>
+                        {FIELD_LABELS[fieldConflict.field] || fieldConflict.field}
+                      </Text>
+                      <View style={styles.optionRow}>
+                        {renderOption(conflict, fieldConflict.field, 'local', fieldConflict.local)}
+                        {renderOption(conflict, fieldConflict.field, 'server', fieldConflict.server)}
+                      </View>
+                    </View>
+                  ))}
+
+                  <TouchableOpacity
+                    style={styles.applyButton}
+                    onPress={() => handleApply(conflict)}
+                    disabled={resolvingId === conflict.id}
+                  >
+                    <Text style={styles.applyButtonText}>
+                      {resolvingId === conflict.id ? 'Applying...' : 'Apply'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default SyncConflictsModal;
@@ -0,0 +1,389 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import { TaskCategory } from '../types';
+import {
+  CATEGORY_COLOR_OPTIONS,
+  CATEGORY_ICON_OPTIONS,
+  DEFAULT_TASK_CATEGORIES,
+  MAX_CATEGORIES,
+  createCategoryId,
+  saveTaskCategories,
+  validateTaskCategories,
+} from '../utils/taskCategories';
+
+interface TaskCategoriesModalProps {
+  visible: boolean;
+  onClose: () => void;
+  categories: TaskCategory[];
+}
+
+// The budget is edited as text so it can be cleared
+type CategoryDraft = TaskCategory & { budgetText: string };
+
+const toDraft = (category: TaskCategory): CategoryDraft => ({
+  ...category,
+  budgetText: category.dailyXpBudget !== undefined ? String(category.dailyXpBudget) : '',
+});
+
+const fromDraft = ({ budgetText, ...category }: CategoryDraft): TaskCategory => {
+  const budget = budgetText.trim();
+  const saved: TaskCategory = { ...category };
+  delete saved.dailyXpBudget;
+  if (budget) {
+    saved.dailyXpBudget = Number(budget);
+  }
+  return saved;
+};
+
+const TaskCategoriesModal: React.FC<TaskCategoriesModalProps> = ({ visible, onClose, categories }) => {
+  const { colors } = useTheme();
+  const [draft, setDraft] = useState<CategoryDraft[]>(categories.map(toDraft));
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved categories every time the editor opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(categories.map(toDraft));
+    }
+  }, [visible]);
+
+  const updateCategory = (index: number, updates: Partial<CategoryDraft>) => {
+    setDraft(prev => prev.map((category, i) => (i === index ? { ...category, ...updates } : category)));
+  };
+
+  const removeCategory = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addCategory = () => {
+    setDraft(prev => [
+      ...prev,
+      {
+        id: createCategoryId(),
+        name: '',
+        color: CATEGORY_COLOR_OPTIONS[prev.length % CATEGORY_COLOR_OPTIONS.length],
+        icon: CATEGORY_ICON_OPTIONS[prev.length % CATEGORY_ICON_OPTIONS.length],
+        budgetText: '',
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const cleaned = draft.map(fromDraft);
+    const errors = validateTaskCategories(cleaned);
+    if (errors.length > 0) {
+      Alert.alert('Check Your Categories', errors.join('\n'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveTaskCategories(cleaned);
+      if (result.success) {
+        onClose();
+      } else {
+        Alert.alert('Error', result.message);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+      width: '92%',
+      maxHeight: '85%',
+      backgroundColor: colors.cardBackground || colors.surface,
+      borderRadius: 16,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.medium,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: Theme.Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingBottom: Theme.Spacing.sm,
+    },
+    title: {
+      ...Theme.Typography.h3,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    closeButton: {
+      padding: Theme.Spacing.xs,
+    },
+    description: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginBottom: Theme.Spacing.sm,
+    },
+    categoryCard: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      padding: Theme.Spacing.sm,
+      marginBottom: Theme.Spacing.sm,
+    },
+    categoryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    iconPreview: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    nameInput: {
+      flex: 1,
+      ...Theme.Typography.body,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingHorizontal: Theme.Spacing.sm,
+      paddingVertical: Theme.Spacing.xs,
+      marginHorizontal: Theme.Spacing.sm,
+    },
+    sectionLabel: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginTop: Theme.Spacing.sm,
+      marginBottom: 4,
+    },
+    swatchRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    swatch: {
+      width: 24,
+      height: 24,
+      borderRadius: 12,
+      borderWidth: 2,
+      borderColor: 'transparent',
+    },
+    swatchSelected: {
+      borderColor: colors.text,
+    },
+    iconOption: {
+      width: 32,
+      height: 32,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    budgetRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    budgetInput: {
+      width: 80,
+      ...Theme.Typography.body,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingHorizontal: Theme.Spacing.sm,
+      paddingVertical: Theme.Spacing.xs,
+      textAlign: 'center',
+    },
+    budgetHint: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginLeft: Theme.Spacing.sm,
+      flex: 1,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: Theme.Spacing.sm,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.primary,
+      borderRadius: 8,
+    },
+    addButtonText: {
+      ...Theme.Typography.body,
+      color: colors.primary,
+      marginLeft: Theme.Spacing.xs,
+    },
+    footer: {
+      flexDirection: 'row',
+      marginTop: Theme.Spacing.md,
+      gap: Theme.Spacing.sm,
+    },
+    footerButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: Theme.Spacing.sm,
+      borderRadius: 8,
+    },
+    resetButton: {
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    resetButtonText: {
+      ...Theme.Typography.body,
+      color: colors.text,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+    },
+    saveButtonText: {
+      ...Theme.Typography.body,
+      color: colors.textLight,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Task Categories</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <MaterialIcons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.description}>
+            Group your tasks and see where your XP goes. A daily budget is the XP you mean to spend on a
+            category each day. Tasks in a removed category show as Uncategorized.
+          </Text>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {draft.map((category, index) => (
+              <View key={category.id} style={styles.categoryCard}>
+                <View style={styles.categoryRow}>
+                  <View style={[styles.iconPreview, { backgroundColor: `${category.color}30` }]}>
+                    <MaterialIcons
+                      name={category.icon as keyof typeof MaterialIcons.glyphMap}
+                      size={22}
+                      color={category.color}
+                    />
+                  </View>
+                  <TextInput
+                    style={styles.nameInput}
+                    value={category.name}
+                    onChangeText={name => updateCategory(index, { name })}
+                    placeholder="Category name"
+                    placeholderTextColor={colors.textSecondary}
+                    maxLength={20}
+                  />
+                  <TouchableOpacity onPress={() => removeCategory(index)}>
+                    <MaterialIcons name="delete-outline" size={22} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+
+                <Text style={styles.sectionLabel}>Colour</Text>
+                <View style={styles.swatchRow}>
+                  {CATEGORY_COLOR_OPTIONS.map(color => (
+                    <TouchableOpacity
+                      key={color}
+                      style={[styles.swatch, { backgroundColor: color }, category.color === color && styles.swatchSelected]}
+                      onPress={() => updateCategory(index, { color })}
+                    />
+                  ))}
+                </View>
+
+                <Text style={styles.sectionLabel}>Icon</Text>
+                <View style={styles.swatchRow}>
+                  {CATEGORY_ICON_OPTIONS.map(icon => {
+                    const selected = category.icon === icon;
+                    return (
+                      <TouchableOpacity
+                        key={icon}
+                        style={[styles.iconOption, selected && { backgroundColor: `${category.color}30`, borderColor: category.color }]}
+                        onPress={() => updateCategory(index, { icon })}
+                      >
+                        <MaterialIcons
+                          name={icon as keyof typeof MaterialIcons.glyphMap}
+                          size={18}
+                          color={selected ? category.color : colors.textSecondary}
+                        />
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={styles.sectionLabel}>Daily XP budget</Text>
+                <View style={styles.budgetRow}>
+                  <TextInput
+                    style={styles.budgetInput}
+                    value={category.budgetText}
+                    onChangeText={budgetText => updateCategory(index, { budgetText: budgetText.replace(/[^0-9]/g, '') })}
+                    placeholder="None"
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="numeric"
+                    maxLength={4}
+                  />
+                  <Text style={styles.budgetHint}>Leave empty for no budget</Text>
+                </View>
+              </View>
+            ))}
+
+            {draft.length < MAX_CATEGORIES && (
+              <TouchableOpacity style={styles.addButton} onPress={addCategory}>
+                <MaterialIcons name="add" size={20} color={colors.primary} />
+                <Text style={styles.addButtonText}>Add Category</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.footerButton, styles.resetButton]}
+              onPress={() => setDraft(DEFAULT_TASK_CATEGORIES.map(toDraft))}
+              disabled={saving}
+            >
+              <Text style={styles.resetButtonText}>Use Defaults</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.footerButton, styles.saveButton]} onPress={handleSave} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.textLight} />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default TaskCategoriesModal;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import { SavedTaskView, TaskCategory, TaskFilter } from '../types';
+import {
+  countFilterConditions,
+  deleteTaskView,
+  describeTaskFilter,
+  isSameTaskFilter,
+  subscribeToSavedTaskViews,
+} from '../utils/taskFilters';
+import TaskFilterModal from './TaskFilterModal';
+
+interface TaskFilterBarProps {
+  filter: TaskFilter;
+  onChange: (filter: TaskFilter) => void;
+  categories: TaskCategory[];
+  availableTags: string[];
+  children?: React.ReactNode; // Extra chips shown before the filter button
+}
+
+/**
+ * A row with the filter button, the user's saved views and a summary of the filter in use
+ * Tap a view to apply it again, long-press it to delete it
+ */
+const TaskFilterBar: React.FC<TaskFilterBarProps> = ({ filter, onChange, categories, availableTags, children }) => {
+  const { colors } = useTheme();
+  const [views, setViews] = useState<SavedTaskView[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const conditionCount = countFilterConditions(filter);
+
+  useEffect(() => subscribeToSavedTaskViews(setViews), []);
+
+  const confirmDeleteView = (view: SavedTaskView) => {
+    Alert.alert('Delete View', `Delete the saved view "${view.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteTaskView(view.id);
+          if (!result.success) {
+            Alert.alert('Error', result.message);
+          }
+        },
+      },
+    ]);
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      paddingVertical: Theme.Spacing.xs,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: Theme.Spacing.xs,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 4,
+      paddingHorizontal: Theme.Spacing.sm,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginHorizontal: 4,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      ...Theme.Typography.caption,
+      color: colors.text,
+      marginLeft: 4,
+    },
+    chipTextActive: {
+      color: colors.textLight,
+    },
+    summary: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      paddingHorizontal: Theme.Spacing.sm,
+      marginTop: 4,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {children}
+        <TouchableOpacity
+          style={[styles.chip, conditionCount > 0 && styles.chipActive]}
+          onPress={() => setModalVisible(true)}
+        >
+          <MaterialIcons name="filter-list" size={14} color={conditionCount > 0 ? colors.textLight : colors.primary} />
+          <Text style={[styles.chipText, conditionCount > 0 && styles.chipTextActive]}>
+            {conditionCount > 0 ? `Filters (${conditionCount})` : 'Filter'}
+          </Text>
+        </TouchableOpacity>
+
+        {conditionCount > 0 && (
+          <TouchableOpacity style={styles.chip} onPress={() => onChange({})}>
+            <MaterialIcons name="close" size={14} color={colors.textSecondary} />
+            <Text style={styles.chipText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+
+        {views.map(view => {
+          const active = isSameTaskFilter(view.filter, filter);
+          return (
+            <TouchableOpacity
+              key={view.id}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onChange(active ? {} : view.filter)}
+              onLongPress={() => confirmDeleteView(view)}
+            >
+              <MaterialIcons name="bookmark" size={14} color={active ? colors.textLight : colors.primary} />
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{view.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {conditionCount > 0 && (
+        <Text style={styles.summary} numberOfLines={1}>{describeTaskFilter(filter, categories)}</Text>
+      )}
+
+      <TaskFilterModal
+        visible={modalVisible}
+        onClose={() => setModalVisible(false)}
+        filter={filter}
+        onApply={onChange}
+        categories={categories}
+        availableTags={availableTags}
+      />
+    </View>
+  );
+};
+
+export default TaskFilterBar;
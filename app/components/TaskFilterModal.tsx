@@ -0,0 +1,417 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import { TaskCategory, TaskFilter } from '../types';
+import { UNCATEGORIZED } from '../utils/taskCategories';
+import { cleanTaskFilter, normalizeTag, saveTaskView, validateTaskFilter } from '../utils/taskFilters';
+
+interface TaskFilterModalProps {
+  visible: boolean;
+  onClose: () => void;
+  filter: TaskFilter;
+  onApply: (filter: TaskFilter) => void;
+  categories: TaskCategory[];
+  availableTags: string[];
+}
+
+// Numbers and dates are edited as text so they can be cleared
+interface FilterDraft {
+  text: string;
+  tags: string[];
+  category?: string;
+  recurring?: boolean;
+  minXp: string;
+  maxXp: string;
+  startDate: string;
+  endDate: string;
+}
+
+const toDraft = (filter: TaskFilter): FilterDraft => ({
+  text: filter.text || '',
+  tags: filter.tags || [],
+  category: filter.category,
+  recurring: filter.recurring,
+  minXp: filter.minXp !== undefined ? String(filter.minXp) : '',
+  maxXp: filter.maxXp !== undefined ? String(filter.maxXp) : '',
+  startDate: filter.startDate || '',
+  endDate: filter.endDate || '',
+});
+
+const fromDraft = (draft: FilterDraft): TaskFilter => cleanTaskFilter({
+  text: draft.text,
+  tags: draft.tags,
+  category: draft.category,
+  recurring: draft.recurring,
+  minXp: draft.minXp.trim() ? Number(draft.minXp) : undefined,
+  maxXp: draft.maxXp.trim() ? Number(draft.maxXp) : undefined,
+  startDate: draft.startDate.trim(),
+  endDate: draft.endDate.trim(),
+});
+
+const RECURRING_OPTIONS: { value: boolean | undefined; label: string }[] = [
+  { value: undefined, label: 'Any' },
+  { value: true, label: 'Recurring' },
+  { value: false, label: 'One-off' },
+];
+
+const TaskFilterModal: React.FC<TaskFilterModalProps> = ({
+  visible,
+  onClose,
+  filter,
+  onApply,
+  categories,
+  availableTags,
+}) => {
+  const { colors } = useTheme();
+  const [draft, setDraft] = useState<FilterDraft>(toDraft(filter));
+  const [newTag, setNewTag] = useState('');
+  const [viewName, setViewName] = useState('');
+
+  // Start from the filter in use every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(toDraft(filter));
+      setNewTag('');
+      setViewName('');
+    }
+  }, [visible]);
+
+  const update = (updates: Partial<FilterDraft>) => setDraft(prev => ({ ...prev, ...updates }));
+
+  const toggleTag = (tag: string) => {
+    update({ tags: draft.tags.includes(tag) ? draft.tags.filter(t => t !== tag) : [...draft.tags, tag] });
+  };
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    if (tag && !draft.tags.includes(tag)) {
+      update({ tags: [...draft.tags, tag] });
+    }
+    setNewTag('');
+  };
+
+  // Check the draft and return it as a filter, or null after showing what's wrong
+  const getValidFilter = (): TaskFilter | null => {
+    const result = fromDraft(draft);
+    const errors = validateTaskFilter(result);
+    if (errors.length > 0) {
+      Alert.alert('Check Your Filter', errors.join('\n'));
+      return null;
+    }
+    return result;
+  };
+
+  const handleApply = () => {
+    const result = getValidFilter();
+    if (!result) return;
+    onApply(result);
+    onClose();
+  };
+
+  const handleSaveView = async () => {
+    const result = getValidFilter();
+    if (!result) return;
+
+    const saved = await saveTaskView(viewName, result);
+    if (!saved.success) {
+      Alert.alert('Error', saved.message);
+      return;
+    }
+    onApply(result);
+    onClose();
+  };
+
+  // Tags already on tasks, plus any typed in that aren't used yet
+  const tagOptions = Array.from(new Set([...availableTags, ...draft.tags])).sort();
+
+  const styles = StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+      width: '92%',
+      maxHeight: '85%',
+      backgroundColor: colors.cardBackground || colors.surface,
+      borderRadius: 16,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.medium,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: Theme.Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingBottom: Theme.Spacing.sm,
+    },
+    title: {
+      ...Theme.Typography.h3,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    closeButton: {
+      padding: Theme.Spacing.xs,
+    },
+    sectionLabel: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginTop: Theme.Spacing.sm,
+      marginBottom: 4,
+    },
+    input: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingHorizontal: Theme.Spacing.sm,
+      paddingVertical: Theme.Spacing.xs,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Theme.Spacing.sm,
+    },
+    rowInput: {
+      flex: 1,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 4,
+      paddingHorizontal: Theme.Spacing.sm,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    chipText: {
+      ...Theme.Typography.caption,
+      color: colors.text,
+    },
+    chipTextSelected: {
+      color: colors.textLight,
+    },
+    addTagButton: {
+      padding: Theme.Spacing.xs,
+    },
+    saveViewRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Theme.Spacing.sm,
+      marginTop: Theme.Spacing.md,
+      paddingTop: Theme.Spacing.sm,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    saveViewButton: {
+      paddingVertical: Theme.Spacing.xs,
+      paddingHorizontal: Theme.Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    saveViewText: {
+      ...Theme.Typography.bodySmall,
+      color: colors.primary,
+      fontWeight: '600',
+    },
+    footer: {
+      flexDirection: 'row',
+      marginTop: Theme.Spacing.md,
+      gap: Theme.Spacing.sm,
+    },
+    footerButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: Theme.Spacing.sm,
+      borderRadius: 8,
+    },
+    clearButton: {
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    clearButtonText: {
+      ...Theme.Typography.body,
+      color: colors.text,
+    },
+    applyButton: {
+      backgroundColor: colors.primary,
+    },
+    applyButtonText: {
+      ...Theme.Typography.body,
+      color: colors.textLight,
+      fontWeight: '600',
+    },
+  });
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, color?: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && { backgroundColor: color || colors.primary, borderColor: color || colors.primary }]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Filter Tasks</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <MaterialIcons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={styles.sectionLabel}>Search</Text>
+            <TextInput
+              style={styles.input}
+              value={draft.text}
+              onChangeText={text => update({ text })}
+              placeholder="Title or description"
+              placeholderTextColor={colors.textSecondary}
+            />
+
+            <Text style={styles.sectionLabel}>Tags (all must match)</Text>
+            <View style={styles.chipRow}>
+              {tagOptions.map(tag => renderChip(tag, `#${tag}`, draft.tags.includes(tag), () => toggleTag(tag)))}
+            </View>
+            <View style={[styles.row, { marginTop: 6 }]}>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={newTag}
+                onChangeText={setNewTag}
+                onSubmitEditing={addTag}
+                placeholder="Add a tag"
+                placeholderTextColor={colors.textSecondary}
+                autoCapitalize="none"
+              />
+              <TouchableOpacity style={styles.addTagButton} onPress={addTag}>
+                <MaterialIcons name="add" size={22} color={colors.primary} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.sectionLabel}>Category</Text>
+            <View style={styles.chipRow}>
+              {renderChip('any', 'Any', !draft.category, () => update({ category: undefined }))}
+              {[...categories, UNCATEGORIZED].map(category =>
+                renderChip(
+                  category.id,
+                  category.name,
+                  draft.category === category.id,
+                  () => update({ category: category.id }),
+                  category.color
+                )
+              )}
+            </View>
+
+            <Text style={styles.sectionLabel}>Repeats</Text>
+            <View style={styles.chipRow}>
+              {RECURRING_OPTIONS.map(option =>
+                renderChip(option.label, option.label, draft.recurring === option.value, () => update({ recurring: option.value }))
+              )}
+            </View>
+
+            <Text style={styles.sectionLabel}>XP</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={draft.minXp}
+                onChangeText={minXp => update({ minXp: minXp.replace(/[^0-9]/g, '') })}
+                placeholder="Min"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="numeric"
+              />
+              <Text style={styles.chipText}>to</Text>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={draft.maxXp}
+                onChangeText={maxXp => update({ maxXp: maxXp.replace(/[^0-9]/g, '') })}
+                placeholder="Max"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="numeric"
+              />
+            </View>
+
+            <Text style={styles.sectionLabel}>Dates</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={draft.startDate}
+                onChangeText={startDate => update({ startDate })}
+                placeholder="From YYYY-MM-DD"
+                placeholderTextColor={colors.textSecondary}
+                maxLength={10}
+              />
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={draft.endDate}
+                onChangeText={endDate => update({ endDate })}
+                placeholder="To YYYY-MM-DD"
+                placeholderTextColor={colors.textSecondary}
+                maxLength={10}
+              />
+            </View>
+
+            <View style={styles.saveViewRow}>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={viewName}
+                onChangeText={setViewName}
+                placeholder="Name this view"
+                placeholderTextColor={colors.textSecondary}
+                maxLength={30}
+              />
+              <TouchableOpacity style={styles.saveViewButton} onPress={handleSaveView}>
+                <Text style={styles.saveViewText}>Save View</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.footerButton, styles.clearButton]}
+              onPress={() => setDraft(toDraft({}))}
+            >
+              <Text style={styles.clearButtonText}>Clear</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.footerButton, styles.applyButton]} onPress={handleApply}>
+              <Text style={styles.applyButtonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default TaskFilterModal;
@@ -1,57 +1,60 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { forceResetAllTasks } from '../utils/firebaseService';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { formatDateString } from '../utils/dateUtils';
+import { useEffect } from 'react';
+import { useSelector } from 'react-redux';
+import { onAuthStateChanged } from 'firebase/auth';
+import { FIREBASE_AUTH } from '../../FirebaseConfig';
+import { getNextDayStart } from '../utils/dateUtils';
+import { loadCachedDaySettings } from '../utils/daySettings';
+import { runDailyRollover } from '../utils/dailyRollover';
+import { RootState } from '../store/types';
+
+const rollOver = async () => {
+  // Work out today's date with the user's day settings, not the device's
+  await loadCachedDaySettings();
+  const result = await runDailyRollover();
+  if (!result.success && FIREBASE_AUTH.currentUser) {
+    console.warn('Daily rollover failed:', result.message);
+  }
+};
 
 /**
  * TaskResetManager
- * 
- * This component handles automatic task reset on app startup.
- * It checks if tasks have been reset for the current day and
- * performs a reset if needed.
- * 
+ *
+ * This component runs the daily rollover when the user signs in,
+ * whenever the user's day rolls over while the app is open and when
+ * the device comes back online, in case a rollover had to wait.
+ * The rollover itself records which days are done, so running it
+ * from several places or devices is safe.
+ *
  * This is a "headless" component that doesn't render anything visible.
  */
 const TaskResetManager = () => {
-  const [isResetting, setIsResetting] = useState(false);
+  const isConnected = useSelector((state: RootState) => state.network.isConnected);
 
   useEffect(() => {
-    checkAndResetTasks();
+    let timer: ReturnType<typeof setTimeout>;
+
+    // Check now, then again when the user's next day starts
+    const scheduleCheck = async () => {
+      await rollOver();
+      const delay = Math.max(1000, getNextDayStart().getTime() - Date.now());
+      timer = setTimeout(scheduleCheck, delay);
+    };
+    scheduleCheck();
+
+    const unsubscribeAuth = onAuthStateChanged(FIREBASE_AUTH, (user) => {
+      if (user) rollOver();
+    });
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribeAuth();
+    };
   }, []);
 
-  const checkAndResetTasks = async () => {
-    try {
-      // Prevent multiple resets
-      if (isResetting) return;
-      setIsResetting(true);
-
-      // Get current date in the format YYYY-MM-DD
-      const today = new Date();
-      const todayStr = formatDateString(today);
-
-      // Check when tasks were last reset
-      const lastResetDate = await AsyncStorage.getItem('lastTaskResetDate');
-
-      // If tasks haven't been reset today, reset them
-      if (lastResetDate !== todayStr) {
-        console.log('Performing automatic task reset for', todayStr);
-        
-        // Reset tasks
-        const result = await forceResetAllTasks();
-        console.log('Automatic task reset result:', result.message);
-        
-        // Update last reset date
-        await AsyncStorage.setItem('lastTaskResetDate', todayStr);
-      } else {
-        console.log('Tasks already reset for today:', todayStr);
-      }
-    } catch (error) {
-      console.error('Error in automatic task reset:', error);
-    } finally {
-      setIsResetting(false);
-    }
-  };
+  // Overlapping runs share one rollover, so this may coincide with the checks above
+  useEffect(() => {
+    if (isConnected) rollOver();
+  }, [isConnected]);
 
   // This component doesn't render anything visible
   return null;
@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import { JournalAudio } from '../types';
+import { formatAudioDuration, resolvePlayableAudioUri } from '../utils/journalAudio';
+
+interface VoiceNotePlayerProps {
+  audio: JournalAudio;
+  // Overrides the cache lookup, e.g. for a recording that hasn't been saved yet
+  uri?: string;
+}
+
+const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ audio, uri }) => {
+  const { colors } = useTheme();
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [durationMs, setDurationMs] = useState(audio.durationMs);
+
+  // Release the player when the row goes away
+  useEffect(() => {
+    return () => {
+      soundRef.current?.unloadAsync().catch(() => {});
+      soundRef.current = null;
+    };
+  }, [audio.id, uri]);
+
+  const handleStatusUpdate = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+
+    setPositionMs(status.positionMillis);
+    if (status.durationMillis) {
+      setDurationMs(status.durationMillis);
+    }
+    setIsPlaying(status.isPlaying);
+
+    if (status.didJustFinish) {
+      setIsPlaying(false);
+      setPositionMs(0);
+      soundRef.current?.setPositionAsync(0).catch(() => {});
+    }
+  };
+
+  const togglePlayback = async () => {
+    try {
+      if (soundRef.current) {
+        if (isPlaying) {
+          await soundRef.current.pauseAsync();
+        } else {
+          await soundRef.current.playAsync();
+        }
+        return;
+      }
+
+      setLoading(true);
+      const playableUri = uri || await resolvePlayableAudioUri(audio);
+      if (!playableUri) {
+        Alert.alert('Not Available Yet', 'This voice note will be playable once it finishes uploading from the device it was recorded on.');
+        return;
+      }
+
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+      const { sound } = await Audio.Sound.createAsync(
+        { uri: playableUri },
+        { shouldPlay: true },
+        handleStatusUpdate
+      );
+      soundRef.current = sound;
+    } catch (error) {
+      console.error('Error playing voice note:', error);
+      Alert.alert('Error', 'Could not play this voice note.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+
+  const styles = StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.primary + '12',
+      borderRadius: 20,
+      paddingVertical: Theme.Spacing.xs,
+      paddingHorizontal: Theme.Spacing.sm,
+      marginTop: Theme.Spacing.sm,
+    },
+    playButton: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      backgroundColor: colors.primary,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    track: {
+      flex: 1,
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: colors.border,
+      marginHorizontal: Theme.Spacing.sm,
+      overflow: 'hidden',
+    },
+    trackFill: {
+      height: 4,
+      backgroundColor: colors.primary,
+    },
+    time: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      minWidth: 36,
+      textAlign: 'right',
+    },
+    pendingIcon: {
+      marginLeft: Theme.Spacing.xs,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.playButton} onPress={togglePlayback} disabled={loading}>
+        {loading ? (
+          <ActivityIndicator size="small" color={colors.textLight} />
+        ) : (
+          <MaterialIcons name={isPlaying ? 'pause' : 'play-arrow'} size={20} color={colors.textLight} />
+        )}
+      </TouchableOpacity>
+      <View style={styles.track}>
+        <View style={[styles.trackFill, { width: `${progress * 100}%` }]} />
+      </View>
+      <Text style={styles.time}>
+        {formatAudioDuration(isPlaying || positionMs > 0 ? positionMs : durationMs)}
+      </Text>
+      {audio.status === 'pending' && !uri && (
+        <MaterialIcons name="cloud-upload" size={16} color={colors.textSecondary} style={styles.pendingIcon} />
+      )}
+    </View>
+  );
+};
+
+export default VoiceNotePlayer;
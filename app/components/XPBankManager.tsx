@@ -1,7 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, Modal, TextInput, FlatList, StyleSheet, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { getXPBank, getXPBankRecords, modifyTaskXP, XPBankRecord, XP_CAP } from '../utils/firebaseService';
+import { useDispatch } from 'react-redux';
+import { getXPBank, getXPBankRecords, XPBankRecord } from '../utils/firebaseService';
+import {
+  DEFAULT_XP_SETTINGS,
+  getDailyXpCap,
+  getDailyXpTarget,
+  getRemainingDailyXp,
+  subscribeToXpSettings,
+} from '../utils/xpSettings';
+import { XPSettings } from '../types';
+import { getDayKey } from '../utils/dateUtils';
+import type { AppDispatch } from '../store/types';
+import { runOrQueueOperation } from '../store/slices/networkSlice';
 
 interface XPBankManagerProps {
   date?: Date; // Optional date, defaults to today
@@ -9,8 +21,10 @@ interface XPBankManagerProps {
 }
 
 const XPBankManager: React.FC<XPBankManagerProps> = ({ date = new Date(), onXPUpdated }) => {
+  const dispatch = useDispatch<AppDispatch>();
   const [isModalVisible, setIsModalVisible] = useState(false);
-  const [xpBank, setXpBank] = useState<{ totalXP: number; availableXP: number } | null>(null);
+  const [xpBank, setXpBank] = useState<{ totalXP: number } | null>(null);
+  const [xpSettings, setXpSettings] = useState<XPSettings>(DEFAULT_XP_SETTINGS);
   const [records, setRecords] = useState<XPBankRecord[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedTask, setSelectedTask] = useState<XPBankRecord | null>(null);
@@ -28,17 +42,8 @@ const XPBankManager: React.FC<XPBankManagerProps> = ({ date = new Date(), onXPUp
       ]);
       
       // Update XP bank data
-      if (bankData) {
-        setXpBank({
-          totalXP: bankData.totalXP,
-          availableXP: bankData.availableXP
-        });
-      } else {
-        setXpBank({
-          totalXP: 0,
-          availableXP: XP_CAP
-        });
-      }
+      // Available XP is worked out from the current settings, which may have changed since the bank was written
+      setXpBank({ totalXP: bankData?.totalXP || 0 });
 
       // Sort and filter records in one go to avoid multiple renders
       if (recordsData && recordsData.length > 0) {
@@ -66,6 +71,16 @@ const XPBankManager: React.FC<XPBankManagerProps> = ({ date = new Date(), onXPUp
     }
   }, [isModalVisible, date]);
 
+  useEffect(() => {
+    if (!isModalVisible) return;
+    return subscribeToXpSettings(setXpSettings);
+  }, [isModalVisible]);
+
+  const dailyXpCap = getDailyXpCap(xpSettings);
+  const availableXP = getRemainingDailyXp(xpSettings, xpBank?.totalXP || 0);
+  // Without a cap, progress is measured against the day's target
+  const progressLimit = dailyXpCap ?? getDailyXpTarget(xpSettings, getDayKey(date));
+
   const handleModifyXP = (record: XPBankRecord) => {
     setSelectedTask(record);
     setNewXpValue(String(record.xpAmount > 0 ? record.xpAmount : record.originalXp || 0));
@@ -83,10 +98,13 @@ const XPBankManager: React.FC<XPBankManagerProps> = ({ date = new Date(), onXPUp
 
     setLoading(true);
     try {
-      const result = await modifyTaskXP(selectedTask.taskId, xpValue);
+      const result = await dispatch(runOrQueueOperation({
+        type: 'modifyTaskXP',
+        payload: { taskId: selectedTask.taskId, newXpValue: xpValue }
+      }));
       
       if (result.success) {
-        Alert.alert('Success', 'Task XP has been updated');
+        Alert.alert(result.queued ? 'Saved Offline' : 'Success', result.queued ? result.message : 'Task XP has been updated');
         setModifyModalVisible(false);
         loadXPBankData();
         if (onXPUpdated) onXPUpdated();
@@ -164,17 +182,19 @@ const XPBankManager: React.FC<XPBankManagerProps> = ({ date = new Date(), onXPUp
               <Text style={styles.dateText}>{date.toDateString()}</Text>
               <View style={styles.xpRow}>
                 <Text style={styles.xpLabel}>Total XP:</Text>
-                <Text style={styles.xpValue}>{xpBank?.totalXP || 0} / {XP_CAP}</Text>
+                <Text style={styles.xpValue}>
+                  {xpBank?.totalXP || 0}{dailyXpCap !== null ? ` / ${dailyXpCap}` : ''}
+                </Text>
               </View>
               <View style={styles.xpRow}>
                 <Text style={styles.xpLabel}>Available XP:</Text>
-                <Text style={styles.xpValue}>{xpBank?.availableXP || XP_CAP}</Text>
+                <Text style={styles.xpValue}>{availableXP ?? 'No cap'}</Text>
               </View>
               <View style={styles.progressBar}>
                 <View 
                   style={[
                     styles.progressFill, 
-                    { width: `${((xpBank?.totalXP || 0) / XP_CAP) * 100}%` }
+                    { width: `${progressLimit > 0 ? Math.min(100, ((xpBank?.totalXP || 0) / progressLimit) * 100) : 100}%` }
                   ]} 
                 />
               </View>
@@ -241,8 +261,10 @@ const XPBankManager: React.FC<XPBankManagerProps> = ({ date = new Date(), onXPUp
                 </View>
 
                 <Text style={styles.xpLimitInfo}>
-                  You have {xpBank?.availableXP || 0} XP available today
-                  {selectedTask.xpAmount > 0 && ` (plus the current ${selectedTask.xpAmount} XP from this task)`}
+                  {availableXP !== null
+                    ? `You have ${availableXP} XP available today`
+                    : 'Your daily XP cap is off'}
+                  {availableXP !== null && selectedTask.xpAmount > 0 && ` (plus the current ${selectedTask.xpAmount} XP from this task)`}
                 </Text>
 
                 <TouchableOpacity 
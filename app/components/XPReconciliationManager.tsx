@@ -0,0 +1,63 @@
+import { useEffect } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FIREBASE_AUTH } from '../../FirebaseConfig';
+import { reconcileXp } from '../utils/xpReconciliation';
+import { getDayKey } from '../utils/dateUtils';
+import { loadCachedDaySettings } from '../utils/daySettings';
+
+// Check every hour so a day change is noticed while the app stays open
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * XPReconciliationManager
+ *
+ * Rebuilds the signed-in user's XP totals from the XP bank records once a day,
+ * so the XP bank, daily snapshots and profile stats never drift apart for long.
+ *
+ * This is a "headless" component that doesn't render anything visible.
+ */
+const XPReconciliationManager = () => {
+  useEffect(() => {
+    let running = false;
+
+    const checkAndReconcile = async () => {
+      const user = FIREBASE_AUTH.currentUser;
+      if (!user || running) return;
+
+      running = true;
+      try {
+        await loadCachedDaySettings();
+        const todayStr = getDayKey();
+        const lastRunKey = `lastXpReconciliation_${user.uid}`;
+        const lastRunDate = await AsyncStorage.getItem(lastRunKey);
+
+        if (lastRunDate !== todayStr) {
+          const result = await reconcileXp('scheduled');
+          if (result.success) {
+            await AsyncStorage.setItem(lastRunKey, todayStr);
+          }
+        }
+      } catch (error) {
+        console.error('Error in scheduled XP reconciliation:', error);
+      } finally {
+        running = false;
+      }
+    };
+
+    const unsubscribe = onAuthStateChanged(FIREBASE_AUTH, () => {
+      checkAndReconcile();
+    });
+    const interval = setInterval(checkAndReconcile, CHECK_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  // This component doesn't render anything visible
+  return null;
+};
+
+export default XPReconciliationManager;
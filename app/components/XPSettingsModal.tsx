@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import Theme from '../styles/theme';
+import { WEEKDAY_SHORT_LABELS } from '../utils/recurrenceUtils';
+import {
+  DEFAULT_XP_SETTINGS,
+  MAX_DAILY_XP_CAP,
+  MIN_DAILY_XP_CAP,
+  getWeeklyXpGoal,
+  saveXpSettings,
+  subscribeToXpSettings,
+  validateXpSettings,
+} from '../utils/xpSettings';
+import { XPSettings } from '../types';
+
+interface XPSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Numbers are edited as text so fields can be cleared while typing
+interface XPSettingsDraft {
+  dailyXpCap: string;
+  capEnabled: boolean;
+  weekdayTargets: string[];
+}
+
+const toDraft = (settings: XPSettings): XPSettingsDraft => ({
+  dailyXpCap: String(settings.dailyXpCap),
+  capEnabled: settings.capEnabled,
+  weekdayTargets: settings.weekdayTargets.map(String),
+});
+
+const fromDraft = (draft: XPSettingsDraft): XPSettings => ({
+  dailyXpCap: Number(draft.dailyXpCap),
+  capEnabled: draft.capEnabled,
+  weekdayTargets: draft.weekdayTargets.map(Number),
+});
+
+const XPSettingsModal: React.FC<XPSettingsModalProps> = ({ visible, onClose }) => {
+  const { colors } = useTheme();
+  const [draft, setDraft] = useState<XPSettingsDraft>(toDraft(DEFAULT_XP_SETTINGS));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved settings every time the editor opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setLoading(true);
+    let loaded = false;
+    const unsubscribe = subscribeToXpSettings(settings => {
+      if (loaded) return;
+      loaded = true;
+      setDraft(toDraft(settings));
+      setLoading(false);
+    });
+    return unsubscribe;
+  }, [visible]);
+
+  const updateTarget = (day: number, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      weekdayTargets: prev.weekdayTargets.map((target, i) => (i === day ? value.replace(/[^0-9]/g, '') : target)),
+    }));
+  };
+
+  const useCapEveryDay = () => {
+    setDraft(prev => ({ ...prev, weekdayTargets: Array(7).fill(prev.dailyXpCap) }));
+  };
+
+  const handleSave = async () => {
+    const settings = fromDraft(draft);
+    const errors = validateXpSettings(settings);
+    if (errors.length > 0) {
+      Alert.alert('Check Your Settings', errors.join('\n'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveXpSettings(settings);
+      if (result.success) {
+        onClose();
+      } else {
+        Alert.alert('Error', result.message);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const weeklyGoal = getWeeklyXpGoal(fromDraft(draft));
+
+  const styles = StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+      width: '92%',
+      maxHeight: '85%',
+      backgroundColor: colors.cardBackground || colors.surface,
+      borderRadius: 16,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.medium,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: Theme.Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingBottom: Theme.Spacing.sm,
+    },
+    title: {
+      ...Theme.Typography.h3,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    closeButton: {
+      padding: Theme.Spacing.xs,
+    },
+    sectionTitle: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      fontWeight: '600',
+      marginTop: Theme.Spacing.md,
+      marginBottom: Theme.Spacing.xs,
+    },
+    description: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginBottom: Theme.Spacing.sm,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingVertical: Theme.Spacing.xs,
+    },
+    rowLabel: {
+      ...Theme.Typography.body,
+      color: colors.text,
+    },
+    numberInput: {
+      width: 80,
+      ...Theme.Typography.body,
+      color: colors.text,
+      textAlign: 'right',
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingHorizontal: Theme.Spacing.sm,
+      paddingVertical: Theme.Spacing.xs,
+    },
+    disabledInput: {
+      opacity: 0.4,
+    },
+    linkButton: {
+      alignSelf: 'flex-start',
+      paddingVertical: Theme.Spacing.xs,
+    },
+    linkText: {
+      ...Theme.Typography.caption,
+      color: colors.primary,
+    },
+    weeklyGoal: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      marginTop: Theme.Spacing.sm,
+      textAlign: 'right',
+    },
+    saveButton: {
+      marginTop: Theme.Spacing.md,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: Theme.Spacing.sm,
+      borderRadius: 8,
+      backgroundColor: colors.primary,
+    },
+    saveButtonText: {
+      ...Theme.Typography.body,
+      color: colors.textLight,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Daily XP</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <MaterialIcons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <Text style={styles.sectionTitle}>Daily Cap</Text>
+              <Text style={styles.description}>
+                Limits how much XP you can plan and bank in a day. Turn it off to plan freely.
+              </Text>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Limit daily XP</Text>
+                <Switch
+                  value={draft.capEnabled}
+                  onValueChange={capEnabled => setDraft(prev => ({ ...prev, capEnabled }))}
+                  trackColor={{ false: colors.border, true: Theme.Colors.primary }}
+                  thumbColor={colors.surface}
+                />
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Cap ({MIN_DAILY_XP_CAP}-{MAX_DAILY_XP_CAP} XP)</Text>
+                <TextInput
+                  style={[styles.numberInput, !draft.capEnabled && styles.disabledInput]}
+                  value={draft.dailyXpCap}
+                  onChangeText={value => setDraft(prev => ({ ...prev, dailyXpCap: value.replace(/[^0-9]/g, '') }))}
+                  keyboardType="number-pad"
+                  editable={draft.capEnabled}
+                  maxLength={4}
+                />
+              </View>
+
+              <Text style={styles.sectionTitle}>Daily Targets</Text>
+              <Text style={styles.description}>
+                Your XP goal for each day of the week. Together they make your weekly goal.
+              </Text>
+              {WEEKDAY_SHORT_LABELS.map((label, day) => (
+                <View key={label} style={styles.row}>
+                  <Text style={styles.rowLabel}>{label}</Text>
+                  <TextInput
+                    style={styles.numberInput}
+                    value={draft.weekdayTargets[day]}
+                    onChangeText={value => updateTarget(day, value)}
+                    keyboardType="number-pad"
+                    maxLength={4}
+                  />
+                </View>
+              ))}
+              <TouchableOpacity style={styles.linkButton} onPress={useCapEveryDay}>
+                <Text style={styles.linkText}>Use the cap as every day's target</Text>
+              </TouchableOpacity>
+              <Text style={styles.weeklyGoal}>Weekly goal: {weeklyGoal} XP</Text>
+            </ScrollView>
+          )}
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving || loading}>
+            {saving ? (
+              <ActivityIndicator size="small" color={colors.textLight} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default XPSettingsModal;
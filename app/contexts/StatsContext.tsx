@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { subscribeToUserStats, subscribeToTasks, Task } from '../utils/firebaseService';
+import { getDailyXpProgress, resolveXpSettings } from '../utils/xpSettings';
 import { FIREBASE_AUTH } from '../../FirebaseConfig';
 
 // Define the stats interface
@@ -42,7 +43,6 @@ export const StatsProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const XP_CAP = 100; // Maximum XP per day
 
   useEffect(() => {
     const user = FIREBASE_AUTH.currentUser;
@@ -81,7 +81,7 @@ export const StatsProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             totalXP: userStats.totalXP || 0,
             todayXP: userStats.todayXP || 0,
             streakCount: userStats.streakCount || 0,
-            xpProgress: Math.min(100, Math.round(((userStats.todayXP || 0) / XP_CAP) * 100))
+            xpProgress: getDailyXpProgress(userStats.todayXP || 0, resolveXpSettings(userStats.xpSettings))
           }));
         }
         setLoading(false);
@@ -0,0 +1,342 @@
+import {
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  Firestore,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import type { JournalEntry, UserStats } from '../types';
+import type { ScheduledTask } from '../types/scheduledTask';
+import type { DailySnapshot, DailyStats, DailyXPBank, Task, XPBankRecord } from '../utils/firebaseService';
+import {
+  Increment,
+  JournalDay,
+  JournalRepository,
+  OccurrenceListChange,
+  Repositories,
+  ScheduledTaskChanges,
+  ScheduleRepository,
+  StatsRepository,
+  TaskRepository,
+  TaskWriteBatch,
+  XPLedgerRepository,
+} from './types';
+
+// Firestore rejects undefined fields
+const withoutUndefined = <T extends object>(data: T): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+const toOccurrenceField = (change: OccurrenceListChange) => {
+  if (Array.isArray(change)) return change;
+  return 'add' in change ? arrayUnion(...change.add) : arrayRemove(...change.remove);
+};
+
+const toScheduledTaskFields = (changes: ScheduledTaskChanges): Record<string, unknown> => {
+  const { completedOccurrences, missedOccurrences, ...fields } = changes;
+  const data = withoutUndefined(fields);
+  if (completedOccurrences) data.completedOccurrences = toOccurrenceField(completedOccurrences);
+  if (missedOccurrences) data.missedOccurrences = toOccurrenceField(missedOccurrences);
+  data.updatedAt = serverTimestamp();
+  return data;
+};
+
+const toNumberField = (change: number | Increment) =>
+  typeof change === 'number' ? change : increment(change.increment);
+
+const createTaskWriteBatch = (db: Firestore, userId: string): TaskWriteBatch => {
+  const batch = writeBatch(db);
+  const userRef = doc(db, 'users', userId);
+  const taskRef = (taskId: string) => doc(userRef, 'tasks', taskId);
+  // dailyStats is a top-level collection keyed by user and day
+  const dailyStatsRef = (date: string) => doc(db, 'dailyStats', `${userId}_${date}`);
+
+  return {
+    createTask: (task) => {
+      const newTaskRef = doc(collection(userRef, 'tasks'));
+      batch.set(newTaskRef, { ...withoutUndefined(task), updatedAt: serverTimestamp() });
+      return newTaskRef.id;
+    },
+    updateTask: (taskId, changes) => {
+      batch.update(taskRef(taskId), { ...withoutUndefined(changes), updatedAt: serverTimestamp() });
+    },
+    removeTask: (taskId) => {
+      batch.delete(taskRef(taskId));
+    },
+    archiveTask: (taskId, task) => {
+      batch.set(doc(userRef, 'completedTasks', taskId), { ...withoutUndefined(task), archived: true, archivedAt: serverTimestamp() });
+    },
+    keepDeletedTask: (taskId, task) => {
+      batch.set(doc(userRef, 'completedTasks', taskId), { ...withoutUndefined(task), isDeleted: true, deletedAt: serverTimestamp() });
+    },
+    addHistory: (entry) => {
+      batch.set(doc(collection(userRef, 'taskHistory')), { ...withoutUndefined(entry), userId, timestamp: serverTimestamp() });
+    },
+    addXpRecord: (record) => {
+      const recordRef = doc(collection(userRef, 'xpBankRecords'));
+      batch.set(recordRef, { ...withoutUndefined(record), id: recordRef.id, userId, timestamp: serverTimestamp() });
+      return recordRef.id;
+    },
+    setXpDay: (date, totals, recordIds) => {
+      batch.set(doc(userRef, 'xpBank', date), {
+        id: date,
+        userId,
+        date,
+        ...totals,
+        records: recordIds,
+        lastUpdated: serverTimestamp(),
+      });
+    },
+    updateXpDay: (date, recordId, totals) => {
+      batch.update(doc(userRef, 'xpBank', date), {
+        ...totals,
+        records: arrayUnion(recordId),
+        lastUpdated: serverTimestamp(),
+      });
+    },
+    setDailySnapshot: (date, totals) => {
+      batch.set(doc(userRef, 'dailySnapshots', date), {
+        date,
+        userId,
+        ...withoutUndefined(totals),
+        created: serverTimestamp(),
+        lastUpdated: serverTimestamp(),
+      });
+    },
+    updateDailySnapshot: (date, changes) => {
+      batch.update(doc(userRef, 'dailySnapshots', date), { ...withoutUndefined(changes), lastUpdated: serverTimestamp() });
+    },
+    setDailyStats: (date, totals) => {
+      batch.set(dailyStatsRef(date), {
+        id: `${userId}_${date}`,
+        date,
+        userId,
+        ...totals,
+        created: serverTimestamp(),
+        lastUpdated: serverTimestamp(),
+      });
+    },
+    updateDailyStats: (date, changes) => {
+      batch.update(dailyStatsRef(date), { ...withoutUndefined(changes), lastUpdated: serverTimestamp() });
+    },
+    setUserStats: (stats) => {
+      batch.set(userRef, withoutUndefined(stats));
+    },
+    updateUserStats: ({ totalXP, todayXP }) => {
+      const changes: Record<string, unknown> = {};
+      if (totalXP !== undefined) changes.totalXP = toNumberField(totalXP);
+      if (todayXP !== undefined) changes.todayXP = toNumberField(todayXP);
+      batch.update(userRef, changes);
+    },
+    commit: () => batch.commit(),
+  };
+};
+
+const createTaskRepository = (db: Firestore): TaskRepository => {
+  const tasksRef = (userId: string) => collection(db, 'users', userId, 'tasks');
+
+  return {
+    list: async (userId, completed) => {
+      const snapshot = await getDocs(
+        completed === undefined ? tasksRef(userId) : query(tasksRef(userId), where('completed', '==', completed))
+      );
+      return snapshot.docs.map(taskDoc => ({ id: taskDoc.id, ...taskDoc.data() } as Task));
+    },
+    get: async (userId, taskId) => {
+      const taskDoc = await getDoc(doc(tasksRef(userId), taskId));
+      return taskDoc.exists() ? { id: taskDoc.id, ...taskDoc.data() } as Task : null;
+    },
+    subscribe: (userId, onNext, onError) => onSnapshot(
+      tasksRef(userId),
+      snapshot => onNext(snapshot.docs.map(taskDoc => ({ id: taskDoc.id, ...taskDoc.data() } as Task))),
+      onError
+    ),
+    subscribeArchived: (userId, onNext, onError) => onSnapshot(
+      collection(db, 'users', userId, 'completedTasks'),
+      snapshot => onNext(snapshot.docs.map(taskDoc => ({ id: taskDoc.id, ...taskDoc.data() } as Task))),
+      onError
+    ),
+    create: async (userId, task) => {
+      const taskRef = await addDoc(tasksRef(userId), {
+        ...withoutUndefined(task),
+        updatedAt: serverTimestamp(),
+      });
+      return taskRef.id;
+    },
+    update: async (userId, taskId, changes) => {
+      await updateDoc(doc(tasksRef(userId), taskId), {
+        ...withoutUndefined(changes),
+        updatedAt: serverTimestamp(),
+      });
+    },
+    remove: async (userId, taskId) => {
+      await deleteDoc(doc(tasksRef(userId), taskId));
+    },
+    batch: (userId) => createTaskWriteBatch(db, userId),
+  };
+};
+
+const createJournalRepository = (db: Firestore): JournalRepository => {
+  const journalRef = (userId: string) => collection(db, 'users', userId, 'journal');
+
+  return {
+    getDay: async (userId, date) => {
+      const snapshot = await getDoc(doc(journalRef(userId), date));
+      return snapshot.exists() ? snapshot.data() as JournalEntry : null;
+    },
+    listDays: async (userId) => {
+      const snapshot = await getDocs(query(journalRef(userId), orderBy('timestamp', 'desc')));
+      return snapshot.docs.map(dayDoc => ({ date: dayDoc.id, ...(dayDoc.data() as JournalEntry) }));
+    },
+    subscribe: (userId, dayLimit, onNext, onError) => {
+      const ordered = query(journalRef(userId), orderBy('timestamp', 'desc'));
+      return onSnapshot(
+        dayLimit === null ? ordered : query(ordered, limit(dayLimit)),
+        snapshot => {
+          const days: JournalDay[] = snapshot.docs.map(dayDoc => ({ date: dayDoc.id, ...(dayDoc.data() as JournalEntry) }));
+          const changes = snapshot.docChanges().map(change => ({
+            type: change.type,
+            entry: { date: change.doc.id, ...(change.doc.data() as JournalEntry) },
+          }));
+          onNext(days, changes);
+        },
+        onError
+      );
+    },
+    updateDay: (userId, date, change) => {
+      const dayRef = doc(journalRef(userId), date);
+      return runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(dayRef);
+        const next = change(snapshot.exists() ? snapshot.data() as JournalEntry : null);
+        if (!next) return false;
+        transaction.set(dayRef, next);
+        return true;
+      });
+    },
+  };
+};
+
+const createScheduleRepository = (db: Firestore): ScheduleRepository => {
+  const scheduleRef = (userId: string) => collection(db, 'users', userId, 'scheduledTasks');
+
+  return {
+    list: async (userId, status) => {
+      // A single where clause, so no composite index is needed
+      const snapshot = await getDocs(status ? query(scheduleRef(userId), where('status', '==', status)) : scheduleRef(userId));
+      return snapshot.docs.map(taskDoc => ({ id: taskDoc.id, ...taskDoc.data() } as ScheduledTask));
+    },
+    get: async (userId, taskId) => {
+      const taskDoc = await getDoc(doc(scheduleRef(userId), taskId));
+      return taskDoc.exists() ? { id: taskDoc.id, ...taskDoc.data() } as ScheduledTask : null;
+    },
+    subscribe: (userId, onNext, onError) => onSnapshot(
+      scheduleRef(userId),
+      snapshot => onNext(snapshot.docs.map(taskDoc => ({ id: taskDoc.id, ...taskDoc.data() } as ScheduledTask))),
+      onError
+    ),
+    create: async (userId, task) => {
+      const taskRef = await addDoc(scheduleRef(userId), {
+        ...withoutUndefined(task),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      return taskRef.id;
+    },
+    update: async (userId, taskId, changes) => {
+      await updateDoc(doc(scheduleRef(userId), taskId), toScheduledTaskFields(changes));
+    },
+    updateMany: async (userId, updates) => {
+      if (updates.length === 0) return;
+      const batch = writeBatch(db);
+      updates.forEach(({ taskId, changes }) => {
+        batch.update(doc(scheduleRef(userId), taskId), toScheduledTaskFields(changes));
+      });
+      await batch.commit();
+    },
+    remove: async (userId, taskId) => {
+      await deleteDoc(doc(scheduleRef(userId), taskId));
+    },
+  };
+};
+
+const createXPLedgerRepository = (db: Firestore): XPLedgerRepository => ({
+  getDay: async (userId, date) => {
+    const bankDoc = await getDoc(doc(db, 'users', userId, 'xpBank', date));
+    return bankDoc.exists() ? bankDoc.data() as DailyXPBank : null;
+  },
+  listDays: async (userId) => {
+    const snapshot = await getDocs(collection(db, 'users', userId, 'xpBank'));
+    return snapshot.docs.map(bankDoc => bankDoc.data() as DailyXPBank);
+  },
+  getRecords: async (userId, recordIds) => {
+    const recordDocs = await Promise.all(
+      recordIds.map(recordId => getDoc(doc(db, 'users', userId, 'xpBankRecords', recordId)))
+    );
+    return recordDocs
+      .filter(recordDoc => recordDoc.exists())
+      .map(recordDoc => recordDoc.data() as XPBankRecord);
+  },
+});
+
+const createStatsRepository = (db: Firestore): StatsRepository => ({
+  getUser: async (userId) => {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    return userDoc.exists() ? userDoc.data() as UserStats : null;
+  },
+  subscribeUser: (userId, onNext, onError) => onSnapshot(
+    doc(db, 'users', userId),
+    userDoc => onNext(userDoc.exists() ? userDoc.data() as UserStats : null),
+    onError
+  ),
+  setUser: async (userId, stats) => {
+    await setDoc(doc(db, 'users', userId), withoutUndefined(stats));
+  },
+  getDailySnapshot: async (userId, date) => {
+    const snapshotDoc = await getDoc(doc(db, 'users', userId, 'dailySnapshots', date));
+    return snapshotDoc.exists() ? snapshotDoc.data() as DailySnapshot : null;
+  },
+  getDailyStats: async (userId, date) => {
+    const statsDoc = await getDoc(doc(db, 'dailyStats', `${userId}_${date}`));
+    return statsDoc.exists() ? statsDoc.data() as DailyStats : null;
+  },
+  markJournalDay: async (userId, date, at) => {
+    const statsRef = doc(db, 'dailyStats', `${userId}_${date}`);
+    const statsDoc = await getDoc(statsRef);
+    if (statsDoc.exists()) {
+      await updateDoc(statsRef, { hasJournal: true });
+    } else {
+      await setDoc(statsRef, { userId, date, tasksCompleted: 0, xpEarned: 0, hasJournal: true, timestamp: at });
+    }
+
+    const userRef = doc(db, 'users', userId);
+    const userDoc = await getDoc(userRef);
+    if (userDoc.exists()) {
+      await updateDoc(userRef, { lastActive: at });
+    }
+  },
+});
+
+/**
+ * Repositories backed by the given Firestore database, using the app's existing collections
+ */
+export const createFirestoreRepositories = (db: Firestore): Repositories => ({
+  tasks: createTaskRepository(db),
+  journal: createJournalRepository(db),
+  schedule: createScheduleRepository(db),
+  xpLedger: createXPLedgerRepository(db),
+  stats: createStatsRepository(db),
+});
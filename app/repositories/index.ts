@@ -0,0 +1,34 @@
+import { FIREBASE_DB } from '../../FirebaseConfig';
+import { createFirestoreRepositories } from './firestore';
+import { createMemoryRepositories } from './memory';
+import { Repositories } from './types';
+
+export * from './types';
+export { createFirestoreRepositories } from './firestore';
+export { createMemoryRepositories } from './memory';
+export type { MemorySeed } from './memory';
+
+// Demo mode (EXPO_PUBLIC_DEMO_MODE=1) keeps the data behind the repositories in memory until the app closes.
+// Writes to Firestore that aren't behind a repository are turned off and report DEMO_MODE_MESSAGE
+export const DEMO_MODE = process.env.EXPO_PUBLIC_DEMO_MODE === '1';
+export const DEMO_MODE_MESSAGE = 'Not saved in demo mode';
+
+let repositories: Repositories | null = null;
+
+/**
+ * The repositories the app reads and writes through; Firestore unless replaced, in memory in demo mode
+ */
+export const getRepositories = (): Repositories => {
+  if (!repositories) {
+    repositories = DEMO_MODE ? createMemoryRepositories() : createFirestoreRepositories(FIREBASE_DB);
+  }
+  return repositories;
+};
+
+/**
+ * Use other repositories from now on, e.g. in-memory ones for a demo or a test
+ * Call this before anything subscribes; existing listeners keep their old source
+ */
+export const setRepositories = (next: Repositories) => {
+  repositories = next;
+};
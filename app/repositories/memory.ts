@@ -0,0 +1,371 @@
+import { Timestamp } from 'firebase/firestore';
+import type { JournalEntry, UserStats } from '../types';
+import type { ScheduledTask } from '../types/scheduledTask';
+import type { DailySnapshot, DailyStats, DailyXPBank, Task, XPBankRecord } from '../utils/firebaseService';
+import {
+  Increment,
+  JournalDay,
+  JournalDayChange,
+  JournalRepository,
+  OccurrenceListChange,
+  Repositories,
+  ScheduledTaskChanges,
+  ScheduleRepository,
+  StatsRepository,
+  TaskRepository,
+  TaskWriteBatch,
+  XPLedgerRepository,
+} from './types';
+
+// Starting data for in-memory repositories; every item carries its owner's userId
+export interface MemorySeed {
+  tasks?: Task[];
+  journal?: (JournalEntry & { date: string })[];
+  scheduledTasks?: ScheduledTask[];
+  xpBank?: DailyXPBank[];
+  xpBankRecords?: XPBankRecord[];
+  users?: UserStats[];
+}
+
+let nextId = 0;
+const createId = () => `memory-${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+
+// Listeners hear about writes asynchronously, as they would from Firestore
+const deliver = (callback: () => void) => {
+  Promise.resolve().then(callback);
+};
+
+/**
+ * One collection per user, keyed by document ID, with change listeners
+ */
+const createCollection = <T extends object>() => {
+  const users = new Map<string, Map<string, T>>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  const docs = (userId: string): Map<string, T> => {
+    let userDocs = users.get(userId);
+    if (!userDocs) {
+      userDocs = new Map();
+      users.set(userId, userDocs);
+    }
+    return userDocs;
+  };
+
+  return {
+    docs,
+    list: (userId: string): T[] => Array.from(docs(userId).values()).map(data => ({ ...data })),
+    get: (userId: string, id: string): T | null => {
+      const data = docs(userId).get(id);
+      return data ? { ...data } : null;
+    },
+    set: (userId: string, id: string, data: T) => {
+      docs(userId).set(id, data);
+      listeners.get(userId)?.forEach(listener => deliver(listener));
+    },
+    remove: (userId: string, id: string) => {
+      if (docs(userId).delete(id)) {
+        listeners.get(userId)?.forEach(listener => deliver(listener));
+      }
+    },
+    listen: (userId: string, listener: () => void): (() => void) => {
+      let userListeners = listeners.get(userId);
+      if (!userListeners) {
+        userListeners = new Set();
+        listeners.set(userId, userListeners);
+      }
+      userListeners.add(listener);
+      deliver(listener);
+      return () => {
+        userListeners!.delete(listener);
+      };
+    },
+  };
+};
+
+type MemoryCollection<T extends object> = ReturnType<typeof createCollection<T>>;
+
+// Everything the repositories keep, shared so a task batch can write across collections
+interface MemoryStore {
+  tasks: MemoryCollection<Task>;
+  archivedTasks: MemoryCollection<Task>;
+  taskHistory: MemoryCollection<object>;
+  journal: MemoryCollection<JournalEntry>;
+  scheduledTasks: MemoryCollection<ScheduledTask>;
+  xpBank: MemoryCollection<DailyXPBank>;
+  xpBankRecords: MemoryCollection<XPBankRecord>;
+  dailySnapshots: MemoryCollection<DailySnapshot>;
+  dailyStats: MemoryCollection<DailyStats>;
+  users: MemoryCollection<UserStats>;
+}
+
+const mustExist = <T>(data: T | undefined, what: string): T => {
+  if (!data) throw new Error(`No ${what} to update`);
+  return data;
+};
+
+const applyOccurrenceChange = (current: string[] | undefined, change: OccurrenceListChange): string[] => {
+  if (Array.isArray(change)) return [...change];
+  if ('add' in change) return [...(current || []), ...change.add.filter(date => !(current || []).includes(date))];
+  return (current || []).filter(date => !change.remove.includes(date));
+};
+
+const applyScheduledTaskChanges = (task: ScheduledTask, changes: ScheduledTaskChanges): ScheduledTask => {
+  const { completedOccurrences, missedOccurrences, ...fields } = changes;
+  // Null clears a field, as it does in Firestore
+  const setFields = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as Partial<ScheduledTask>;
+  const updated: ScheduledTask = { ...task, ...setFields, updatedAt: Timestamp.now() };
+  if (completedOccurrences) updated.completedOccurrences = applyOccurrenceChange(task.completedOccurrences, completedOccurrences);
+  if (missedOccurrences) updated.missedOccurrences = applyOccurrenceChange(task.missedOccurrences, missedOccurrences);
+  return updated;
+};
+
+const applyNumberChange = (current: number | undefined, change: number | Increment): number =>
+  typeof change === 'number' ? change : (current || 0) + change.increment;
+
+const createTaskWriteBatch = (store: MemoryStore, userId: string): TaskWriteBatch => {
+  // Every update checks its document before anything is applied, so a failed commit changes nothing.
+  // The checks see the data from before the batch, not the batch's own earlier writes.
+  const writes: { check?: () => void; apply: () => void }[] = [];
+
+  const set = <T extends object>(docs: MemoryCollection<T>, id: string, data: T) => {
+    writes.push({ apply: () => docs.set(userId, id, data) });
+  };
+  const update = <T extends object>(docs: MemoryCollection<T>, id: string, what: string, change: (current: T) => T) => {
+    writes.push({
+      check: () => {
+        mustExist(docs.docs(userId).get(id), what);
+      },
+      apply: () => docs.set(userId, id, change(docs.docs(userId).get(id)!)),
+    });
+  };
+
+  return {
+    createTask: (task) => {
+      const id = createId();
+      set(store.tasks, id, { ...task, id, updatedAt: Timestamp.now() });
+      return id;
+    },
+    updateTask: (taskId, changes) => {
+      update(store.tasks, taskId, `task ${taskId}`, task => ({ ...task, ...changes, updatedAt: Timestamp.now() }));
+    },
+    removeTask: (taskId) => {
+      writes.push({ apply: () => store.tasks.remove(userId, taskId) });
+    },
+    archiveTask: (taskId, task) => {
+      set(store.archivedTasks, taskId, { ...task, id: taskId, archived: true });
+    },
+    keepDeletedTask: (taskId, task) => {
+      set(store.archivedTasks, taskId, { ...task, id: taskId });
+    },
+    addHistory: (entry) => {
+      set(store.taskHistory, createId(), { ...entry, userId, timestamp: Timestamp.now() });
+    },
+    addXpRecord: (record) => {
+      const id = createId();
+      set(store.xpBankRecords, id, { ...record, id, userId, timestamp: Timestamp.now() });
+      return id;
+    },
+    setXpDay: (date, totals, recordIds) => {
+      set(store.xpBank, date, { id: date, userId, date, ...totals, records: [...recordIds], lastUpdated: Timestamp.now() });
+    },
+    updateXpDay: (date, recordId, totals) => {
+      update(store.xpBank, date, `XP bank for ${date}`, day => ({
+        ...day,
+        ...totals,
+        records: day.records.includes(recordId) ? day.records : [...day.records, recordId],
+        lastUpdated: Timestamp.now(),
+      }));
+    },
+    setDailySnapshot: (date, totals) => {
+      set(store.dailySnapshots, date, { date, userId, ...totals, created: Timestamp.now(), lastUpdated: Timestamp.now() });
+    },
+    updateDailySnapshot: (date, changes) => {
+      update(store.dailySnapshots, date, `daily snapshot for ${date}`, snapshot => ({ ...snapshot, ...changes, lastUpdated: Timestamp.now() }));
+    },
+    setDailyStats: (date, totals) => {
+      set(store.dailyStats, date, {
+        id: `${userId}_${date}`,
+        date,
+        userId,
+        ...totals,
+        created: Timestamp.now(),
+        lastUpdated: Timestamp.now(),
+      } as DailyStats);
+    },
+    updateDailyStats: (date, changes) => {
+      update(store.dailyStats, date, `daily stats for ${date}`, stats => ({ ...stats, ...changes, lastUpdated: Timestamp.now() }));
+    },
+    setUserStats: (stats) => {
+      set(store.users, userId, { ...stats });
+    },
+    updateUserStats: ({ totalXP, todayXP }) => {
+      update(store.users, userId, `user ${userId}`, stats => ({
+        ...stats,
+        totalXP: totalXP === undefined ? stats.totalXP : applyNumberChange(stats.totalXP, totalXP),
+        todayXP: todayXP === undefined ? stats.todayXP : applyNumberChange(stats.todayXP, todayXP),
+      }));
+    },
+    commit: async () => {
+      writes.forEach(write => write.check?.());
+      writes.splice(0).forEach(write => write.apply());
+    },
+  };
+};
+
+const createTaskRepository = (store: MemoryStore): TaskRepository => {
+  const { tasks, archivedTasks } = store;
+
+  return {
+    list: async (userId, completed) => tasks.list(userId).filter(task => completed === undefined || task.completed === completed),
+    get: async (userId, taskId) => tasks.get(userId, taskId),
+    subscribe: (userId, onNext) => tasks.listen(userId, () => onNext(tasks.list(userId))),
+    subscribeArchived: (userId, onNext) => archivedTasks.listen(userId, () => onNext(archivedTasks.list(userId))),
+    create: async (userId, task) => {
+      const id = createId();
+      tasks.set(userId, id, { ...task, id, createdAt: task.createdAt || Timestamp.now(), updatedAt: Timestamp.now() });
+      return id;
+    },
+    update: async (userId, taskId, changes) => {
+      const task = mustExist(tasks.docs(userId).get(taskId), `task ${taskId}`);
+      tasks.set(userId, taskId, { ...task, ...changes, updatedAt: Timestamp.now() });
+    },
+    remove: async (userId, taskId) => {
+      tasks.remove(userId, taskId);
+    },
+    batch: (userId) => createTaskWriteBatch(store, userId),
+  };
+};
+
+const createJournalRepository = ({ journal: days }: MemoryStore): JournalRepository => {
+
+  // Newest first, like the Firestore query
+  const listDays = (userId: string): JournalDay[] =>
+    Array.from(days.docs(userId).entries())
+      .map(([date, day]) => ({ date, ...day }))
+      .sort((a, b) => (b.timestamp?.toMillis() || 0) - (a.timestamp?.toMillis() || 0));
+
+  return {
+    getDay: async (userId, date) => days.get(userId, date),
+    listDays: async (userId) => listDays(userId),
+    subscribe: (userId, dayLimit, onNext) => {
+      let previous = new Map<string, JournalEntry>();
+      return days.listen(userId, () => {
+        const current = listDays(userId).slice(0, dayLimit ?? undefined);
+        const stored = days.docs(userId);
+        const changes: JournalDayChange[] = [];
+        current.forEach(day => {
+          const before = previous.get(day.date);
+          if (!before) changes.push({ type: 'added', entry: day });
+          else if (before !== stored.get(day.date)) changes.push({ type: 'modified', entry: day });
+        });
+        previous.forEach((day, date) => {
+          if (!current.some(entry => entry.date === date)) changes.push({ type: 'removed', entry: { date, ...day } });
+        });
+        previous = new Map(current.map(day => [day.date, stored.get(day.date)!]));
+        onNext(current, changes);
+      });
+    },
+    updateDay: async (userId, date, change) => {
+      const next = change(days.get(userId, date));
+      if (!next) return false;
+      days.set(userId, date, { ...next });
+      return true;
+    },
+  };
+};
+
+const createScheduleRepository = ({ scheduledTasks: scheduled }: MemoryStore): ScheduleRepository => {
+
+  return {
+    list: async (userId, status) => scheduled.list(userId).filter(task => !status || task.status === status),
+    get: async (userId, taskId) => scheduled.get(userId, taskId),
+    subscribe: (userId, onNext) => scheduled.listen(userId, () => onNext(scheduled.list(userId))),
+    create: async (userId, task) => {
+      const id = createId();
+      scheduled.set(userId, id, { ...task, id, createdAt: Timestamp.now(), updatedAt: Timestamp.now() });
+      return id;
+    },
+    update: async (userId, taskId, changes) => {
+      const task = mustExist(scheduled.docs(userId).get(taskId), `scheduled task ${taskId}`);
+      scheduled.set(userId, taskId, applyScheduledTaskChanges(task, changes));
+    },
+    updateMany: async (userId, updates) => {
+      // Check every task first so a missing one leaves the rest untouched
+      const updated = updates.map(({ taskId, changes }) =>
+        applyScheduledTaskChanges(mustExist(scheduled.docs(userId).get(taskId), `scheduled task ${taskId}`), changes)
+      );
+      updated.forEach(task => scheduled.set(userId, task.id, task));
+    },
+    remove: async (userId, taskId) => {
+      scheduled.remove(userId, taskId);
+    },
+  };
+};
+
+const createXPLedgerRepository = ({ xpBank, xpBankRecords }: MemoryStore): XPLedgerRepository => ({
+  getDay: async (userId, date) => xpBank.get(userId, date),
+  listDays: async (userId) => xpBank.list(userId),
+  getRecords: async (userId, recordIds) => recordIds
+    .map(recordId => xpBankRecords.get(userId, recordId))
+    .filter((record): record is XPBankRecord => !!record),
+});
+
+const createStatsRepository = ({ users, dailySnapshots, dailyStats }: MemoryStore): StatsRepository => ({
+  getUser: async (userId) => users.get(userId, userId),
+  subscribeUser: (userId, onNext) => users.listen(userId, () => onNext(users.get(userId, userId))),
+  setUser: async (userId, stats) => {
+    users.set(userId, userId, { ...stats });
+  },
+  getDailySnapshot: async (userId, date) => dailySnapshots.get(userId, date),
+  getDailyStats: async (userId, date) => dailyStats.get(userId, date),
+  markJournalDay: async (userId, date, at) => {
+    const stats = dailyStats.get(userId, date);
+    dailyStats.set(userId, date, stats
+      ? { ...stats, hasJournal: true }
+      : { id: `${userId}_${date}`, date, userId, tasksCompleted: 0, xpEarned: 0, hasJournal: true, created: at, lastUpdated: at } as DailyStats);
+
+    const user = users.get(userId, userId);
+    if (user) {
+      users.set(userId, userId, { ...user, lastActive: at });
+    }
+  },
+});
+
+const createStore = (seed: MemorySeed): MemoryStore => {
+  const store: MemoryStore = {
+    tasks: createCollection(),
+    archivedTasks: createCollection(),
+    taskHistory: createCollection(),
+    journal: createCollection(),
+    scheduledTasks: createCollection(),
+    xpBank: createCollection(),
+    xpBankRecords: createCollection(),
+    dailySnapshots: createCollection(),
+    dailyStats: createCollection(),
+    users: createCollection(),
+  };
+  seed.tasks?.forEach(task => store.tasks.docs(task.userId).set(task.id, { ...task }));
+  seed.journal?.forEach(({ date, ...day }) => store.journal.docs(day.userId).set(date, day));
+  seed.scheduledTasks?.forEach(task => store.scheduledTasks.docs(task.userId).set(task.id, { ...task }));
+  seed.xpBank?.forEach(day => store.xpBank.docs(day.userId).set(day.date, { ...day }));
+  seed.xpBankRecords?.forEach(record => store.xpBankRecords.docs(record.userId).set(record.id, { ...record }));
+  seed.users?.forEach(stats => store.users.docs(stats.userId).set(stats.userId, { ...stats }));
+  return store;
+};
+
+/**
+ * Repositories that keep everything in memory, for demos and fast tests
+ * Nothing is persisted; each call starts from the seed
+ */
+export const createMemoryRepositories = (seed: MemorySeed = {}): Repositories => {
+  const store = createStore(seed);
+  return {
+    tasks: createTaskRepository(store),
+    journal: createJournalRepository(store),
+    schedule: createScheduleRepository(store),
+    xpLedger: createXPLedgerRepository(store),
+    stats: createStatsRepository(store),
+  };
+};
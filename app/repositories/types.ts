@@ -0,0 +1,173 @@
+import type { Timestamp } from 'firebase/firestore';
+import type { JournalEntry, UserStats } from '../types';
+import type { ScheduledTask } from '../types/scheduledTask';
+import type {
+  DailySnapshot,
+  DailyStats,
+  DailyXPBank,
+  Task,
+  TaskHistoryRecord,
+  XPBankRecord,
+} from '../utils/firebaseService';
+
+/**
+ * Storage for the app's data, independent of Firestore
+ *
+ * Every method takes the owner's user ID; which user is signed in is up to the caller.
+ * A task action and the history, XP and stats writes that go with it land together
+ * through TaskRepository.batch. The daily rollover still runs its own Firestore batches.
+ */
+
+export type Unsubscribe = () => void;
+export type ErrorListener = (error: Error) => void;
+
+// A journal day keyed by its date (YYYY-MM-DD)
+export type JournalDay = JournalEntry & { date: string };
+
+export interface JournalDayChange {
+  type: 'added' | 'modified' | 'removed';
+  entry: JournalDay;
+}
+
+export type TaskChanges = Partial<Omit<Task, 'id' | 'userId'>>;
+
+// Added to the stored number when the batch lands, so writes from several devices add up
+export interface Increment {
+  increment: number;
+}
+
+// The repository sets the timestamp
+export type TaskHistoryEntry = Omit<TaskHistoryRecord, 'id' | 'userId' | 'timestamp' | 'completedAt'> & {
+  completedAt?: Timestamp | null;
+};
+
+// The repository sets the ID, userId and timestamp
+export type XPRecordEntry = Omit<XPBankRecord, 'id' | 'userId' | 'timestamp'>;
+
+export type XPDayTotals = Pick<DailyXPBank, 'totalXP' | 'availableXP'>;
+
+export type DailySnapshotTotals = Pick<DailySnapshot, 'tasksCompleted' | 'xpEarned' | 'dailyXpBank' | 'tasksAdjusted'>;
+
+export type DailyStatsTotals = Pick<DailyStats, 'tasksCompleted' | 'xpEarned'>;
+
+/**
+ * Writes for one task action; nothing is stored until commit, and then all of it is
+ * Updates fail the commit if their document doesn't exist. The repository stamps the
+ * update and creation times.
+ */
+export interface TaskWriteBatch {
+  // Returns the new task's ID
+  createTask(task: Omit<Task, 'id'>): string;
+  updateTask(taskId: string, changes: TaskChanges): void;
+  removeTask(taskId: string): void;
+  // Copies of tasks that left the task list; archived completed ones still show on their day
+  archiveTask(taskId: string, task: Task): void;
+  keepDeletedTask(taskId: string, task: Task): void;
+  addHistory(entry: TaskHistoryEntry): void;
+  // Returns the new record's ID
+  addXpRecord(record: XPRecordEntry): string;
+  // Start a day's XP bank with its first records
+  setXpDay(date: string, totals: XPDayTotals, recordIds: string[]): void;
+  // Add a record to a day's XP bank, with its new totals if they changed
+  updateXpDay(date: string, recordId: string, totals?: XPDayTotals): void;
+  setDailySnapshot(date: string, totals: DailySnapshotTotals): void;
+  updateDailySnapshot(date: string, changes: Partial<DailySnapshotTotals>): void;
+  setDailyStats(date: string, totals: DailyStatsTotals): void;
+  updateDailyStats(date: string, changes: Partial<DailyStatsTotals>): void;
+  setUserStats(stats: UserStats): void;
+  updateUserStats(changes: { totalXP?: number | Increment; todayXP?: number | Increment }): void;
+  commit(): Promise<void>;
+}
+
+export interface TaskRepository {
+  // Only the completed or the open tasks when completed is given
+  list(userId: string, completed?: boolean): Promise<Task[]>;
+  get(userId: string, taskId: string): Promise<Task | null>;
+  subscribe(userId: string, onNext: (tasks: Task[]) => void, onError?: ErrorListener): Unsubscribe;
+  // Tasks kept by archiveTask and keepDeletedTask
+  subscribeArchived(userId: string, onNext: (tasks: Task[]) => void, onError?: ErrorListener): Unsubscribe;
+  // The repository sets createdAt if missing, and updatedAt
+  create(userId: string, task: Omit<Task, 'id'>): Promise<string>;
+  update(userId: string, taskId: string, changes: Partial<Omit<Task, 'id' | 'userId'>>): Promise<void>;
+  remove(userId: string, taskId: string): Promise<void>;
+  batch(userId: string): TaskWriteBatch;
+}
+
+export interface JournalRepository {
+  getDay(userId: string, date: string): Promise<JournalEntry | null>;
+  // Newest first
+  listDays(userId: string): Promise<JournalDay[]>;
+  /**
+   * Watch the newest days, or the whole journal when dayLimit is null
+   * Each call also gets the days that changed since the previous one
+   */
+  subscribe(
+    userId: string,
+    dayLimit: number | null,
+    onNext: (days: JournalDay[], changes: JournalDayChange[]) => void,
+    onError?: ErrorListener
+  ): Unsubscribe;
+  /**
+   * Read a day and write its new contents in one step, so concurrent saves don't overwrite each other
+   * The change may run more than once if another save lands first
+   * @param change Gets the current day (null if there is none) and returns the new one, or null to leave it as is
+   * @returns Whether the day was written
+   */
+  updateDay(
+    userId: string,
+    date: string,
+    change: (current: JournalEntry | null) => JournalEntry | null
+  ): Promise<boolean>;
+}
+
+// Occurrence lists change by adding or removing dates, so devices settling different occurrences don't clash
+export type OccurrenceListChange = string[] | { add: string[] } | { remove: string[] };
+
+type ScheduledTaskFields = Omit<ScheduledTask, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'completedOccurrences' | 'missedOccurrences'>;
+
+// Optional fields can be set to null to clear them
+export type ScheduledTaskChanges = { [K in keyof ScheduledTaskFields]?: ScheduledTaskFields[K] | null } & {
+  completedOccurrences?: OccurrenceListChange;
+  missedOccurrences?: OccurrenceListChange;
+};
+
+export interface ScheduleRepository {
+  list(userId: string, status?: ScheduledTask['status']): Promise<ScheduledTask[]>;
+  get(userId: string, taskId: string): Promise<ScheduledTask | null>;
+  subscribe(userId: string, onNext: (tasks: ScheduledTask[]) => void, onError?: ErrorListener): Unsubscribe;
+  // The repository sets createdAt and updatedAt
+  create(userId: string, task: Omit<ScheduledTask, 'id' | 'createdAt' | 'updatedAt'>): Promise<string>;
+  // The repository sets updatedAt
+  update(userId: string, taskId: string, changes: ScheduledTaskChanges): Promise<void>;
+  // All or nothing
+  updateMany(userId: string, updates: { taskId: string; changes: ScheduledTaskChanges }[]): Promise<void>;
+  remove(userId: string, taskId: string): Promise<void>;
+}
+
+// Written through TaskRepository.batch, together with the task action that earned the XP
+export interface XPLedgerRepository {
+  // The XP bank for a day (YYYY-MM-DD), or null if nothing was banked
+  getDay(userId: string, date: string): Promise<DailyXPBank | null>;
+  listDays(userId: string): Promise<DailyXPBank[]>;
+  // Records that no longer exist are skipped
+  getRecords(userId: string, recordIds: string[]): Promise<XPBankRecord[]>;
+}
+
+// The user document, with the XP totals and settings, and the per-day task stats
+export interface StatsRepository {
+  getUser(userId: string): Promise<UserStats | null>;
+  subscribeUser(userId: string, onNext: (stats: UserStats | null) => void, onError?: ErrorListener): Unsubscribe;
+  setUser(userId: string, stats: UserStats): Promise<void>;
+  getDailySnapshot(userId: string, date: string): Promise<DailySnapshot | null>;
+  getDailyStats(userId: string, date: string): Promise<DailyStats | null>;
+  // Flag the day as journaled, starting its stats if it has none, and mark the user active at the given time
+  markJournalDay(userId: string, date: string, at: Timestamp): Promise<void>;
+}
+
+export interface Repositories {
+  tasks: TaskRepository;
+  journal: JournalRepository;
+  schedule: ScheduleRepository;
+  xpLedger: XPLedgerRepository;
+  stats: StatsRepository;
+}
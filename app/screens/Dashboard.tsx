@@ -8,26 +8,28 @@ import {
   Alert,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { FIREBASE_AUTH, FIREBASE_DB } from '../../FirebaseConfig';
-// Import Firestore functions separately to avoid any potential issues
+import { FIREBASE_AUTH } from '../../FirebaseConfig';
+import { subscribeToTasks, Task as TaskType, updateTask, subscribeToUserStats, SubTask } from '../utils/firebaseService';
+import { useDispatch } from 'react-redux';
+import type { AppDispatch } from '../store/types';
+import { runOrQueueOperation } from '../store/slices/networkSlice';
+import { getDayKey } from '../utils/dateUtils';
+import { runDailyRollover } from '../utils/dailyRollover';
+import { isTaskDueOn } from '../utils/recurrenceUtils';
+import { DEFAULT_XP_SETTINGS, resolveXpSettings } from '../utils/xpSettings';
+import { XP_PER_STREAK_FREEZE, subscribeToStreakProtections } from '../utils/streaks';
 import {
-  collection,
-  query,
-  where,
-  getDocs,
-  getDoc,
-  doc,
-  Timestamp,
-  writeBatch,
-  increment,
-  onSnapshot,
-} from 'firebase/firestore';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { subscribeToTasks, Task as TaskType, completeTask, updateTask, subscribeToUserStats, resetRecurringTasks, SubTask, togglePinnedTask } from '../utils/firebaseService';
-import { formatDateString } from '../utils/dateUtils';
+  DEFAULT_TASK_CATEGORIES,
+  groupByCategory,
+  subscribeToTaskCategories,
+  subscribeToTodayCategoryXp,
+} from '../utils/taskCategories';
+import { collectTags, getTaskFilterFields, matchesTaskFilter } from '../utils/taskFilters';
+import { StreakProtection, TaskCategory, TaskFilter, XPSettings } from '../types';
 import { Colors, Typography, Spacing } from '../styles/global';
 import Theme from '../styles/theme';
 import XPBankManager from '../components/XPBankManager';
+import TaskFilterBar from '../components/TaskFilterBar';
 import { useNavigation, DrawerActions } from '@react-navigation/native';
 // Stats service no longer needed
 
@@ -49,8 +51,15 @@ const Dashboard = () => {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [userName, setUserName] = useState<string>('');
   
-  const XP_CAP = 100; // Maximum XP per day
+  const [xpSettings, setXpSettings] = useState<XPSettings>(DEFAULT_XP_SETTINGS);
+  const [streakCount, setStreakCount] = useState(0);
+  const [streakFreezes, setStreakFreezes] = useState(0);
+  const [streakProtections, setStreakProtections] = useState<StreakProtection[]>([]);
+  const [categories, setCategories] = useState<TaskCategory[]>(DEFAULT_TASK_CATEGORIES);
+  const [categoryXp, setCategoryXp] = useState<Record<string, number>>({});
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>({});
   const navigation = useNavigation();
+  const dispatch = useDispatch<AppDispatch>();
   const user = FIREBASE_AUTH.currentUser;
 
   // Function to refresh data after XP modifications
@@ -59,114 +68,37 @@ const Dashboard = () => {
     setRefreshTrigger(prev => prev + 1);
   };
 
-  // Fetch user profile data
-  const fetchUserProfile = async () => {
-    if (!user) return;
-    
-    try {
-      // Explicitly use the imported doc function
-      const userRef = doc(FIREBASE_DB, 'users', user.uid);
-      const userDoc = await getDoc(userRef);
-      
-      if (userDoc.exists()) {
-        const userData = userDoc.data();
-        if (userData.fullName) {
-          setUserName(userData.fullName);
-        }
-      }
-    } catch (error) {
-      // Logging removed for production ('Error fetching user profile:', error);
-    }
-  };
-  
   // Set up real-time listener for user profile changes
   useEffect(() => {
     if (!user) return;
     
-    const userRef = doc(FIREBASE_DB, 'users', user.uid);
-    const unsubscribeProfile = onSnapshot(userRef, (docSnapshot) => {
-      if (docSnapshot.exists()) {
-        const userData = docSnapshot.data();
-        if (userData.fullName) {
-          setUserName(userData.fullName);
-        }
+    const unsubscribeProfile = subscribeToUserStats((userData) => {
+      if (userData.fullName) {
+        setUserName(userData.fullName);
       }
-    }, (error: Error) => {
-      // Logging removed for production ('Error in profile listener:', error);
+      setXpSettings(resolveXpSettings(userData.xpSettings));
+      setStreakCount(userData.streakCount || 0);
+      setStreakFreezes(userData.streakFreezesAvailable || 0);
     });
+    const unsubscribeProtections = subscribeToStreakProtections(setStreakProtections);
+    const unsubscribeCategories = subscribeToTaskCategories(setCategories);
+    const unsubscribeCategoryXp = subscribeToTodayCategoryXp(setCategoryXp);
     
     return () => {
       unsubscribeProfile();
+      unsubscribeProtections();
+      unsubscribeCategories();
+      unsubscribeCategoryXp();
     };
   }, [user]);
 
   useEffect(() => {
     if (!user) return;
     
-    // Fetch user profile data
-    fetchUserProfile();
-
-    // Reset tasks at midnight or when day changes
-    const checkAndResetTasks = async () => {
-      try {
-        const now = new Date();
-        const todayStr = formatDateString(now);
-        const lastResetKey = `lastReset_${user.uid}`;
-        const lastResetStr = await AsyncStorage.getItem(lastResetKey);
-        const lastReset = lastResetStr ? new Date(lastResetStr) : null;
-
-        // Check if it's a new day (not just app reload during development)
-        if (!lastReset || 
-            lastReset.getDate() !== now.getDate() || 
-            lastReset.getMonth() !== now.getMonth() || 
-            lastReset.getFullYear() !== now.getFullYear()) {
-          
-          // Logging removed for production ('Resetting tasks for new day:', now.toISOString());
-          
-          // Use the dedicated resetRecurringTasks function
-          const result = await resetRecurringTasks();
-          // Logging removed for production ('Reset recurring tasks result:', result);
-          
-          // Log the date transition for debugging
-          // Logging removed for production (`Day transition detected: ${lastResetStr || 'initial'} -> ${now.toISOString()}`);
-          // Logging removed for production (`Today's date string for comparison: ${todayStr}`);
-          
-          // Handle non-recurring completed tasks - remove them from the task list
-          // This ensures completed non-recurring tasks don't show up the next day
-          const batch = writeBatch(FIREBASE_DB);
-          let removedCount = 0;
-          
-          // Get all completed non-recurring tasks
-          const userTasksRef = collection(FIREBASE_DB, 'users', user.uid, 'tasks');
-          const completedNonRecurringQuery = query(
-            userTasksRef, 
-            where('completed', '==', true),
-            where('recurring', '==', false)
-          );
-          
-          const completedSnapshot = await getDocs(completedNonRecurringQuery);
-          
-          // For each completed non-recurring task, update its lastCompletedDate
-          // This will prevent it from showing up in the Dashboard but preserve it in ManageTasks
-          completedSnapshot.forEach((doc) => {
-            const task = doc.data() as Task;
-            batch.update(doc.ref, {
-              lastCompletedDate: todayStr
-            });
-            removedCount++;
-          });
-          
-          if (removedCount > 0) {
-            await batch.commit();
-            // Logging removed for production (`Updated ${removedCount} completed non-recurring tasks`);
-          }
-          
-          // Update last reset time
-          await AsyncStorage.setItem(lastResetKey, now.toISOString());
-        }
-      } catch (error) {
-        // Logging removed for production ('Error resetting tasks:', error);
-      }
+    // Roll over to the user's new day; a no-op once today is done
+    // runDailyRollover logs its own failures; the next check retries
+    const checkAndResetTasks = () => {
+      runDailyRollover();
     };
 
     // Check for reset on component mount
@@ -179,16 +111,15 @@ const Dashboard = () => {
     // Only show tasks that are either:
     // 1. Not completed, or
     // 2. Completed today (for the Completed Tasks section)
-    const todayStr = formatDateString(new Date());
     const unsubscribeTasks = subscribeToTasks((taskData) => {
-        const todayStr = formatDateString(new Date());
+        const todayStr = getDayKey();
 
-        // Tasks To Complete: Not archived, not completed, either recurring or created today
+        // Tasks To Complete: Not archived, not completed, either recurring and due today or created today
         const tasksToComplete = taskData.filter(task => {
           if (task.archived) return false;
-          if (task.recurring) return !task.completed;
+          if (task.recurring) return !task.completed && isTaskDueOn(task, todayStr);
           // Non-recurring: show if created today and not completed
-          const createdToday = !!task.createdAt && formatDateString(new Date(task.createdAt.seconds * 1000)) === todayStr;
+          const createdToday = !!task.createdAt && getDayKey(new Date(task.createdAt.seconds * 1000)) === todayStr;
           return !task.completed && createdToday;
         });
 
@@ -243,18 +174,21 @@ const Dashboard = () => {
           {
             text: 'Confirm',
             onPress: async () => {
-              const result = await completeTask(taskId);
+              const result = await dispatch(runOrQueueOperation({ type: 'completeTask', payload: { taskId } }));
               
               if (!result.success) {
                 // Handle error case
                 Alert.alert('Error', result.message || 'Failed to complete task');
+              } else if (result.queued) {
+                // XP is awarded once the completion syncs
+                Alert.alert('Saved Offline', result.message);
               } else {
                 // Task completed successfully
                 // Check if XP was adjusted due to daily cap
                 if (result.xpCapped) {
                   Alert.alert(
                     'Task Completed',
-                    `Task completed! XP was automatically adjusted from ${result.originalXp} to ${result.awardedXP} to respect the daily cap of ${XP_CAP} XP.`
+                    `Task completed! XP was automatically adjusted from ${result.originalXp} to ${result.awardedXP} to respect the daily cap of ${xpSettings.dailyXpCap} XP.`
                   );
                 } else {
                   Alert.alert('Success', `Task completed! Earned ${result.awardedXP} XP`);
@@ -276,7 +210,7 @@ const Dashboard = () => {
   // Handle toggling the pinned status of a task
   const handleTogglePinned = async (taskId: string, currentPinned: boolean) => {
     try {
-      const result = await togglePinnedTask(taskId);
+      const result = await dispatch(runOrQueueOperation({ type: 'togglePinnedTask', payload: { taskId } }));
       if (!result.success) {
         Alert.alert('Error', result.message || 'Failed to update pinned status');
       }
@@ -286,96 +220,47 @@ const Dashboard = () => {
     }
   };
 
+  const showStreakDetails = () => {
+    const recent = streakProtections.slice(0, 5).map(protection =>
+      `• ${protection.date}: ${protection.reason === 'freeze' ? 'streak freeze' : 'grace period'}`
+    );
+
+    Alert.alert(
+      `${streakCount}-day streak`,
+      `You have ${streakFreezes} streak ${streakFreezes === 1 ? 'freeze' : 'freezes'}. ` +
+        `A freeze is earned for every ${XP_PER_STREAK_FREEZE} XP and covers a missed day automatically.` +
+        (recent.length > 0 ? `\n\nProtected days:\n${recent.join('\n')}` : '')
+    );
+  };
+
+  const visibleTasks = tasks.filter(task => matchesTaskFilter(getTaskFilterFields(task), taskFilter, categories));
+
   const renderTaskSection = (title: string, filteredTasks: Task[]) => (
     <View style={styles.section}>
       <Text style={Theme.Typography.h3}>{title}</Text>
       {filteredTasks.length > 0 ? (
-        filteredTasks.map((task) => (
-          <TouchableOpacity
-            key={task.id}
-            style={[
-              Theme.ComponentStyles.card, 
-              task.completed && styles.completedTaskCard,
-              task.pinned && !task.completed && styles.pinnedTaskCard
-            ]}
-            onPress={() => !task.completed && handleTaskCompletion(task.id)}
-          >
-            <View style={[Theme.ComponentStyles.spaceBetween, {flexWrap: 'wrap'}]}>
-              <View style={[Theme.ComponentStyles.row, {flex: 1, minWidth: '70%', marginRight: Theme.Spacing.sm}]}>
-                <Text style={styles.taskEmoji}>{task.emoji}</Text>
-                <View style={{flex: 1, marginLeft: Theme.Spacing.sm}}>
-                  <View style={[Theme.ComponentStyles.row, {alignItems: 'center'}]}>
-                    <Text style={[Theme.Typography.h4, {flex: 1}]}>{task.title}</Text>
-                    {!task.completed && (
-                      <TouchableOpacity 
-                        style={styles.pinButton}
-                        onPress={() => handleTogglePinned(task.id, !!task.pinned)}
-                      >
-                        <MaterialIcons 
-                          name={task.pinned ? "star" : "star-outline"} 
-                          size={24} 
-                          color={task.pinned ? Theme.Colors.warning : Theme.Colors.textSecondary} 
-                        />
-                      </TouchableOpacity>
-                    )}
-                  </View>
-                  {task.pinned && !task.completed && (
-                    <Text style={styles.pinnedLabel}>Pinned</Text>
-                  )}
-                </View>
-              </View>
-              <View style={[styles.xpBadge, {backgroundColor: task.completed ? Theme.Colors.success + '30' : Theme.Colors.primary + '30', marginTop: Theme.Spacing.xs}]}>
-                <Text style={[Theme.Typography.bodySmall, {color: task.completed ? Theme.Colors.success : Theme.Colors.primary, fontWeight: '600'}]}>
-                  +{task.xp} XP
-                  {task.wasAdjusted && task.originalXp && (
-                    <Text style={Theme.Typography.caption}> (adjusted from {task.originalXp})</Text>
-                  )}
+        groupByCategory(filteredTasks, categories).map(({ category, items }) => (
+          <View key={category.id}>
+            <View style={styles.categoryHeader}>
+              <MaterialIcons
+                name={category.icon as keyof typeof MaterialIcons.glyphMap}
+                size={16}
+                color={category.color}
+              />
+              <Text style={[styles.categoryName, { color: category.color }]}>{category.name}</Text>
+              {category.dailyXpBudget !== undefined && (
+                <Text
+                  style={[
+                    styles.categoryBudget,
+                    (categoryXp[category.id] || 0) > category.dailyXpBudget && { color: Theme.Colors.error },
+                  ]}
+                >
+                  {Math.max(0, categoryXp[category.id] || 0)}/{category.dailyXpBudget} XP today
                 </Text>
-              </View>
+              )}
             </View>
-            
-            {task.description ? (
-              <Text style={[Theme.Typography.body, {marginTop: Theme.Spacing.sm}]}>{task.description}</Text>
-            ) : null}
-            
-            {/* Subtasks section */}
-            {task.subtasks && task.subtasks.length > 0 && (
-              <View style={{marginTop: Theme.Spacing.sm, borderTopWidth: 1, borderTopColor: Theme.Colors.borderLight, paddingTop: Theme.Spacing.sm}}>
-                <Text style={[Theme.Typography.bodySmall, {fontWeight: '600', marginBottom: Theme.Spacing.xs}]}>
-                  Subtasks ({task.subtasks.length})
-                </Text>
-                {task.subtasks.map((subtask, index) => (
-                  <View key={subtask.id} style={[Theme.ComponentStyles.row, {marginBottom: index === (task.subtasks?.length || 0) - 1 ? 0 : Theme.Spacing.xs, alignItems: 'center'}]}>
-                    <MaterialIcons 
-                      name={subtask.completed ? "check-circle" : "radio-button-unchecked"} 
-                      size={16} 
-                      color={subtask.completed ? Theme.Colors.success : Theme.Colors.textSecondary} 
-                      style={{marginRight: Theme.Spacing.xs}}
-                    />
-                    <Text style={[Theme.Typography.bodySmall, {
-                      color: Theme.Colors.textSecondary,
-                      textDecorationLine: subtask.completed ? 'line-through' : 'none'
-                    }]}>
-                      {subtask.title}
-                    </Text>
-                  </View>
-                ))}
-              </View>
-            )}
-            
-            {task.completed && task.completedAt && (
-              <View style={{marginTop: Theme.Spacing.sm, paddingTop: Theme.Spacing.sm, borderTopWidth: 1, borderTopColor: Theme.Colors.borderLight}}>
-                <Text style={Theme.Typography.caption}>
-                  Completed: {task.completedAt.toDate().toLocaleString()}
-                </Text>
-                {task.wasAdjusted && (
-                  <Text style={[Theme.Typography.caption, {color: Theme.Colors.warning, marginTop: Theme.Spacing.xs}]}>
-                    XP was adjusted to respect the daily cap of {XP_CAP} XP
-                  </Text>
-                )}
-              </View>
-            )}
-          </TouchableOpacity>
+            {items.map(renderTaskCard)}
+          </View>
         ))
       ) : (
         <View style={[Theme.ComponentStyles.card, {alignItems: 'center', padding: Theme.Spacing.lg}]}>
@@ -385,6 +270,94 @@ const Dashboard = () => {
     </View>
   );
 
+  const renderTaskCard = (task: Task) => (
+    <TouchableOpacity
+      key={task.id}
+      style={[
+        Theme.ComponentStyles.card, 
+        task.completed && styles.completedTaskCard,
+        task.pinned && !task.completed && styles.pinnedTaskCard
+      ]}
+      onPress={() => !task.completed && handleTaskCompletion(task.id)}
+    >
+      <View style={[Theme.ComponentStyles.spaceBetween, {flexWrap: 'wrap'}]}>
+        <View style={[Theme.ComponentStyles.row, {flex: 1, minWidth: '70%', marginRight: Theme.Spacing.sm}]}>
+          <Text style={styles.taskEmoji}>{task.emoji}</Text>
+          <View style={{flex: 1, marginLeft: Theme.Spacing.sm}}>
+            <View style={[Theme.ComponentStyles.row, {alignItems: 'center'}]}>
+              <Text style={[Theme.Typography.h4, {flex: 1}]}>{task.title}</Text>
+              {!task.completed && (
+                <TouchableOpacity 
+                  style={styles.pinButton}
+                  onPress={() => handleTogglePinned(task.id, !!task.pinned)}
+                >
+                  <MaterialIcons 
+                    name={task.pinned ? "star" : "star-outline"} 
+                    size={24} 
+                    color={task.pinned ? Theme.Colors.warning : Theme.Colors.textSecondary} 
+                  />
+                </TouchableOpacity>
+              )}
+            </View>
+            {task.pinned && !task.completed && (
+              <Text style={styles.pinnedLabel}>Pinned</Text>
+            )}
+          </View>
+        </View>
+        <View style={[styles.xpBadge, {backgroundColor: task.completed ? Theme.Colors.success + '30' : Theme.Colors.primary + '30', marginTop: Theme.Spacing.xs}]}>
+          <Text style={[Theme.Typography.bodySmall, {color: task.completed ? Theme.Colors.success : Theme.Colors.primary, fontWeight: '600'}]}>
+            +{task.xp} XP
+            {task.wasAdjusted && task.originalXp && (
+              <Text style={Theme.Typography.caption}> (adjusted from {task.originalXp})</Text>
+            )}
+          </Text>
+        </View>
+      </View>
+      
+      {task.description ? (
+        <Text style={[Theme.Typography.body, {marginTop: Theme.Spacing.sm}]}>{task.description}</Text>
+      ) : null}
+      
+      {/* Subtasks section */}
+      {task.subtasks && task.subtasks.length > 0 && (
+        <View style={{marginTop: Theme.Spacing.sm, borderTopWidth: 1, borderTopColor: Theme.Colors.borderLight, paddingTop: Theme.Spacing.sm}}>
+          <Text style={[Theme.Typography.bodySmall, {fontWeight: '600', marginBottom: Theme.Spacing.xs}]}>
+            Subtasks ({task.subtasks.length})
+          </Text>
+          {task.subtasks.map((subtask, index) => (
+            <View key={subtask.id} style={[Theme.ComponentStyles.row, {marginBottom: index === (task.subtasks?.length || 0) - 1 ? 0 : Theme.Spacing.xs, alignItems: 'center'}]}>
+              <MaterialIcons 
+                name={subtask.completed ? "check-circle" : "radio-button-unchecked"} 
+                size={16} 
+                color={subtask.completed ? Theme.Colors.success : Theme.Colors.textSecondary} 
+                style={{marginRight: Theme.Spacing.xs}}
+              />
+              <Text style={[Theme.Typography.bodySmall, {
+                color: Theme.Colors.textSecondary,
+                textDecorationLine: subtask.completed ? 'line-through' : 'none'
+              }]}>
+                {subtask.title}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+      
+      {task.completed && task.completedAt && (
+        <View style={{marginTop: Theme.Spacing.sm, paddingTop: Theme.Spacing.sm, borderTopWidth: 1, borderTopColor: Theme.Colors.borderLight}}>
+          <Text style={Theme.Typography.caption}>
+            Completed: {task.completedAt.toDate().toLocaleString()}
+          </Text>
+          {task.wasAdjusted && (
+            <Text style={[Theme.Typography.caption, {color: Theme.Colors.warning, marginTop: Theme.Spacing.xs}]}>
+              XP was adjusted to respect the daily cap of {xpSettings.dailyXpCap} XP
+            </Text>
+          )}
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
   return (
     <View style={Theme.ComponentStyles.container}>
       <View style={Theme.ComponentStyles.header}>
@@ -405,14 +378,27 @@ const Dashboard = () => {
 
       <ScrollView style={styles.content}>
         {/* Stats grid removed as requested */}
+        <TouchableOpacity style={styles.streakChip} onPress={showStreakDetails}>
+          <MaterialIcons name="local-fire-department" size={18} color={Theme.Colors.warning} />
+          <Text style={styles.streakText}>
+            {streakCount}-day streak · {streakFreezes} {streakFreezes === 1 ? 'freeze' : 'freezes'}
+          </Text>
+        </TouchableOpacity>
+
+        <TaskFilterBar
+          filter={taskFilter}
+          onChange={setTaskFilter}
+          categories={categories}
+          availableTags={collectTags(tasks)}
+        />
 
         {renderTaskSection(
           'Tasks To Complete',
-          tasks.filter((task) => !task.completed)
+          visibleTasks.filter((task) => !task.completed)
         )}
         {renderTaskSection(
           'Completed Tasks',
-          tasks.filter((task) => task.completed)
+          visibleTasks.filter((task) => task.completed)
         )}
       </ScrollView>
     </View>
@@ -461,6 +447,37 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: Theme.Spacing.lg,
   },
+  categoryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Theme.Spacing.sm,
+  },
+  categoryName: {
+    ...Theme.Typography.bodySmall,
+    fontWeight: '600',
+    marginLeft: Theme.Spacing.xs,
+    flex: 1,
+  },
+  categoryBudget: {
+    ...Theme.Typography.caption,
+    color: Theme.Colors.textSecondary,
+  },
+  streakChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: Theme.Spacing.sm,
+    paddingVertical: Theme.Spacing.xs,
+    borderRadius: 16,
+    backgroundColor: Theme.Colors.warning + '20',
+    marginBottom: Theme.Spacing.md,
+  },
+  streakText: {
+    ...Theme.Typography.bodySmall,
+    color: Theme.Colors.text,
+    fontWeight: '600',
+    marginLeft: Theme.Spacing.xs,
+  },
   headerTitleContainer: {
     flex: 1,
     alignItems: 'center',
@@ -23,6 +23,17 @@ import {
   Task,
 } from '../utils/firebaseService';
 import { MissedTaskOccurrence, generateAllMissedOccurrences } from '../utils/missedTasksUtils';
+import {
+  CategoryXpSummary,
+  DEFAULT_TASK_CATEGORIES,
+  findCategory,
+  groupByCategory,
+  loadCategoryXpBreakdown,
+  subscribeToTaskCategories,
+} from '../utils/taskCategories';
+import { collectTags, matchesTaskFilter } from '../utils/taskFilters';
+import TaskFilterBar from '../components/TaskFilterBar';
+import { TaskCategory, TaskFilter } from '../types';
 
 interface ExtendedTaskHistoryRecord extends TaskHistoryRecord {
   recurring?: boolean;
@@ -41,6 +52,7 @@ interface IncompleteTask {
   title: string;
   description?: string;
   category?: string;
+  tags?: string[];
   xp: number;
   date: string;
   userId: string;
@@ -64,6 +76,11 @@ type RootStackParamList = {
 
 type HistoryScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+// Periods offered for the category XP breakdown, in days
+const BREAKDOWN_PERIODS = [7, 30, 90];
+// The breakdown bars are grouped so long periods still fit on screen
+const MAX_BREAKDOWN_BARS = 15;
+
 const formatDate = (dateStr: string): string => {
   if (!dateStr) return 'N/A';
   const date = new Date(dateStr);
@@ -75,6 +92,16 @@ const formatDateString = (date: Date): string => {
   return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 };
 
+// Add up daily XP into at most MAX_BREAKDOWN_BARS bars
+const toBars = (dailyXP: number[]): number[] => {
+  const perBar = Math.ceil(dailyXP.length / MAX_BREAKDOWN_BARS);
+  const bars: number[] = [];
+  for (let start = 0; start < dailyXP.length; start += perBar) {
+    bars.push(dailyXP.slice(start, start + perBar).reduce((sum, xp) => sum + xp, 0));
+  }
+  return bars;
+};
+
 const groupByDate = (records: (ExtendedTaskHistoryRecord | IncompleteTask)[]) => {
   const grouped = new Map<string, (ExtendedTaskHistoryRecord | IncompleteTask)[]>();
   records.forEach(record => {
@@ -86,7 +113,7 @@ const groupByDate = (records: (ExtendedTaskHistoryRecord | IncompleteTask)[]) =>
 
   return Array.from(grouped.entries())
     .sort(([dateA], [dateB]) => dateB.localeCompare(dateA))
-    .map(([date, data]) => ({ date, data }));
+    .map(([date, data]) => ({ date, title: formatDate(date), data }));
 };
 
 const styles = StyleSheet.create({
@@ -144,6 +171,89 @@ const styles = StyleSheet.create({
     color: Theme.Colors.textLight,
     fontWeight: 'bold',
   },
+  categoryFilterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: Theme.Spacing.sm,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Theme.Colors.border,
+    marginHorizontal: 4,
+  },
+  categoryFilterText: {
+    ...Theme.Typography.caption,
+    color: Theme.Colors.text,
+    marginLeft: 4,
+  },
+  breakdownCard: {
+    ...Theme.ComponentStyles.card,
+    marginHorizontal: Theme.Spacing.md,
+    marginTop: Theme.Spacing.md,
+  },
+  breakdownHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Theme.Spacing.sm,
+  },
+  breakdownTitle: {
+    ...Typography.subtitle,
+    fontWeight: 'bold',
+    color: Theme.Colors.text,
+  },
+  breakdownPeriods: {
+    flexDirection: 'row',
+  },
+  breakdownPeriod: {
+    ...Theme.Typography.caption,
+    color: Theme.Colors.textSecondary,
+    marginLeft: Theme.Spacing.sm,
+  },
+  breakdownPeriodActive: {
+    color: Theme.Colors.primary,
+    fontWeight: 'bold',
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Theme.Spacing.xs,
+  },
+  breakdownName: {
+    ...Theme.Typography.bodySmall,
+    color: Theme.Colors.text,
+    marginLeft: Theme.Spacing.xs,
+    width: 90,
+  },
+  breakdownBars: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 24,
+    marginHorizontal: Theme.Spacing.sm,
+  },
+  breakdownBar: {
+    flex: 1,
+    marginHorizontal: 1,
+    borderRadius: 2,
+  },
+  breakdownTotal: {
+    alignItems: 'flex-end',
+    minWidth: 64,
+  },
+  breakdownXP: {
+    ...Theme.Typography.bodySmall,
+    fontWeight: 'bold',
+    color: Theme.Colors.text,
+  },
+  breakdownTrend: {
+    ...Theme.Typography.caption,
+    color: Theme.Colors.textSecondary,
+  },
+  breakdownEmpty: {
+    ...Theme.Typography.bodySmall,
+    color: Theme.Colors.textSecondary,
+  },
   subtaskContainer: {
     marginTop: Theme.Spacing.sm,
     marginLeft: Theme.Spacing.md,
@@ -294,6 +404,27 @@ const History = () => {
   const [incompleteTasks, setIncompleteTasks] = useState<IncompleteTask[]>([]);
   const [missedOccurrences, setMissedOccurrences] = useState<MissedTaskOccurrence[]>([]);
   const [filter, setFilter] = useState<'all' | 'completed' | 'created' | 'updated' | 'recurring' | 'incomplete'>('all');
+  const [categories, setCategories] = useState<TaskCategory[]>(DEFAULT_TASK_CATEGORIES);
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>({});
+  const [groupBy, setGroupBy] = useState<'date' | 'category'>('date');
+  const [breakdownDays, setBreakdownDays] = useState(BREAKDOWN_PERIODS[0]);
+  const [breakdown, setBreakdown] = useState<CategoryXpSummary[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToTaskCategories(setCategories);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    loadCategoryXpBreakdown(breakdownDays, categories).then(summaries => {
+      if (!cancelled) setBreakdown(summaries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, breakdownDays, categories]);
 
   useEffect(() => {
     if (!user) return;
@@ -347,12 +478,21 @@ const History = () => {
 
   const groupedHistory = useMemo(() => {
     // For the incomplete filter, use both current incomplete tasks and missed occurrences
-    if (filter === 'incomplete') {
-      return groupByDate([...missedOccurrences]);
+    // The task filter is applied here so removed categories match "Uncategorized"
+    const records = (filter === 'incomplete' ? missedOccurrences : history).filter(record =>
+      matchesTaskFilter(record, taskFilter, categories)
+    );
+
+    if (groupBy === 'category') {
+      return groupByCategory<ExtendedTaskHistoryRecord | IncompleteTask>(records, categories).map(({ category, items }) => ({
+        date: category.id,
+        title: category.name,
+        category,
+        data: items,
+      }));
     }
-    // For all other filters, use history records
-    return groupByDate(history);
-  }, [history, missedOccurrences, filter]);
+    return groupByDate(records);
+  }, [history, missedOccurrences, filter, taskFilter, categories, groupBy]);
 
   // Load missed task occurrences
   useEffect(() => {
@@ -424,6 +564,13 @@ const History = () => {
         </View>
 
         {item.description && <Text style={styles.taskDescription}>{item.description}</Text>}
+
+        {groupBy === 'date' && (() => {
+          const itemCategory = findCategory(item.category, categories);
+          return (
+            <Text style={[styles.taskCategory, { color: itemCategory.color }]}>{itemCategory.name}</Text>
+          );
+        })()}
         
         {/* Render subtasks for incomplete tasks */}
         {isIncomplete && item.subtasks && item.subtasks.length > 0 && (
@@ -472,7 +619,61 @@ const History = () => {
 
   const renderSectionHeader = ({ section }: any) => (
     <View style={styles.dateHeader}>
-      <Text style={styles.dateText}>{formatDate(section.date)}</Text>
+      <Text style={[styles.dateText, section.category && { color: section.category.color }]}>{section.title}</Text>
+    </View>
+  );
+
+  const renderBreakdown = () => (
+    <View style={styles.breakdownCard}>
+      <View style={styles.breakdownHeader}>
+        <Text style={styles.breakdownTitle}>XP by Category</Text>
+        <View style={styles.breakdownPeriods}>
+          {BREAKDOWN_PERIODS.map(days => (
+            <TouchableOpacity key={days} onPress={() => setBreakdownDays(days)}>
+              <Text style={[styles.breakdownPeriod, breakdownDays === days && styles.breakdownPeriodActive]}>
+                {days}d
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {breakdown.length === 0 ? (
+        <Text style={styles.breakdownEmpty}>No XP earned in the last {breakdownDays} days.</Text>
+      ) : (
+        breakdown.map(summary => {
+          const bars = toBars(summary.dailyXP);
+          const tallest = Math.max(1, ...bars);
+          const change = summary.totalXP - summary.previousXP;
+          return (
+            <View key={summary.category.id} style={styles.breakdownRow}>
+              <MaterialIcons
+                name={summary.category.icon as keyof typeof MaterialIcons.glyphMap}
+                size={16}
+                color={summary.category.color}
+              />
+              <Text style={styles.breakdownName} numberOfLines={1}>{summary.category.name}</Text>
+              <View style={styles.breakdownBars}>
+                {bars.map((xp, index) => (
+                  <View
+                    key={index}
+                    style={[
+                      styles.breakdownBar,
+                      { height: `${Math.max(4, (xp / tallest) * 100)}%`, backgroundColor: summary.category.color + (xp > 0 ? '' : '30') },
+                    ]}
+                  />
+                ))}
+              </View>
+              <View style={styles.breakdownTotal}>
+                <Text style={styles.breakdownXP}>{summary.totalXP} XP</Text>
+                <Text style={styles.breakdownTrend}>
+                  {change === 0 ? 'same as before' : `${change > 0 ? '+' : ''}${change} vs before`}
+                </Text>
+              </View>
+            </View>
+          );
+        })
+      )}
     </View>
   );
 
@@ -518,6 +719,20 @@ const History = () => {
           {renderFilterButton('Recurring', 'recurring')}
           {renderFilterButton('Missed', 'incomplete')}
         </ScrollView>
+        <TaskFilterBar
+          filter={taskFilter}
+          onChange={setTaskFilter}
+          categories={categories}
+          availableTags={collectTags(filter === 'incomplete' ? missedOccurrences : history)}
+        >
+          <TouchableOpacity
+            style={styles.categoryFilterChip}
+            onPress={() => setGroupBy(groupBy === 'date' ? 'category' : 'date')}
+          >
+            <MaterialIcons name={groupBy === 'date' ? 'event' : 'label'} size={14} color={Theme.Colors.primary} />
+            <Text style={styles.categoryFilterText}>By {groupBy}</Text>
+          </TouchableOpacity>
+        </TaskFilterBar>
       </View>
 
       <View style={styles.content}>
@@ -533,6 +748,7 @@ const History = () => {
             keyExtractor={(item) => `${item.date}-${item.id}`}
             contentContainerStyle={{ paddingBottom: Spacing.large, paddingTop: 5 }}
             stickySectionHeadersEnabled={true}
+            ListHeaderComponent={renderBreakdown}
             ListEmptyComponent={renderEmpty}
             renderSectionHeader={renderSectionHeader}
           />
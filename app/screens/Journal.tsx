@@ -15,16 +15,55 @@ import {
   Platform,
   Dimensions
 } from 'react-native';
-import { FIREBASE_AUTH, FIREBASE_DB } from '../../FirebaseConfig';
-import { doc, setDoc, getDoc, collection, onSnapshot, query, orderBy, limit } from 'firebase/firestore';
+import { FIREBASE_AUTH } from '../../FirebaseConfig';
+import { getRepositories } from '../repositories';
 import moment from 'moment';
 import { Colors, Typography, Spacing, GlobalStyles } from '../styles/global';
 import Theme from '../styles/theme';
 import { MaterialIcons, Feather, Ionicons } from '@expo/vector-icons';
 import JournalExportButton from '../components/JournalExportButton';
+import JournalSearchModal from '../components/JournalSearchModal';
+import VoiceNotePlayer from '../components/VoiceNotePlayer';
+import MoodPaletteModal from '../components/MoodPaletteModal';
 import { useNavigation, DrawerActions } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { LineChart } from 'react-native-chart-kit';
+import { useDispatch } from 'react-redux';
+import type { AppDispatch } from '../store/types';
+import { Audio } from 'expo-av';
+import { addPendingOperation, runOrQueueOperation } from '../store/slices/networkSlice';
+import {
+  migrateLegacyJournalEntries,
+  subscribeToJournalEntries,
+} from '../utils/firebaseService';
+import { createReflectionId, getDayReflections } from '../utils/journalEntries';
+import {
+  JOURNAL_AUDIO_MIME_TYPE,
+  cacheRecording,
+  deleteCachedRecording,
+  formatAudioDuration,
+} from '../utils/journalAudio';
+import { getDayKey, getDayStart } from '../utils/dateUtils';
+import { JournalEntry, JournalReflection, MoodDefinition, StreakSettings } from '../types';
+import { applyJournalChanges, createJournalSearchIndex } from '../utils/journalSearch';
+import {
+  DEFAULT_MOOD_PALETTE,
+  MAX_MOOD_INTENSITY,
+  MAX_MOOD_VALENCE,
+  MIN_MOOD_INTENSITY,
+  MIN_MOOD_VALENCE,
+  findMood,
+  getMoodScore,
+  subscribeToMoodPalette,
+} from '../utils/moodPalette';
+import {
+  DayProductivity,
+  MoodDay,
+  computeMoodInsights,
+  describeLaggedEffect,
+  loadMoodInsights,
+} from '../utils/moodInsights';
+import { DEFAULT_STREAK_SETTINGS, computeStreak, subscribeToStreakSettings } from '../utils/streaks';
 
 type RootStackParamList = {
   Home: undefined;
@@ -33,38 +72,28 @@ type RootStackParamList = {
 
 type JournalScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-// Define valid Feather icon names for TypeScript
-type FeatherIconName = 'sun' | 'minus' | 'cloud-rain' | 'zap' | 'moon' | 'mic';
+type FeatherIconName = React.ComponentProps<typeof Feather>['name'];
 
-interface Mood {
-  emoji: string;
-  label: string;
-  color: string;
-  icon: FeatherIconName;
-}
-
-const moods: Mood[] = [
-  { emoji: '😄', label: 'Happy', color: '#48BB78', icon: 'sun' },
-  { emoji: '😐', label: 'Neutral', color: '#718096', icon: 'minus' },
-  { emoji: '😔', label: 'Low', color: '#4299E1', icon: 'cloud-rain' },
-  { emoji: '😠', label: 'Frustrated', color: '#F56565', icon: 'zap' },
-  { emoji: '😴', label: 'Tired', color: '#9F7AEA', icon: 'moon' },
-];
+// Custom moods have no icon of their own
+const getMoodIcon = (mood: MoodDefinition): FeatherIconName => (mood.icon || 'smile') as FeatherIconName;
 
-interface JournalEntry {
-  thought?: string;
-  entry?: string;
-  mood?: string;
-  timestamp: Date;
-  editTimestamp?: Date;
-  isEdited?: boolean;
-}
+// Number of past entries the history listener loads at a time
+const HISTORY_PAGE_SIZE = 10;
+// Number of days plotted on the mood chart
+const MOOD_CHART_DAYS = 14;
+// Number of moods listed in the mood and productivity insights
+const INSIGHT_MOOD_ROWS = 5;
 
 interface MoodData {
   date: string;
   mood: string;
+  intensity?: number;
+  reflectionId: string;
+  timestamp?: Date;
 }
 
+type JournalDay = JournalEntry & { date: string; reflections: JournalReflection[] };
+
 const Journal = () => {
   // State for edit modal
   const [showEditModal, setShowEditModal] = useState(false);
@@ -72,8 +101,11 @@ const Journal = () => {
   const [editThought, setEditThought] = useState('');
   const [editEntry, setEditEntry] = useState('');
   const [editMood, setEditMood] = useState('');
+  const [editReflectionId, setEditReflectionId] = useState('');
   const [selectedEntryRef, setSelectedEntryRef] = useState('');
   const pastEntriesSectionRef = useRef<View>(null);
+  // Entry to scroll to once the history listener has loaded it
+  const [pendingJumpDate, setPendingJumpDate] = useState<string | null>(null);
   
   // Load a specific date's journal entry
   const loadSpecificDate = (date: string) => {
@@ -88,7 +120,15 @@ const Journal = () => {
         // Find the entry in the history array
         const entryIndex = history.findIndex(h => h.date === date);
         
-        if (entryIndex === -1) return;
+        if (entryIndex === -1) {
+          // Older entries aren't in the recent history yet, so load enough of it to include this one
+          if (searchIndexRef.current.entries.has(date)) {
+            const newerEntries = Array.from(searchIndexRef.current.entries.keys()).filter(d => d >= date).length;
+            setHistoryLimit(currentLimit => Math.max(currentLimit, newerEntries + HISTORY_PAGE_SIZE));
+            setPendingJumpDate(date);
+          }
+          return;
+        }
         
         // Scroll to the past entries section first
         setTimeout(() => {
@@ -119,20 +159,22 @@ const Journal = () => {
     
     scrollToEntry();
   };
-  // Open edit modal for a specific journal entry
-  const openEditModal = async (date: string) => {
+  // Open edit modal for one reflection of a journal day
+  const openEditModal = async (date: string, reflectionId: string) => {
     try {
       if (!user) return;
       
-      const docRef = doc(FIREBASE_DB, 'users', user.uid, 'journal', date);
-      const snapshot = await getDoc(docRef);
+      const day = await getRepositories().journal.getDay(user.uid, date);
       
-      if (snapshot.exists()) {
-        const data = snapshot.data() as JournalEntry;
+      if (day) {
+        const reflection = getDayReflections(day).find(r => r.id === reflectionId);
+        if (!reflection) return;
+        
         setEditDate(date);
-        setEditThought(data.thought || '');
-        setEditEntry(data.entry || '');
-        setEditMood(data.mood || '');
+        setEditReflectionId(reflectionId);
+        setEditThought(reflection.thought || '');
+        setEditEntry(reflection.entry || '');
+        setEditMood(reflection.mood || '');
         setShowEditModal(true);
       }
     } catch (error) {
@@ -144,34 +186,26 @@ const Journal = () => {
   // Save edited journal entry
   const saveEditedEntry = async () => {
     try {
-      if (!user || !editDate) return;
-      
-      const now = new Date();
-      const docRef = doc(FIREBASE_DB, 'users', user.uid, 'journal', editDate);
+      if (!user || !editDate || !editReflectionId) return;
       
-      // Get the original entry first to preserve the original timestamp
-      const snapshot = await getDoc(docRef);
-      let originalTimestamp = now;
-      
-      if (snapshot.exists()) {
-        const data = snapshot.data() as JournalEntry;
-        originalTimestamp = data.timestamp;
+      // Keeps the reflection's original timestamp and mood, and flags it as edited
+      const result = await dispatch(runOrQueueOperation({
+        type: 'updateJournalReflection',
+        payload: {
+          date: editDate,
+          reflectionId: editReflectionId,
+          updates: { thought: editThought, entry: editEntry }
+        }
+      }));
+      if (!result.success) {
+        throw new Error(result.message);
       }
       
-      await setDoc(docRef, {
-        thought: editThought,
-        entry: editEntry,
-        mood: editMood, // Keeping the original mood
-        timestamp: originalTimestamp, // Keep original creation timestamp
-        editTimestamp: now, // Add edit timestamp
-        isEdited: true // Flag to show this entry was edited
-      }, { merge: true });
-      
       setShowEditModal(false);
-      Alert.alert('Success', 'Your journal entry has been updated.');
-      
-      // Refresh history
-      loadHistory();
+      Alert.alert(
+        result.queued ? 'Saved Offline' : 'Success',
+        result.queued ? result.message : 'Your journal entry has been updated.'
+      );
     } catch (error) {
       console.error('Error saving edited journal entry:', error);
       Alert.alert('Error', 'Failed to save your edited journal entry.');
@@ -185,7 +219,8 @@ const Journal = () => {
       totalEntries: moodHistory.length,
       topMood: { emoji: '😐', label: 'Neutral', count: 0 },
       streak: 0,
-      trend: 0
+      trend: 0,
+      averageScore: null as number | null
     };
     
     if (moodHistory.length === 0) return defaultStats;
@@ -194,7 +229,7 @@ const Journal = () => {
     const moodCounts: {[key: string]: {emoji: string, label: string, count: number}} = {};
     
     moodHistory.forEach(entry => {
-      const moodInfo = moods.find(m => m.label === entry.mood);
+      const moodInfo = findMood(entry.mood, moods);
       if (moodInfo) {
         if (!moodCounts[moodInfo.label]) {
           moodCounts[moodInfo.label] = { emoji: moodInfo.emoji, label: moodInfo.label, count: 0 };
@@ -211,29 +246,15 @@ const Journal = () => {
       }
     });
     
-    // Calculate current streak
-    let streak = 0;
-    const today = moment().startOf('day');
-    const sortedDates = [...moodHistory]
-      .sort((a, b) => moment(b.date).diff(moment(a.date)))
-      .map(entry => moment(entry.date).startOf('day'));
-    
-    // Check if there's an entry for today
-    if (sortedDates.length > 0 && sortedDates[0].isSame(today)) {
-      streak = 1;
-      
-      // Count consecutive days backward from today
-      for (let i = 1; i < sortedDates.length; i++) {
-        const expectedDate = moment(today).subtract(i, 'days');
-        const entryDate = sortedDates[i];
-        
-        if (entryDate.isSame(expectedDate)) {
-          streak++;
-        } else {
-          break;
-        }
-      }
-    }
+    // Calculate current streak with the same rules as the task streak. A reflection only
+    // gets the grace period when it was written on the day it's filed under; days filled
+    // in later count as written at midday.
+    const reflectionTimes = moodHistory.map(entry =>
+      entry.timestamp && getDayKey(entry.timestamp) === entry.date
+        ? entry.timestamp
+        : new Date(getDayStart(entry.date).getTime() + 12 * 60 * 60 * 1000)
+    );
+    const streak = computeStreak(reflectionTimes, { graceHours: streakSettings.graceHours }).count;
     
     // Calculate trend (comparing current week to previous week)
     const thisWeekCount = moodHistory.filter(entry => {
@@ -249,17 +270,26 @@ const Journal = () => {
     
     const trend = thisWeekCount - lastWeekCount;
     
+    // Average valence across all reflections, weighted by intensity
+    const scores = moodHistory
+      .map(entry => getMoodScore(entry.mood, entry.intensity, moods))
+      .filter((score): score is number => score !== null);
+    const averageScore = scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : null;
+    
     return {
       totalEntries: moodHistory.length,
       topMood,
       streak,
-      trend
+      trend,
+      averageScore
     };
   };
   
   // Helper function to group mood history by month
   const groupMoodsByMonth = () => {
-    const grouped: { month: string; moods: MoodData[] }[] = [];
+    const grouped: { month: string; moods: MoodData[]; averageScore: number | null }[] = [];
     
     console.log('Mood history length:', moodHistory.length);
     
@@ -273,13 +303,15 @@ const Journal = () => {
         const date = moment().subtract(i, 'days').format('YYYY-MM-DD');
         dummyMoods.push({
           date,
-          mood: moods[Math.floor(Math.random() * moods.length)].label
+          mood: moods[Math.floor(Math.random() * moods.length)].label,
+          reflectionId: `dummy-${i}`
         });
       }
       
       return [{
         month: today.format('MMMM YYYY'),
-        moods: dummyMoods
+        moods: dummyMoods,
+        averageScore: null
       }];
     }
     
@@ -293,43 +325,97 @@ const Journal = () => {
       let monthGroup = grouped.find(g => g.month === monthYear);
       
       if (!monthGroup) {
-        monthGroup = { month: monthYear, moods: [] };
+        monthGroup = { month: monthYear, moods: [], averageScore: null };
         grouped.push(monthGroup);
       }
       
       monthGroup.moods.push(mood);
     });
     
-    // Sort moods within each month by date (newest first)
+    // Sort moods within each month by date (newest first) and average their valence
     grouped.forEach(group => {
       group.moods.sort((a, b) => moment(b.date).diff(moment(a.date)));
+      
+      const scores = group.moods
+        .map(m => getMoodScore(m.mood, m.intensity, moods))
+        .filter((score): score is number => score !== null);
+      group.averageScore = scores.length > 0
+        ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+        : null;
     });
     
     console.log('Grouped mood history:', JSON.stringify(grouped));
     return grouped;
   };
+  
+  // Mood history grouped into journal days, for joining with productivity
+  const getMoodDays = (): MoodDay[] => {
+    const days = new Map<string, MoodDay>();
+    moodHistory.forEach(entry => {
+      const day = days.get(entry.date) || { date: entry.date, moods: [] };
+      day.moods.push({ label: entry.mood, intensity: entry.intensity });
+      days.set(entry.date, day);
+    });
+    return Array.from(days.values());
+  };
+  
+  // Daily average valence for the most recent days with a mood, oldest first
+  const getMoodChartData = () => {
+    const dailyScores: { [date: string]: number[] } = {};
+    
+    moodHistory.forEach(entry => {
+      const score = getMoodScore(entry.mood, entry.intensity, moods);
+      if (score === null) return;
+      (dailyScores[entry.date] = dailyScores[entry.date] || []).push(score);
+    });
+    
+    const dates = Object.keys(dailyScores).sort().slice(-MOOD_CHART_DAYS);
+    return {
+      labels: dates.map(date => moment(date).format('D/M')),
+      scores: dates.map(date => {
+        const scores = dailyScores[date];
+        return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+      })
+    };
+  };
   const navigation = useNavigation<JournalScreenNavigationProp>();
+  const dispatch = useDispatch<AppDispatch>();
   const user = FIREBASE_AUTH.currentUser;
-  const todayKey = moment().format('YYYY-MM-DD');
+  const todayKey = getDayKey();
   const scrollViewRef = useRef<ScrollView>(null);
+  const [moods, setMoods] = useState<MoodDefinition[]>(DEFAULT_MOOD_PALETTE);
+  const [streakSettings, setStreakSettings] = useState<StreakSettings>(DEFAULT_STREAK_SETTINGS);
   const [mood, setMood] = useState('');
+  const [moodIntensity, setMoodIntensity] = useState<number | null>(null);
   const [thought, setThought] = useState('');
   const [entry, setEntry] = useState('');
-  const [history, setHistory] = useState<(JournalEntry & { date: string })[]>([]);
+  const [history, setHistory] = useState<JournalDay[]>([]);
   const [moodHistory, setMoodHistory] = useState<MoodData[]>([]);
+  const [moodProductivity, setMoodProductivity] = useState<Record<string, DayProductivity>>({});
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [theme, setTheme] = useState('light');
   const [showVoiceInput, setShowVoiceInput] = useState(false);
   const [showMoodHistory, setShowMoodHistory] = useState(false);
-  const [audioReflection, setAudioReflection] = useState<string | null>(null);
+  // Voice note recorded for the next reflection, already moved into the audio cache
+  const [audioReflection, setAudioReflection] = useState<{ id: string; uri: string; durationMs: number } | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [audioDuration, setAudioDuration] = useState(0);
+  const recordingRef = useRef<Audio.Recording | null>(null);
   const [expandedEntries, setExpandedEntries] = useState<{[key: string]: boolean}>({});
   const [showOptionsMenu, setShowOptionsMenu] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showMoodPalette, setShowMoodPalette] = useState(false);
+  const [historyLimit, setHistoryLimit] = useState(HISTORY_PAGE_SIZE);
+  const searchIndexRef = useRef(createJournalSearchIndex());
+  const [searchIndexVersion, setSearchIndexVersion] = useState(0);
   
-  // Animation values
-  const moodAnimations = useRef(moods.map(() => new Animated.Value(1))).current;
-  const moodScales = useRef(moods.map(() => new Animated.Value(1))).current;
+  // Animation values, one per mood; the palette can grow when the user adds moods
+  const moodAnimations = useRef<Animated.Value[]>([]).current;
+  const moodScales = useRef<Animated.Value[]>([]).current;
+  while (moodAnimations.length < moods.length) {
+    moodAnimations.push(new Animated.Value(1));
+    moodScales.push(new Animated.Value(1));
+  }
   const moodHistoryHeight = useRef(new Animated.Value(0)).current;
   const moodHistoryOpacity = useRef(new Animated.Value(0)).current;
 
@@ -338,16 +424,67 @@ const Journal = () => {
     
     loadTodayEntry();
     
+    // Convert any single-entry days left over from before a day could hold several reflections
+    migrateLegacyJournalEntries().catch(error => {
+      console.error('Error migrating journal entries:', error);
+    });
+    
     // Setup listeners and store their cleanup functions
-    const unsubscribeHistory = loadHistory();
     const unsubscribeMoodHistory = loadMoodHistory();
+    const unsubscribeSearchIndex = loadSearchIndex();
+    const unsubscribeMoodPalette = subscribeToMoodPalette(setMoods);
+    const unsubscribeStreakSettings = subscribeToStreakSettings(setStreakSettings);
     
     // Clean up listeners when component unmounts or user changes
     return () => {
-      unsubscribeHistory && unsubscribeHistory();
       unsubscribeMoodHistory && unsubscribeMoodHistory();
+      unsubscribeSearchIndex && unsubscribeSearchIndex();
+      unsubscribeMoodPalette();
+      unsubscribeStreakSettings();
     };
   }, [user]);
+
+  // Don't leave the microphone running if the screen goes away mid-recording
+  useEffect(() => {
+    return () => {
+      recordingRef.current?.stopAndUnloadAsync().catch(() => {});
+      recordingRef.current = null;
+    };
+  }, []);
+
+  // XP and completions for the mood history, loaded while the panel is open
+  useEffect(() => {
+    if (!user || !showMoodHistory || moodHistory.length === 0) return;
+    
+    let cancelled = false;
+    loadMoodInsights(user.uid, getMoodDays(), moods)
+      .then(({ productivity }) => {
+        if (!cancelled) setMoodProductivity(productivity);
+      })
+      .catch(error => {
+        console.error('Error loading mood insights:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, showMoodHistory, moodHistory.length]);
+
+  // The history listener is re-created when more history is needed to reach an older entry
+  useEffect(() => {
+    if (!user) return;
+    
+    const unsubscribeHistory = loadHistory();
+    return () => {
+      unsubscribeHistory && unsubscribeHistory();
+    };
+  }, [user, historyLimit]);
+
+  useEffect(() => {
+    if (pendingJumpDate && history.some(h => h.date === pendingJumpDate)) {
+      setPendingJumpDate(null);
+      loadSpecificDate(pendingJumpDate);
+    }
+  }, [history, pendingJumpDate]);
   
   // Function to animate mood selection
   const animateMoodSelection = (index: number) => {
@@ -401,13 +538,13 @@ const Journal = () => {
   };
 
   const loadTodayEntry = async () => {
-    const docRef = doc(FIREBASE_DB, 'users', user!.uid, 'journal', todayKey);
-    const snapshot = await getDoc(docRef);
-    if (snapshot.exists()) {
-      const data = snapshot.data() as JournalEntry;
-      setThought(data.thought || '');
-      setEntry(data.entry || '');
-      setMood(data.mood || '');
+    const day = await getRepositories().journal.getDay(user!.uid, todayKey);
+    if (day) {
+      // Each save adds a new reflection, so only carry over today's latest mood
+      const reflections = getDayReflections(day);
+      const latest = reflections[reflections.length - 1];
+      setMood(latest?.mood || '');
+      setMoodIntensity(latest?.moodIntensity ?? null);
     }
   };
 
@@ -415,20 +552,19 @@ const Journal = () => {
     if (!user) return () => {};
     
     try {
-      const journalRef = collection(FIREBASE_DB, 'users', user.uid, 'journal');
-      const journalQuery = query(journalRef, orderBy('timestamp', 'desc'), limit(10));
-      return onSnapshot(journalQuery, (snapshot) => {
-        const past = snapshot.docs
-          .map(doc => ({
-            date: doc.id,
-            ...(doc.data() as JournalEntry)
+      return getRepositories().journal.subscribe(user.uid, historyLimit, (days) => {
+        const past = days
+          .map(day => ({
+            ...day,
+            // Newest reflection first within a day, matching the day order
+            reflections: getDayReflections(day).reverse()
           }))
           .sort((a, b) => moment(b.date).diff(moment(a.date)));
         setHistory(past);
       }, (error) => {
         console.error('Error in journal history listener:', error);
         // If we get permission errors, it might be because the user logged out
-        if (error.code === 'permission-denied') {
+        if ('code' in error && error.code === 'permission-denied') {
           setHistory([]);
         }
       });
@@ -438,26 +574,44 @@ const Journal = () => {
     }
   };
   
+  // Keep the local search index in sync with the whole journal, one changed entry at a time
+  const loadSearchIndex = () => {
+    searchIndexRef.current = createJournalSearchIndex();
+    setSearchIndexVersion(version => version + 1);
+    
+    return subscribeToJournalEntries(null, (_, changes) => {
+      if (applyJournalChanges(searchIndexRef.current, changes)) {
+        setSearchIndexVersion(version => version + 1);
+      }
+    }, (error) => {
+      console.error('Error in journal search index listener:', error);
+    });
+  };
+  
   const loadMoodHistory = () => {
     if (!user) return () => {};
     
     try {
-      const journalRef = collection(FIREBASE_DB, 'users', user.uid, 'journal');
       // Increased the limit to show more historical data
-      const journalQuery = query(journalRef, orderBy('timestamp', 'desc'), limit(60));
-      return onSnapshot(journalQuery, (snapshot) => {
-        console.log('Journal entries found:', snapshot.docs.length);
+      return getRepositories().journal.subscribe(user.uid, 60, (days) => {
+        console.log('Journal entries found:', days.length);
         
         const moodData: MoodData[] = [];
-        snapshot.docs.forEach(doc => {
-          const data = doc.data();
-          console.log('Journal entry:', doc.id, data.mood ? data.mood : 'No mood');
-          if (data.mood) {
-            moodData.push({
-              date: doc.id,
-              mood: data.mood
-            });
-          }
+        days.forEach(day => {
+          const reflections = getDayReflections(day);
+          console.log('Journal entry:', day.date, reflections.length, 'reflections');
+          // Newest first, like the days themselves
+          [...reflections].reverse().forEach(reflection => {
+            if (reflection.mood) {
+              moodData.push({
+                date: day.date,
+                mood: reflection.mood,
+                intensity: reflection.moodIntensity,
+                reflectionId: reflection.id,
+                timestamp: reflection.timestamp?.toDate()
+              });
+            }
+          });
         });
         
         console.log('Mood data collected:', moodData.length);
@@ -470,7 +624,7 @@ const Journal = () => {
       }, (error) => {
         console.error('Error in mood history listener:', error);
         // If we get permission errors, it might be because the user logged out
-        if (error.code === 'permission-denied') {
+        if ('code' in error && error.code === 'permission-denied') {
           setMoodHistory([]);
         }
       });
@@ -480,24 +634,147 @@ const Journal = () => {
     }
   };
 
+  const startRecording = async () => {
+    try {
+      const permission = await Audio.requestPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Microphone Access', 'Allow microphone access to record a voice reflection.');
+        return;
+      }
+      
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+      setAudioDuration(0);
+      const { recording } = await Audio.Recording.createAsync(
+        Audio.RecordingOptionsPresets.HIGH_QUALITY,
+        (status) => {
+          if (status.isRecording) {
+            setAudioDuration(status.durationMillis);
+          }
+        },
+        250
+      );
+      recordingRef.current = recording;
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      Alert.alert('Error', 'Could not start recording.');
+    }
+  };
+  
+  // Stop the recording and attach it to the reflection being written
+  const stopRecording = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    
+    recordingRef.current = null;
+    setIsRecording(false);
+    
+    try {
+      await recording.stopAndUnloadAsync();
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+      
+      const uri = recording.getURI();
+      if (!uri) {
+        throw new Error('Recording file not found');
+      }
+      
+      const audioId = createReflectionId();
+      const cachedUri = await cacheRecording(uri, audioId);
+      
+      // A new recording replaces the previous one
+      if (audioReflection) {
+        deleteCachedRecording(audioReflection.id);
+      }
+      setAudioReflection({ id: audioId, uri: cachedUri, durationMs: audioDuration });
+      setShowVoiceInput(false);
+    } catch (error) {
+      console.error('Error saving recording:', error);
+      Alert.alert('Error', 'Could not save the recording.');
+    }
+  };
+  
+  const cancelRecording = async () => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+    setShowVoiceInput(false);
+    
+    if (recording) {
+      try {
+        await recording.stopAndUnloadAsync();
+        await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+      } catch (error) {
+        console.error('Error cancelling recording:', error);
+      }
+    }
+  };
+  
+  const removeAudioReflection = () => {
+    if (audioReflection) {
+      deleteCachedRecording(audioReflection.id);
+    }
+    setAudioReflection(null);
+  };
+
   const saveEntry = async () => {
-    if (!thought.trim() && !entry.trim()) {
-      Alert.alert('Error', 'Please enter either a thought or journal entry.');
+    if (!thought.trim() && !entry.trim() && !audioReflection) {
+      Alert.alert('Error', 'Please enter either a thought, a journal entry or a voice note.');
       return;
     }
     
     // Ensure mood is set, default to Neutral if not selected
     const moodToSave = mood || 'Neutral';
+    const now = new Date();
+    const reflectionId = createReflectionId();
+    const audio = audioReflection;
 
     try {
-      const docRef = doc(FIREBASE_DB, 'users', user!.uid, 'journal', todayKey);
-      await setDoc(docRef, {
-        thought,
-        entry,
-        mood: moodToSave,
-        timestamp: new Date()
-      });
-      Alert.alert('Success', 'Your journal entry has been saved.');
+      const result = await dispatch(runOrQueueOperation({
+        type: 'saveJournalEntry',
+        payload: {
+          entry: {
+            id: reflectionId,
+            thought,
+            entry,
+            mood: moodToSave,
+            ...(mood && moodIntensity !== null && { moodIntensity }),
+            ...(audio && {
+              audio: {
+                id: audio.id,
+                durationMs: audio.durationMs,
+                mimeType: JOURNAL_AUDIO_MIME_TYPE,
+                status: 'pending' as const
+              }
+            })
+          },
+          date: now.toISOString()
+        }
+      }));
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      
+      if (audio) {
+        // Uploaded after the reflection is saved, so replay keeps the same order
+        const uploadOperation = {
+          type: 'uploadJournalAudio' as const,
+          payload: { date: getDayKey(now), reflectionId, audioId: audio.id }
+        };
+        const uploadResult = await dispatch(runOrQueueOperation(uploadOperation));
+        if (!uploadResult.success) {
+          // Keep the recording queued so the upload is retried with the rest of the sync
+          dispatch(addPendingOperation({ ...uploadOperation, timestamp: Date.now() }));
+        }
+      }
+      
+      // Clear the form for the next reflection of the day
+      setThought('');
+      setEntry('');
+      setAudioReflection(null);
+      Alert.alert(
+        result.queued ? 'Saved Offline' : 'Success',
+        result.queued ? result.message : 'Your journal entry has been saved.'
+      );
     } catch (err) {
       console.error('Error saving journal:', err);
       Alert.alert('Error', 'Failed to save journal entry.');
@@ -506,7 +783,7 @@ const Journal = () => {
 
   if (!user) return null;
 
-  const selectedMoodColor = moods.find(m => m.label === mood)?.color || Colors.primary;
+  const selectedMoodColor = findMood(mood, moods)?.color || Colors.primary;
 
   return (
     <View style={Theme.ComponentStyles.container}>
@@ -518,12 +795,20 @@ const Journal = () => {
           <MaterialIcons name="menu" size={24} color={Theme.Colors.primary} />
         </TouchableOpacity>
         <Text style={Theme.ComponentStyles.headerTitle}>Journal</Text>
-        <TouchableOpacity 
-          style={Theme.ComponentStyles.headerIcon}
-          onPress={() => setShowOptionsMenu(true)}
-        >
-          <MaterialIcons name="more-vert" size={24} color={Theme.Colors.primary} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity 
+            style={Theme.ComponentStyles.headerIcon}
+            onPress={() => setShowSearch(true)}
+          >
+            <MaterialIcons name="search" size={24} color={Theme.Colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={Theme.ComponentStyles.headerIcon}
+            onPress={() => setShowOptionsMenu(true)}
+          >
+            <MaterialIcons name="more-vert" size={24} color={Theme.Colors.primary} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView 
@@ -547,6 +832,9 @@ const Journal = () => {
                 >
                   <TouchableOpacity
                     onPress={() => {
+                      if (m.label !== mood) {
+                        setMoodIntensity(null);
+                      }
                       setMood(m.label);
                       animateMoodSelection(index);
                     }}
@@ -577,7 +865,7 @@ const Journal = () => {
                     </Text>
                     {isSelected && (
                       <View style={styles.moodIconContainer}>
-                        <Feather name={m.icon} size={14} color="rgba(255,255,255,0.8)" />
+                        <Feather name={getMoodIcon(m)} size={14} color="rgba(255,255,255,0.8)" />
                       </View>
                     )}
                   </TouchableOpacity>
@@ -586,6 +874,32 @@ const Journal = () => {
             })}
           </View>
           
+          {/* Optional intensity; tapping the selected value again clears it */}
+          {mood !== '' && (
+            <View style={styles.intensitySection}>
+              <Text style={styles.intensityLabel}>How strongly?</Text>
+              <View style={styles.intensityRow}>
+                {Array.from({ length: MAX_MOOD_INTENSITY - MIN_MOOD_INTENSITY + 1 }, (_, i) => MIN_MOOD_INTENSITY + i).map(level => {
+                  const isSelected = moodIntensity === level;
+                  return (
+                    <TouchableOpacity
+                      key={level}
+                      style={[
+                        styles.intensityOption,
+                        isSelected && { backgroundColor: selectedMoodColor, borderColor: selectedMoodColor }
+                      ]}
+                      onPress={() => setMoodIntensity(isSelected ? null : level)}
+                    >
+                      <Text style={[styles.intensityText, isSelected && styles.intensityTextSelected]}>
+                        {level}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+          
           {/* Hidden Mood History with Card Drop Interaction */}
           {moodHistory.length > 0 && (
             <TouchableOpacity 
@@ -623,7 +937,7 @@ const Journal = () => {
                   height: showMoodHistory ? 'auto' : 0,
                   maxHeight: moodHistoryHeight.interpolate({
                     inputRange: [0, 1],
-                    outputRange: [0, 400] // Further increased height for more content
+                    outputRange: [0, 900] // Room for the stats, insights, the valence chart and the timeline
                   }),
                   opacity: moodHistoryOpacity
                 }]}
@@ -637,31 +951,114 @@ const Journal = () => {
                   <View style={styles.moodStatItem}>
                     <Text style={styles.moodStatValue}>
                       {moodHistory.length > 0 
-                        ? moods.find(m => m.label === moodHistory[0].mood)?.emoji || '😐'
+                        ? findMood(moodHistory[0].mood, moods)?.emoji || '😐'
                         : '😐'}
                     </Text>
                     <Text style={styles.moodStatLabel}>Most Recent</Text>
                   </View>
-                  <View style={styles.moodStatItem}>
-                    <Text style={styles.moodStatValue}>1</Text>
-                    <Text style={styles.moodStatLabel}>Day Streak</Text>
-                    <View style={styles.moodTrendIndicator}>
-                      <MaterialIcons 
-                        name={'trending-up'} 
-                        size={12} 
-                        color={Colors.success} 
+                  {(() => {
+                    const { streak, trend } = calculateMoodStats();
+                    return (
+                      <View style={styles.moodStatItem}>
+                        <Text style={styles.moodStatValue}>{streak}</Text>
+                        <Text style={styles.moodStatLabel}>Day Streak</Text>
+                        {trend !== 0 && (
+                          <View style={styles.moodTrendIndicator}>
+                            <MaterialIcons 
+                              name={trend > 0 ? 'trending-up' : 'trending-down'} 
+                              size={12} 
+                              color={trend > 0 ? Colors.success : Colors.error} 
+                            />
+                            <Text style={[styles.moodTrendText, trend > 0 ? styles.moodTrendUp : styles.moodTrendDown]}>
+                              {trend > 0 ? `+${trend}` : trend}
+                            </Text>
+                          </View>
+                        )}
+                      </View>
+                    );
+                  })()}
+                </View>
+                
+                {/* How moods relate to XP and completed tasks */}
+                {(() => {
+                  const insights = computeMoodInsights(getMoodDays(), moodProductivity, moods);
+                  if (Object.keys(moodProductivity).length === 0 || insights.moods.length === 0) return null;
+                  return (
+                    <View style={styles.insightsSection}>
+                      <Text style={styles.insightsTitle}>Mood & Productivity</Text>
+                      {insights.moods.slice(0, INSIGHT_MOOD_ROWS).map(stat => {
+                        const moodInfo = findMood(stat.mood, moods);
+                        return (
+                          <View key={stat.mood} style={styles.insightRow}>
+                            <Text style={styles.insightMood}>{moodInfo?.emoji} {stat.mood}</Text>
+                            <Text style={styles.insightValue}>
+                              {Math.round(stat.averageXp)} XP
+                              {stat.averageCompletionRate !== null && ` · ${Math.round(stat.averageCompletionRate * 100)}% done`}
+                            </Text>
+                          </View>
+                        );
+                      })}
+                      {insights.bestWeekday && insights.worstWeekday && (
+                        <Text style={styles.insightNote}>
+                          Most productive on {moment().day(insights.bestWeekday.weekday).format('dddd')}s,
+                          least on {moment().day(insights.worstWeekday.weekday).format('dddd')}s
+                        </Text>
+                      )}
+                      {insights.laggedEffects.map(effect => (
+                        <Text key={`${effect.kind}-${effect.mood}`} style={styles.insightNote}>
+                          {describeLaggedEffect(effect)}
+                        </Text>
+                      ))}
+                    </View>
+                  );
+                })()}
+                
+                {/* Daily mood valence, from -2 (rough) to +2 (great) */}
+                {(() => {
+                  const chartData = getMoodChartData();
+                  if (chartData.scores.length < 2) return null;
+                  return (
+                    <View style={styles.moodChartContainer}>
+                      <LineChart
+                        data={{
+                          labels: chartData.labels,
+                          datasets: [
+                            { data: chartData.scores },
+                            // Invisible bounds keep the axis on the full valence range
+                            { data: [MIN_MOOD_VALENCE, MAX_MOOD_VALENCE], withDots: false, color: () => 'transparent' }
+                          ]
+                        }}
+                        width={Dimensions.get('window').width - Spacing.medium * 4}
+                        height={160}
+                        segments={4}
+                        formatYLabel={(value) => {
+                          const valence = Math.round(Number(value));
+                          return valence > 0 ? `+${valence}` : `${valence}`;
+                        }}
+                        chartConfig={{
+                          backgroundGradientFrom: Colors.cardBackground,
+                          backgroundGradientTo: Colors.cardBackground,
+                          decimalPlaces: 0,
+                          color: (opacity = 1) => `rgba(107, 70, 193, ${opacity})`,
+                          labelColor: () => Colors.textSecondary,
+                          propsForDots: { r: '3' }
+                        }}
+                        withShadow={false}
+                        bezier
+                        style={styles.moodChart}
                       />
-                      <Text style={[styles.moodTrendText, styles.moodTrendUp]}>
-                        +1
-                      </Text>
                     </View>
-                  </View>
-                </View>
+                  );
+                })()}
                 
                 {/* Group moods by month for better organization */}
                 {groupMoodsByMonth().map((monthGroup, monthIndex) => (
                   <View key={`month-${monthIndex}`} style={styles.moodMonthContainer}>
-                    <Text style={styles.moodMonthTitle}>{monthGroup.month}</Text>
+                    <Text style={styles.moodMonthTitle}>
+                      {monthGroup.month}
+                      {monthGroup.averageScore !== null &&
+                        ` · avg ${monthGroup.averageScore > 0 ? '+' : ''}${monthGroup.averageScore.toFixed(1)}`}
+                    </Text>
                     <ScrollView 
                       horizontal 
                       showsHorizontalScrollIndicator={false}
@@ -669,7 +1066,7 @@ const Journal = () => {
                     >
                       <View style={styles.moodTimeline}>
                         {monthGroup.moods.map((moodData, index) => {
-                          const moodInfo = moods.find(m => m.label === moodData.mood);
+                          const moodInfo = findMood(moodData.mood, moods);
                           return (
                             <TouchableOpacity 
                               key={`mood-${index}`} 
@@ -678,7 +1075,7 @@ const Journal = () => {
                                 // Show a tooltip or alert with the full journal entry for this date
                                 const entryDate = moment(moodData.date).format('MMMM D, YYYY');
                                 Alert.alert(
-                                  `${entryDate} - ${moodInfo?.label || 'Unknown'}`,
+                                  `${entryDate} - ${moodInfo?.label || 'Unknown'}${moodData.intensity ? ` (${moodData.intensity}/${MAX_MOOD_INTENSITY})` : ''}`,
                                   `Tap to view your full journal entry for this date.`,
                                   [
                                     { text: 'View Entry', onPress: () => loadSpecificDate(moodData.date) },
@@ -721,6 +1118,12 @@ const Journal = () => {
         <View style={styles.entrySection}>
           <View style={styles.sectionHeaderRow}>
             <Text style={styles.sectionTitle}>Journal Entry</Text>
+            <TouchableOpacity 
+              style={styles.voiceInputButton}
+              onPress={() => setShowVoiceInput(true)}
+            >
+              <Feather name="mic" size={20} color={Colors.primary} />
+            </TouchableOpacity>
           </View>
           <View style={styles.entryInputContainer}>
             <TextInput
@@ -739,7 +1142,25 @@ const Journal = () => {
           </View>
         </View>
         
-        {/* Voice Reflection section removed as requested */}
+        {audioReflection && (
+          <View style={styles.audioReflectionSection}>
+            <View style={styles.sectionHeaderRow}>
+              <Text style={styles.audioReflectionTitle}>Voice Note</Text>
+              <TouchableOpacity style={styles.audioDeleteButton} onPress={removeAudioReflection}>
+                <Feather name="trash-2" size={18} color={Colors.muted} />
+              </TouchableOpacity>
+            </View>
+            <VoiceNotePlayer
+              audio={{
+                id: audioReflection.id,
+                durationMs: audioReflection.durationMs,
+                mimeType: JOURNAL_AUDIO_MIME_TYPE,
+                status: 'pending'
+              }}
+              uri={audioReflection.uri}
+            />
+          </View>
+        )}
 
         <TouchableOpacity 
           style={[GlobalStyles.button, { 
@@ -752,30 +1173,43 @@ const Journal = () => {
           <Text style={GlobalStyles.buttonText}>Reflect & Save</Text>
         </TouchableOpacity>
         
-        {/* Voice Input Modal (placeholder) */}
+        {/* Voice Input Modal */}
         <Modal
           visible={showVoiceInput}
           transparent={true}
           animationType="fade"
-          onRequestClose={() => setShowVoiceInput(false)}
+          onRequestClose={cancelRecording}
         >
           <View style={styles.modalOverlay}>
             <View style={styles.voiceInputModal}>
               <Text style={styles.voiceInputTitle}>Voice Input</Text>
               <View style={styles.voiceInputIconContainer}>
-                <TouchableOpacity style={styles.voiceRecordButton}>
-                  <Feather name="mic" size={40} color={Colors.primary} />
+                <TouchableOpacity
+                  style={[styles.voiceRecordButton, isRecording && styles.audioRecordingIcon]}
+                  onPress={isRecording ? stopRecording : startRecording}
+                >
+                  <Feather name={isRecording ? 'square' : 'mic'} size={40} color={isRecording ? Colors.error : Colors.primary} />
                 </TouchableOpacity>
-                <Text style={styles.voiceInputHint}>Tap to start recording</Text>
+                <Text style={styles.voiceInputHint}>
+                  {isRecording
+                    ? `Recording… ${formatAudioDuration(audioDuration)}`
+                    : audioReflection
+                      ? 'Tap to record again (replaces your voice note)'
+                      : 'Tap to start recording'}
+                </Text>
               </View>
               <View style={styles.voiceInputButtonRow}>
                 <TouchableOpacity 
                   style={styles.voiceInputCancelButton}
-                  onPress={() => setShowVoiceInput(false)}
+                  onPress={cancelRecording}
                 >
                   <Text style={styles.voiceInputButtonText}>Cancel</Text>
                 </TouchableOpacity>
-                <TouchableOpacity style={styles.voiceInputSaveButton}>
+                <TouchableOpacity
+                  style={[styles.voiceInputSaveButton, !isRecording && { opacity: 0.5 }]}
+                  onPress={stopRecording}
+                  disabled={!isRecording}
+                >
                   <Text style={[styles.voiceInputButtonText, { color: Colors.textLight }]}>Save</Text>
                 </TouchableOpacity>
               </View>
@@ -822,79 +1256,109 @@ const Journal = () => {
 
         <View style={styles.historySection} ref={pastEntriesSectionRef}>
           <Text style={styles.sectionTitle}>Past Entries</Text>
-          {history.map((h, idx) => {
-            const moodInfo = moods.find(m => m.label === h.mood);
+          {history.map((h) => {
+            const dayMoodInfo = findMood(h.mood, moods);
             return (
-              <View key={idx} style={[GlobalStyles.card, styles.historyCard, selectedEntryRef === h.date ? styles.selectedHistoryCard : {}]}>
+              <View key={h.date} style={[GlobalStyles.card, styles.historyCard, selectedEntryRef === h.date ? styles.selectedHistoryCard : {}]}>
                 <View style={styles.historyHeader}>
                   <View style={styles.historyDateContainer}>
                     <Text style={styles.historyDate}>
                       {moment(h.date).format('MMM D, YYYY')}
                     </Text>
-                    {h.isEdited && (
-                      <View style={styles.editedBadge}>
-                        <Text style={styles.editedText}>Edited</Text>
-                        {h.editTimestamp && (
-                          <Text style={styles.editTimestamp}>
-                            {moment(h.editTimestamp.toDate()).format('MMM D, HH:mm')}
-                          </Text>
-                        )}
-                      </View>
+                    {h.reflections.length > 1 && (
+                      <Text style={styles.reflectionCount}>{h.reflections.length} entries</Text>
                     )}
                   </View>
-                  {moodInfo && (
-                    <View style={styles.historyMoodContainer}>
-                      <View style={[
-                        styles.historyMoodBadge,
-                        { backgroundColor: `${moodInfo.color}20` }
-                      ]}>
-                        <Text style={[styles.historyMoodText, { color: moodInfo.color }]}>{moodInfo.emoji}</Text>
-                        <Text style={[styles.historyMoodLabel, { color: moodInfo.color }]}>{h.mood}</Text>
-                      </View>
-                    </View>
-                  )}
                 </View>
                 
-                {h.thought && (
-                  <View style={styles.historyThoughtContainer}>
-                    <Text style={styles.historyThoughtLabel}>Thought</Text>
-                    <Text style={styles.historyThought}>"{h.thought}"</Text>
-                  </View>
-                )}
-                
-                {h.entry && (
-                  <View style={styles.historyEntryContainer}>
-                    <Text style={styles.historyEntryLabel}>Entry</Text>
-                    <Text style={styles.historyEntry} numberOfLines={expandedEntries[h.date] ? undefined : 3}>
-                      {h.entry}
-                    </Text>
-                    <View style={styles.entryActionButtons}>
-                      <TouchableOpacity 
-                        style={styles.readMoreButton}
-                        onPress={() => {
-                          setExpandedEntries(prev => ({
-                            ...prev,
-                            [h.date]: !prev[h.date]
-                          }));
-                        }}
-                      >
-                        <Text style={styles.readMoreText}>
-                          {expandedEntries[h.date] ? 'Show less' : 'Read more'}
-                        </Text>
-                      </TouchableOpacity>
-                      <TouchableOpacity 
-                        style={styles.readMoreButton}
-                        onPress={() => openEditModal(h.date)}
-                      >
-                        <Text style={styles.readMoreText}>Edit</Text>
-                      </TouchableOpacity>
+                {h.reflections.map((r, reflectionIndex) => {
+                  const moodInfo = findMood(r.mood, moods);
+                  return (
+                    <View
+                      key={r.id}
+                      style={[styles.reflectionBlock, reflectionIndex > 0 && styles.reflectionDivider]}
+                    >
+                      <View style={styles.historyHeader}>
+                        <View style={styles.historyDateContainer}>
+                          {r.timestamp && (
+                            <Text style={styles.reflectionTime}>
+                              {moment(r.timestamp.toDate()).format('h:mm A')}
+                            </Text>
+                          )}
+                          {r.isEdited && (
+                            <View style={styles.editedBadge}>
+                              <Text style={styles.editedText}>Edited</Text>
+                              {r.editTimestamp && (
+                                <Text style={styles.editTimestamp}>
+                                  {moment(r.editTimestamp.toDate()).format('MMM D, HH:mm')}
+                                </Text>
+                              )}
+                            </View>
+                          )}
+                        </View>
+                        {moodInfo && (
+                          <View style={styles.historyMoodContainer}>
+                            <View style={[
+                              styles.historyMoodBadge,
+                              { backgroundColor: `${moodInfo.color}20` }
+                            ]}>
+                              <Text style={[styles.historyMoodText, { color: moodInfo.color }]}>{moodInfo.emoji}</Text>
+                              <Text style={[styles.historyMoodLabel, { color: moodInfo.color }]}>
+                                {r.mood}{r.moodIntensity ? ` ${r.moodIntensity}/${MAX_MOOD_INTENSITY}` : ''}
+                              </Text>
+                            </View>
+                          </View>
+                        )}
+                      </View>
+                      
+                      {!!r.thought && (
+                        <View style={styles.historyThoughtContainer}>
+                          <Text style={styles.historyThoughtLabel}>Thought</Text>
+                          <Text style={styles.historyThought}>"{r.thought}"</Text>
+                        </View>
+                      )}
+                      
+                      {!!r.entry && (
+                        <View style={styles.historyEntryContainer}>
+                          <Text style={styles.historyEntryLabel}>Entry</Text>
+                          <Text style={styles.historyEntry} numberOfLines={expandedEntries[h.date] ? undefined : 3}>
+                            {r.entry}
+                          </Text>
+                        </View>
+                      )}
+                      
+                      {r.audio && <VoiceNotePlayer audio={r.audio} />}
+                      
+                      <View style={styles.entryActionButtons}>
+                        {!!r.entry && (
+                          <TouchableOpacity 
+                            style={styles.readMoreButton}
+                            onPress={() => {
+                              setExpandedEntries(prev => ({
+                                ...prev,
+                                [h.date]: !prev[h.date]
+                              }));
+                            }}
+                          >
+                            <Text style={styles.readMoreText}>
+                              {expandedEntries[h.date] ? 'Show less' : 'Read more'}
+                            </Text>
+                          </TouchableOpacity>
+                        )}
+                        <TouchableOpacity 
+                          style={styles.readMoreButton}
+                          onPress={() => openEditModal(h.date, r.id)}
+                        >
+                          <Text style={styles.readMoreText}>Edit</Text>
+                        </TouchableOpacity>
+                      </View>
                     </View>
-                  </View>
-                )}
+                  );
+                })}
                 
-                {moodInfo && (
-                  <View style={[styles.moodIconOverlay, { backgroundColor: moodInfo.color }]}>
-                    <Feather name={moodInfo.icon} size={14} color="#fff" />
+                {dayMoodInfo && (
+                  <View style={[styles.moodIconOverlay, { backgroundColor: dayMoodInfo.color }]}>
+                    <Feather name={getMoodIcon(dayMoodInfo)} size={14} color="#fff" />
                   </View>
                 )}
               </View>
@@ -903,6 +1367,25 @@ const Journal = () => {
         </View>
       </ScrollView>
 
+      <JournalSearchModal
+        visible={showSearch}
+        onClose={() => setShowSearch(false)}
+        index={searchIndexRef.current}
+        indexVersion={searchIndexVersion}
+        moods={moods}
+        onSelectResult={(date) => {
+          setShowSearch(false);
+          setExpandedEntries(prev => ({ ...prev, [date]: true }));
+          loadSpecificDate(date);
+        }}
+      />
+
+      <MoodPaletteModal
+        visible={showMoodPalette}
+        onClose={() => setShowMoodPalette(false)}
+        palette={moods}
+      />
+
       {/* Options Menu Modal */}
       <Modal
         visible={showOptionsMenu}
@@ -917,6 +1400,13 @@ const Journal = () => {
         >
           <View style={styles.optionsMenu}>
             <JournalExportButton asMenuItem={true} />
+            <TouchableOpacity style={styles.menuItem} onPress={() => {
+              setShowOptionsMenu(false);
+              setShowMoodPalette(true);
+            }}>
+              <MaterialIcons name="mood" size={24} color={Theme.Colors.text} />
+              <Text style={styles.menuItemText}>Customize Moods</Text>
+            </TouchableOpacity>
             <TouchableOpacity style={styles.menuItem} onPress={() => {
               setShowOptionsMenu(false);
               // Add other menu options here as needed
@@ -953,7 +1443,7 @@ const Journal = () => {
               <Text style={styles.editModalLabel}>Mood</Text>
               <View style={styles.editMoodDisplay}>
                 <Text style={styles.editMoodEmoji}>
-                  {moods.find(m => m.label === editMood)?.emoji || '😐'}
+                  {findMood(editMood, moods)?.emoji || '😐'}
                 </Text>
                 <Text style={styles.editMoodLabel}>
                   {editMood || 'Neutral'}
@@ -981,7 +1471,7 @@ const Journal = () => {
             </ScrollView>
             
             <TouchableOpacity 
-              style={[styles.saveEditButton, { backgroundColor: moods.find(m => m.label === editMood)?.color || Colors.primary }]}
+              style={[styles.saveEditButton, { backgroundColor: findMood(editMood, moods)?.color || Colors.primary }]}
               onPress={saveEditedEntry}
             >
               <Text style={styles.saveEditButtonText}>Save Changes</Text>
@@ -1037,6 +1527,10 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 32,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   content: {
     flex: 1,
     padding: Spacing.medium,
@@ -1057,6 +1551,7 @@ const styles = StyleSheet.create({
   },
   moodRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'space-around',
     alignItems: 'center',
     paddingHorizontal: Spacing.small,
@@ -1137,6 +1632,45 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     paddingBottom: Spacing.small,
   },
+  moodChartContainer: {
+    alignItems: 'center',
+    paddingTop: Spacing.small,
+  },
+  moodChart: {
+    borderRadius: 8,
+  },
+  intensitySection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: Spacing.small,
+  },
+  intensityLabel: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginRight: Spacing.small,
+  },
+  intensityRow: {
+    flexDirection: 'row',
+  },
+  intensityOption: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: 4,
+  },
+  intensityText: {
+    ...Typography.caption,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  intensityTextSelected: {
+    color: '#fff',
+  },
   moodHistoryStats: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -1157,6 +1691,37 @@ const styles = StyleSheet.create({
     ...Typography.caption,
     color: Colors.muted,
   },
+  insightsSection: {
+    paddingHorizontal: Spacing.medium,
+    paddingVertical: Spacing.small,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  insightsTitle: {
+    ...Typography.subtitle,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: Colors.text,
+    marginBottom: Spacing.tiny,
+  },
+  insightRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  insightMood: {
+    ...Typography.caption,
+    color: Colors.text,
+  },
+  insightValue: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  insightNote: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginTop: Spacing.tiny,
+  },
   moodTrendIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1465,6 +2030,23 @@ const styles = StyleSheet.create({
   historyDate: {
     ...Typography.subheading,
   },
+  reflectionCount: {
+    ...Typography.caption,
+    color: Colors.muted,
+  },
+  reflectionBlock: {
+    paddingTop: Spacing.small,
+  },
+  reflectionDivider: {
+    marginTop: Spacing.small,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(0,0,0,0.05)',
+  },
+  reflectionTime: {
+    ...Typography.caption,
+    color: Colors.muted,
+    fontWeight: '600',
+  },
   historyMoodContainer: {
     flexDirection: 'row',
     alignItems: 'center',
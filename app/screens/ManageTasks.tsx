@@ -13,23 +13,31 @@ import {
   Animated,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { FIREBASE_AUTH, FIREBASE_DB } from '../../FirebaseConfig';
+import { FIREBASE_AUTH } from '../../FirebaseConfig';
+import { getRepositories } from '../repositories';
+import { useDispatch } from 'react-redux';
+import type { AppDispatch } from '../store/types';
+import { runOrQueueOperation } from '../store/slices/networkSlice';
+import { createTaskConflictBase } from '../utils/syncConflicts';
+import { describeRecurrence, getTaskRecurrence, WEEKDAY_SHORT_LABELS } from '../utils/recurrenceUtils';
+import { TaskCategory, TaskFilter, TaskRecurrence, XPSettings } from '../types';
 import {
-  collection,
-  query,
-  where,
-  getDocs,
-  doc,
-  onSnapshot,
-  QuerySnapshot,
-  DocumentData,
-  QueryDocumentSnapshot,
-  writeBatch,
-  serverTimestamp
-} from 'firebase/firestore';
-import { addTask, updateTask, deleteTask } from '../utils/firebaseService';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { formatDateString } from '../utils/dateUtils';
+  DEFAULT_XP_SETTINGS,
+  getDailyXpCap,
+  getDailyXpTarget,
+  getRemainingDailyXp,
+  subscribeToXpSettings,
+} from '../utils/xpSettings';
+import {
+  DEFAULT_TASK_CATEGORIES,
+  UNCATEGORIZED_ID,
+  findCategory,
+  subscribeToTaskCategories,
+} from '../utils/taskCategories';
+import { collectTags, formatTags, getTaskFilterFields, matchesTaskFilter, parseTags } from '../utils/taskFilters';
+import TaskCategoriesModal from '../components/TaskCategoriesModal';
+import TaskFilterBar from '../components/TaskFilterBar';
+import { getDayKey } from '../utils/dateUtils';
 import { Colors, Typography, Spacing, fontSizes } from '../styles/global';
 import Theme from '../styles/theme';
 import { useNavigation, DrawerActions } from '@react-navigation/native';
@@ -39,6 +47,8 @@ interface Task {
   title: string;
   description: string;
   emoji: string;
+  category?: string;
+  tags?: string[];
   xp: number;
   userId: string;
   recurring?: boolean;
@@ -48,6 +58,8 @@ interface Task {
   archivedAt?: any; // Timestamp
   creationDate?: string; // ISO string for creation date
   subtasks?: SubTask[];
+  recurrence?: TaskRecurrence;
+  updatedAt?: any; // Timestamp
 }
 
 interface SubTask {
@@ -57,8 +69,6 @@ interface SubTask {
   completedAt?: any; // Timestamp
 }
 
-const XP_CAP = 100; // Maximum total XP allowed
-
 const ManageTasks = () => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [modalVisible, setModalVisible] = useState(false);
@@ -66,96 +76,39 @@ const ManageTasks = () => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [emoji, setEmoji] = useState('');
+  const [category, setCategory] = useState(UNCATEGORIZED_ID);
+  const [categories, setCategories] = useState<TaskCategory[]>(DEFAULT_TASK_CATEGORIES);
+  const [categoriesVisible, setCategoriesVisible] = useState(false);
+  const [tagsText, setTagsText] = useState('');
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>({});
   const [xp, setXp] = useState('');
   const [recurring, setRecurring] = useState(false);
+  const [recurrenceType, setRecurrenceType] = useState<TaskRecurrence['type']>('daily');
+  const [recurrenceDays, setRecurrenceDays] = useState<number[]>([]);
+  const [recurrenceInterval, setRecurrenceInterval] = useState('2');
   const [totalXP, setTotalXP] = useState(0);
-  const [availableXP, setAvailableXP] = useState(XP_CAP);
+  const [xpSettings, setXpSettings] = useState<XPSettings>(DEFAULT_XP_SETTINGS);
   const [subtasks, setSubtasks] = useState<SubTask[]>([]);
   const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
 
   const navigation = useNavigation();
+  const dispatch = useDispatch<AppDispatch>();
   const user = FIREBASE_AUTH.currentUser;
 
   useEffect(() => {
     if (user) {
-      // Check for day transition and clean up old non-recurring tasks
-      const checkAndCleanupTasks = async () => {
-        try {
-          const now = new Date();
-          const todayStr = formatDateString(now);
-          const lastCleanupKey = `lastTaskCleanup_${user.uid}`;
-          const lastCleanupStr = await AsyncStorage.getItem(lastCleanupKey);
-          const lastCleanup = lastCleanupStr ? new Date(lastCleanupStr) : null;
-
-          // Check if it's a new day or first run
-          if (!lastCleanup || 
-              lastCleanup.getDate() !== now.getDate() || 
-              lastCleanup.getMonth() !== now.getMonth() || 
-              lastCleanup.getFullYear() !== now.getFullYear()) {
-            
-            // Logging removed for production ('ManageTasks: Cleaning up old non-recurring tasks for new day:', now.toISOString());
-            
-            // Get all completed non-recurring tasks from previous days
-            const userTasksRef = collection(FIREBASE_DB, 'users', user.uid, 'tasks');
-            const oldTasksQuery = query(
-              userTasksRef,
-              where('recurring', '==', false),
-              where('completed', '==', true)
-            );
-            
-            const oldTasksSnapshot = await getDocs(oldTasksQuery);
-            
-            if (oldTasksSnapshot.size > 0) {
-              // Create a batch for all updates
-              const batch = writeBatch(FIREBASE_DB);
-              let cleanupCount = 0;
-              
-              oldTasksSnapshot.forEach((doc) => {
-                const task = doc.data() as Task;
-                // Only process tasks from previous days
-                if (task.lastCompletedDate && task.lastCompletedDate !== todayStr) {
-                  // Mark the task with a special flag to indicate it should be hidden from ManageTasks
-                  batch.update(doc.ref, {
-                    archivedAt: serverTimestamp(),
-                    archivedDate: todayStr
-                  });
-                  cleanupCount++;
-                }
-              });
-              
-              if (cleanupCount > 0) {
-                await batch.commit();
-                // Logging removed for production (`ManageTasks: Archived ${cleanupCount} old completed non-recurring tasks`);
-              }
-            }
-            
-            // Update last cleanup time
-            await AsyncStorage.setItem(lastCleanupKey, now.toISOString());
-          }
-        } catch (error) {
-          // Logging removed for production ('Error cleaning up old tasks:', error);
-        }
-      };
-      
-      // Run cleanup check on component mount
-      checkAndCleanupTasks();
-      
-      // Also set up an interval to check periodically
-      const cleanupInterval = setInterval(checkAndCleanupTasks, 60000);
-      
+      // Completed one-off tasks from earlier days are archived by the daily rollover
       fetchTasks();
       
       // Set up a listener for task updates to refresh the task list
       // This ensures the UI updates immediately when tasks are completed
-      const userTasksRef = collection(FIREBASE_DB, 'users', user.uid, 'tasks');
-      const unsubscribe = onSnapshot(userTasksRef, 
-        (snapshot: QuerySnapshot<DocumentData>) => {
+      const unsubscribe = getRepositories().tasks.subscribe(user.uid, 
+        (userTasks) => {
           const taskList: Task[] = [];
-          const today = new Date();
-          const todayStr = formatDateString(today);
+          const todayStr = getDayKey();
           
-          snapshot.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
-            const task = { id: doc.id, ...doc.data() } as Task;
+          userTasks.forEach((userTask) => {
+            const task = userTask as Task;
             
             // Include all tasks that are:
             // 1. Recurring tasks (always show these regardless of completion status), or
@@ -181,7 +134,7 @@ const ManageTasks = () => {
             
             // CASE 2: For non-recurring tasks (both completed and uncompleted)
             // Only include if created today or completed today
-            const createdToday = task.creationDate && formatDateString(new Date(task.creationDate)) === todayStr;
+            const createdToday = task.creationDate && task.creationDate.slice(0, 10) === todayStr;
             const completedToday = task.completed && task.lastCompletedDate === todayStr;
             
             if (createdToday || completedToday) {
@@ -193,19 +146,6 @@ const ManageTasks = () => {
             return; // Skip all other non-recurring tasks
           });
           
-          // Log detailed task filtering information
-          // Logging removed for production (`ManageTasks filtered ${snapshot.size} tasks to ${taskList.length} tasks for today (${todayStr})`);
-          
-          // Debug logging for task filtering
-          if (snapshot.size > 0) {
-            // Logging removed for production ('ManageTasks filtering details:');
-            snapshot.forEach((doc) => {
-              const task = { id: doc.id, ...doc.data() } as Task;
-              const included = taskList.some(t => t.id === task.id);
-              // Logging removed for production (`Task "${task.title}" (${task.id}): recurring=${!!task.recurring}, completed=${!!task.completed}, lastCompletedDate=${task.lastCompletedDate || 'none'}, included=${included}`);
-            });
-          }
-          
           setTasks(taskList);
         }, 
         (error: Error) => {
@@ -216,7 +156,6 @@ const ManageTasks = () => {
       // Clean up the listener when component unmounts
       return () => {
         unsubscribe();
-        clearInterval(cleanupInterval);
       };
     }
   }, [user]);
@@ -246,23 +185,34 @@ const ManageTasks = () => {
     
     // Use the total from all tasks to calculate available XP
     setTotalXP(totalAllTasks);
-    setAvailableXP(Math.max(0, XP_CAP - totalAllTasks));
   }, [tasks]);
 
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToXpSettings(setXpSettings);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToTaskCategories(setCategories);
+  }, [user]);
+
+  // The planning limit; null when the user has turned the daily cap off
+  const dailyXpCap = getDailyXpCap(xpSettings);
+  const availableXP = getRemainingDailyXp(xpSettings, totalXP);
+  const visibleTasks = tasks.filter(task => matchesTaskFilter(getTaskFilterFields(task), taskFilter, categories));
+
   const fetchTasks = async () => {
     if (!user) return;
 
     try {
-      // Use the user-specific collection instead of the legacy collection
-      const userTasksRef = collection(FIREBASE_DB, 'users', user.uid, 'tasks');
-      const querySnapshot = await getDocs(userTasksRef);
+      const userTasks = await getRepositories().tasks.list(user.uid);
 
       const taskList: Task[] = [];
-      const today = new Date();
-      const todayStr = formatDateString(today);
+      const todayStr = getDayKey();
       
-      querySnapshot.forEach((doc) => {
-        const task = { id: doc.id, ...doc.data() } as Task;
+      userTasks.forEach((userTask) => {
+        const task = userTask as Task;
         
         // Include all tasks that are:
         // 1. Recurring tasks (always show these regardless of completion status), or
@@ -288,7 +238,7 @@ const ManageTasks = () => {
         
         // CASE 2: For non-recurring tasks (both completed and uncompleted)
         // Only include if created today or completed today
-        const createdToday = task.creationDate && formatDateString(new Date(task.creationDate)) === todayStr;
+        const createdToday = task.creationDate && task.creationDate.slice(0, 10) === todayStr;
         const completedToday = task.completed && task.lastCompletedDate === todayStr;
         
         if (createdToday || completedToday) {
@@ -314,8 +264,13 @@ const ManageTasks = () => {
     setTitle('');
     setDescription('');
     setEmoji('');
+    setCategory(UNCATEGORIZED_ID);
+    setTagsText('');
     setXp('');
     setRecurring(false);
+    setRecurrenceType('daily');
+    setRecurrenceDays([]);
+    setRecurrenceInterval('2');
     setEditingTask(null);
     setSubtasks([]);
     setNewSubtaskTitle('');
@@ -408,51 +363,101 @@ const ManageTasks = () => {
       totalXpAfterOperation += xpNumber;
       
       // Check if the total XP would exceed the cap
-      if (totalXpAfterOperation > XP_CAP) {
+      if (dailyXpCap !== null && totalXpAfterOperation > dailyXpCap) {
         Alert.alert(
           'XP Limit Exceeded', 
-          `The total XP cannot exceed ${XP_CAP}. You have ${XP_CAP - (totalXP - (editingTask ? editingTask.xp : 0))} XP available.`,
+          `The total XP cannot exceed ${dailyXpCap}. You have ${dailyXpCap - (totalXP - (editingTask ? editingTask.xp : 0))} XP available.`,
           [{ text: 'OK' }]
         );
         isSubmitting.current = false;
         return;
       }
 
+      // Build the recurrence rule from the form
+      let recurrence: TaskRecurrence | undefined;
+      if (recurring) {
+        if (recurrenceType === 'weekly') {
+          if (recurrenceDays.length === 0) {
+            Alert.alert('Missing Days', 'Select at least one day for this task to repeat on.');
+            isSubmitting.current = false;
+            return;
+          }
+          recurrence = { type: 'weekly', days: [...recurrenceDays].sort((a, b) => a - b) };
+        } else if (recurrenceType === 'interval') {
+          const everyDays = parseInt(recurrenceInterval, 10);
+          if (isNaN(everyDays) || everyDays < 1 || everyDays > 365) {
+            Alert.alert('Invalid Interval', 'Enter a number of days between 1 and 365.');
+            isSubmitting.current = false;
+            return;
+          }
+          // Keep the original start date when editing so existing due days don't shift
+          const existingRule = editingTask?.recurrence;
+          recurrence = {
+            type: 'interval',
+            everyDays,
+            startDate: existingRule?.type === 'interval' ? existingRule.startDate : getDayKey(),
+          };
+        } else {
+          recurrence = { type: recurrenceType };
+        }
+      }
+
       const taskData = {
         title,
         description,
         emoji,
+        category,
+        tags: parseTags(tagsText),
         xp: xpNumber,
         recurring,
+        recurrence,
         subtasks: subtasks.length > 0 ? subtasks : undefined,
       };
 
       if (editingTask) {
         // Update existing task
-        const result = await updateTask(editingTask.id, taskData);
+        const result = await dispatch(runOrQueueOperation({
+          type: 'updateTask',
+          payload: {
+            taskId: editingTask.id,
+            updates: taskData,
+            base: createTaskConflictBase(editingTask, taskData)
+          }
+        }));
         if (!result.success) {
           Alert.alert('Error', result.message || 'Failed to update task');
           isSubmitting.current = false;
           return;
         }
-        if (result.message !== 'Task updated successfully') {
+        if (result.queued) {
+          Alert.alert('Saved Offline', result.message);
+        } else if (result.conflicts && result.conflicts.length > 0) {
+          Alert.alert(
+            'Sync Conflict',
+            'This task was also changed on another device. Review the conflicting fields in Settings > Sync Conflicts.'
+          );
+        } else if (result.message !== 'Task updated successfully') {
           Alert.alert('Success', result.message);
         }
       } else {
         // Add creationDate for new tasks
-        const now = new Date();
-        const todayStr = formatDateString(now);
+        const todayStr = getDayKey();
         const taskDataWithCreation = {
           ...taskData,
           creationDate: todayStr
         };
-        const result = await addTask(taskDataWithCreation);
+        const result = await dispatch(runOrQueueOperation({
+          type: 'addTask',
+          payload: { task: taskDataWithCreation }
+        }));
         if (!result.success) {
           Alert.alert('Error', result.message || 'Failed to add task');
           isSubmitting.current = false;
           return;
         }
-        if (result.message && recurring) {
+        if (result.queued) {
+          Alert.alert('Saved Offline', result.message);
+        } else if (result.message && recurring) {
           Alert.alert('Success', result.message);
         }
       }
@@ -481,8 +486,15 @@ const ManageTasks = () => {
     setTitle(task.title);
     setDescription(task.description);
     setEmoji(task.emoji);
+    // A removed category isn't offered in the picker, so the task moves to Uncategorized when saved
+    setCategory(findCategory(task.category, categories).id);
+    setTagsText(formatTags(task.tags));
     setXp(task.xp.toString());
     setRecurring(task.recurring || false);
+    const rule = getTaskRecurrence(task);
+    setRecurrenceType(rule ? rule.type : 'daily');
+    setRecurrenceDays(rule?.type === 'weekly' ? rule.days : []);
+    setRecurrenceInterval(rule?.type === 'interval' ? String(rule.everyDays) : '2');
     setSubtasks(task.subtasks || []);
     setModalVisible(true);
   };
@@ -495,12 +507,9 @@ const ManageTasks = () => {
       return;
     }
 
-    // Always use UTC for date checks
-    const nowUTC = new Date();
-    const todayUTCStr = formatDateString(new Date(Date.UTC(nowUTC.getUTCFullYear(), nowUTC.getUTCMonth(), nowUTC.getUTCDate())));
-    const isCompletedToday = task.completed && task.lastCompletedDate === todayUTCStr;
+    const isCompletedToday = task.completed && task.lastCompletedDate === getDayKey();
 
-    // Prevent deletion of completed tasks if completed today (UTC)
+    // Prevent deletion of completed tasks if completed today
     if (task.completed && isCompletedToday) {
       Alert.alert(
         'Cannot Delete Completed Task',
@@ -513,7 +522,7 @@ const ManageTasks = () => {
     // Allow deletion of any uncompleted task (recurring or non-recurring)
     if (!task.completed) {
       try {
-        const result = await deleteTask(taskId);
+        const result = await dispatch(runOrQueueOperation({ type: 'deleteTask', payload: { taskId } }));
         if (!result.success) {
           Alert.alert('Error', result.message || 'Failed to delete task');
           return;
@@ -622,6 +631,34 @@ const ManageTasks = () => {
       borderRadius: 10,
       backgroundColor: Colors.background,
     },
+    recurrenceOptions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginBottom: Theme.Spacing.sm,
+    },
+    recurrenceChip: {
+      paddingHorizontal: Theme.Spacing.sm,
+      paddingVertical: Theme.Spacing.xs,
+      borderRadius: Theme.Layout.radiusSm,
+      borderWidth: 1,
+      borderColor: Theme.Colors.borderLight,
+      marginRight: Theme.Spacing.xs,
+      marginBottom: Theme.Spacing.xs,
+    },
+    recurrenceChipSelected: {
+      backgroundColor: Theme.Colors.primary,
+      borderColor: Theme.Colors.primary,
+    },
+    categoryChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    categoriesButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-end',
+      marginBottom: Theme.Spacing.sm,
+    },
     // Add any other styles used in the component
   });
 
@@ -660,31 +697,74 @@ const ManageTasks = () => {
               <View 
                 style={{
                   height: '100%',
-                  width: `${(totalXP / XP_CAP) * 100}%`,
-                  backgroundColor: totalXP > XP_CAP ? Theme.Colors.error : Theme.Colors.primary,
+                  width: `${Math.min(100, (totalXP / (dailyXpCap ?? Math.max(1, getDailyXpTarget(xpSettings)))) * 100)}%`,
+                  backgroundColor: dailyXpCap !== null && totalXP > dailyXpCap ? Theme.Colors.error : Theme.Colors.primary,
                   borderRadius: 4
                 }} 
               />
             </View>
             <Text style={[Theme.Typography.bodySmall, {textAlign: 'right', color: Theme.Colors.textSecondary}]}>
-              {totalXP}/{XP_CAP} XP used
+              {dailyXpCap !== null
+                ? `${totalXP}/${dailyXpCap} XP used`
+                : `${totalXP}/${getDailyXpTarget(xpSettings)} XP of today's target`}
             </Text>
           </View>
           <Text style={[Theme.Typography.h4, {color: Theme.Colors.primary, marginTop: Theme.Spacing.sm}]}>
-            {availableXP} XP available to allocate
+            {availableXP !== null ? `${availableXP} XP available to allocate` : 'No daily XP cap'}
           </Text>
           <Text style={[Theme.Typography.body, {marginTop: Theme.Spacing.sm, color: Theme.Colors.textSecondary}]}>
-            You've got {XP_CAP} XP to power your day! Assign XP to tasks based on how important or challenging they are. Choose wisely—every point counts!
+            {dailyXpCap !== null
+              ? `You've got ${dailyXpCap} XP to power your day! Assign XP to tasks based on how important or challenging they are. Choose wisely—every point counts!`
+              : `Your daily cap is off, so plan as much as you like. Today's target is ${getDailyXpTarget(xpSettings)} XP.`}
           </Text>
         </View>
 
-        {tasks.map((task) => (
+        <TouchableOpacity style={styles.categoriesButton} onPress={() => setCategoriesVisible(true)}>
+          <MaterialIcons name="label" size={18} color={Theme.Colors.primary} />
+          <Text style={[Theme.Typography.bodySmall, {color: Theme.Colors.primary, fontWeight: '600', marginLeft: Theme.Spacing.xs}]}>
+            Edit Categories
+          </Text>
+        </TouchableOpacity>
+
+        <TaskFilterBar
+          filter={taskFilter}
+          onChange={setTaskFilter}
+          categories={categories}
+          availableTags={collectTags(tasks)}
+        />
+
+        {visibleTasks.map((task) => (
           <View key={task.id} style={[Theme.ComponentStyles.card, task.recurring && styles.recurringTaskCard]}>
             <View style={[Theme.ComponentStyles.spaceBetween, {flexWrap: 'wrap'}]}>
               <View style={[Theme.ComponentStyles.row, {flex: 1, minWidth: '70%', marginRight: Theme.Spacing.sm}]}>
                 <Text style={styles.taskEmoji}>{task.emoji}</Text>
                 <View style={{flex: 1, marginLeft: Theme.Spacing.sm}}>
                   <Text style={Theme.Typography.h4}>{task.title}</Text>
+                  {(() => {
+                    const taskCategory = findCategory(task.category, categories);
+                    return (
+                      <View style={[Theme.ComponentStyles.row, {alignItems: 'center'}]}>
+                        <MaterialIcons
+                          name={taskCategory.icon as keyof typeof MaterialIcons.glyphMap}
+                          size={12}
+                          color={taskCategory.color}
+                        />
+                        <Text style={[Theme.Typography.caption, {color: taskCategory.color, marginLeft: 4}]}>
+                          {taskCategory.name}
+                        </Text>
+                      </View>
+                    );
+                  })()}
+                  {task.tags && task.tags.length > 0 && (
+                    <Text style={[Theme.Typography.caption, {color: Theme.Colors.textSecondary}]}>
+                      {task.tags.map(tag => `#${tag}`).join(' ')}
+                    </Text>
+                  )}
+                  {task.recurring && (
+                    <Text style={[Theme.Typography.caption, {color: Theme.Colors.primary}]}>
+                      {describeRecurrence(getTaskRecurrence(task) || { type: 'daily' })}
+                    </Text>
+                  )}
 
                 </View>
               </View>
@@ -813,6 +893,42 @@ const ManageTasks = () => {
                 maxLength={2}
               />
             </View>
+
+            <View style={Theme.ComponentStyles.formGroup}>
+              <Text style={Theme.ComponentStyles.formLabel}>Category</Text>
+              <View style={styles.recurrenceOptions}>
+                {[...categories, findCategory(UNCATEGORIZED_ID, categories)].map(option => {
+                  const selected = category === option.id;
+                  return (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={[styles.recurrenceChip, styles.categoryChip, selected && {backgroundColor: option.color, borderColor: option.color}]}
+                      onPress={() => setCategory(option.id)}
+                    >
+                      <MaterialIcons
+                        name={option.icon as keyof typeof MaterialIcons.glyphMap}
+                        size={14}
+                        color={selected ? Theme.Colors.textLight : option.color}
+                      />
+                      <Text style={[Theme.Typography.bodySmall, {color: selected ? Theme.Colors.textLight : Theme.Colors.text, marginLeft: 4}]}>
+                        {option.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={Theme.ComponentStyles.formGroup}>
+              <Text style={Theme.ComponentStyles.formLabel}>Tags</Text>
+              <TextInput
+                style={Theme.ComponentStyles.input}
+                placeholder="errands, deep-work"
+                value={tagsText}
+                onChangeText={setTagsText}
+                autoCapitalize="none"
+              />
+            </View>
             
             <View style={Theme.ComponentStyles.formGroup}>
               <Text style={Theme.ComponentStyles.formLabel}>XP Value</Text>
@@ -881,7 +997,7 @@ const ManageTasks = () => {
             </View>
             
             <View style={[Theme.ComponentStyles.formGroup, Theme.ComponentStyles.row, {justifyContent: 'space-between'}]}>
-              <Text style={Theme.ComponentStyles.formLabel}>Recurring Daily Task</Text>
+              <Text style={Theme.ComponentStyles.formLabel}>Recurring Task</Text>
               <TouchableOpacity 
                 style={[styles.switchButton, {backgroundColor: recurring ? Theme.Colors.primaryLight : Theme.Colors.borderLight}]}
                 onPress={() => setRecurring(!recurring)}
@@ -891,9 +1007,65 @@ const ManageTasks = () => {
             </View>
             
             {recurring && (
-              <Text style={[Theme.Typography.caption, {color: Theme.Colors.info, marginBottom: Theme.Spacing.md}]}>
-                This task will reset daily, allowing you to complete it every day for XP.
-              </Text>
+              <View style={Theme.ComponentStyles.formGroup}>
+                <View style={styles.recurrenceOptions}>
+                  {([
+                    { type: 'daily', label: 'Daily' },
+                    { type: 'weekdays', label: 'Weekdays' },
+                    { type: 'weekly', label: 'Specific days' },
+                    { type: 'interval', label: 'Every N days' },
+                  ] as { type: TaskRecurrence['type']; label: string }[]).map(option => (
+                    <TouchableOpacity
+                      key={option.type}
+                      style={[styles.recurrenceChip, recurrenceType === option.type && styles.recurrenceChipSelected]}
+                      onPress={() => setRecurrenceType(option.type)}
+                    >
+                      <Text style={[Theme.Typography.bodySmall, {color: recurrenceType === option.type ? Theme.Colors.textLight : Theme.Colors.text}]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {recurrenceType === 'weekly' && (
+                  <View style={styles.recurrenceOptions}>
+                    {WEEKDAY_SHORT_LABELS.map((label, day) => {
+                      const selected = recurrenceDays.includes(day);
+                      return (
+                        <TouchableOpacity
+                          key={label}
+                          style={[styles.recurrenceChip, selected && styles.recurrenceChipSelected]}
+                          onPress={() => setRecurrenceDays(prev =>
+                            prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]
+                          )}
+                        >
+                          <Text style={[Theme.Typography.bodySmall, {color: selected ? Theme.Colors.textLight : Theme.Colors.text}]}>
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+
+                {recurrenceType === 'interval' && (
+                  <View style={[Theme.ComponentStyles.row, {alignItems: 'center', marginBottom: Theme.Spacing.sm}]}>
+                    <Text style={[Theme.Typography.body, {marginRight: Theme.Spacing.sm}]}>Every</Text>
+                    <TextInput
+                      style={[Theme.ComponentStyles.input, {width: 70, textAlign: 'center'}]}
+                      value={recurrenceInterval}
+                      onChangeText={setRecurrenceInterval}
+                      keyboardType="numeric"
+                      maxLength={3}
+                    />
+                    <Text style={[Theme.Typography.body, {marginLeft: Theme.Spacing.sm}]}>days</Text>
+                  </View>
+                )}
+
+                <Text style={[Theme.Typography.caption, {color: Theme.Colors.info, marginBottom: Theme.Spacing.md}]}>
+                  This task will reset on the days it is due, allowing you to complete it again for XP.
+                </Text>
+              </View>
             )}
             
             <View style={[Theme.ComponentStyles.row, {justifyContent: 'space-between', marginTop: Theme.Spacing.md}]}>
@@ -918,6 +1090,12 @@ const ManageTasks = () => {
           </View>
         </View>
       </Modal>
+
+      <TaskCategoriesModal
+        visible={categoriesVisible}
+        onClose={() => setCategoriesVisible(false)}
+        categories={categories}
+      />
     </View>
   );
 };
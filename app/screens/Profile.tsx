@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -19,38 +19,12 @@ import { doc } from 'firebase/firestore';
 import { onSnapshot } from 'firebase/firestore';
 import { getTotalXPFromBank, getTodayXPFromBank } from '../utils/firebaseService';
 import { Colors, Typography, Spacing } from '../styles/global';
-import LevelUpAnimation from '../components/LevelUpAnimation';
+import { getLevelTitle, subscribeToLevelEvents, subscribeToLevelProgress } from '../utils/leveling';
+import { AchievementUnlock, LevelEvent } from '../types';
+import { AchievementData, evaluateAchievements, loadAchievementData, subscribeToAchievements } from '../utils/achievements';
 import { useNavigation, DrawerActions } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
-// Level calculation function with weighted blend (60% XP, 40% task count)
-type LevelInfo = { 
-  level: number;
-  progress: number; // value between 0 and 1
-  currentLevelXP: number;
-  nextLevelXP: number;
-};
-
-const getLevelInfo = (totalPoints: number, taskCount: number = 0): LevelInfo => {
-  // Calculate the weighted score using 60% XP and 40% task count
-  const weightedScore = (totalPoints * 0.6 + taskCount * 40) / 10;
-  const level = Math.floor(Math.sqrt(weightedScore));
-  
-  // Calculate the current and next level thresholds based on the weighted formula
-  const currentLevelThreshold = (level ** 2) * 10;
-  const nextLevelThreshold = ((level + 1) ** 2) * 10;
-  
-  // Calculate progress to next level
-  const progress = (weightedScore * 10 - currentLevelThreshold) / (nextLevelThreshold - currentLevelThreshold);
-
-  return {
-    level,
-    progress: Math.min(Math.max(progress, 0), 1), // clamp between 0 and 1
-    currentLevelXP: Math.round(currentLevelThreshold),
-    nextLevelXP: Math.round(nextLevelThreshold),
-  };
-};
-
 type RootStackParamList = {
   Home: undefined;
   Profile: undefined;
@@ -65,17 +39,16 @@ interface Stats {
   streakCount: number;
   averageXPPerDay: number;
   level: number;
+  levelTitle: string;
   levelProgress: number;
   nextLevelXP: number;
   weightedPoints: number;
 }
 
 const Profile = () => {
-  const [showLevelUp, setShowLevelUp] = useState(false);
-  const prevLevel = useRef(1);
-  // Local states to always have the latest values
-  const [localTotalXP, setLocalTotalXP] = useState(0);
-  const [localCompletedTasks, setLocalCompletedTasks] = useState(0);
+  const [levelHistory, setLevelHistory] = useState<LevelEvent[]>([]);
+  const [achievementUnlocks, setAchievementUnlocks] = useState<Record<string, AchievementUnlock>>({});
+  const [achievementData, setAchievementData] = useState<AchievementData | null>(null);
   const navigation = useNavigation<ProfileScreenNavigationProp>();
   const user = FIREBASE_AUTH.currentUser;
   const { stats: contextStats } = require('../contexts/StatsContext').useStats ? require('../contexts/StatsContext').useStats() : { stats: null };
@@ -86,8 +59,10 @@ const [stats, setStats] = useState<Stats>({
   streakCount: 0,
   averageXPPerDay: 0,
   level: 1,
+  levelTitle: getLevelTitle(1),
   levelProgress: 0,
   nextLevelXP: 10,
+  weightedPoints: 0,
 });
 
 // XP loading state
@@ -128,82 +103,47 @@ const [xpLoading, setXPLoading] = useState(false);
     if (!user) return;
     fetchUserProfile();
     setXPLoading(true);
-    // Subscribe to real-time updates from xpBank and tasks
-    const xpBankRef = collection(FIREBASE_DB, 'users', user.uid, 'xpBank');
-    const tasksRef = collection(FIREBASE_DB, 'users', user.uid, 'tasks');
-
-    // Listen to XP bank changes
-    const unsubscribeXP = onSnapshot(xpBankRef, async (snapshot) => {
-      let totalXP = 0;
-      let daysWithXP = 0;
-      snapshot.forEach(doc => {
-        const data = doc.data();
-        if (typeof data.totalXP === 'number') {
-          totalXP += data.totalXP;
-          daysWithXP++;
-        }
-      });
-      const averageXPPerDay = daysWithXP > 0 ? parseFloat((totalXP / daysWithXP).toFixed(2)) : 0;
-      // Fetch today's XP
-      const todayXP = await getTodayXPFromBank();
-      // We'll update completedTasks below
-      setLocalTotalXP(totalXP);
-      setStats(prev => {
-        // Use latest completedTasks from localCompletedTasks
-        const levelInfo = getLevelInfo(totalXP, localCompletedTasks);
-        // Level-up animation trigger
-        if (levelInfo.level > prev.level) {
-          setShowLevelUp(true);
-        }
-        prevLevel.current = levelInfo.level;
-        return {
-          ...prev,
-          totalXP,
-          averageXPPerDay,
-          level: levelInfo.level,
-          levelProgress: levelInfo.progress,
-          nextLevelXP: levelInfo.nextLevelXP,
-          weightedPoints: Math.round((totalXP * 0.6 + localCompletedTasks * 40)),
-        };
-      });
+    // Subscribe to real-time XP, task and level updates
+    const unsubscribeLevel = subscribeToLevelProgress((progress) => {
+      const averageXPPerDay = progress.daysWithXP > 0
+        ? parseFloat((progress.totalXP / progress.daysWithXP).toFixed(2))
+        : 0;
+      setStats(prev => ({
+        ...prev,
+        totalTasks: progress.totalTasks,
+        completedTasks: progress.completedTasks,
+        totalXP: progress.totalXP,
+        averageXPPerDay,
+        level: progress.levelInfo.level,
+        levelTitle: progress.levelInfo.title,
+        levelProgress: progress.levelInfo.progress,
+        nextLevelXP: progress.levelInfo.nextLevelPoints,
+        weightedPoints: progress.levelInfo.points,
+      }));
       setXPLoading(false);
     });
 
-    // Listen to tasks changes for total/completed tasks and level
-    const unsubscribeTasks = onSnapshot(tasksRef, (tasksSnapshot) => {
-      const totalTasks = tasksSnapshot.size;
-      let completedTasks = 0;
-      tasksSnapshot.forEach(doc => {
-        const data = doc.data();
-        if (data.status === 'completed') completedTasks++;
-      });
-      setLocalCompletedTasks(completedTasks);
-      setStats(prev => {
-        // Use latest totalXP from localTotalXP
-        const levelInfo = getLevelInfo(localTotalXP, completedTasks);
-        // Level-up animation trigger
-        if (levelInfo.level > prev.level) {
-          setShowLevelUp(true);
-        }
-        prevLevel.current = levelInfo.level;
-        return {
-          ...prev,
-          totalTasks,
-          completedTasks,
-          level: levelInfo.level,
-          levelProgress: levelInfo.progress,
-          nextLevelXP: levelInfo.nextLevelXP,
-          weightedPoints: Math.round((localTotalXP * 0.6 + completedTasks * 40)),
-        };
-      });
-    });
+    // Listen to the level history for the timeline
+    const unsubscribeHistory = subscribeToLevelEvents(setLevelHistory);
+
+    // Listen to unlocked achievements for the gallery
+    const unsubscribeAchievements = subscribeToAchievements(setAchievementUnlocks);
 
     return () => {
-      unsubscribeXP();
-      unsubscribeTasks();
+      unsubscribeLevel();
+      unsubscribeHistory();
+      unsubscribeAchievements();
     };
   }, [user]);
 
+  // Refresh achievement progress whenever something new unlocks
+  useEffect(() => {
+    if (!user) return;
+    loadAchievementData(user.uid)
+      .then(setAchievementData)
+      .catch(error => console.error('Error loading achievement progress:', error));
+  }, [user, Object.keys(achievementUnlocks).length]);
+
   const handleSignOut = async () => {
     try {
       // Clear persisted auth data first
@@ -226,11 +166,6 @@ const [xpLoading, setXPLoading] = useState(false);
 
   return (
     <View style={styles.container}>
-      <LevelUpAnimation
-        visible={showLevelUp}
-        level={stats.level}
-        onAnimationEnd={() => setShowLevelUp(false)}
-      />
       <View style={styles.header}>
         <TouchableOpacity
           style={styles.menuButton}
@@ -279,6 +214,7 @@ const [xpLoading, setXPLoading] = useState(false);
               <Text style={styles.levelNumber}>{stats.level || 1}</Text>
             </View>
             <Text style={styles.levelLabel}>LEVEL {stats.level || 1}</Text>
+            <Text style={styles.levelTitle}>{stats.levelTitle}</Text>
           </View>
           
           {/* Level Progress Bar */}
@@ -319,6 +255,57 @@ const [xpLoading, setXPLoading] = useState(false);
             <Text style={styles.statLabel}>XP/Day</Text>
           </View>
         </View>
+
+        {/* Achievements */}
+        <View style={styles.achievementsContainer}>
+          <Text style={styles.achievementsTitle}>
+            Achievements ({Object.keys(achievementUnlocks).length})
+          </Text>
+          <View style={styles.achievementGrid}>
+            {achievementData && evaluateAchievements(achievementData).map(({ definition, value }) => {
+              const unlock = achievementUnlocks[definition.id];
+              return (
+                <View key={definition.id} style={[styles.achievementCard, !unlock && styles.achievementLocked]}>
+                  <MaterialIcons
+                    name={definition.icon}
+                    size={28}
+                    color={unlock ? Colors.primary : Colors.muted}
+                  />
+                  <Text style={styles.achievementName}>{definition.title}</Text>
+                  <Text style={styles.achievementDescription}>{definition.description}</Text>
+                  <Text style={styles.achievementStatus}>
+                    {unlock
+                      ? unlock.unlockedAt?.toDate().toLocaleDateString()
+                      : `${Math.min(value, definition.target)} / ${definition.target}`}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Level History */}
+        {levelHistory.length > 0 && (
+          <View style={styles.levelHistoryContainer}>
+            <Text style={styles.levelHistoryTitle}>Level History</Text>
+            {levelHistory.map((event, index) => (
+              <View key={event.level} style={styles.levelHistoryItem}>
+                <View style={styles.levelHistoryMarker}>
+                  <View style={styles.levelHistoryDot} />
+                  {index < levelHistory.length - 1 && <View style={styles.levelHistoryLine} />}
+                </View>
+                <View style={styles.levelHistoryContent}>
+                  <Text style={styles.levelHistoryLevel}>Level {event.level} · {event.title}</Text>
+                  <Text style={styles.levelHistoryDate}>
+                    {event.reachedAt
+                      ? event.reachedAt.toDate().toLocaleDateString()
+                      : 'Reached before level history'}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
       </ScrollView>
     </View>
   );
@@ -458,6 +445,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     letterSpacing: 1,
   },
+  levelTitle: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginTop: Spacing.tiny,
+  },
   levelProgressContainer: {
     width: '100%',
     marginTop: Spacing.medium,
@@ -514,6 +506,108 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 4,
   },
+  achievementsContainer: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: Spacing.medium,
+    marginBottom: Spacing.large,
+    shadowColor: Colors.primary,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.10,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  achievementsTitle: {
+    ...Typography.subheading,
+    color: Colors.text,
+    marginBottom: Spacing.small,
+  },
+  achievementGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  achievementCard: {
+    width: '48%',
+    alignItems: 'center',
+    padding: Spacing.small,
+    marginBottom: Spacing.small,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.primary + '40',
+    backgroundColor: Colors.primary + '10',
+  },
+  achievementLocked: {
+    borderColor: Colors.border,
+    backgroundColor: Colors.background,
+    opacity: 0.7,
+  },
+  achievementName: {
+    ...Typography.body,
+    color: Colors.text,
+    fontWeight: '600',
+    marginTop: Spacing.tiny,
+    textAlign: 'center',
+  },
+  achievementDescription: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  achievementStatus: {
+    ...Typography.caption,
+    color: Colors.muted,
+    marginTop: Spacing.tiny,
+  },
+  levelHistoryContainer: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: Spacing.medium,
+    marginBottom: Spacing.large,
+    shadowColor: Colors.primary,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.10,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  levelHistoryTitle: {
+    ...Typography.subheading,
+    color: Colors.text,
+    marginBottom: Spacing.small,
+  },
+  levelHistoryItem: {
+    flexDirection: 'row',
+  },
+  levelHistoryMarker: {
+    width: 20,
+    alignItems: 'center',
+  },
+  levelHistoryDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.primary,
+    marginTop: 5,
+  },
+  levelHistoryLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: Colors.border,
+  },
+  levelHistoryContent: {
+    flex: 1,
+    paddingLeft: Spacing.small,
+    paddingBottom: Spacing.medium,
+  },
+  levelHistoryLevel: {
+    ...Typography.body,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  levelHistoryDate: {
+    ...Typography.caption,
+    color: Colors.muted,
+  },
   statValue: {
     ...Typography.heading,
     marginVertical: Spacing.small,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -18,18 +18,81 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { DrawerNavigationProp } from '@react-navigation/drawer';
 import { RootStackParamList } from '../navigation/types';
 import { Colors, Typography, Spacing, GlobalStyles } from '../styles/global';
-import { ScheduledTask } from '../types/scheduledTask';
+import { ScheduledTask, ScheduledTaskOccurrence } from '../types/scheduledTask';
 import { 
   subscribeToScheduledTasks, 
-  addScheduledTask, 
-  updateScheduledTask, 
-  deleteScheduledTask, 
-  updateScheduledTaskStatus,
   checkForMissedTasks
 } from '../utils/scheduledTaskService';
+import { useDispatch } from 'react-redux';
+import type { AppDispatch } from '../store/types';
+import { runOrQueueOperation } from '../store/slices/networkSlice';
 // Using built-in React Native components for date/time selection
 import { useTheme } from '../contexts/ThemeContext';
 import { formatDateString } from '../utils/dateUtils';
+import { formatTags, parseTags } from '../utils/taskFilters';
+import CalendarImportExportModal from '../components/CalendarImportExportModal';
+import {
+  RecurrenceRule,
+  RRuleFrequency,
+  RRuleWeekday,
+  RRULE_WEEKDAYS,
+  parseRRule,
+  formatRRule,
+  describeRRule,
+  expandOccurrences,
+  getScheduledTaskRule,
+  getScheduledTaskOccurrences
+} from '../utils/rrule';
+
+type RepeatFrequency = ScheduledTask['repeatFrequency'];
+
+const REPEAT_OPTIONS: { value: RepeatFrequency; label: string; description: string; icon: string }[] = [
+  { value: 'none', label: 'No Repeat', description: 'One-time event', icon: 'event-busy' },
+  { value: 'daily', label: 'Daily', description: 'Every day', icon: 'today' },
+  { value: 'weekly', label: 'Weekly', description: 'Same day each week', icon: 'event-repeat' },
+  { value: 'monthly', label: 'Monthly', description: 'Same date each month', icon: 'date-range' },
+  { value: 'custom', label: 'Custom', description: 'Pick days and interval', icon: 'tune' },
+];
+
+const RULE_FREQUENCY_UNITS: Record<RRuleFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+const RULE_WEEKDAY_LABELS: Record<RRuleWeekday, string> = {
+  SU: 'S', MO: 'M', TU: 'T', WE: 'W', TH: 'T', FR: 'F', SA: 'S',
+};
+
+// Which week of the month a monthly weekday rule applies to (-1 = last)
+const MONTHLY_WEEK_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Every' },
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+
+/**
+ * Short label for how an event repeats, e.g. "Weekly" or "Every 2 weeks on Mon, Thu"
+ */
+const getRepeatLabel = (task: ScheduledTask): string => {
+  switch (task.repeatFrequency) {
+    case 'daily':
+      return 'Daily';
+    case 'weekly':
+      return 'Weekly';
+    case 'monthly':
+      return 'Monthly';
+    case 'custom': {
+      const rule = getScheduledTaskRule({ ...task, dueDate: undefined });
+      return rule ? describeRRule(rule) : 'Custom';
+    }
+    default:
+      return '';
+  }
+};
 
 type ScheduleScreenProps = {
   navigation: DrawerNavigationProp<RootStackParamList, 'Schedule'>;
@@ -37,10 +100,12 @@ type ScheduleScreenProps = {
 
 const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
   const { colors } = useTheme();
-  const [tasks, setTasks] = useState<ScheduledTask[]>([]);
+  const dispatch = useDispatch<AppDispatch>();
+  const [allTasks, setAllTasks] = useState<ScheduledTask[]>([]);
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingTask, setEditingTask] = useState<ScheduledTask | null>(null);
+  const [calendarFilesVisible, setCalendarFilesVisible] = useState(false);
   const [statusFilter, setStatusFilter] = useState<('upcoming' | 'completed' | 'missed')[]>(['upcoming']);
   
   // Calendar view state
@@ -52,6 +117,7 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
   // Form state
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [tagsText, setTagsText] = useState('');
   const [scheduledDate, setScheduledDate] = useState<Date>(new Date());
   const [scheduledTime, setScheduledTime] = useState<Date | null>(null);
   const [dueDate, setDueDate] = useState<Date | null>(null);
@@ -61,7 +127,15 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
   const [timeSelectionMode, setTimeSelectionMode] = useState<'hour' | 'minute'>('hour');
   const [selectedHour, setSelectedHour] = useState(new Date().getHours());
   const [selectedMinute, setSelectedMinute] = useState(0);
-  const [repeatFrequency, setRepeatFrequency] = useState<'none' | 'daily' | 'weekly' | 'monthly'>('none');
+  const [repeatFrequency, setRepeatFrequency] = useState<RepeatFrequency>('none');
+  const [ruleFrequency, setRuleFrequency] = useState<RRuleFrequency>('WEEKLY');
+  const [ruleInterval, setRuleInterval] = useState('1');
+  const [ruleWeekdays, setRuleWeekdays] = useState<RRuleWeekday[]>([]);
+  const [ruleMonthWeek, setRuleMonthWeek] = useState<number | null>(null);
+  const [ruleMonthDays, setRuleMonthDays] = useState('');
+  const [ruleEnd, setRuleEnd] = useState<'never' | 'count' | 'until'>('never');
+  const [ruleCount, setRuleCount] = useState('10');
+  const [ruleUntil, setRuleUntil] = useState('');
   const [notificationEnabled, setNotificationEnabled] = useState(true);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
@@ -78,22 +152,23 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
     
     checkMissed();
     
-    const unsubscribe = subscribeToScheduledTasks(
-      (loadedTasks) => {
-        // If a date is selected in the calendar, filter tasks for that date
-        if (selectedDate) {
-          const filteredTasks = loadedTasks.filter(task => task.scheduledDate === selectedDate);
-          setTasks(filteredTasks);
-        } else {
-          setTasks(loadedTasks);
-        }
-        setLoading(false);
-      },
-      { status: statusFilter }
-    );
+    // Load every event: a repeating event can have occurrences in any status
+    const unsubscribe = subscribeToScheduledTasks((loadedTasks) => {
+      setAllTasks(loadedTasks);
+      setLoading(false);
+    });
     
     return () => unsubscribe();
-  }, [statusFilter, selectedDate]);
+  }, []);
+
+  // Events shown in the list: occurrences on the selected date, or the current occurrence of each event
+  const tasks = useMemo((): ScheduledTaskOccurrence[] => {
+    const occurrences = selectedDate
+      ? allTasks.flatMap(task => getScheduledTaskOccurrences(task, selectedDate, selectedDate))
+      : allTasks.map(task => ({ ...task, occurrenceDate: task.scheduledDate }));
+    
+    return occurrences.filter(occurrence => statusFilter.includes(occurrence.status));
+  }, [allTasks, selectedDate, statusFilter]);
 
   // Reset form when modal is closed
   useEffect(() => {
@@ -105,20 +180,93 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
   const resetForm = () => {
     setTitle('');
     setDescription('');
+    setTagsText('');
     setScheduledDate(new Date());
     setScheduledTime(null);
     setDueDate(null);
     setRepeatFrequency('none');
+    setRuleFrequency('WEEKLY');
+    setRuleInterval('1');
+    setRuleWeekdays([]);
+    setRuleMonthWeek(null);
+    setRuleMonthDays('');
+    setRuleEnd('never');
+    setRuleCount('10');
+    setRuleUntil('');
     setNotificationEnabled(true);
     setEditingTask(null);
   };
 
+  // Fill the custom repeat builder from a stored RRULE
+  const loadRuleIntoForm = (rrule: string) => {
+    try {
+      const rule = parseRRule(rrule);
+      setRuleFrequency(rule.freq);
+      setRuleInterval(String(rule.interval));
+      setRuleWeekdays(rule.byDay?.map(day => day.weekday) || []);
+      setRuleMonthWeek(rule.byDay?.find(day => day.ordinal !== undefined)?.ordinal ?? null);
+      setRuleMonthDays(rule.byMonthDay?.join(', ') || '');
+      if (rule.count) {
+        setRuleEnd('count');
+        setRuleCount(String(rule.count));
+      } else if (rule.until) {
+        setRuleEnd('until');
+        setRuleUntil(rule.until);
+      } else {
+        setRuleEnd('never');
+      }
+    } catch (error) {
+      console.error('Error loading recurrence rule:', error);
+    }
+  };
+
+  // Build the custom repeat rule from the form, or return an error message
+  const buildCustomRule = (): RecurrenceRule | string => {
+    const interval = parseInt(ruleInterval, 10);
+    if (isNaN(interval) || interval < 1) {
+      return 'Please enter how often the event repeats (1 or more).';
+    }
+    
+    const rule: RecurrenceRule = { freq: ruleFrequency, interval };
+    
+    if (ruleWeekdays.length > 0) {
+      const ordinal = ruleFrequency === 'MONTHLY' && ruleMonthWeek !== null ? ruleMonthWeek : undefined;
+      rule.byDay = RRULE_WEEKDAYS
+        .filter(weekday => ruleWeekdays.includes(weekday))
+        .map(weekday => ({ weekday, ordinal }));
+    }
+    
+    if (ruleFrequency === 'MONTHLY' && ruleMonthDays.trim()) {
+      const monthDays = ruleMonthDays.split(',').map(day => parseInt(day.trim(), 10));
+      if (monthDays.some(day => isNaN(day) || day === 0 || Math.abs(day) > 31)) {
+        return 'Days of the month must be between 1 and 31 (or -1 for the last day).';
+      }
+      rule.byMonthDay = monthDays;
+    }
+    
+    if (ruleEnd === 'count') {
+      const count = parseInt(ruleCount, 10);
+      if (isNaN(count) || count < 1) {
+        return 'Please enter how many times the event repeats.';
+      }
+      rule.count = count;
+    } else if (ruleEnd === 'until') {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(ruleUntil.trim())) {
+        return 'Please enter the end date as YYYY-MM-DD.';
+      }
+      rule.until = ruleUntil.trim();
+    }
+    
+    return rule;
+  };
+
   const handleOpenModal = (task?: ScheduledTask) => {
     if (task) {
       // Edit mode
       setEditingTask(task);
       setTitle(task.title);
       setDescription(task.description || '');
+      setTagsText(formatTags(task.tags));
       setScheduledDate(new Date(task.scheduledDate));
       
       if (task.scheduledTime) {
@@ -143,6 +291,9 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
       }
       
       setRepeatFrequency(task.repeatFrequency);
+      if (task.repeatFrequency === 'custom' && task.rrule) {
+        loadRuleIntoForm(task.rrule);
+      }
       setNotificationEnabled(task.notificationEnabled);
     } else {
       // Create mode - reset form
@@ -240,13 +391,29 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
       ? `${String(scheduledTime.getHours()).padStart(2, '0')}:${String(scheduledTime.getMinutes()).padStart(2, '0')}` 
       : undefined;
     
+    let rrule: string | undefined;
+    if (repeatFrequency === 'custom') {
+      const rule = buildCustomRule();
+      if (typeof rule === 'string') {
+        Alert.alert('Error', rule);
+        return;
+      }
+      if (expandOccurrences(rule, formattedDate, { to: `${scheduledDateTime.getUTCFullYear() + 10}-12-31`, limit: 1 }).length === 0) {
+        Alert.alert('Error', 'This repeat rule does not produce any dates after the start date.');
+        return;
+      }
+      rrule = formatRRule(rule);
+    }
+    
     const taskData = {
       title,
       description: description.trim() || undefined,
+      tags: parseTags(tagsText),
       scheduledDate: formattedDate,
       scheduledTime: formattedTime,
       dueDate: formattedDueDate,
       repeatFrequency,
+      rrule,
       notificationEnabled,
     };
     
@@ -254,15 +421,21 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
     
     if (editingTask) {
       // Update existing task
-      result = await updateScheduledTask(editingTask.id, taskData);
+      result = await dispatch(runOrQueueOperation({
+        type: 'updateScheduledTask',
+        payload: { taskId: editingTask.id, updates: taskData }
+      }));
     } else {
       // Create new task
-      result = await addScheduledTask(taskData);
+      result = await dispatch(runOrQueueOperation({ type: 'addScheduledTask', payload: { task: taskData } }));
     }
 
     if (result.success) {
       setModalVisible(false);
       resetForm();
+      if (result.queued) {
+        Alert.alert('Saved Offline', result.message);
+      }
     } else {
       Alert.alert('Error', result.message || 'Failed to save event');
     }
@@ -291,7 +464,7 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
           style: 'destructive',
           onPress: async () => {
             try {
-              const result = await deleteScheduledTask(taskId);
+              const result = await dispatch(runOrQueueOperation({ type: 'deleteScheduledTask', payload: { taskId } }));
               if (!result.success) {
                 Alert.alert('Error', result.message || 'Failed to delete event');
               }
@@ -307,8 +480,15 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
     );
   };
 
-  const handleStatusChange = async (taskId: string, status: 'upcoming' | 'completed' | 'missed') => {
-    const result = await updateScheduledTaskStatus(taskId, status);
+  const handleStatusChange = async (
+    taskId: string,
+    status: 'upcoming' | 'completed' | 'missed',
+    occurrenceDate?: string
+  ) => {
+    const result = await dispatch(runOrQueueOperation({
+      type: 'updateScheduledTaskStatus',
+      payload: { taskId, status, occurrenceDate }
+    }));
     if (!result.success) {
       Alert.alert('Error', result.message || `Failed to mark event as ${status}`);
     }
@@ -349,7 +529,7 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
     setShowTimePicker(false);
   };
 
-  const renderTaskItem = ({ item }: { item: ScheduledTask }) => {
+  const renderTaskItem = ({ item }: { item: ScheduledTaskOccurrence }) => {
     const isCompleted = item.status === 'completed';
     const isMissed = item.status === 'missed';
     
@@ -389,7 +569,7 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
             <View style={styles.taskDetail}>
               <MaterialIcons name="event" size={16} color={colors.textSecondary} />
               <Text style={[styles.taskDetailText, { color: colors.textSecondary }]}>
-                Start: {new Date(item.scheduledDate).toLocaleDateString()}
+                {item.repeatFrequency !== 'none' ? 'Date' : 'Start'}: {new Date(item.occurrenceDate).toLocaleDateString()}
               </Text>
             </View>
             
@@ -428,7 +608,7 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
               <View style={styles.taskDetail}>
                 <MaterialIcons name="repeat" size={16} color={colors.primary} />
                 <Text style={[styles.taskDetailText, { color: colors.primary }]}>
-                  {item.repeatFrequency === 'weekly' ? 'Weekly' : 'Monthly'}
+                  {getRepeatLabel(item)}
                   {/* {item.dueDate ? ` until ${new Date(item.dueDate).toLocaleDateString()}` : ''} */}
                 </Text>
               </View>
@@ -453,12 +633,18 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
             {item.description}
           </Text>
         )}
+
+        {item.tags && item.tags.length > 0 && (
+          <Text style={[styles.taskTags, { color: colors.textSecondary }]}>
+            {item.tags.map(tag => `#${tag}`).join(' ')}
+          </Text>
+        )}
         
         <View style={styles.statusActions}>
           {item.status === 'upcoming' && (
             <TouchableOpacity 
               style={[styles.statusButton, styles.completeButton]}
-              onPress={() => handleStatusChange(item.id, 'completed')}
+              onPress={() => handleStatusChange(item.id, 'completed', item.occurrenceDate)}
             >
               <MaterialIcons name="check" size={18} color="#fff" />
               <Text style={styles.statusButtonText}>Complete</Text>
@@ -468,7 +654,7 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
           {item.status === 'completed' && (
             <TouchableOpacity 
               style={[styles.statusButton, styles.resetButton]}
-              onPress={() => handleStatusChange(item.id, 'upcoming')}
+              onPress={() => handleStatusChange(item.id, 'upcoming', item.occurrenceDate)}
             >
               <MaterialIcons name="refresh" size={18} color="#fff" />
               <Text style={styles.statusButtonText}>Reset</Text>
@@ -478,7 +664,7 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
           {item.status === 'missed' && (
             <TouchableOpacity 
               style={[styles.statusButton, styles.rescheduleButton]}
-              onPress={() => handleStatusChange(item.id, 'upcoming')}
+              onPress={() => handleStatusChange(item.id, 'upcoming', item.occurrenceDate)}
             >
               <MaterialIcons name="update" size={18} color="#fff" />
               <Text style={styles.statusButtonText}>Reschedule</Text>
@@ -489,131 +675,189 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
     );
   };
 
-  // Generate recurring dates for an event based on its frequency
-  const generateRecurringDates = useCallback((task: ScheduledTask, monthsAhead: number = 3) => {
-    if (task.repeatFrequency === 'none') {
-      return [task.scheduledDate];
-    }
-
-    const dates: string[] = [task.scheduledDate];
-    const startDate = new Date(task.scheduledDate);
+  // Group event occurrences by date for the month shown in the calendar
+  const occurrencesByDate = useMemo(() => {
+    const year = calendarViewDate.getFullYear();
+    const month = calendarViewDate.getMonth();
+    const from = formatDateString(new Date(year, month, 1));
+    const to = formatDateString(new Date(year, month + 1, 0));
+    const occurrenceMap: Record<string, ScheduledTaskOccurrence[]> = {};
     
-    // If a due date is set, use it as the end date for recurring events
-    // Otherwise, look ahead a few months as a reasonable default
-    let endDate;
-    if (task.dueDate) {
-      endDate = new Date(task.dueDate);
-      console.log(`Using due date ${task.dueDate} as end date for recurring event`);
-    } else {
-      endDate = new Date();
-      endDate.setMonth(endDate.getMonth() + monthsAhead); // Look ahead a few months
-    }
-    
-    let currentDate = new Date(startDate);
-    
-    // Add one occurrence to avoid infinite loop
-    if (task.repeatFrequency === 'weekly') {
-      currentDate.setDate(currentDate.getDate() + 7);
-      
-      while (currentDate <= endDate) {
-        const dateString = currentDate.toISOString().split('T')[0];
-        dates.push(dateString);
-        currentDate.setDate(currentDate.getDate() + 7);
-        
-        // Safety check to prevent excessive iterations
-        if (dates.length > 52) { // Maximum of one year of weekly occurrences
-          console.warn('Reached maximum number of weekly recurrences');
-          break;
-        }
-      }
-    } else if (task.repeatFrequency === 'monthly') {
-      const dayOfMonth = startDate.getDate();
-      
-      currentDate.setMonth(currentDate.getMonth() + 1);
-      
-      while (currentDate <= endDate) {
-        // Handle edge cases like Feb 29, 30, 31
-        const lastDayOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0).getDate();
-        const validDay = Math.min(dayOfMonth, lastDayOfMonth);
-        
-        currentDate.setDate(validDay);
-        const dateString = currentDate.toISOString().split('T')[0];
-        dates.push(dateString);
-        
-        currentDate.setMonth(currentDate.getMonth() + 1);
-        
-        // Safety check to prevent excessive iterations
-        if (dates.length > 24) { // Maximum of 2 years of monthly occurrences
-          console.warn('Reached maximum number of monthly recurrences');
-          break;
+    allTasks.forEach(task => {
+      getScheduledTaskOccurrences(task, from, to).forEach(occurrence => {
+        if (!statusFilter.includes(occurrence.status)) return;
+        if (!occurrenceMap[occurrence.occurrenceDate]) {
+          occurrenceMap[occurrence.occurrenceDate] = [];
         }
-      }
-    }
-    
-    return dates;
-  }, []);
-
-  // Group events by date for the calendar view, including recurring instances
-  const getTasksByDate = useCallback(() => {
-    const taskMap: Record<string, ScheduledTask[]> = {};
-    
-    tasks.forEach(task => {
-      // For non-recurring events or the original date of recurring events
-      const dateKey = task.scheduledDate;
-      if (!taskMap[dateKey]) {
-        taskMap[dateKey] = [];
-      }
-      taskMap[dateKey].push(task);
-      
-      // For recurring events, add virtual instances to future dates
-      if (task.repeatFrequency !== 'none') {
-        const recurringDates = generateRecurringDates(task);
-        
-        // Skip the first date as it's already added above
-        recurringDates.slice(1).forEach(date => {
-          if (!taskMap[date]) {
-            taskMap[date] = [];
-          }
-          
-          // Create a virtual copy of the event for this date
-          const virtualTask: ScheduledTask = {
-            ...task,
-            scheduledDate: date,
-            // Mark it as a recurring instance (not stored in DB)
-            id: `${task.id}-recurring-${date}`
-          };
-          
-          taskMap[date].push(virtualTask);
-        });
-      }
+        occurrenceMap[occurrence.occurrenceDate].push(occurrence);
+      });
     });
     
-    return taskMap;
-  }, [tasks, generateRecurringDates]);
+    return occurrenceMap;
+  }, [allTasks, statusFilter, calendarViewDate]);
 
   // Get event count for a specific date
   const getTaskCountForDate = useCallback((dateString: string) => {
-    const tasksByDate = getTasksByDate();
-    const directTasks = tasksByDate[dateString]?.length || 0;
+    const directTasks = occurrencesByDate[dateString]?.length || 0;
     
     // Also count events that are due on this date
-    const dueTasks = tasks.filter(task => task.dueDate === dateString).length;
+    const dueTasks = allTasks.filter(task => 
+      statusFilter.includes(task.status) && task.dueDate === dateString
+    ).length;
     
     return directTasks + dueTasks;
-  }, [getTasksByDate, tasks]);
+  }, [occurrencesByDate, allTasks, statusFilter]);
   
   // Get event status counts for a specific date
   const getTaskStatusCountsForDate = useCallback((dateString: string) => {
-    const tasksByDate = getTasksByDate();
-    const tasks = tasksByDate[dateString] || [];
+    const occurrences = occurrencesByDate[dateString] || [];
     
     return {
-      upcoming: tasks.filter(t => t.status === 'upcoming').length,
-      completed: tasks.filter(t => t.status === 'completed').length,
-      missed: tasks.filter(t => t.status === 'missed').length,
-      dueToday: tasks.filter(t => t.dueDate === dateString).length
+      upcoming: occurrences.filter(t => t.status === 'upcoming').length,
+      completed: occurrences.filter(t => t.status === 'completed').length,
+      missed: occurrences.filter(t => t.status === 'missed').length,
+      dueToday: occurrences.filter(t => t.dueDate === dateString).length
     };
-  }, [getTasksByDate]);
+  }, [occurrencesByDate]);
+
+  const toggleRuleWeekday = (weekday: RRuleWeekday) => {
+    setRuleWeekdays(prev =>
+      prev.includes(weekday) ? prev.filter(day => day !== weekday) : [...prev, weekday]
+    );
+  };
+
+  const renderRuleChip = (label: string, selected: boolean, onPress: () => void, key?: string) => (
+    <TouchableOpacity
+      key={key || label}
+      style={[
+        styles.ruleChip,
+        { borderColor: colors.border },
+        selected && { backgroundColor: colors.primary, borderColor: colors.primary }
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.ruleChipText, { color: selected ? '#fff' : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  // Builder for custom RRULE-based repeats, with a preview of the next dates
+  const renderCustomRuleBuilder = () => {
+    const rule = buildCustomRule();
+    const startDate = formatDateString(scheduledDate);
+    const preview = typeof rule === 'string'
+      ? rule
+      : (() => {
+          const nextDates = expandOccurrences(rule, startDate, {
+            to: `${scheduledDate.getFullYear() + 10}-12-31`,
+            limit: 3
+          });
+          if (nextDates.length === 0) return 'This rule does not produce any dates.';
+          const formatted = nextDates.map(date =>
+            new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+          );
+          return `${describeRRule(rule)}\nNext: ${formatted.join(', ')}`;
+        })();
+    
+    return (
+      <View style={[styles.ruleBuilder, { borderTopColor: colors.border }]}>
+        <Text style={[styles.inputLabel, { color: colors.text }]}>Repeats</Text>
+        <View style={styles.ruleChipRow}>
+          {(['DAILY', 'WEEKLY', 'MONTHLY'] as RRuleFrequency[]).map(freq =>
+            renderRuleChip(
+              freq.charAt(0) + freq.slice(1).toLowerCase(),
+              ruleFrequency === freq,
+              () => setRuleFrequency(freq)
+            )
+          )}
+        </View>
+        
+        <View style={styles.ruleInlineRow}>
+          <Text style={[styles.ruleInlineText, { color: colors.text }]}>Every</Text>
+          <TextInput
+            style={[styles.ruleNumberInput, { color: colors.text, borderColor: colors.border }]}
+            value={ruleInterval}
+            onChangeText={setRuleInterval}
+            keyboardType="number-pad"
+            maxLength={3}
+          />
+          <Text style={[styles.ruleInlineText, { color: colors.text }]}>
+            {RULE_FREQUENCY_UNITS[ruleFrequency]}{ruleInterval === '1' ? '' : 's'}
+          </Text>
+        </View>
+        
+        <Text style={[styles.inputLabel, { color: colors.text }]}>
+          {ruleFrequency === 'WEEKLY' ? 'On these days' : 'Only on these days (optional)'}
+        </Text>
+        <View style={styles.ruleChipRow}>
+          {RRULE_WEEKDAYS.map(weekday =>
+            renderRuleChip(
+              RULE_WEEKDAY_LABELS[weekday],
+              ruleWeekdays.includes(weekday),
+              () => toggleRuleWeekday(weekday),
+              weekday
+            )
+          )}
+        </View>
+        
+        {ruleFrequency === 'MONTHLY' && (
+          <>
+            {ruleWeekdays.length > 0 && (
+              <>
+                <Text style={[styles.inputLabel, { color: colors.text }]}>Week of the month</Text>
+                <View style={styles.ruleChipRow}>
+                  {MONTHLY_WEEK_OPTIONS.map(option =>
+                    renderRuleChip(option.label, ruleMonthWeek === option.value, () => setRuleMonthWeek(option.value))
+                  )}
+                </View>
+              </>
+            )}
+            <Text style={[styles.inputLabel, { color: colors.text }]}>Days of the month (optional)</Text>
+            <TextInput
+              style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+              value={ruleMonthDays}
+              onChangeText={setRuleMonthDays}
+              placeholder="e.g. 1, 15, -1 for the last day"
+              placeholderTextColor={colors.textSecondary}
+              keyboardType="numbers-and-punctuation"
+            />
+          </>
+        )}
+        
+        <Text style={[styles.inputLabel, { color: colors.text }]}>Ends</Text>
+        <View style={styles.ruleChipRow}>
+          {renderRuleChip('Never', ruleEnd === 'never', () => setRuleEnd('never'))}
+          {renderRuleChip('After', ruleEnd === 'count', () => setRuleEnd('count'))}
+          {renderRuleChip('On date', ruleEnd === 'until', () => setRuleEnd('until'))}
+        </View>
+        {ruleEnd === 'count' && (
+          <View style={styles.ruleInlineRow}>
+            <TextInput
+              style={[styles.ruleNumberInput, { color: colors.text, borderColor: colors.border }]}
+              value={ruleCount}
+              onChangeText={setRuleCount}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+            <Text style={[styles.ruleInlineText, { color: colors.text }]}>occurrences</Text>
+          </View>
+        )}
+        {ruleEnd === 'until' && (
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+            value={ruleUntil}
+            onChangeText={setRuleUntil}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.textSecondary}
+            maxLength={10}
+          />
+        )}
+        
+        <Text style={[styles.rulePreview, { color: typeof rule === 'string' ? colors.error : colors.textSecondary }]}>
+          {preview}
+        </Text>
+      </View>
+    );
+  };
 
   // Toggle calendar expansion
   const toggleCalendar = useCallback(() => {
@@ -673,9 +917,14 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
           <MaterialIcons name="menu" size={24} color={colors.text} />
         </TouchableOpacity>
         <Text style={[styles.headerTitle, { color: colors.text }]}>Schedule</Text>
-        <TouchableOpacity onPress={() => handleOpenModal()}>
-          <MaterialIcons name="add" size={24} color={colors.primary} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.headerActionButton} onPress={() => setCalendarFilesVisible(true)}>
+            <MaterialIcons name="import-export" size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleOpenModal()}>
+            <MaterialIcons name="add" size={24} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
       </View>
       
       <View style={styles.filtersContainer}>
@@ -869,7 +1118,7 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
                           <View style={[styles.calendarDayDot, { backgroundColor: colors.warning }]} />
                         )}
                         {/* Show a special indicator for recurring events with better visibility */}
-                        {tasks.some(t => t.scheduledDate === dateString && t.repeatFrequency !== 'none') && (
+                        {occurrencesByDate[dateString]?.some(t => t.repeatFrequency !== 'none') && (
                           <View style={styles.recurringIndicator}>
                             <MaterialIcons name="repeat" size={10} color={colors.primary} />
                           </View>
@@ -951,7 +1200,7 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
         <FlatList
           data={tasks}
           renderItem={renderTaskItem}
-          keyExtractor={item => item.id}
+          keyExtractor={item => `${item.id}-${item.occurrenceDate}`}
           contentContainerStyle={styles.taskList}
         />
         
@@ -974,6 +1223,12 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
       </View>  
       )}
       
+      <CalendarImportExportModal
+        visible={calendarFilesVisible}
+        onClose={() => setCalendarFilesVisible(false)}
+        tasks={allTasks}
+      />
+      
       {/* Task Form Modal */}
       <Modal
         visible={modalVisible}
@@ -1469,82 +1724,44 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
                     style={styles.infoButton}
                     onPress={() => Alert.alert(
                       'About Recurring Events', 
-                      'None: Event occurs only once\n\nWeekly: Event repeats every week on the same weekday\n\nMonthly: Event repeats every month on the same date'
+                      'None: Event occurs only once\n\nDaily: Event repeats every day\n\nWeekly: Event repeats every week on the same weekday\n\nMonthly: Event repeats every month on the same date\n\nCustom: Choose the interval, weekdays or days of the month, and when the series ends. Completing an occurrence moves the event to its next date.'
                     )}
                   >
                     <MaterialIcons name="help-outline" size={18} color={colors.primary} />
                   </TouchableOpacity>
                 </View>
                 <View style={styles.repeatOptions}>
-                  <TouchableOpacity
-                    style={[
-                      styles.repeatOption,
-                      repeatFrequency === 'none' && [styles.activeRepeatOption, { borderColor: colors.primary }]
-                    ]}
-                    onPress={() => setRepeatFrequency('none')}
-                  >
-                    <MaterialIcons 
-                      name="event-busy" 
-                      size={24} 
-                      color={repeatFrequency === 'none' ? colors.primary : colors.textSecondary} 
-                    />
-                    <Text style={[
-                      styles.repeatOptionText, 
-                      { color: repeatFrequency === 'none' ? colors.primary : colors.text }
-                    ]}>
-                      No Repeat
-                    </Text>
-                    <Text style={styles.repeatOptionDescription}>
-                      One-time event
-                    </Text>
-                  </TouchableOpacity>
-                  
-                  <TouchableOpacity
-                    style={[
-                      styles.repeatOption,
-                      repeatFrequency === 'weekly' && [styles.activeRepeatOption, { borderColor: colors.primary }]
-                    ]}
-                    onPress={() => setRepeatFrequency('weekly')}
-                  >
-                    <MaterialIcons 
-                      name="event-repeat" 
-                      size={24} 
-                      color={repeatFrequency === 'weekly' ? colors.primary : colors.textSecondary} 
-                    />
-                    <Text style={[
-                      styles.repeatOptionText, 
-                      { color: repeatFrequency === 'weekly' ? colors.primary : colors.text }
-                    ]}>
-                      Weekly
-                    </Text>
-                    <Text style={styles.repeatOptionDescription}>
-                      Same day each week
-                    </Text>
-                  </TouchableOpacity>
-                  
-                  <TouchableOpacity
-                    style={[
-                      styles.repeatOption,
-                      repeatFrequency === 'monthly' && [styles.activeRepeatOption, { borderColor: colors.primary }]
-                    ]}
-                    onPress={() => setRepeatFrequency('monthly')}
-                  >
-                    <MaterialIcons 
-                      name="date-range" 
-                      size={24} 
-                      color={repeatFrequency === 'monthly' ? colors.primary : colors.textSecondary} 
-                    />
-                    <Text style={[
-                      styles.repeatOptionText, 
-                      { color: repeatFrequency === 'monthly' ? colors.primary : colors.text }
-                    ]}>
-                      Monthly
-                    </Text>
-                    <Text style={styles.repeatOptionDescription}>
-                      Same date each month
-                    </Text>
-                  </TouchableOpacity>
+                  {REPEAT_OPTIONS.map(option => {
+                    const isActive = repeatFrequency === option.value;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.repeatOption,
+                          isActive && [styles.activeRepeatOption, { borderColor: colors.primary }]
+                        ]}
+                        onPress={() => setRepeatFrequency(option.value)}
+                      >
+                        <MaterialIcons 
+                          name={option.icon as any} 
+                          size={24} 
+                          color={isActive ? colors.primary : colors.textSecondary} 
+                        />
+                        <Text style={[
+                          styles.repeatOptionText, 
+                          { color: isActive ? colors.primary : colors.text }
+                        ]}>
+                          {option.label}
+                        </Text>
+                        <Text style={styles.repeatOptionDescription}>
+                          {option.description}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
                 </View>
+                
+                {repeatFrequency === 'custom' && renderCustomRuleBuilder()}
               </View>
               
               <View style={styles.switchContainer}>
@@ -1575,6 +1792,23 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
                 multiline
                 maxLength={500}
               />
+
+              <Text style={[styles.inputLabel, { color: colors.text }]}>Tags</Text>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: colors.cardBackground,
+                    color: colors.text,
+                    borderColor: colors.border
+                  }
+                ]}
+                value={tagsText}
+                onChangeText={setTagsText}
+                placeholder="errands, deep-work"
+                placeholderTextColor={colors.textSecondary}
+                autoCapitalize="none"
+              />
             </ScrollView>
             
             <View style={[styles.modalFooter, { borderTopColor: colors.border }]}>
@@ -2124,6 +2358,13 @@ const styles = StyleSheet.create({
     paddingBottom: Spacing.medium,
     borderBottomWidth: 1,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerActionButton: {
+    marginRight: Spacing.medium,
+  },
   headerTitle: {
     ...Typography.heading,
   },
@@ -2263,6 +2504,10 @@ const styles = StyleSheet.create({
     ...Typography.body,
     marginBottom: Spacing.small,
   },
+  taskTags: {
+    ...Typography.caption,
+    marginBottom: Spacing.small,
+  },
   statusActions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -2368,15 +2613,18 @@ const styles = StyleSheet.create({
   },
   repeatOptions: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     marginBottom: Spacing.medium,
   },
   repeatOption: {
-    flex: 1,
+    flexGrow: 1,
+    flexBasis: '30%',
     padding: Spacing.small,
     alignItems: 'center',
     borderWidth: 1,
     borderColor: Colors.border,
     marginRight: 8,
+    marginBottom: 8,
     borderRadius: 4,
   },
   activeRepeatOption: {
@@ -2419,6 +2667,47 @@ const styles = StyleSheet.create({
     marginTop: 2,
     marginLeft: 32,
   },
+  ruleBuilder: {
+    borderTopWidth: 1,
+    paddingTop: Spacing.small,
+  },
+  ruleChipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: Spacing.small,
+  },
+  ruleChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  ruleChipText: {
+    fontSize: 14,
+  },
+  ruleInlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.small,
+  },
+  ruleInlineText: {
+    ...Typography.body,
+  },
+  ruleNumberInput: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    marginHorizontal: 8,
+    minWidth: 48,
+    textAlign: 'center',
+  },
+  rulePreview: {
+    fontSize: 13,
+    marginTop: 4,
+  },
   eventCountBadge: {
     position: 'absolute',
     bottom: 2,
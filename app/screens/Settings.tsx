@@ -15,12 +15,35 @@ import NotificationSettings from '../components/NotificationSettings';
 import EditProfile from '../components/EditProfile';
 import ChangePassword from '../components/ChangePassword';
 import FAQModal from '../components/FAQModal';
+import SyncConflictsModal from '../components/SyncConflictsModal';
+import BackupRestoreModal from '../components/BackupRestoreModal';
+import XPSettingsModal from '../components/XPSettingsModal';
+import { useSelector } from 'react-redux';
+import { selectSyncConflicts, selectDeadLetterOperations } from '../store/slices/networkSlice';
+import { describeXpCorrection, reconcileXp } from '../utils/xpReconciliation';
+import {
+  DEFAULT_STREAK_SETTINGS,
+  GRACE_HOUR_OPTIONS,
+  XP_PER_STREAK_FREEZE,
+  refreshStreak,
+  saveStreakSettings,
+  subscribeToStreakSettings,
+} from '../utils/streaks';
+import {
+  DAY_START_HOUR_OPTIONS,
+  describeDayStartHour,
+  saveDaySettings,
+  subscribeToDaySettings,
+} from '../utils/daySettings';
+import { getDefaultDaySettings, getDeviceTimeZone } from '../utils/dateUtils';
+import { DaySettings } from '../types';
 
 type IconName = keyof typeof MaterialIconsType.glyphMap;
 
 type RootStackParamList = {
   Settings: undefined;
   Login: undefined;
+  SyncIssues: undefined;
 };
 
 type SettingsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -42,10 +65,24 @@ const Settings = () => {
   const [editProfileVisible, setEditProfileVisible] = useState(false);
   const [changePasswordVisible, setChangePasswordVisible] = useState(false);
   const [faqModalVisible, setFaqModalVisible] = useState(false);
+  const [syncConflictsVisible, setSyncConflictsVisible] = useState(false);
+  const [backupRestoreVisible, setBackupRestoreVisible] = useState(false);
+  const [xpSettingsVisible, setXpSettingsVisible] = useState(false);
+  const syncConflicts = useSelector(selectSyncConflicts);
+  const deadLetterOperations = useSelector(selectDeadLetterOperations);
   const [profileUpdated, setProfileUpdated] = useState(0); // Counter to trigger profile refresh
+  const [reconcilingXp, setReconcilingXp] = useState(false);
+  const [streakSettings, setStreakSettings] = useState(DEFAULT_STREAK_SETTINGS);
+  const [daySettings, setDaySettings] = useState<DaySettings>(getDefaultDaySettings());
 
   useEffect(() => {
     loadSettings();
+    const unsubscribeStreak = subscribeToStreakSettings(setStreakSettings);
+    const unsubscribeDay = subscribeToDaySettings(setDaySettings);
+    return () => {
+      unsubscribeStreak();
+      unsubscribeDay();
+    };
   }, []);
 
   const loadSettings = async () => {
@@ -116,6 +153,103 @@ const Settings = () => {
     playSound('buttonPress');
   };
 
+  const handleReconcileXp = async () => {
+    if (reconcilingXp) return;
+    setReconcilingXp(true);
+    try {
+      const result = await reconcileXp('manual');
+      if (!result.success) {
+        Alert.alert('Error', result.message);
+        return;
+      }
+
+      // List a few of the fixes so the user can see what changed
+      const details = result.corrections.slice(0, 5).map(describeXpCorrection);
+      if (result.corrections.length > details.length) {
+        details.push(`…and ${result.corrections.length - details.length} more`);
+      }
+      Alert.alert('XP Check Complete', [result.message, ...details].join('\n'));
+    } finally {
+      setReconcilingXp(false);
+    }
+  };
+
+  const handleStreakGracePeriod = () => {
+    const describeHours = (hours: number) =>
+      hours === 0 ? 'Off' : `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+
+    Alert.alert(
+      'Streak Grace Period',
+      `Tasks completed shortly after your day starts can count for the day before. ` +
+        `Currently: ${describeHours(streakSettings.graceHours)}.\n\n` +
+        `Missed days are covered by streak freezes, one earned for every ${XP_PER_STREAK_FREEZE} XP.`,
+      [
+        ...GRACE_HOUR_OPTIONS.map(hours => ({
+          text: describeHours(hours),
+          onPress: async () => {
+            const result = await saveStreakSettings({ graceHours: hours });
+            if (!result.success) {
+              Alert.alert('Error', result.message);
+              return;
+            }
+            // Recount the streak under the new rules
+            await refreshStreak();
+            playSound('buttonPress');
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const updateDaySettings = async (settings: DaySettings) => {
+    const result = await saveDaySettings(settings);
+    if (!result.success) {
+      Alert.alert('Error', result.message);
+      return;
+    }
+    // Recount the streak with the new day boundary
+    await refreshStreak();
+    playSound('buttonPress');
+  };
+
+  const handleDayStart = () => {
+    Alert.alert(
+      'Day Starts At',
+      `Tasks, XP and streaks count toward the day that starts at this hour, so a late night ` +
+        `can still count for the day before. Currently: ${describeDayStartHour(daySettings.dayStartHour)}.\n\n` +
+        `Days already recorded keep their dates.`,
+      [
+        ...DAY_START_HOUR_OPTIONS.map(hour => ({
+          text: describeDayStartHour(hour),
+          onPress: () => updateDaySettings({ ...daySettings, dayStartHour: hour }),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleTimeZone = () => {
+    const deviceTimeZone = getDeviceTimeZone();
+    if (deviceTimeZone === daySettings.timeZone) {
+      Alert.alert('Time Zone', `Your days follow ${daySettings.timeZone}, the time zone this device is set to.`);
+      return;
+    }
+
+    Alert.alert(
+      'Time Zone',
+      `Your days follow ${daySettings.timeZone}, but this device is set to ${deviceTimeZone}. ` +
+        `Keep your time zone while travelling so your days and streak stay put.`,
+      [
+        {
+          text: `Use ${deviceTimeZone}`,
+          onPress: () => updateDaySettings({ ...daySettings, timeZone: deviceTimeZone }),
+        },
+        { text: `Keep ${daySettings.timeZone}`, style: 'cancel' },
+      ]
+    );
+  };
+
   const openSupportPage = (page: string) => {
     Linking.openURL(`${SUPPORT_BASE_URL}/#${page}`).catch((err) => {
       Alert.alert('Error', 'Could not open the support page');
@@ -265,6 +399,26 @@ const Settings = () => {
               onPress={() => handleSoundEffects()}
               isSwitch
             />
+            <SettingItem
+              icon="bolt"
+              title=" Daily XP Cap & Goals"
+              onPress={() => setXpSettingsVisible(true)}
+            />
+            <SettingItem
+              icon="local-fire-department"
+              title=" Streak Grace Period"
+              onPress={handleStreakGracePeriod}
+            />
+            <SettingItem
+              icon="schedule"
+              title=" Day Starts At"
+              onPress={handleDayStart}
+            />
+            <SettingItem
+              icon="public"
+              title=" Time Zone"
+              onPress={handleTimeZone}
+            />
           </View>
         </View>
 
@@ -285,6 +439,40 @@ const Settings = () => {
           </View>
         </View>
 
+        {/* Sync Section */}
+        <View style={[styles.section, { paddingHorizontal: Spacing.medium }]}>
+          <Text style={styles.sectionTitle}>Sync</Text>
+          <View style={styles.sectionContent}>
+            <SettingItem
+              icon="cloud-off"
+              title={deadLetterOperations.length > 0 ? ` Sync Issues (${deadLetterOperations.length})` : ' Sync Issues'}
+              onPress={() => navigation.navigate('SyncIssues')}
+            />
+            <SettingItem
+              icon="sync-problem"
+              title={syncConflicts.length > 0 ? ` Sync Conflicts (${syncConflicts.length})` : ' Sync Conflicts'}
+              onPress={() => setSyncConflictsVisible(true)}
+            />
+          </View>
+        </View>
+
+        {/* Data Section */}
+        <View style={[styles.section, { paddingHorizontal: Spacing.medium }]}>
+          <Text style={styles.sectionTitle}>Data</Text>
+          <View style={styles.sectionContent}>
+            <SettingItem
+              icon="backup"
+              title=" Backup & Restore"
+              onPress={() => setBackupRestoreVisible(true)}
+            />
+            <SettingItem
+              icon="fact-check"
+              title={reconcilingXp ? ' Checking XP Totals…' : ' Check XP Totals'}
+              onPress={handleReconcileXp}
+            />
+          </View>
+        </View>
+
         {/* Help & Support Section */}
         <View style={[styles.section, { paddingHorizontal: Spacing.medium }]}>
           <Text style={styles.sectionTitle}>Help & Support</Text>
@@ -343,6 +531,18 @@ const Settings = () => {
         visible={faqModalVisible}
         onClose={() => setFaqModalVisible(false)}
       />
+      <SyncConflictsModal
+        visible={syncConflictsVisible}
+        onClose={() => setSyncConflictsVisible(false)}
+      />
+      <BackupRestoreModal
+        visible={backupRestoreVisible}
+        onClose={() => setBackupRestoreVisible(false)}
+      />
+      <XPSettingsModal
+        visible={xpSettingsVisible}
+        onClose={() => setXpSettingsVisible(false)}
+      />
     </View>
   );
 };
@@ -0,0 +1,381 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Modal,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useNavigation, DrawerActions } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import Theme from '../styles/theme';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AppDispatch } from '../store/types';
+import {
+  selectPendingOperations,
+  selectDeadLetterOperations,
+  selectSyncConflicts,
+  selectNetworkStatus,
+  syncPendingOperations,
+  retryDeadLetterOperation,
+  updateDeadLetterOperation,
+  discardDeadLetterOperation,
+  validateOperationPayload,
+  PendingOperation,
+  DeadLetterOperation,
+  QueuedOperationType,
+  MAX_SYNC_ATTEMPTS,
+} from '../store/slices/networkSlice';
+import SyncConflictsModal from '../components/SyncConflictsModal';
+
+const OPERATION_LABELS: Record<QueuedOperationType, string> = {
+  addTask: 'Add task',
+  updateTask: 'Edit task',
+  deleteTask: 'Delete task',
+  completeTask: 'Complete task',
+  uncompleteTask: 'Uncomplete task',
+  modifyTaskXP: 'Change task XP',
+  togglePinnedTask: 'Pin task',
+  saveJournalEntry: 'Save journal entry',
+  updateJournalReflection: 'Edit journal entry',
+  uploadJournalAudio: 'Upload voice note',
+  addScheduledTask: 'Add event',
+  updateScheduledTask: 'Edit event',
+  deleteScheduledTask: 'Delete event',
+  updateScheduledTaskStatus: 'Update event status',
+};
+
+// Short description of what the operation touches, for the list rows
+const describeOperation = (operation: PendingOperation): string => {
+  switch (operation.type) {
+    case 'addTask':
+    case 'addScheduledTask':
+      return operation.payload.task.title;
+    case 'updateTask':
+    case 'updateScheduledTask':
+      return operation.payload.updates.title || operation.payload.taskId;
+    case 'saveJournalEntry':
+      return new Date(operation.payload.date).toLocaleDateString();
+    case 'updateJournalReflection':
+    case 'uploadJournalAudio':
+      return new Date(`${operation.payload.date}T12:00:00`).toLocaleDateString();
+    default:
+      return operation.payload.taskId;
+  }
+};
+
+const SyncIssues = () => {
+  const navigation = useNavigation();
+  const dispatch = useDispatch<AppDispatch>();
+  const { colors } = useTheme();
+  const pendingOperations = useSelector(selectPendingOperations);
+  const deadLetterOperations = useSelector(selectDeadLetterOperations);
+  const conflicts = useSelector(selectSyncConflicts);
+  const isConnected = useSelector(selectNetworkStatus);
+  const [conflictsVisible, setConflictsVisible] = useState(false);
+  const [editingOperation, setEditingOperation] = useState<DeadLetterOperation | null>(null);
+  const [editPayload, setEditPayload] = useState('');
+
+  const sortedPending = [...pendingOperations].sort((a, b) => a.timestamp - b.timestamp);
+
+  const handleSyncNow = () => {
+    if (!isConnected) {
+      Alert.alert('Offline', 'Connect to the internet to sync your changes.');
+      return;
+    }
+    dispatch(syncPendingOperations());
+  };
+
+  const handleRetry = (operation: DeadLetterOperation) => {
+    dispatch(retryDeadLetterOperation(operation.id));
+  };
+
+  const handleDiscard = (operation: DeadLetterOperation) => {
+    Alert.alert(
+      'Discard Change',
+      `"${OPERATION_LABELS[operation.type]}" will be permanently discarded and never synced.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => dispatch(discardDeadLetterOperation(operation.id)),
+        },
+      ]
+    );
+  };
+
+  const openEditModal = (operation: DeadLetterOperation) => {
+    setEditingOperation(operation);
+    setEditPayload(JSON.stringify(operation.payload, null, 2));
+  };
+
+  const saveEditedPayload = () => {
+    if (!editingOperation) return;
+
+    try {
+      const payload = JSON.parse(editPayload);
+      const validationError = validateOperationPayload(editingOperation.type, payload);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+      dispatch(updateDeadLetterOperation({ id: editingOperation.id, payload }));
+      setEditingOperation(null);
+    } catch (error) {
+      Alert.alert('Invalid Payload', error instanceof Error ? error.message : 'Could not parse the payload.');
+    }
+  };
+
+  const styles = StyleSheet.create({
+    content: {
+      flex: 1,
+      padding: Theme.Spacing.md,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginTop: Theme.Spacing.md,
+      marginBottom: Theme.Spacing.sm,
+    },
+    sectionTitle: {
+      ...Theme.Typography.h4,
+      color: colors.text,
+    },
+    syncButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: Theme.Spacing.sm,
+      paddingVertical: Theme.Spacing.xs,
+      borderRadius: Theme.Layout.radiusMd,
+      backgroundColor: colors.primary,
+    },
+    syncButtonText: {
+      ...Theme.Typography.caption,
+      color: colors.textLight,
+      marginLeft: Theme.Spacing.xs,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: Theme.Spacing.md,
+      marginBottom: Theme.Spacing.sm,
+      ...Theme.Shadows.small,
+    },
+    operationTitle: {
+      ...Theme.Typography.body,
+      color: colors.text,
+      fontWeight: '600',
+    },
+    operationDetail: {
+      ...Theme.Typography.caption,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    errorText: {
+      ...Theme.Typography.caption,
+      color: colors.error,
+      marginTop: Theme.Spacing.xs,
+    },
+    emptyText: {
+      ...Theme.Typography.body,
+      color: colors.textSecondary,
+    },
+    actionRow: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      marginTop: Theme.Spacing.sm,
+    },
+    actionButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginLeft: Theme.Spacing.md,
+    },
+    actionText: {
+      ...Theme.Typography.caption,
+      marginLeft: 4,
+    },
+    conflictsRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+      width: '90%',
+      maxHeight: '80%',
+      backgroundColor: colors.cardBackground || colors.surface,
+      borderRadius: 16,
+      padding: Theme.Spacing.md,
+      ...Theme.Shadows.medium,
+    },
+    modalTitle: {
+      ...Theme.Typography.h3,
+      color: colors.text,
+      marginBottom: Theme.Spacing.sm,
+    },
+    payloadInput: {
+      minHeight: 200,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: Theme.Spacing.sm,
+      color: colors.text,
+      fontFamily: 'monospace',
+      textAlignVertical: 'top',
+    },
+    modalActions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      marginTop: Theme.Spacing.md,
+    },
+    modalButton: {
+      paddingHorizontal: Theme.Spacing.md,
+      paddingVertical: Theme.Spacing.sm,
+      borderRadius: 8,
+      marginLeft: Theme.Spacing.sm,
+    },
+  });
+
+  const renderPendingOperation = (operation: PendingOperation) => (
+    <View key={operation.id} style={styles.card}>
+      <Text style={styles.operationTitle}>{OPERATION_LABELS[operation.type]}</Text>
+      <Text style={styles.operationDetail}>{describeOperation(operation)}</Text>
+      <Text style={styles.operationDetail}>
+        Queued {new Date(operation.timestamp).toLocaleString()} · Attempt {operation.retryCount}/{MAX_SYNC_ATTEMPTS}
+      </Text>
+      {operation.nextAttemptAt && (
+        <Text style={styles.operationDetail}>
+          Next retry {new Date(operation.nextAttemptAt).toLocaleTimeString()}
+        </Text>
+      )}
+      {operation.lastError && <Text style={styles.errorText}>{operation.lastError}</Text>}
+    </View>
+  );
+
+  const renderDeadLetterOperation = (operation: DeadLetterOperation) => (
+    <View key={operation.id} style={styles.card}>
+      <Text style={styles.operationTitle}>{OPERATION_LABELS[operation.type]}</Text>
+      <Text style={styles.operationDetail}>{describeOperation(operation)}</Text>
+      <Text style={styles.operationDetail}>
+        Failed {new Date(operation.failedAt).toLocaleString()} after {operation.retryCount} attempt(s)
+      </Text>
+      <Text style={styles.errorText}>{operation.lastError}</Text>
+      <View style={styles.actionRow}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleRetry(operation)}>
+          <MaterialIcons name="refresh" size={18} color={colors.primary} />
+          <Text style={[styles.actionText, { color: colors.primary }]}>Retry</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => openEditModal(operation)}>
+          <MaterialIcons name="edit" size={18} color={colors.text} />
+          <Text style={[styles.actionText, { color: colors.text }]}>Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleDiscard(operation)}>
+          <MaterialIcons name="delete" size={18} color={colors.error} />
+          <Text style={[styles.actionText, { color: colors.error }]}>Discard</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={[Theme.ComponentStyles.container, { backgroundColor: colors.background }]}>
+      <View style={[Theme.ComponentStyles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity
+          style={Theme.ComponentStyles.headerIcon}
+          onPress={() => navigation.dispatch(DrawerActions.openDrawer())}
+        >
+          <MaterialIcons name="menu" size={24} color={Theme.Colors.primary} />
+        </TouchableOpacity>
+        <Text style={Theme.ComponentStyles.headerTitle}>Sync Issues</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {conflicts.length > 0 && (
+          <TouchableOpacity style={styles.card} onPress={() => setConflictsVisible(true)}>
+            <View style={styles.conflictsRow}>
+              <Text style={styles.operationTitle}>
+                {conflicts.length} conflicting edit{conflicts.length === 1 ? '' : 's'} to review
+              </Text>
+              <MaterialIcons name="chevron-right" size={24} color={colors.textSecondary} />
+            </View>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Waiting to Sync ({sortedPending.length})</Text>
+          {sortedPending.length > 0 && (
+            <TouchableOpacity style={styles.syncButton} onPress={handleSyncNow}>
+              <MaterialIcons name="sync" size={16} color={colors.textLight} />
+              <Text style={styles.syncButtonText}>Sync now</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {sortedPending.length > 0
+          ? sortedPending.map(renderPendingOperation)
+          : <Text style={styles.emptyText}>No changes waiting to sync.</Text>}
+
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Needs Attention ({deadLetterOperations.length})</Text>
+        </View>
+        {deadLetterOperations.length > 0
+          ? deadLetterOperations.map(renderDeadLetterOperation)
+          : <Text style={styles.emptyText}>No failed changes.</Text>}
+      </ScrollView>
+
+      <SyncConflictsModal
+        visible={conflictsVisible}
+        onClose={() => setConflictsVisible(false)}
+      />
+
+      <Modal
+        visible={editingOperation !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setEditingOperation(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              Edit {editingOperation ? OPERATION_LABELS[editingOperation.type] : ''}
+            </Text>
+            <TextInput
+              style={styles.payloadInput}
+              value={editPayload}
+              onChangeText={setEditPayload}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: colors.border }]}
+                onPress={() => setEditingOperation(null)}
+              >
+                <Text style={{ color: colors.text }}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: colors.primary }]}
+                onPress={saveEditedPayload}
+              >
+                <Text style={{ color: colors.textLight }}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+export default SyncIssues;
@@ -1,4 +1,5 @@
 import { subscribeToUserStats, subscribeToTasks, Task } from '../utils/firebaseService';
+import { getDailyXpProgress, resolveXpSettings } from '../utils/xpSettings';
 
 // Define the stats interface
 export interface DashboardStats {
@@ -24,7 +25,6 @@ class StatsService {
   };
   private unsubscribeTasks: (() => void) | null = null;
   private unsubscribeStats: (() => void) | null = null;
-  private XP_CAP = 100; // Maximum XP per day
   private initialized = false;
 
   private constructor() {
@@ -73,7 +73,7 @@ class StatsService {
           totalXP: userStats.totalXP || 0,
           todayXP: userStats.todayXP || 0,
           streakCount: userStats.streakCount || 0,
-          xpProgress: Math.min(100, Math.round(((userStats.todayXP || 0) / this.XP_CAP) * 100))
+          xpProgress: getDailyXpProgress(userStats.todayXP || 0, resolveXpSettings(userStats.xpSettings))
         };
         
         // Notify listeners
@@ -1,6 +1,7 @@
 import { configureStore, combineReducers } from '@reduxjs/toolkit';
 import { persistStore, persistReducer } from 'redux-persist';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { NetworkState } from './slices/networkSlice';
 
 
 // Import reducers
@@ -14,16 +15,24 @@ const networkReducer = require('./slices/networkSlice').default;
 const persistConfig = {
   key: 'root',
   storage: AsyncStorage,
-  // Don't persist network status
+  // Network status is persisted separately below
   blacklist: ['network'],
 };
 
+// Only the offline operation queue, dead-lettered operations and unresolved conflicts survive restarts;
+// connectivity is re-detected on launch
+const networkPersistConfig = {
+  key: 'network',
+  storage: AsyncStorage,
+  whitelist: ['pendingOperations', 'deadLetterOperations', 'conflicts'],
+};
+
 // Combine all reducers
 export const rootReducer = combineReducers({
   tasks: tasksReducer,
   xp: xpReducer,
   userStats: userStatsReducer,
-  network: networkReducer,
+  network: persistReducer<NetworkState>(networkPersistConfig, networkReducer),
 });
 
 // Create persisted reducer
@@ -66,12 +75,14 @@ export const store = configureStore({
           'payload.0.updates.created',
           'payload.0.updates.lastUpdated',
           'payload.0.updates.timestamp',
+          'payload.fields',
         ],
         // Ignore these paths in the state
         ignoredPaths: [
           'tasks.entities',
           'xp.dailyXpBank',
-          'userStats.data'
+          'userStats.data',
+          'network.conflicts'
         ],
       },
     }),
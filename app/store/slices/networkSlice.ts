@@ -7,8 +7,28 @@ import {
   updateTask, 
   deleteTask, 
   addTask,
+  modifyTaskXP,
+  togglePinnedTask,
+  saveJournalEntry,
+  updateJournalReflection,
+  getTaskById,
+  getDeviceId,
   Task
 } from '../../utils/firebaseService';
+import {
+  addScheduledTask,
+  updateScheduledTask,
+  deleteScheduledTask,
+  updateScheduledTaskStatus
+} from '../../utils/scheduledTaskService';
+import { uploadJournalAudio } from '../../utils/journalAudio';
+import { NewJournalReflection } from '../../types';
+import { ScheduledTask } from '../../types/scheduledTask';
+import { FieldConflict, TaskConflictBase, resolveTaskUpdate } from '../../utils/syncConflicts';
+import { isRetryableError, getRetryDelay, logErrorWithContext } from '../../utils/errorUtils';
+
+// Retry policy for replaying queued operations
+export const MAX_SYNC_ATTEMPTS = 5; // Attempts before an operation is moved to the dead-letter list
 
 export interface NetworkState {
   isConnected: boolean;
@@ -17,28 +37,124 @@ export interface NetworkState {
   isOfflineMode: boolean; // Flag to indicate if app is in explicit offline mode
   lastSyncAttempt: number | null;
   isSyncing: boolean;
+  conflicts: SyncConflict[]; // Edits that could not be merged automatically during replay
+  deadLetterOperations: DeadLetterOperation[]; // Operations that gave up retrying and need user attention
 }
 
-export interface PendingOperation {
+/**
+ * Every mutation that can be queued while offline, keyed by the service call it replays.
+ * Payloads must stay JSON-serializable because the queue is persisted with redux-persist,
+ * so dates are stored as ISO strings and converted back when the operation is replayed.
+ */
+export type QueuedOperation =
+  | { type: 'addTask'; payload: { task: Omit<Task, 'id' | 'userId' | 'completed' | 'createdAt'> } }
+  | { type: 'updateTask'; payload: { taskId: string; updates: Partial<Omit<Task, 'id' | 'userId'>>; base?: TaskConflictBase } }
+  | { type: 'deleteTask'; payload: { taskId: string } }
+  | { type: 'completeTask'; payload: { taskId: string; enforceXpCap?: boolean } }
+  | { type: 'uncompleteTask'; payload: { taskId: string } }
+  | { type: 'modifyTaskXP'; payload: { taskId: string; newXpValue: number } }
+  | { type: 'togglePinnedTask'; payload: { taskId: string } }
+  | { type: 'saveJournalEntry'; payload: { entry: NewJournalReflection; date: string } }
+  | { type: 'updateJournalReflection'; payload: { date: string; reflectionId: string; updates: { thought: string; entry: string } } }
+  | { type: 'uploadJournalAudio'; payload: { date: string; reflectionId: string; audioId: string } }
+  | { type: 'addScheduledTask'; payload: { task: Omit<ScheduledTask, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'status'> } }
+  | { type: 'updateScheduledTask'; payload: { taskId: string; updates: Partial<Omit<ScheduledTask, 'id' | 'userId' | 'createdAt'>> } }
+  | { type: 'deleteScheduledTask'; payload: { taskId: string } }
+  | { type: 'updateScheduledTaskStatus'; payload: { taskId: string; status: ScheduledTask['status']; occurrenceDate?: string } };
+
+export type QueuedOperationType = QueuedOperation['type'];
+
+// Payload fields every operation of a type needs to be replayed, as dotted paths with their type
+const REQUIRED_PAYLOAD_FIELDS: Record<QueuedOperationType, [string, 'string' | 'number' | 'object'][]> = {
+  addTask: [['task', 'object'], ['task.title', 'string'], ['task.xp', 'number']],
+  updateTask: [['taskId', 'string'], ['updates', 'object']],
+  deleteTask: [['taskId', 'string']],
+  completeTask: [['taskId', 'string']],
+  uncompleteTask: [['taskId', 'string']],
+  modifyTaskXP: [['taskId', 'string'], ['newXpValue', 'number']],
+  togglePinnedTask: [['taskId', 'string']],
+  saveJournalEntry: [['entry', 'object'], ['date', 'string']],
+  updateJournalReflection: [['date', 'string'], ['reflectionId', 'string'], ['updates', 'object']],
+  uploadJournalAudio: [['date', 'string'], ['reflectionId', 'string'], ['audioId', 'string']],
+  addScheduledTask: [['task', 'object'], ['task.title', 'string'], ['task.scheduledDate', 'string']],
+  updateScheduledTask: [['taskId', 'string'], ['updates', 'object']],
+  deleteScheduledTask: [['taskId', 'string']],
+  updateScheduledTaskStatus: [['taskId', 'string'], ['status', 'string']],
+};
+
+/**
+ * Check an edited payload before it replaces a queued operation's payload
+ * @returns A message naming the first missing or mistyped field, or null if the payload can be replayed
+ */
+export const validateOperationPayload = (type: QueuedOperationType, payload: unknown): string | null => {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return 'The payload must be a JSON object.';
+  }
+
+  for (const [path, expectedType] of REQUIRED_PAYLOAD_FIELDS[type]) {
+    const value = path.split('.').reduce<any>((current, key) => current?.[key], payload);
+    const matches = expectedType === 'object'
+      ? !!value && typeof value === 'object' && !Array.isArray(value)
+      : typeof value === expectedType && (expectedType !== 'string' || value.trim() !== '');
+    if (!matches) {
+      const expected = { object: 'an object', string: 'a non-empty string', number: 'a number' }[expectedType];
+      return `"${path}" must be ${expected}.`;
+    }
+  }
+
+  return null;
+};
+
+export type PendingOperation = QueuedOperation & {
   id: string;
-  type: 'completeTask' | 'uncompleteTask' | 'updateTask' | 'deleteTask' | 'addTask';
-  payload: {
-    taskId?: string;
-    updates?: Partial<Task>;
-    task?: Omit<Task, 'id' | 'userId' | 'completed' | 'createdAt'>;
-  };
   timestamp: number;
   retryCount: number;
   status: 'pending' | 'processing' | 'failed';
+  nextAttemptAt?: number; // Earliest time the operation may be retried after a failure
+  lastError?: string;
+};
+
+// An operation that failed permanently or ran out of attempts
+export type DeadLetterOperation = PendingOperation & {
+  failedAt: number;
+  lastError: string;
+};
+
+// Result shape shared by the service calls and the offline queue
+export interface OperationResult {
+  success: boolean;
+  message?: string;
+  queued?: boolean;
+  taskId?: string;
+  awardedXP?: number;
+  originalXp?: number;
+  xpCapped?: boolean;
+  conflicts?: FieldConflict[];
+}
+
+/**
+ * A task edit that changed the same fields as another device.
+ * Auto-mergeable fields have already been written; these fields wait for the user.
+ */
+export interface SyncConflict {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  fields: FieldConflict[];
+  detectedAt: number;
 }
 
+export type ConflictChoice = 'local' | 'server';
+
 const initialState: NetworkState = {
   isConnected: true,
   lastChecked: null,
   pendingOperations: [],
   isOfflineMode: false,
   lastSyncAttempt: null,
-  isSyncing: false
+  isSyncing: false,
+  conflicts: [],
+  deadLetterOperations: []
 };
 
 export const networkSlice = createSlice({
@@ -64,7 +180,7 @@ export const networkSlice = createSlice({
     setSyncAttempt: (state) => {
       state.lastSyncAttempt = Date.now();
     },
-    addPendingOperation: (state, action: PayloadAction<Omit<PendingOperation, 'retryCount' | 'status' | 'id'>>) => {
+    addPendingOperation: (state, action: PayloadAction<QueuedOperation & { timestamp: number }>) => {
       state.pendingOperations.push({
         ...action.payload,
         id: uuidv4(),
@@ -92,6 +208,64 @@ export const networkSlice = createSlice({
     clearFailedOperations: (state) => {
       state.pendingOperations = state.pendingOperations.filter(op => op.status !== 'failed');
     },
+    scheduleOperationRetry: (state, action: PayloadAction<{id: string, error: string, nextAttemptAt: number}>) => {
+      const { id, error, nextAttemptAt } = action.payload;
+      const operation = state.pendingOperations.find(op => op.id === id);
+      if (operation) {
+        operation.status = 'failed';
+        operation.retryCount += 1;
+        operation.lastError = error;
+        operation.nextAttemptAt = nextAttemptAt;
+      }
+    },
+    moveToDeadLetter: (state, action: PayloadAction<{id: string, error: string}>) => {
+      const { id, error } = action.payload;
+      const operation = state.pendingOperations.find(op => op.id === id);
+      if (operation) {
+        state.pendingOperations = state.pendingOperations.filter(op => op.id !== id);
+        state.deadLetterOperations.push({
+          ...operation,
+          status: 'failed',
+          retryCount: operation.retryCount + 1,
+          lastError: error,
+          failedAt: Date.now(),
+        });
+      }
+    },
+    requeueDeadLetterOperation: (state, action: PayloadAction<string>) => {
+      const operation = state.deadLetterOperations.find(op => op.id === action.payload);
+      if (operation) {
+        state.deadLetterOperations = state.deadLetterOperations.filter(op => op.id !== action.payload);
+        const { failedAt, lastError, nextAttemptAt, ...queuedOperation } = operation;
+        // Keep the original timestamp so the operation replays in its original position
+        state.pendingOperations.push({
+          ...queuedOperation,
+          retryCount: 0,
+          status: 'pending',
+        });
+      }
+    },
+    updateDeadLetterOperation: (state, action: PayloadAction<{id: string, payload: QueuedOperation['payload']}>) => {
+      const operation = state.deadLetterOperations.find(op => op.id === action.payload.id);
+      if (operation) {
+        (operation as { payload: QueuedOperation['payload'] }).payload = action.payload.payload;
+      }
+    },
+    discardDeadLetterOperation: (state, action: PayloadAction<string>) => {
+      state.deadLetterOperations = state.deadLetterOperations.filter(op => op.id !== action.payload);
+    },
+    addSyncConflict: (state, action: PayloadAction<Omit<SyncConflict, 'id' | 'detectedAt'>>) => {
+      // A newer conflict for the same task replaces the older one
+      state.conflicts = state.conflicts.filter(conflict => conflict.taskId !== action.payload.taskId);
+      state.conflicts.push({
+        ...action.payload,
+        id: uuidv4(),
+        detectedAt: Date.now(),
+      });
+    },
+    removeSyncConflict: (state, action: PayloadAction<string>) => {
+      state.conflicts = state.conflicts.filter(conflict => conflict.id !== action.payload);
+    },
   },
 });
 
@@ -106,34 +280,205 @@ export const {
   incrementRetryCount,
   setOperationStatus,
   clearFailedOperations,
+  scheduleOperationRetry,
+  moveToDeadLetter,
+  requeueDeadLetterOperation,
+  updateDeadLetterOperation,
+  discardDeadLetterOperation,
+  addSyncConflict,
+  removeSyncConflict,
 } = networkSlice.actions;
 
 // No need for additional action creators as they're already exported from the slice
 
-// Types
-export interface NetworkState {
-  isConnected: boolean;
-  isOfflineMode: boolean;
-  isSyncing: boolean;
-  lastChecked: number;
-  lastSyncAttempt: number;
-  pendingOperations: Array<any>; // Replace 'any' with your PendingOperation type if defined
-}
-
 // Selectors
 export const selectNetworkStatus = (state: RootState): boolean => (state.network as NetworkState)?.isConnected ?? false;
 export const selectLastSyncAttempt = (state: RootState): number => (state.network as NetworkState)?.lastSyncAttempt ?? 0;
 export const selectIsOfflineMode = (state: RootState): boolean => (state.network as NetworkState)?.isOfflineMode ?? false;
 export const selectLastChecked = (state: RootState): number => (state.network as NetworkState)?.lastChecked ?? 0;
-export const selectPendingOperations = (state: RootState): Array<any> => (state.network as NetworkState)?.pendingOperations ?? [];
+export const selectPendingOperations = (state: RootState): PendingOperation[] => (state.network as NetworkState)?.pendingOperations ?? [];
+export const selectDeadLetterOperations = (state: RootState): DeadLetterOperation[] => (state.network as NetworkState)?.deadLetterOperations ?? [];
+export const selectSyncConflicts = (state: RootState): SyncConflict[] => (state.network as NetworkState)?.conflicts ?? [];
+
+/**
+ * Run a queued operation against the matching service call.
+ * Throws when the service reports a failure so callers can keep the operation queued.
+ * Task edits that clash with changes from another device are recorded as sync conflicts.
+ */
+const executeOperation = async (operation: QueuedOperation, dispatch: AppDispatch): Promise<OperationResult> => {
+  let result: OperationResult;
+
+  switch (operation.type) {
+    case 'addTask':
+      result = await addTask(operation.payload.task);
+      break;
+    case 'updateTask': {
+      const { taskId, updates, base } = operation.payload;
+      if (!base) {
+        result = await updateTask(taskId, updates);
+        break;
+      }
+      
+      // Compare against the server copy so edits from other devices are not overwritten
+      const serverTask = await getTaskById(taskId);
+      if (!serverTask) {
+        throw new Error(`Task with ID ${taskId} not found`);
+      }
+      
+      const merge = resolveTaskUpdate(base, updates, serverTask, await getDeviceId());
+      result = Object.keys(merge.updates).length > 0
+        ? await updateTask(taskId, merge.updates)
+        : { success: true, message: 'Task already up to date' };
+      
+      if (merge.conflicts.length > 0) {
+        dispatch(addSyncConflict({ taskId, taskTitle: serverTask.title, fields: merge.conflicts }));
+        result = { ...result, conflicts: merge.conflicts };
+      }
+      break;
+    }
+    case 'deleteTask':
+      result = await deleteTask(operation.payload.taskId);
+      break;
+    case 'completeTask': {
+      // Completing is idempotent: a task already completed on another device is left as is
+      const serverTask = await getTaskById(operation.payload.taskId);
+      if (serverTask?.completed) {
+        result = { success: true, message: 'Task was already completed' };
+        break;
+      }
+      result = await completeTask(operation.payload.taskId, operation.payload.enforceXpCap ?? true);
+      break;
+    }
+    case 'uncompleteTask':
+      result = await uncompleteTask(operation.payload.taskId);
+      break;
+    case 'modifyTaskXP':
+      result = await modifyTaskXP(operation.payload.taskId, operation.payload.newXpValue);
+      break;
+    case 'togglePinnedTask':
+      result = await togglePinnedTask(operation.payload.taskId);
+      break;
+    case 'saveJournalEntry':
+      // saveJournalEntry throws on failure instead of returning a result
+      await saveJournalEntry(operation.payload.entry, new Date(operation.payload.date));
+      result = { success: true };
+      break;
+    case 'updateJournalReflection':
+      // updateJournalReflection throws on failure instead of returning a result
+      await updateJournalReflection(operation.payload.date, operation.payload.reflectionId, operation.payload.updates);
+      result = { success: true };
+      break;
+    case 'uploadJournalAudio':
+      // Reads the recording from this device's cache, so it can only be replayed where it was made
+      await uploadJournalAudio(operation.payload.date, operation.payload.reflectionId, operation.payload.audioId);
+      result = { success: true };
+      break;
+    case 'addScheduledTask':
+      result = await addScheduledTask(operation.payload.task);
+      break;
+    case 'updateScheduledTask':
+      result = await updateScheduledTask(operation.payload.taskId, operation.payload.updates);
+      break;
+    case 'deleteScheduledTask':
+      result = await deleteScheduledTask(operation.payload.taskId);
+      break;
+    case 'updateScheduledTaskStatus':
+      result = await updateScheduledTaskStatus(
+        operation.payload.taskId,
+        operation.payload.status,
+        operation.payload.occurrenceDate
+      );
+      break;
+    default: {
+      const unknownOperation: never = operation;
+      throw new Error(`Unknown operation type: ${(unknownOperation as any).type}`);
+    }
+  }
+
+  if (!result.success) {
+    throw new Error(result.message || `Failed to replay ${operation.type} operation`);
+  }
+
+  return result;
+};
 
 // Thunks
+
+/**
+ * Run a mutation immediately when online, or queue it for replay when offline.
+ * While earlier operations are still queued or syncing, it's queued behind them
+ * even when online, so operations always reach the server in the order they were made.
+ * Queued operations resolve with `{ success: true, queued: true }`.
+ */
+export const runOrQueueOperation = (operation: QueuedOperation) => async (
+  dispatch: AppDispatch,
+  getState: () => RootState
+): Promise<OperationResult> => {
+  const networkState = getState().network as NetworkState;
+
+  if (!networkState.isConnected || networkState.isOfflineMode) {
+    dispatch(addPendingOperation({ ...operation, timestamp: Date.now() }));
+    return { success: true, queued: true, message: 'Saved offline. Changes will sync when you reconnect.' };
+  }
+
+  if (networkState.pendingOperations.length > 0 || networkState.isSyncing) {
+    dispatch(addPendingOperation({ ...operation, timestamp: Date.now() }));
+    // A sync already running picks this up when it finishes
+    dispatch(syncPendingOperations());
+    return { success: true, queued: true, message: 'Saved. Changes will sync after your earlier ones.' };
+  }
+
+  try {
+    return await executeOperation(operation, dispatch);
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+};
+
+/**
+ * Apply the user's pick for each conflicting field and clear the conflict.
+ * Fields resolved to the server version need no write.
+ */
+export const resolveSyncConflict = (conflictId: string, choices: Record<string, ConflictChoice>) => async (
+  dispatch: AppDispatch,
+  getState: () => RootState
+): Promise<OperationResult> => {
+  const conflict = (getState().network as NetworkState).conflicts.find(c => c.id === conflictId);
+  if (!conflict) {
+    return { success: false, message: 'Conflict not found' };
+  }
+
+  const updates = conflict.fields.reduce((acc, fieldConflict) => {
+    if (choices[fieldConflict.field] === 'local') {
+      acc[fieldConflict.field] = fieldConflict.local;
+    }
+    return acc;
+  }, {} as Record<string, unknown>);
+
+  let result: OperationResult = { success: true };
+  if (Object.keys(updates).length > 0) {
+    result = await dispatch(runOrQueueOperation({
+      type: 'updateTask',
+      payload: { taskId: conflict.taskId, updates: updates as Partial<Omit<Task, 'id' | 'userId'>> }
+    }));
+  }
+
+  if (result.success) {
+    dispatch(removeSyncConflict(conflictId));
+  }
+
+  return result;
+};
+
 export const syncPendingOperations = () => async (dispatch: AppDispatch, getState: () => RootState) => {
   const state = getState();
   const networkState = state.network as NetworkState;
   
-  // Skip if offline or no pending operations
-  if (!networkState.isConnected || networkState.pendingOperations.length === 0) {
+  // Skip if offline, already syncing or no pending operations
+  if (!networkState.isConnected || networkState.isSyncing || networkState.pendingOperations.length === 0) {
     return;
   }
   
@@ -142,77 +487,68 @@ export const syncPendingOperations = () => async (dispatch: AppDispatch, getStat
   dispatch(setSyncAttempt());
   
   try {
-    // Process pending operations in order (oldest first)
+    // Process pending operations in order (oldest first). Operations still marked as
+    // processing were interrupted by an app restart, since isSyncing is not persisted.
     const sortedOperations = [...networkState.pendingOperations]
-      .sort((a, b) => a.timestamp - b.timestamp)
-      .filter(op => op.status !== 'processing'); // Skip operations already being processed
-    
-    // Logging removed for production (`Attempting to sync ${sortedOperations.length} pending operations`);
+      .sort((a, b) => a.timestamp - b.timestamp);
     
     for (const operation of sortedOperations) {
+      // Wait out the backoff of the oldest failed operation before touching anything after it
+      if (operation.nextAttemptAt && operation.nextAttemptAt > Date.now()) {
+        break;
+      }
+      
       try {
         // Mark operation as processing
         dispatch(setOperationStatus({id: operation.id, status: 'processing'}));
         
-        // Process based on operation type
-        switch (operation.type) {
-          case 'completeTask':
-            if (operation.payload.taskId) {
-              await completeTask(operation.payload.taskId);
-            } else {
-              throw new Error('Missing taskId for completeTask operation');
-            }
-            break;
-            
-          case 'uncompleteTask':
-            if (operation.payload.taskId) {
-              await uncompleteTask(operation.payload.taskId);
-            } else {
-              throw new Error('Missing taskId for uncompleteTask operation');
-            }
-            break;
-            
-          case 'updateTask':
-            if (operation.payload.taskId && operation.payload.updates) {
-              await updateTask(operation.payload.taskId, operation.payload.updates);
-            } else {
-              throw new Error('Missing taskId or updates for updateTask operation');
-            }
-            break;
-            
-          case 'deleteTask':
-            if (operation.payload.taskId) {
-              await deleteTask(operation.payload.taskId);
-            } else {
-              throw new Error('Missing taskId for deleteTask operation');
-            }
-            break;
-            
-          case 'addTask':
-            if (operation.payload.task) {
-              await addTask(operation.payload.task);
-            } else {
-              throw new Error('Missing task data for addTask operation');
-            }
-            break;
-            
-          default:
-            console.warn(`Unknown operation type: ${(operation as any).type}`);
-        }
+        await executeOperation(operation, dispatch);
         
         // Operation succeeded, remove it
         dispatch(removePendingOperation(operation.id));
-        // Logging removed for production (`Successfully synced operation ${operation.id} of type ${operation.type}`);
       } catch (error) {
-        // Logging removed for production (`Failed to process pending operation ${operation.id}:`, error);
-        dispatch(setOperationStatus({id: operation.id, status: 'failed'}));
-        dispatch(incrementRetryCount(operation.id));
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const attempts = operation.retryCount + 1;
+        
+        if (isRetryableError(error) && attempts < MAX_SYNC_ATTEMPTS) {
+          dispatch(scheduleOperationRetry({
+            id: operation.id,
+            error: errorMessage,
+            nextAttemptAt: Date.now() + getRetryDelay(operation.retryCount),
+          }));
+          
+          // Stop here so later operations are never applied ahead of an earlier one
+          break;
+        }
+        
+        // Permanent failure or out of attempts: park it for the user and keep going
+        logErrorWithContext('syncPendingOperations', error, {
+          operationId: operation.id,
+          operationType: operation.type,
+          attempts,
+        });
+        dispatch(moveToDeadLetter({ id: operation.id, error: errorMessage }));
       }
     }
   } finally {
     // Reset syncing status
     dispatch(setIsSyncing(false));
   }
+
+  // Operations queued while this sync ran go next
+  const queuedDuringSync = (getState().network as NetworkState).pendingOperations
+    .some(op => !networkState.pendingOperations.some(earlier => earlier.id === op.id));
+  if (queuedDuringSync) {
+    await dispatch(syncPendingOperations());
+  }
+};
+
+/**
+ * Put a dead-lettered operation back in the queue with a fresh attempt budget and sync
+ */
+export const retryDeadLetterOperation = (id: string) => async (dispatch: AppDispatch) => {
+  dispatch(requeueDeadLetterOperation(id));
+  await dispatch(syncPendingOperations());
 };
 
 export default networkSlice.reducer;
@@ -7,9 +7,9 @@ import {
   updateTask, 
   deleteTask,
   Task,
-  getCurrentUserId,
-  resetRecurringTasks
+  getCurrentUserId
 } from '../../utils/firebaseService';
+import { runDailyRollover } from '../../utils/dailyRollover';
 import { addPendingOperation, NetworkState } from './networkSlice';
 import { RootState, AppDispatch } from '../types';
 import { v4 as uuidv4 } from 'uuid';
@@ -33,8 +33,8 @@ export const fetchTasks = createAsyncThunk(
   'tasks/fetchTasks',
   async (_, { rejectWithValue, dispatch }) => {
     try {
-      // First reset any recurring tasks from previous days
-      await dispatch(resetRecurringTasksAsync());
+      // First roll over any days that haven't been started yet
+      await dispatch(runDailyRolloverAsync());
       
       return new Promise<Task[]>((resolve, reject) => {
         const unsubscribe = subscribeToTasks(
@@ -53,21 +53,21 @@ export const fetchTasks = createAsyncThunk(
   }
 );
 
-// Reset recurring tasks that were completed on previous days
-export const resetRecurringTasksAsync = createAsyncThunk(
-  'tasks/resetRecurringTasks',
+// Reset recurring tasks and archive finished ones for any new days
+export const runDailyRolloverAsync = createAsyncThunk(
+  'tasks/runDailyRollover',
   async (_, { rejectWithValue }) => {
     try {
-      const result = await resetRecurringTasks();
+      const result = await runDailyRollover();
       
       if (!result.success) {
-        console.warn('Failed to reset recurring tasks:', result.message);
-        return rejectWithValue(result.message || 'Failed to reset recurring tasks');
+        console.warn('Failed to run daily rollover:', result.message);
+        return rejectWithValue(result.message || 'Failed to run daily rollover');
       }
       
       return result;
     } catch (error) {
-      console.error('Error resetting recurring tasks:', error);
+      console.error('Error running daily rollover:', error);
       return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
     }
   }
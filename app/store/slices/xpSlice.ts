@@ -9,7 +9,7 @@ import {
 } from '../../utils/firebaseService';
 import { addPendingOperation } from './networkSlice';
 import { RootState, AppDispatch } from '../types';
-import { formatDateString } from '../../utils/dateUtils';
+import { getDayKey } from '../../utils/dateUtils';
 import { v4 as uuidv4 } from 'uuid';
 
 interface XpState {
@@ -166,10 +166,11 @@ export const {
 export const selectDailyXpBank = (state: RootState): DailyXPBank | null => state.xp.dailyXpBank;
 export const selectXpRecords = (state: RootState): XPBankRecord[] => state.xp.xpRecords;
 export const selectDailyStats = (state: RootState): DailyStats[] => state.xp.dailyStats;
+// Today's XP comes from the XP bank, the figure reconciled with the XP bank records
 export const selectTodayXp = (state: RootState): number => {
-  const today = formatDateString(new Date());
-  const todayStat = state.xp.dailyStats.find((stat: any) => stat.date === today);
-  return todayStat?.xpEarned || 0;
+  const today = getDayKey();
+  const bank = state.xp.dailyXpBank;
+  return bank?.date === today ? bank.totalXP : 0;
 };
 export const selectXpLoading = (state: RootState): boolean => state.xp.loading;
 export const selectXpError = (state: RootState): string | null => state.xp.error;
@@ -5,6 +5,7 @@ export interface Task {
   title: string;
   description?: string; // Making this optional to match firebaseService
   category?: string;
+  tags?: string[]; // Lowercase free-form tags, e.g. ['errands', 'deep-work']
   emoji?: string;
   xp: number;
   plannedXp?: number;
@@ -18,12 +19,25 @@ export interface Task {
   syncStatus?: 'synced' | 'pending' | 'error';
   lastSyncAttempt?: number;
   recurring?: boolean;
+  recurrence?: TaskRecurrence; // Which days a recurring task is due (defaults to daily)
   lastCompletedDate?: string | null;
   pinned?: boolean; // Flag to indicate if the task is pinned to the top of the dashboard
   adjustmentReason?: string;
   subtasks?: SubTask[]; // Array of subtasks
+  updatedAt?: Timestamp; // Server time of the last write, used for sync conflict detection
+  lastModifiedBy?: string; // Device ID that performed the last write
 }
 
+/**
+ * Recurrence rule for a recurring task.
+ * Weekdays use JavaScript numbering (0 = Sunday ... 6 = Saturday).
+ */
+export type TaskRecurrence =
+  | { type: 'daily' }
+  | { type: 'weekdays' } // Monday to Friday
+  | { type: 'weekly'; days: number[] } // Specific weekdays, e.g. Mon/Wed/Fri
+  | { type: 'interval'; everyDays: number; startDate: string }; // Every N days counted from startDate (YYYY-MM-DD)
+
 // Interface for subtasks
 export interface SubTask {
   id: string;
@@ -32,11 +46,81 @@ export interface SubTask {
   completedAt?: Timestamp | null;
 }
 
-export interface JournalEntry {
+// Voice recording attached to a reflection. The file is cached on the recording device
+// and uploaded to Storage when online; until then only the metadata is synced
+export interface JournalAudio {
+  id: string;
+  durationMs: number;
+  mimeType: string;
+  status: 'pending' | 'uploaded';
+  storagePath?: string;
+  downloadUrl?: string;
+}
+
+// One mood of the user's palette. Reflections refer to moods by label.
+// Valence runs from -2 (very unpleasant) to 2 (very pleasant) and drives the mood charts
+export interface MoodDefinition {
+  label: string;
+  emoji: string;
+  color: string;
+  valence: number;
+  icon?: string; // Feather icon name, used by the built-in moods
+}
+
+// A user-managed task category. Tasks refer to categories by ID, so renaming one keeps its tasks
+export interface TaskCategory {
+  id: string;
+  name: string;
+  color: string;
+  icon: string; // MaterialIcons name
+  dailyXpBudget?: number; // XP the user means to spend on this category each day
+}
+
+// Conditions for narrowing down tasks and task history; every condition that is set must match
+export interface TaskFilter {
+  text?: string;       // Matches the title or description
+  tags?: string[];     // Items must have all of these tags
+  category?: string;   // TaskCategory ID
+  recurring?: boolean;
+  minXp?: number;
+  maxXp?: number;
+  startDate?: string;  // YYYY-MM-DD, inclusive
+  endDate?: string;    // YYYY-MM-DD, inclusive
+}
+
+// A filter the user saved under a name, shared by the Dashboard, Manage Tasks and History
+export interface SavedTaskView {
+  id: string;
+  name: string;
+  filter: TaskFilter;
+}
+
+// A single timestamped reflection; a journal day holds an ordered list of these
+export interface JournalReflection {
+  id: string;
   thought: string;
   entry?: string;
   mood?: string;
+  moodIntensity?: number; // 1 (barely) to 5 (very strongly)
+  audio?: JournalAudio;
   timestamp: Timestamp;
+  editTimestamp?: Timestamp;
+  isEdited?: boolean;
+}
+
+// A reflection being saved; the ID is generated when missing
+export type NewJournalReflection = Pick<JournalReflection, 'thought' | 'entry' | 'mood' | 'moodIntensity' | 'audio'> & { id?: string };
+
+// Journal day document, keyed by date (YYYY-MM-DD)
+export interface JournalEntry {
+  entries?: JournalReflection[];
+  // Single-entry fields from before days held several reflections; only set on unmigrated documents
+  thought?: string;
+  entry?: string;
+  editTimestamp?: Timestamp;
+  isEdited?: boolean;
+  mood?: string; // Mood of the latest reflection
+  timestamp: Timestamp; // Time of the latest reflection
   userId: string;
 }
 
@@ -76,8 +160,64 @@ export interface OverallStats {
   dailyHistory: Map<string, DailyStats>; // Store daily stats by date for historical reference
 }
 
+// Per-user XP limits and goals, stored on the user document
+export interface XPSettings {
+  dailyXpCap: number; // Most XP that can be planned and banked in a day
+  capEnabled: boolean; // When off, planning and banking are not limited
+  weekdayTargets: number[]; // Daily XP goal for each weekday, Sunday first
+}
+
+// A level the user has reached, stored once per level in `levelEvents/{level}`
+export interface LevelEvent {
+  level: number;
+  title: string;
+  points: number; // Level points when the level was reached
+  totalXP: number;
+  completedTasks: number;
+  reachedAt: Timestamp | null; // null for levels reached before level history was kept
+  backfilled: boolean;
+  deviceId?: string; // Device that recorded the level and showed its animation
+}
+
+// An unlocked achievement, stored once per achievement in `achievements/{id}`
+export interface AchievementUnlock {
+  id: string;
+  title: string;
+  value: number; // The achievement's measure when it was unlocked
+  unlockedAt: Timestamp;
+  deviceId?: string; // Device that unlocked the achievement and showed its celebration
+}
+
+// Per-user streak options, stored on the user document
+export interface StreakSettings {
+  graceHours: number; // Completions this many hours after the day starts can still count for the day before
+}
+
+// Per-user day boundary, stored on the user document
+export interface DaySettings {
+  timeZone: string;     // IANA time zone the user's days are counted in, e.g. "Europe/London"
+  dayStartHour: number; // Hour (0-23) the day rolls over, e.g. 4 so late nights count for the day before
+}
+
+// One entry in a user's rollover ledger (users/{uid}/rollovers/{day}); its ID is the day that was started
+export interface RolloverRecord {
+  day: string;           // YYYY-MM-DD
+  tasksReset: number;    // Recurring tasks made available again because they're due this day
+  tasksArchived: number; // One-off tasks completed on an earlier day, moved out of the task lists
+  rolledOverAt: Timestamp;
+  deviceId?: string;     // Device that ran the rollover
+}
+
+// A day that kept the streak going without a normal completion,
+// stored in `streakProtections/{date}`
+export interface StreakProtection {
+  date: string;
+  reason: 'freeze' | 'grace'; // A spent streak freeze, or a completion inside the grace period
+}
+
 export interface UserStats {
   userId: string;
+  fullName?: string;
   totalXP: number;
   todayXP: number;
   streakCount: number;
@@ -86,6 +226,14 @@ export interface UserStats {
   bestDayXP: number;
   weeklyXPGoal: number;
   lastReset: Timestamp;
+  lastRolloverDay?: string; // The latest day the daily rollover has run for (YYYY-MM-DD)
+  moodPalette?: MoodDefinition[]; // Custom moods; the built-in palette is used when unset
+  xpSettings?: XPSettings; // Defaults to a 100 XP cap and target every day when unset
+  streakSettings?: StreakSettings;
+  daySettings?: DaySettings; // The device time zone and midnight are used when unset
+  streakFreezesAvailable?: number; // Earned streak freezes not spent yet
+  taskCategories?: TaskCategory[]; // Built-in categories are used when unset
+  savedTaskViews?: SavedTaskView[];
 }
 
 export interface TaskHistoryRecord {
@@ -94,6 +242,7 @@ export interface TaskHistoryRecord {
   title: string;
   description?: string;
   category?: string;
+  tags?: string[];
   xp: number;
   completedAt: Timestamp | null;
   date: string;
@@ -5,13 +5,24 @@ export interface ScheduledTask {
   userId: string;
   title: string;
   description?: string;
-  scheduledDate: string; // ISO format date (YYYY-MM-DD) when the task is scheduled to start
+  tags?: string[]; // Lowercase free-form tags, like the tags on tasks
+  scheduledDate: string; // ISO format date (YYYY-MM-DD) when the task is scheduled to start (the next pending occurrence for repeating events)
   scheduledTime?: string; // Optional time in 24-hour format (HH:MM)
   dueDate?: string; // Optional ISO format date (YYYY-MM-DD) when the task is due
-  repeatFrequency: 'none' | 'daily' | 'weekly' | 'monthly';
+  repeatFrequency: 'none' | 'daily' | 'weekly' | 'monthly' | 'custom';
+  rrule?: string; // RFC 5545 RRULE (e.g. FREQ=WEEKLY;BYDAY=MO,WE), required when repeatFrequency is 'custom'
+  seriesStartDate?: string; // ISO format date (YYYY-MM-DD) of the first occurrence of a repeating event
+  completedOccurrences?: string[]; // Occurrence dates (YYYY-MM-DD) marked as completed
+  missedOccurrences?: string[]; // Occurrence dates (YYYY-MM-DD) that passed without being completed
   notificationEnabled: boolean;
   status: 'upcoming' | 'completed' | 'missed';
   createdAt: Timestamp;
   updatedAt: Timestamp;
   notificationId?: string; // ID for the scheduled notification (for cancellation)
+  icsUid?: string; // UID of the iCalendar event this task was imported from
+}
+
+// A single occurrence of a scheduled event on a specific date
+export interface ScheduledTaskOccurrence extends ScheduledTask {
+  occurrenceDate: string; // ISO format date (YYYY-MM-DD)
 }
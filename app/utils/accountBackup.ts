@@ -0,0 +1,505 @@
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  writeBatch,
+  Timestamp,
+  DocumentReference,
+} from 'firebase/firestore';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import moment from 'moment';
+import { reconcileXp } from './xpReconciliation';
+
+export const BACKUP_FORMAT = 'dailyx-backup';
+export const CURRENT_BACKUP_VERSION = 2;
+
+// Subcollections of users/{uid} included in a backup
+// Task categories and saved filters live on the user document and travel with the profile
+export const BACKUP_COLLECTIONS = [
+  'tasks',
+  'completedTasks',
+  'taskHistory',
+  'dailySnapshots',
+  'xpBank',
+  'xpBankRecords',
+  'journal',
+  'scheduledTasks',
+  'rollovers',
+  'levelEvents',
+  'achievements',
+  'streakProtections',
+  'xpReconciliations',
+] as const;
+
+export type BackupCollection = typeof BACKUP_COLLECTIONS[number];
+
+export const BACKUP_COLLECTION_LABELS: Record<BackupCollection, string> = {
+  tasks: 'Tasks',
+  completedTasks: 'Archived tasks',
+  taskHistory: 'Task history',
+  dailySnapshots: 'Daily snapshots',
+  xpBank: 'XP bank days',
+  xpBankRecords: 'XP bank records',
+  journal: 'Journal entries',
+  scheduledTasks: 'Scheduled events',
+  rollovers: 'Daily rollovers',
+  levelEvents: 'Level-ups',
+  achievements: 'Achievements',
+  streakProtections: 'Streak freezes used',
+  xpReconciliations: 'XP corrections',
+};
+
+export interface BackupDocument {
+  id: string;
+  data: Record<string, unknown>;
+}
+
+export interface AccountBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: {
+    userId: string;
+    email: string | null;
+  };
+  profile: Record<string, unknown> | null;
+  collections: Record<BackupCollection, BackupDocument[]>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreResult {
+  success: boolean;
+  message?: string;
+  written?: number;
+  skipped?: number;
+  deleted?: number;
+}
+
+// Profile fields that identify the account and are never overwritten by a restore
+const PROFILE_IDENTITY_FIELDS = ['userId', 'email', 'createdAt'];
+
+// Collections whose document IDs are dates (YYYY-MM-DD)
+const DATE_KEYED_COLLECTIONS: BackupCollection[] = ['journal', 'xpBank', 'dailySnapshots', 'rollovers', 'streakProtections'];
+
+// Firestore allows 500 writes per batch; stay below it
+const BATCH_SIZE = 450;
+
+/**
+ * Migrations from older archive versions, keyed by the version they upgrade from.
+ * Add an entry here whenever the archive layout changes and bump CURRENT_BACKUP_VERSION.
+ */
+const BACKUP_MIGRATIONS: Record<number, (backup: Record<string, any>) => Record<string, any>> = {
+  // v1 archives predate archived tasks, rollovers, level-ups, achievements, streak freezes and XP corrections
+  1: (backup) => ({
+    ...backup,
+    collections: {
+      completedTasks: [],
+      rollovers: [],
+      levelEvents: [],
+      achievements: [],
+      streakProtections: [],
+      xpReconciliations: [],
+      ...backup.collections,
+    },
+  }),
+};
+
+/**
+ * Get the current user ID or throw an error if not logged in
+ */
+const getCurrentUserId = (): string => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) throw new Error('User not authenticated');
+  return user.uid;
+};
+
+/**
+ * Convert Firestore values to plain JSON, tagging timestamps so they survive a round trip
+ */
+const encodeValue = (value: any): any => {
+  if (value instanceof Timestamp) {
+    return { __timestamp: { seconds: value.seconds, nanoseconds: value.nanoseconds } };
+  }
+  if (value instanceof Date) {
+    return encodeValue(Timestamp.fromDate(value));
+  }
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).reduce((acc, key) => {
+      acc[key] = encodeValue(value[key]);
+      return acc;
+    }, {} as Record<string, any>);
+  }
+  return value;
+};
+
+/**
+ * Reverse of encodeValue
+ */
+const decodeValue = (value: any): any => {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    if (value.__timestamp && typeof value.__timestamp.seconds === 'number') {
+      return new Timestamp(value.__timestamp.seconds, value.__timestamp.nanoseconds || 0);
+    }
+    return Object.keys(value).reduce((acc, key) => {
+      acc[key] = decodeValue(value[key]);
+      return acc;
+    }, {} as Record<string, any>);
+  }
+  return value;
+};
+
+/**
+ * Read every backed-up collection and the profile of the current user
+ * @returns The backup archive
+ */
+export const createAccountBackup = async (): Promise<AccountBackup> => {
+  const userId = getCurrentUserId();
+  const collections = {} as Record<BackupCollection, BackupDocument[]>;
+
+  for (const name of BACKUP_COLLECTIONS) {
+    const snapshot = await getDocs(collection(FIREBASE_DB, 'users', userId, name));
+    collections[name] = snapshot.docs.map(docSnapshot => ({
+      id: docSnapshot.id,
+      data: encodeValue(docSnapshot.data()),
+    }));
+  }
+
+  const profileDoc = await getDoc(doc(FIREBASE_DB, 'users', userId));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: CURRENT_BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      userId,
+      email: FIREBASE_AUTH.currentUser?.email || null,
+    },
+    profile: profileDoc.exists() ? encodeValue(profileDoc.data()) : null,
+    collections,
+  };
+};
+
+/**
+ * Exports all of the current user's data to a JSON file and opens the share sheet
+ * @returns Promise that resolves when the export is complete
+ */
+export const exportAccountBackup = async (): Promise<void> => {
+  try {
+    const backup = await createAccountBackup();
+    const fileUri = `${FileSystem.documentDirectory}dailyx_backup_${moment().format('YYYYMMDD_HHmmss')}.json`;
+    await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(backup, null, 2));
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'application/json',
+        UTI: 'public.json',
+        dialogTitle: 'Save Backup',
+      });
+    } else {
+      throw new Error('Sharing is not available on this device');
+    }
+  } catch (error) {
+    console.error('Error exporting account backup:', error);
+    throw error;
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Upgrade an archive to the current version, one version at a time
+ * @throws Error if the archive is newer than this app or a migration is missing
+ */
+export const migrateBackup = (raw: Record<string, any>): Record<string, any> => {
+  let backup = raw;
+  let version = backup.version;
+
+  if (version > CURRENT_BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version of DailyX (format v${version}). Please update the app first.`);
+  }
+
+  while (version < CURRENT_BACKUP_VERSION) {
+    const migrate = BACKUP_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Backups in format v${version} can no longer be restored`);
+    }
+    backup = { ...migrate(backup), version: version + 1 };
+    version = backup.version;
+  }
+
+  return backup;
+};
+
+/**
+ * Validate a parsed backup file and migrate it to the current version
+ *
+ * @param raw - The parsed JSON contents of a backup file
+ * @returns The backup, or the list of problems that prevent restoring it
+ */
+export const validateBackup = (
+  raw: unknown
+): { backup: AccountBackup; errors?: undefined } | { backup?: undefined; errors: string[] } => {
+  if (!isPlainObject(raw) || raw.format !== BACKUP_FORMAT) {
+    return { errors: ['This file is not a DailyX backup'] };
+  }
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    return { errors: ['The backup has no valid format version'] };
+  }
+
+  let migrated: Record<string, any>;
+  try {
+    migrated = migrateBackup(raw);
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : 'Failed to upgrade the backup'] };
+  }
+
+  const errors: string[] = [];
+
+  if (migrated.profile !== null && migrated.profile !== undefined && !isPlainObject(migrated.profile)) {
+    errors.push('The profile section is invalid');
+  }
+  if (!isPlainObject(migrated.collections)) {
+    return { errors: [...errors, 'The backup has no data collections'] };
+  }
+
+  const collections = {} as Record<BackupCollection, BackupDocument[]>;
+
+  for (const name of BACKUP_COLLECTIONS) {
+    const documents = migrated.collections[name] ?? [];
+    if (!Array.isArray(documents)) {
+      errors.push(`${BACKUP_COLLECTION_LABELS[name]}: expected a list of documents`);
+      continue;
+    }
+
+    documents.forEach((document: unknown, index: number) => {
+      const where = `${BACKUP_COLLECTION_LABELS[name]} #${index + 1}`;
+      if (!isPlainObject(document) || typeof document.id !== 'string' || !document.id || document.id.includes('/')) {
+        errors.push(`${where}: missing or invalid document ID`);
+        return;
+      }
+      if (!isPlainObject(document.data)) {
+        errors.push(`${where}: missing document data`);
+        return;
+      }
+      if (DATE_KEYED_COLLECTIONS.includes(name) && !/^\d{4}-\d{2}-\d{2}$/.test(document.id)) {
+        errors.push(`${where}: document ID must be a date (YYYY-MM-DD)`);
+      }
+      if ((name === 'tasks' || name === 'scheduledTasks') && typeof document.data.title !== 'string') {
+        errors.push(`${where}: missing title`);
+      }
+      if (name === 'scheduledTasks' && typeof document.data.scheduledDate !== 'string') {
+        errors.push(`${where}: missing scheduled date`);
+      }
+    });
+
+    collections[name] = documents as BackupDocument[];
+  }
+
+  if (errors.length > 0) {
+    // Long lists aren't useful in an alert; show the first few
+    return { errors: errors.length > 10 ? [...errors.slice(0, 10), `…and ${errors.length - 10} more`] : errors };
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: CURRENT_BACKUP_VERSION,
+      exportedAt: typeof migrated.exportedAt === 'string' ? migrated.exportedAt : '',
+      source: {
+        userId: migrated.source?.userId || '',
+        email: migrated.source?.email || null,
+      },
+      profile: migrated.profile || null,
+      collections,
+    },
+  };
+};
+
+/**
+ * Let the user pick a backup file and validate it
+ * @returns The validation result, or null if the user cancelled
+ */
+export const pickBackupFile = async (): Promise<ReturnType<typeof validateBackup> | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', '*/*'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
+  try {
+    return validateBackup(JSON.parse(content));
+  } catch (error) {
+    return { errors: ['The file is not valid JSON'] };
+  }
+};
+
+/**
+ * Commit writes in batches that stay under Firestore's per-batch limit
+ */
+const commitInBatches = async (
+  operations: ((batch: ReturnType<typeof writeBatch>) => void)[]
+): Promise<void> => {
+  for (let i = 0; i < operations.length; i += BATCH_SIZE) {
+    const batch = writeBatch(FIREBASE_DB);
+    operations.slice(i, i + BATCH_SIZE).forEach(operation => operation(batch));
+    await batch.commit();
+  }
+};
+
+/**
+ * Prepare a backed-up document for the current account
+ */
+const prepareDocumentData = (
+  name: BackupCollection,
+  data: Record<string, unknown>,
+  userId: string
+): Record<string, any> => {
+  const decoded = decodeValue(data);
+
+  // Documents that record their owner must point at the account they are restored into
+  if ('userId' in decoded) {
+    decoded.userId = userId;
+  }
+  // Reminder IDs belong to the device that scheduled them
+  if (name === 'scheduledTasks') {
+    delete decoded.notificationId;
+  }
+
+  return decoded;
+};
+
+/**
+ * Restore a backup into the current account
+ *
+ * In 'replace' mode the account ends up with exactly the backed-up documents and the
+ * profile is overwritten. In 'merge' mode existing documents are kept, only documents missing
+ * from the account are added, and profile fields are only filled in where empty. A day's XP
+ * bank records are skipped along with its XP bank when the account already has that day,
+ * and the profile's XP totals are then recounted from the merged records.
+ * The account's identity fields (email, creation date) are never changed.
+ *
+ * @param backup - A validated backup
+ * @param mode - Whether to merge into or replace the current data
+ * @returns Counts of written, skipped and deleted documents
+ */
+export const restoreAccountBackup = async (
+  backup: AccountBackup,
+  mode: RestoreMode
+): Promise<RestoreResult> => {
+  try {
+    const userId = getCurrentUserId();
+    const writes: ((batch: ReturnType<typeof writeBatch>) => void)[] = [];
+    const deletes: ((batch: ReturnType<typeof writeBatch>) => void)[] = [];
+    let written = 0;
+    let skipped = 0;
+    // XP bank days kept from the account in merge mode; their records are kept with them
+    const keptXpBankDays = new Set<string>();
+
+    for (const name of BACKUP_COLLECTIONS) {
+      const collectionRef = collection(FIREBASE_DB, 'users', userId, name);
+      const existing = await getDocs(collectionRef);
+      const existingIds = new Set(existing.docs.map(docSnapshot => docSnapshot.id));
+      const backupIds = new Set(backup.collections[name].map(document => document.id));
+
+      if (mode === 'merge' && name === 'xpBank') {
+        existingIds.forEach(day => keptXpBankDays.add(day));
+      }
+
+      backup.collections[name].forEach(document => {
+        if (mode === 'merge' && existingIds.has(document.id)) {
+          skipped++;
+          return;
+        }
+        // A day's bank total must keep matching its records, so don't add records to a kept day
+        if (name === 'xpBankRecords' && keptXpBankDays.has(document.data.date as string)) {
+          skipped++;
+          return;
+        }
+
+        const docRef: DocumentReference = doc(collectionRef, document.id);
+        const data = prepareDocumentData(name, document.data, userId);
+        writes.push(batch => batch.set(docRef, data));
+        written++;
+      });
+
+      if (mode === 'replace') {
+        existing.docs
+          .filter(docSnapshot => !backupIds.has(docSnapshot.id))
+          .forEach(docSnapshot => deletes.push(batch => batch.delete(docSnapshot.ref)));
+      }
+    }
+
+    // Write the backup before removing anything, so a failed restore never leaves the account emptier
+    await commitInBatches(writes);
+    await commitInBatches(deletes);
+
+    if (backup.profile) {
+      const userRef = doc(FIREBASE_DB, 'users', userId);
+      const currentProfile = (await getDoc(userRef)).data() || {};
+      const restoredProfile = decodeValue(backup.profile) as Record<string, any>;
+      PROFILE_IDENTITY_FIELDS.forEach(field => delete restoredProfile[field]);
+
+      if (mode === 'replace') {
+        // Overwrite the whole profile, keeping only the account's identity fields
+        const identity = PROFILE_IDENTITY_FIELDS.reduce((acc, field) => {
+          if (currentProfile[field] !== undefined) {
+            acc[field] = currentProfile[field];
+          }
+          return acc;
+        }, {} as Record<string, any>);
+        await setDoc(userRef, { ...restoredProfile, ...identity });
+      } else {
+        const profileUpdates = Object.keys(restoredProfile).reduce((acc, key) => {
+          if (currentProfile[key] === undefined || currentProfile[key] === null) {
+            acc[key] = restoredProfile[key];
+          }
+          return acc;
+        }, {} as Record<string, any>);
+
+        if (Object.keys(profileUpdates).length > 0) {
+          await setDoc(userRef, profileUpdates, { merge: true });
+        }
+      }
+    }
+
+    let message = mode === 'replace'
+      ? `Restored ${written} items. Your previous data was replaced.`
+      : `Restored ${written} items. ${skipped} items already in your account were kept.`;
+
+    // The kept profile's totals don't include the XP bank days just added
+    if (mode === 'merge') {
+      const reconciliation = await reconcileXp('restore');
+      if (!reconciliation.success) {
+        console.warn('Could not recount XP after restoring:', reconciliation.message);
+        message += ' Your XP total could not be recounted; run Check XP Totals in Settings.';
+      }
+    }
+
+    return {
+      success: true,
+      message,
+      written,
+      skipped,
+      deleted: deletes.length,
+    };
+  } catch (error) {
+    console.error('Error restoring account backup:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+};
@@ -0,0 +1,246 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import moment from 'moment';
+import { MaterialIcons } from '@expo/vector-icons';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { AchievementUnlock, JournalEntry, XPSettings } from '../types';
+import { getDeviceId } from './firebaseService';
+import { getDayKey } from './dateUtils';
+import { getDayReflections } from './journalEntries';
+import { getDailyXpCap, getDailyXpTarget, resolveXpSettings } from './xpSettings';
+
+/**
+ * The measures achievement rules are written against
+ */
+export interface AchievementData {
+  tasksCompleted: number;  // Completions in the task history, less undone ones
+  currentStreak: number;
+  bestStreak: number;      // Longest run of days with a completed task
+  journalDays: number;
+  journalStreak: number;   // Longest run of days with a journal reflection
+  capDaysThisWeek: number; // Days this week the daily cap (or target when the cap is off) was hit
+  totalXP: number;
+}
+
+export type AchievementMetric = keyof AchievementData;
+
+/**
+ * An achievement rule: unlocked once the metric reaches the target
+ */
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: keyof typeof MaterialIcons.glyphMap;
+  metric: AchievementMetric;
+  target: number;
+}
+
+export interface AchievementStatus {
+  definition: AchievementDefinition;
+  value: number;
+  unlocked: boolean;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'first-task', title: 'First Step', description: 'Complete your first task', icon: 'flag', metric: 'tasksCompleted', target: 1 },
+  { id: 'tasks-100', title: 'Centurion', description: 'Complete 100 tasks', icon: 'military-tech', metric: 'tasksCompleted', target: 100 },
+  { id: 'tasks-500', title: 'Task Machine', description: 'Complete 500 tasks', icon: 'precision-manufacturing', metric: 'tasksCompleted', target: 500 },
+  { id: 'streak-7', title: 'Week Warrior', description: 'Keep a 7-day streak', icon: 'local-fire-department', metric: 'bestStreak', target: 7 },
+  { id: 'streak-30', title: 'Unstoppable', description: 'Keep a 30-day streak', icon: 'whatshot', metric: 'bestStreak', target: 30 },
+  { id: 'journal-streak-7', title: 'Reflective', description: 'Journal 7 days in a row', icon: 'auto-stories', metric: 'journalStreak', target: 7 },
+  { id: 'journal-days-30', title: 'Storyteller', description: 'Journal on 30 different days', icon: 'menu-book', metric: 'journalDays', target: 30 },
+  { id: 'cap-5-week', title: 'Full Tank', description: 'Hit your daily cap 5 days in one week', icon: 'battery-charging-full', metric: 'capDaysThisWeek', target: 5 },
+  { id: 'xp-1000', title: 'XP Collector', description: 'Earn 1,000 XP', icon: 'stars', metric: 'totalXP', target: 1000 },
+];
+
+/**
+ * Length of the longest run of consecutive days
+ * @param dates Dates in YYYY-MM-DD format, in any order
+ */
+export const getLongestDayRun = (dates: string[]): number => {
+  const sorted = Array.from(new Set(dates)).sort();
+  let longest = 0;
+  let current = 0;
+
+  sorted.forEach((date, index) => {
+    const followsPrevious = index > 0 && moment(date).diff(moment(sorted[index - 1]), 'days') === 1;
+    current = followsPrevious ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+
+  return longest;
+};
+
+/**
+ * Check every achievement rule against the user's data
+ */
+export const evaluateAchievements = (data: AchievementData): AchievementStatus[] =>
+  ACHIEVEMENTS.map(definition => {
+    const value = data[definition.metric];
+    return { definition, value, unlocked: value >= definition.target };
+  });
+
+/**
+ * Count the days in the current week (Sunday to Saturday) that hit the daily cap,
+ * or the day's target when the cap is off
+ * @param snapshots Daily snapshots with their date and banked XP
+ */
+export const countCapDaysThisWeek = (
+  snapshots: { date: string; dailyXpBank?: number }[],
+  settings: XPSettings,
+  today: Date = new Date()
+): number => {
+  const todayKey = getDayKey(today);
+  const weekStart = moment(todayKey, 'YYYY-MM-DD').startOf('week').format('YYYY-MM-DD');
+  const weekEnd = moment(todayKey, 'YYYY-MM-DD').endOf('week').format('YYYY-MM-DD');
+  const cap = getDailyXpCap(settings);
+
+  return snapshots.filter(snapshot => {
+    if (snapshot.date < weekStart || snapshot.date > weekEnd) return false;
+    const goal = cap ?? getDailyXpTarget(settings, snapshot.date);
+    return goal > 0 && (snapshot.dailyXpBank || 0) >= goal;
+  }).length;
+};
+
+/**
+ * Gather the measures achievements are checked against
+ * Reads the task history, daily snapshots, journal and the user's stats
+ * @param userId The user ID
+ */
+export const loadAchievementData = async (userId: string): Promise<AchievementData> => {
+  const [historyDocs, snapshotDocs, journalDocs, userDoc] = await Promise.all([
+    getDocs(collection(FIREBASE_DB, 'users', userId, 'taskHistory')),
+    getDocs(collection(FIREBASE_DB, 'users', userId, 'dailySnapshots')),
+    getDocs(collection(FIREBASE_DB, 'users', userId, 'journal')),
+    getDoc(doc(FIREBASE_DB, 'users', userId)),
+  ]);
+
+  let completions = 0;
+  historyDocs.forEach(historyDoc => {
+    const { action } = historyDoc.data();
+    if (action === 'completed') completions++;
+    if (action === 'uncompleted') completions--;
+  });
+
+  const snapshots = snapshotDocs.docs.map(snapshotDoc => ({ date: snapshotDoc.id, ...snapshotDoc.data() } as {
+    date: string;
+    tasksCompleted?: number;
+    dailyXpBank?: number;
+  }));
+  const activeDays = snapshots.filter(snapshot => (snapshot.tasksCompleted || 0) > 0).map(snapshot => snapshot.date);
+
+  const journalDays = journalDocs.docs
+    .filter(journalDoc => getDayReflections(journalDoc.data() as JournalEntry).length > 0)
+    .map(journalDoc => journalDoc.id);
+
+  const userData = userDoc.exists() ? userDoc.data() : {};
+  const currentStreak = userData.streakCount || 0;
+
+  return {
+    tasksCompleted: Math.max(0, completions),
+    currentStreak,
+    bestStreak: Math.max(currentStreak, getLongestDayRun(activeDays)),
+    journalDays: journalDays.length,
+    journalStreak: getLongestDayRun(journalDays),
+    capDaysThisWeek: countCapDaysThisWeek(snapshots, resolveXpSettings(userData.xpSettings)),
+    totalXP: userData.totalXP || 0,
+  };
+};
+
+/**
+ * Check the current user's achievements and store any new unlocks
+ *
+ * Each achievement is stored once, under its ID, inside a transaction, so only one
+ * device ever unlocks it and celebrates.
+ * @returns The achievements this call unlocked
+ */
+export const checkAchievements = async (): Promise<AchievementDefinition[]> => {
+  try {
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    const data = await loadAchievementData(user.uid);
+    const reached = evaluateAchievements(data).filter(status => status.unlocked);
+    if (reached.length === 0) return [];
+
+    const deviceId = await getDeviceId();
+    const refs = reached.map(status => doc(FIREBASE_DB, 'users', user.uid, 'achievements', status.definition.id));
+
+    return await runTransaction(FIREBASE_DB, async (transaction) => {
+      const existing = await Promise.all(refs.map(ref => transaction.get(ref)));
+      const unlocked: AchievementDefinition[] = [];
+
+      existing.forEach((snapshot, index) => {
+        if (snapshot.exists()) return;
+
+        const { definition, value } = reached[index];
+        transaction.set(refs[index], {
+          id: definition.id,
+          title: definition.title,
+          value,
+          unlockedAt: serverTimestamp(),
+          deviceId,
+        });
+        unlocked.push(definition);
+      });
+
+      return unlocked;
+    });
+  } catch (error) {
+    console.error('Error checking achievements:', error);
+    return [];
+  }
+};
+
+/**
+ * Subscribe to the current user's unlocked achievements
+ * @param onNext Called with the unlocks keyed by achievement ID
+ */
+export const subscribeToAchievements = (
+  onNext: (unlocks: Record<string, AchievementUnlock>) => void
+): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext({});
+    return () => {};
+  }
+
+  return onSnapshot(collection(FIREBASE_DB, 'users', user.uid, 'achievements'), (snapshot) => {
+    const unlocks: Record<string, AchievementUnlock> = {};
+    snapshot.forEach(unlockDoc => {
+      unlocks[unlockDoc.id] = unlockDoc.data() as AchievementUnlock;
+    });
+    onNext(unlocks);
+  }, (error) => {
+    console.error('Error in achievements listener:', error);
+    onNext({});
+  });
+};
+
+/**
+ * Subscribe to the changes that can unlock an achievement: the user's stats
+ * (updated with every completion) and their journal
+ * @param onChange Called on every change, including the first load of each
+ */
+export const subscribeToAchievementProgress = (onChange: () => void): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) return () => {};
+
+  const onError = (error: Error) => console.error('Error in achievement progress listener:', error);
+  const unsubscribeStats = onSnapshot(doc(FIREBASE_DB, 'users', user.uid), () => onChange(), onError);
+  const unsubscribeJournal = onSnapshot(collection(FIREBASE_DB, 'users', user.uid, 'journal'), () => onChange(), onError);
+
+  return () => {
+    unsubscribeStats();
+    unsubscribeJournal();
+  };
+};
@@ -0,0 +1,242 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { DEMO_MODE } from '../repositories';
+import { RolloverRecord } from '../types';
+import { addDaysToKey, getDayKey } from './dateUtils';
+import { isRetryableError } from './errorUtils';
+import { getDeviceId, SubTask, Task } from './firebaseService';
+import { isTaskDueOn } from './recurrenceUtils';
+import { refreshStreak } from './streaks';
+
+// Days missed further back than this are skipped; older one-off tasks are still archived
+export const MAX_ROLLOVER_BACKFILL_DAYS = 31;
+
+export interface RolloverPlan {
+  reset: Task[];   // Recurring tasks due on the day that still hold an earlier day's progress
+  archive: Task[]; // One-off tasks completed before the day
+}
+
+export interface RolloverResult {
+  success: boolean;
+  message: string;
+  daysRolledOver: string[];
+}
+
+// The day a completion happened on; undefined when it isn't known
+const getCompletionDay = (completedAt?: Timestamp | null, lastCompletedDate?: string | null): string | undefined =>
+  lastCompletedDate || (completedAt ? getDayKey(completedAt.toDate()) : undefined);
+
+const isSubtaskFromEarlierDay = (subtask: SubTask, day: string): boolean => {
+  if (!subtask.completed) return false;
+  const completedAt = subtask.completedAt as Timestamp | null | undefined;
+  return !completedAt || getDayKey(completedAt.toDate()) < day;
+};
+
+/**
+ * The days the rollover still has to run for, oldest first
+ * @param lastRolloverDay The latest day already rolled over, if any
+ * @param today The user's current day
+ */
+export const getDaysToRollOver = (lastRolloverDay: string | undefined, today: string): string[] => {
+  if (!lastRolloverDay) return [today];
+  if (lastRolloverDay >= today) return [];
+
+  const earliest = addDaysToKey(today, 1 - MAX_ROLLOVER_BACKFILL_DAYS);
+  const nextDay = addDaysToKey(lastRolloverDay, 1);
+  const days: string[] = [];
+  for (let day = nextDay > earliest ? nextDay : earliest; day <= today; day = addDaysToKey(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+/**
+ * Decide what a day's rollover changes
+ *
+ * Only progress from before the day is touched, so running a rollover late, or for an
+ * earlier missed day, never undoes something done on a later day.
+ * @param tasks The user's tasks
+ * @param day The day being started
+ */
+export const planRollover = (tasks: Task[], day: string): RolloverPlan => {
+  const plan: RolloverPlan = { reset: [], archive: [] };
+
+  tasks.forEach(task => {
+    if (task.recurring) {
+      if (!isTaskDueOn(task, day)) return;
+      const completionDay = getCompletionDay(task.completedAt, task.lastCompletedDate);
+      const completedEarlier = task.completed && (!completionDay || completionDay < day);
+      const subtasksFromEarlier = !task.completed && (task.subtasks || []).some(subtask => isSubtaskFromEarlierDay(subtask, day));
+      if (completedEarlier || subtasksFromEarlier) {
+        plan.reset.push(task);
+      }
+      return;
+    }
+
+    if (task.completed && !task.archived && !task.archivedDate) {
+      const completionDay = getCompletionDay(task.completedAt, task.lastCompletedDate);
+      if (!completionDay || completionDay < day) {
+        plan.archive.push(task);
+      }
+    }
+  });
+
+  return plan;
+};
+
+/**
+ * Run the rollover for one day, at most once across all devices
+ * The day's ledger entry is written in the same transaction as the changes, so a second
+ * device that gets there first makes this a no-op.
+ * @returns The ledger entry, or null when the day was already rolled over
+ */
+const rollOverDay = async (userId: string, day: string, deviceId: string): Promise<RolloverRecord | null> => {
+  const userRef = doc(FIREBASE_DB, 'users', userId);
+  const ledgerRef = doc(FIREBASE_DB, 'users', userId, 'rollovers', day);
+  const xpBankRef = doc(FIREBASE_DB, 'users', userId, 'xpBank', day);
+
+  // Queries can't run inside a transaction, so find the candidates first and re-check them inside
+  const taskDocs = await getDocs(collection(FIREBASE_DB, 'users', userId, 'tasks'));
+  const candidates = planRollover(
+    taskDocs.docs.map(taskDoc => ({ id: taskDoc.id, ...taskDoc.data() } as Task)),
+    day
+  );
+  const candidateRefs = [...candidates.reset, ...candidates.archive]
+    .map(task => doc(FIREBASE_DB, 'users', userId, 'tasks', task.id));
+
+  return runTransaction(FIREBASE_DB, async (transaction) => {
+    const ledgerDoc = await transaction.get(ledgerRef);
+    if (ledgerDoc.exists()) return null;
+
+    const userDoc = await transaction.get(userRef);
+    const xpBankDoc = await transaction.get(xpBankRef);
+    const freshTasks = (await Promise.all(candidateRefs.map(ref => transaction.get(ref))))
+      .filter(taskDoc => taskDoc.exists())
+      .map(taskDoc => ({ id: taskDoc.id, ...taskDoc.data() } as Task));
+    const plan = planRollover(freshTasks, day);
+
+    plan.reset.forEach(task => {
+      const updateData: Record<string, unknown> = {
+        completed: false,
+        completedAt: null,
+        // lastCompletedDate is kept for streaks and missed-day tracking
+      };
+      if (task.subtasks && task.subtasks.length > 0) {
+        updateData.subtasks = task.subtasks.map(subtask => (
+          isSubtaskFromEarlierDay(subtask, day) ? { ...subtask, completed: false, completedAt: null } : subtask
+        ));
+      }
+      transaction.update(doc(FIREBASE_DB, 'users', userId, 'tasks', task.id), updateData);
+    });
+
+    plan.archive.forEach(task => {
+      transaction.update(doc(FIREBASE_DB, 'users', userId, 'tasks', task.id), {
+        archivedAt: serverTimestamp(),
+        archivedDate: day,
+      });
+    });
+
+    const record: RolloverRecord = {
+      day,
+      tasksReset: plan.reset.length,
+      tasksArchived: plan.archive.length,
+      rolledOverAt: Timestamp.now(),
+      deviceId,
+    };
+    transaction.set(ledgerRef, { ...record, rolledOverAt: serverTimestamp() });
+
+    if (userDoc.exists()) {
+      const lastRolloverDay = userDoc.data().lastRolloverDay as string | undefined;
+      // Today's XP starts from whatever is already banked for the day, usually nothing
+      const userUpdates: Record<string, unknown> = {
+        todayXP: xpBankDoc.exists() ? xpBankDoc.data().totalXP || 0 : 0,
+        lastReset: serverTimestamp(),
+      };
+      if (!lastRolloverDay || lastRolloverDay < day) {
+        userUpdates.lastRolloverDay = day;
+      }
+      transaction.update(userRef, userUpdates);
+    }
+
+    return record;
+  });
+};
+
+let rolloverInFlight: Promise<RolloverResult> | null = null;
+let lastCheckedDay: { userId: string; day: string } | null = null;
+
+/**
+ * Start the current user's day: reset recurring tasks that are due, archive finished
+ * one-off tasks and start today's XP
+ *
+ * This is the only daily reset. It's safe to call from any device, as often as you like:
+ * each day is rolled over once, recorded in the user's rollover ledger, and days missed
+ * while the app was closed are rolled over in order first.
+ * The ledger needs a transaction, so offline the rollover waits: the next call once the
+ * device is back online picks up every day that's still missing.
+ */
+export const runDailyRollover = async (): Promise<RolloverResult> => {
+  // Demo tasks live in memory for one session, so there are no days to start
+  if (DEMO_MODE) {
+    return { success: true, message: 'Demo mode has no daily rollover', daysRolledOver: [] };
+  }
+
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    return { success: false, message: 'User not authenticated', daysRolledOver: [] };
+  }
+
+  const today = getDayKey();
+  if (lastCheckedDay?.userId === user.uid && lastCheckedDay?.day === today) {
+    return { success: true, message: 'Already rolled over today', daysRolledOver: [] };
+  }
+  if (rolloverInFlight) return rolloverInFlight;
+
+  rolloverInFlight = (async (): Promise<RolloverResult> => {
+    try {
+      const userDoc = await getDoc(doc(FIREBASE_DB, 'users', user.uid));
+      if (!userDoc.exists()) {
+        return { success: false, message: 'User stats not found', daysRolledOver: [] };
+      }
+
+      const deviceId = await getDeviceId();
+      const daysRolledOver: string[] = [];
+      for (const day of getDaysToRollOver(userDoc.data().lastRolloverDay, today)) {
+        const record = await rollOverDay(user.uid, day, deviceId);
+        if (record) daysRolledOver.push(day);
+      }
+
+      if (daysRolledOver.length > 0) {
+        // A missed day either breaks the streak or spends a freeze
+        await refreshStreak();
+      }
+      lastCheckedDay = { userId: user.uid, day: today };
+
+      return {
+        success: true,
+        message: daysRolledOver.length > 0
+          ? `Rolled over ${daysRolledOver.join(', ')}`
+          : 'Already rolled over today',
+        daysRolledOver,
+      };
+    } catch (error: any) {
+      if (isRetryableError(error)) {
+        return { success: false, message: 'Offline; the rollover runs once the device is back online', daysRolledOver: [] };
+      }
+      console.error('Error running daily rollover:', error);
+      return { success: false, message: error.message || 'Failed to run daily rollover', daysRolledOver: [] };
+    } finally {
+      rolloverInFlight = null;
+    }
+  })();
+
+  return rolloverInFlight;
+};
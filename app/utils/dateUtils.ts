@@ -1,8 +1,163 @@
 import { Timestamp } from 'firebase/firestore';
+import { DaySettings } from '../types';
 
 /**
- * Formats a Date object as YYYY-MM-DD string
- * Uses UTC to avoid timezone issues
+ * The device's IANA time zone, e.g. "America/New_York"
+ */
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+/**
+ * Whether a time zone name is one the device knows
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Used until the user's settings are loaded, and for accounts that never changed them
+export const getDefaultDaySettings = (): DaySettings => ({
+  timeZone: getDeviceTimeZone(),
+  dayStartHour: 0,
+});
+
+// The signed-in user's day settings; kept up to date by DaySettingsManager
+let activeDaySettings: DaySettings = getDefaultDaySettings();
+
+/**
+ * Use these settings for every day key worked out from now on
+ */
+export const setActiveDaySettings = (settings: DaySettings): void => {
+  activeDaySettings = settings;
+};
+
+/**
+ * The day settings in use
+ */
+export const getActiveDaySettings = (): DaySettings => activeDaySettings;
+
+// Building a formatter is slow, so keep one per time zone
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The wall-clock date and time of an instant in a time zone
+ */
+const getZonedParts = (date: Date, timeZone: string) => {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24, // Some engines show midnight as 24
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+/**
+ * How far a time zone is ahead of UTC at an instant, in minutes
+ * This changes across DST transitions, so always pass the instant in question
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+const toDayKey = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Move a day key by whole calendar days
+ * Works on the calendar date alone, so DST changes can't skip or repeat a day
+ * @param dayKey Day in YYYY-MM-DD format
+ * @param days Days to add; negative to go back
+ */
+export const addDaysToKey = (dayKey: string, days: number): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return toDayKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+};
+
+/**
+ * The user's day an instant belongs to, as YYYY-MM-DD
+ *
+ * This is the one place that decides which day something happened on: it reads the
+ * wall clock in the user's time zone and counts anything before their day start
+ * hour as the day before. Use it instead of comparing `new Date()` values.
+ * @param date The instant (defaults to now)
+ * @param settings Time zone and day start hour (defaults to the signed-in user's)
+ */
+export const getDayKey = (date: Date = new Date(), settings: DaySettings = activeDaySettings): string => {
+  const parts = getZonedParts(date, settings.timeZone);
+  const calendarDay = toDayKey(parts.year, parts.month, parts.day);
+  return parts.hour < settings.dayStartHour ? addDaysToKey(calendarDay, -1) : calendarDay;
+};
+
+/**
+ * The instant a user's day begins
+ * When clocks go forward through the start hour, the day begins at the first moment
+ * that exists; when they go back, at the first of the repeated hours.
+ * @param dayKey Day in YYYY-MM-DD format
+ * @param settings Time zone and day start hour (defaults to the signed-in user's)
+ */
+export const getDayStart = (dayKey: string, settings: DaySettings = activeDaySettings): Date => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, settings.dayStartHour);
+
+  // Guess with the offset at the wall-clock time, then correct with the offset at the guess
+  const first = wallClock - getTimeZoneOffset(new Date(wallClock), settings.timeZone) * 60000;
+  const second = wallClock - getTimeZoneOffset(new Date(first), settings.timeZone) * 60000;
+  // Both guesses can land on the later of two repeated hours, so also try the offset from an hour before
+  const earlier = wallClock - getTimeZoneOffset(new Date(first - 3600000), settings.timeZone) * 60000;
+  if (first === second && second === earlier) return new Date(first);
+
+  const startsTheDay = (time: number) => {
+    const parts = getZonedParts(new Date(time), settings.timeZone);
+    return toDayKey(parts.year, parts.month, parts.day) === dayKey && parts.hour === settings.dayStartHour;
+  };
+  const matches = [first, second, earlier].filter(startsTheDay);
+  return new Date(matches.length > 0 ? Math.min(...matches) : Math.max(first, second));
+};
+
+/**
+ * The instant the user's next day begins
+ * @param now The current time (defaults to now)
+ * @param settings Time zone and day start hour (defaults to the signed-in user's)
+ */
+export const getNextDayStart = (now: Date = new Date(), settings: DaySettings = activeDaySettings): Date =>
+  getDayStart(addDaysToKey(getDayKey(now, settings), 1), settings);
+
+/**
+ * Formats a calendar date as a YYYY-MM-DD string
+ * For picked dates and calendar grids; use getDayKey to find the day something happened on
  * @param date Date object to format
  * @returns Formatted date string
  */
@@ -102,52 +257,24 @@ export const getDaysBetween = (start: Date, end: Date): number => {
 };
 
 /**
- * Gets an array of date strings for the past n days
- * Uses UTC to avoid timezone issues
+ * Gets an array of day keys for the past n days, today first
  * @param days Number of days to include
  * @returns Array of date strings in YYYY-MM-DD format
  */
 export const getPastDaysDateStrings = (days: number): string[] => {
-  const dates: string[] = [];
-  // Create today at noon UTC to avoid timezone issues
-  const now = new Date();
-  const today = new Date(Date.UTC(
-    now.getFullYear(),
-    now.getMonth(),
-    now.getDate(),
-    12, 0, 0
-  ));
-  
-  for (let i = 0; i < days; i++) {
-    // Create a new UTC date for each day
-    const date = new Date(today);
-    date.setUTCDate(today.getUTCDate() - i);
-    dates.push(formatDateString(date));
-  }
-  
-  return dates;
+  const today = getDayKey();
+  return Array.from({ length: days }, (_, i) => addDaysToKey(today, -i));
 };
 
 /**
- * Gets an array of date strings for the current month up to today
+ * Gets an array of day keys for the current month up to today
  * @returns Array of date strings in YYYY-MM-DD format
  */
 export const getCurrentMonthDates = (): string[] => {
+  const today = getDayKey();
   const dates: string[] = [];
-  const today = new Date();
-  const currentMonth = today.getMonth();
-  const currentYear = today.getFullYear();
-  
-  // Get the number of days in the current month
-  const daysInMonth = new Date(currentYear, currentMonth + 1, 0).getDate();
-  
-  for (let i = 1; i <= daysInMonth; i++) {
-    const date = new Date(currentYear, currentMonth, i);
-    // Only include days up to today
-    if (date <= today) {
-      dates.push(formatDateString(date));
-    }
+  for (let date = `${today.slice(0, 8)}01`; date <= today; date = addDaysToKey(date, 1)) {
+    dates.push(date);
   }
-  
   return dates;
 };
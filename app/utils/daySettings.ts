@@ -0,0 +1,124 @@
+import { doc, onSnapshot, updateDoc, Unsubscribe } from 'firebase/firestore';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { DEMO_MODE, DEMO_MODE_MESSAGE } from '../repositories';
+import { DaySettings } from '../types';
+import { getDefaultDaySettings, isValidTimeZone, setActiveDaySettings } from './dateUtils';
+
+export const DAY_START_HOUR_OPTIONS = [0, 3, 4, 5, 6];
+
+// The last settings seen, so days are counted right before the user document loads
+const DAY_SETTINGS_CACHE_KEY = 'daySettings';
+
+let cachedSettingsLoad: Promise<void> | null = null;
+let settingsApplied = false;
+
+/**
+ * Fill in defaults for missing or malformed day settings
+ * The device time zone is used until one is stored
+ */
+export const resolveDaySettings = (raw?: Partial<DaySettings> | null): DaySettings => {
+  const defaults = getDefaultDaySettings();
+  return {
+    timeZone: raw && typeof raw.timeZone === 'string' && isValidTimeZone(raw.timeZone)
+      ? raw.timeZone
+      : defaults.timeZone,
+    dayStartHour: raw && Number.isInteger(raw.dayStartHour) && raw.dayStartHour! >= 0 && raw.dayStartHour! <= 23
+      ? raw.dayStartHour!
+      : defaults.dayStartHour,
+  };
+};
+
+/**
+ * Describe a day start hour, e.g. "Midnight" or "4 AM"
+ */
+export const describeDayStartHour = (hour: number): string => {
+  if (hour === 0) return 'Midnight';
+  if (hour === 12) return 'Noon';
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+};
+
+/**
+ * Start counting days with the given settings, and remember them for the next launch
+ */
+export const applyDaySettings = async (settings: DaySettings): Promise<void> => {
+  settingsApplied = true;
+  setActiveDaySettings(settings);
+  try {
+    await AsyncStorage.setItem(DAY_SETTINGS_CACHE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error caching day settings:', error);
+  }
+};
+
+/**
+ * Start counting days with the settings from the last launch, if any
+ * The cache is read once; await this before working out today's date at startup
+ */
+export const loadCachedDaySettings = (): Promise<void> => {
+  if (!cachedSettingsLoad) {
+    cachedSettingsLoad = (async () => {
+      try {
+        const cached = await AsyncStorage.getItem(DAY_SETTINGS_CACHE_KEY);
+        // Settings from the user document may have arrived while the cache was read
+        if (cached && !settingsApplied) {
+          setActiveDaySettings(resolveDaySettings(JSON.parse(cached)));
+        }
+      } catch (error) {
+        console.error('Error loading cached day settings:', error);
+      }
+    })();
+  }
+  return cachedSettingsLoad;
+};
+
+/**
+ * Subscribe to the current user's day settings
+ * @param onNext Called with the settings, and whether any are stored on the user document yet
+ */
+export const subscribeToDaySettings = (
+  onNext: (settings: DaySettings, stored: boolean) => void
+): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext(getDefaultDaySettings(), false);
+    return () => {};
+  }
+
+  return onSnapshot(doc(FIREBASE_DB, 'users', user.uid), (snapshot) => {
+    const raw = snapshot.data()?.daySettings;
+    onNext(resolveDaySettings(raw), !!raw?.timeZone);
+  }, (error) => {
+    console.error('Error in day settings listener:', error);
+  });
+};
+
+/**
+ * Save the current user's day settings
+ * Days already recorded keep their dates; only new activity uses the new boundary
+ * @param settings The new settings
+ */
+export const saveDaySettings = async (settings: DaySettings) => {
+  try {
+    if (DEMO_MODE) return { success: false, message: DEMO_MODE_MESSAGE };
+
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    if (!isValidTimeZone(settings.timeZone)) {
+      return { success: false, message: `Unknown time zone "${settings.timeZone}"` };
+    }
+    if (!Number.isInteger(settings.dayStartHour) || settings.dayStartHour < 0 || settings.dayStartHour > 23) {
+      return { success: false, message: 'The day must start on a whole hour' };
+    }
+
+    await updateDoc(doc(FIREBASE_DB, 'users', user.uid), {
+      daySettings: { timeZone: settings.timeZone, dayStartHour: settings.dayStartHour },
+    });
+    await applyDaySettings(settings);
+    return { success: true, message: 'Day settings saved' };
+  } catch (error: any) {
+    console.error('Error saving day settings:', error);
+    return { success: false, message: error.message || 'Failed to save day settings' };
+  }
+};
@@ -63,3 +63,22 @@ export function logErrorWithContext(
     ...additionalInfo
   });
 }
+
+/**
+ * Exponential backoff delay for a retry attempt, with a little jitter so
+ * several queued operations do not retry in lockstep
+ * 
+ * @param attempt - Number of attempts already made (0 for the first retry)
+ * @param baseDelayMs - Delay before the first retry
+ * @param maxDelayMs - Upper bound for the delay
+ * @returns Delay in milliseconds before the next attempt
+ */
+export function getRetryDelay(
+  attempt: number,
+  baseDelayMs: number = 2000,
+  maxDelayMs: number = 5 * 60 * 1000
+): number {
+  const exponentialDelay = Math.min(baseDelayMs * Math.pow(2, attempt), maxDelayMs);
+  const jitter = Math.random() * 0.2 * exponentialDelay;
+  return Math.round(Math.min(exponentialDelay + jitter, maxDelayMs));
+}
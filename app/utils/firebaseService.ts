@@ -2,28 +2,21 @@ import {
   collection, 
   query, 
   where, 
-  getDocs, 
   getDoc,
   setDoc,
-  addDoc, 
   updateDoc, 
-  deleteDoc, 
   doc, 
   Timestamp,
   onSnapshot,
   orderBy,
   limit,
-  runTransaction,
-  serverTimestamp,
-  increment,
-  DocumentReference,
   QueryConstraint,
-  Unsubscribe,
-  writeBatch
+  Unsubscribe
 } from 'firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
-import { JournalEntry, UserStats, DailyStats as DailyStatsType, Task as TaskType, SubTask } from '../types';
+import { getRepositories, JournalDay, JournalDayChange, TaskChanges } from '../repositories';
+import { JournalEntry, JournalReflection, NewJournalReflection, UserStats, DailyStats as DailyStatsType, Task as TaskType, SubTask, TaskRecurrence } from '../types';
 
 // Extended Task interface to include category, emoji, XP adjustment, recurring tasks, and offline support properties
 export interface Task extends TaskType {
@@ -44,6 +37,7 @@ export interface Task {
   title: string;
   description?: string;
   category?: string; // Making this optional for backward compatibility
+  tags?: string[];  // Free-form tags, lowercase
   emoji?: string;   // Emoji for visual representation
   xp: number;       // Current XP value (may be adjusted when completed)
   plannedXp?: number; // Original planned XP value (never changes after creation)
@@ -56,20 +50,36 @@ export interface Task {
   isPending?: boolean; // Flag to indicate if the task has pending changes (for offline support)
   syncStatus?: 'synced' | 'pending' | 'error'; // Status of synchronization with the server
   lastSyncAttempt?: number; // Timestamp of the last sync attempt
-  recurring?: boolean; // Flag to indicate if the task should recur daily
+  recurring?: boolean; // Flag to indicate if the task should recur
+  recurrence?: TaskRecurrence; // Which days a recurring task is due (defaults to daily)
   lastCompletedDate?: string | null; // The date when the task was last completed (YYYY-MM-DD format)
   pinned?: boolean; // Flag to indicate if the task is pinned to the top of the dashboard
   adjustmentReason?: string; // Reason why XP was adjusted
   archived?: boolean; // Flag to indicate if the task has been archived
+  archivedDate?: string; // The day the daily rollover archived a completed one-off task
   subtasks?: SubTask[]; // Array of subtasks
+  updatedAt?: Timestamp; // Server time of the last write, used for sync conflict detection
+  lastModifiedBy?: string; // Device ID that performed the last write
 }
-import { formatDateString, dateToTimestamp } from './dateUtils';
-import { arrayUnion, arrayRemove } from 'firebase/firestore';
+import { dateToTimestamp, getDayKey } from './dateUtils';
 import { isRetryableError, logErrorWithContext } from './errorUtils';
+import { buildJournalDay, createReflectionId, getDayReflections, isLegacyJournalDay } from './journalEntries';
+import {
+  DEFAULT_DAILY_XP_CAP,
+  DEFAULT_XP_SETTINGS,
+  capDailyXp,
+  getDailyXpCap,
+  getRemainingDailyXp,
+  getWeeklyXpGoal,
+  getXpSettings,
+  saveXpSettings,
+} from './xpSettings';
+import { refreshStreak } from './streaks';
 
 // Constants
-export const XP_CAP = 100; // Maximum total XP allowed per day
-export const DEFAULT_WEEKLY_XP_GOAL = 700; // Default weekly XP goal (100 XP per day)
+// Defaults for new users; each user's cap and goals come from their XP settings (see xpSettings.ts)
+export const XP_CAP = DEFAULT_DAILY_XP_CAP;
+export const DEFAULT_WEEKLY_XP_GOAL = getWeeklyXpGoal(DEFAULT_XP_SETTINGS);
 
 // XP Bank Action Types
 export type XPBankActionType = 'completed' | 'modified' | 'deleted' | 'adjusted';
@@ -86,7 +96,7 @@ export interface XPBankRecord {
   originalXp?: number;   // Original XP before adjustment
   wasAdjusted?: boolean; // Flag if XP was adjusted
   adjustmentReason?: string; // Reason for adjustment
-  actionType: 'completed' | 'adjusted' | 'deleted';
+  actionType: 'completed' | 'adjusted' | 'modified' | 'deleted';
   timestamp: Timestamp;  // When this record was created
   taskData?: any;        // Copy of relevant task data at completion time
 }
@@ -96,8 +106,8 @@ export interface DailyXPBank {
   id: string;
   userId: string;
   date: string; // YYYY-MM-DD format
-  totalXP: number; // Total XP earned for the day (capped at XP_CAP)
-  availableXP: number; // Available XP remaining for the day
+  totalXP: number; // Total XP earned for the day (capped at the user's daily cap)
+  availableXP: number | null; // Available XP remaining for the day, null when the cap is off
   records: string[]; // Array of XPBankRecord IDs
   lastUpdated: Timestamp;
 }
@@ -149,177 +159,6 @@ const getCurrentUserIdWithError = (): string => {
   return user.uid;
 };
 
-/**
- * Reset recurring tasks for a new day
- * 
- * This function checks for recurring tasks that were completed on previous days
- * and resets them to be available for completion today.
- * 
- * It also handles tasks that were never completed but should be reset for the new day.
- */
-export const resetRecurringTasks = async (): Promise<{ success: boolean; message?: string; tasksReset?: number }> => {
-  try {
-    const userId = getCurrentUserIdWithError();
-    const today = new Date();
-    const todayStr = formatDateString(today);
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yesterdayStr = formatDateString(yesterday);
-    
-    // Get all tasks for the user
-    const userTasksRef = collection(FIREBASE_DB, 'users', userId, 'tasks');
-    // Get all recurring tasks, both completed and uncompleted
-    const userTasksQuery = query(userTasksRef, where('recurring', '==', true));
-    const userTasksSnapshot = await getDocs(userTasksQuery);
-    
-    // Create a batch for all updates
-    const batch = writeBatch(FIREBASE_DB);
-    let tasksResetCount = 0;
-    
-    userTasksSnapshot.forEach((docSnapshot) => {
-      const task = docSnapshot.data() as Task;
-      let shouldReset = false;
-      
-      // Case 1: Recurring task that was completed on a previous day
-      if (task.completed && task.lastCompletedDate && task.lastCompletedDate !== todayStr) {
-        shouldReset = true;
-      }
-      
-      // Case 2: Recurring task that wasn't completed yesterday but should be available today
-      if (!task.completed && (!task.lastCompletedDate || task.lastCompletedDate < yesterdayStr)) {
-        // This ensures tasks that weren't completed yesterday are still available today
-        shouldReset = true;
-      }
-      
-      if (shouldReset) {
-        // Reset the task to be available for today
-        const updateData: any = {
-          completed: false,
-          completedAt: null,
-          // Don't update lastCompletedDate here to preserve streak tracking
-        };
-        
-        // If the task has subtasks, reset their completion status too
-        if (task.subtasks && task.subtasks.length > 0) {
-          const resetSubtasks = task.subtasks.map(subtask => ({
-            ...subtask,
-            completed: false,
-            completedAt: null
-          }));
-          updateData.subtasks = resetSubtasks;
-        }
-        
-        batch.update(docSnapshot.ref, updateData);
-        
-        // Only update the legacy collection if we're not disabling legacy access
-        if (!DISABLE_LEGACY_TASKS_ACCESS) {
-          try {
-            const legacyTaskRef = doc(FIREBASE_DB, 'tasks', task.id);
-            batch.update(legacyTaskRef, {
-              completed: false,
-              completedAt: null
-            });
-          } catch (legacyError) {
-            console.warn(`Skipping legacy update for task ${task.id} due to possible permission issues`);
-          }
-        }
-        
-        tasksResetCount++;
-      }
-    });
-    
-    // Only commit if there are tasks to reset
-    if (tasksResetCount > 0) {
-      await batch.commit();
-      console.log(`Reset ${tasksResetCount} recurring tasks for ${todayStr}`);
-    } else {
-      console.log('No recurring tasks needed to be reset');
-    }
-    
-    return {
-      success: true,
-      message: `${tasksResetCount} recurring tasks reset for today`,
-      tasksReset: tasksResetCount
-    };
-  } catch (error) {
-    console.error('Error resetting recurring tasks:', error);
-    return {
-      success: false,
-      message: `Error resetting recurring tasks: ${error instanceof Error ? error.message : String(error)}`
-    };
-  }
-};
-
-/**
- * Force reset all tasks for testing purposes
- * 
- * This function resets all tasks based on their recurring property:
- * - Recurring tasks: Reset to uncompleted state
- * - Non-recurring tasks: Leave completed tasks completed, reset uncompleted tasks
- * 
- * Use this function only for testing or when you need to manually reset the task state.
- */
-export const forceResetAllTasks = async (): Promise<{ success: boolean; message?: string; tasksReset?: number }> => {
-  try {
-    const userId = getCurrentUserIdWithError();
-    const today = new Date();
-    const todayStr = formatDateString(today);
-    
-    // Get all tasks for the user
-    const userTasksRef = collection(FIREBASE_DB, 'users', userId, 'tasks');
-    const userTasksSnapshot = await getDocs(userTasksRef);
-    
-    // Create a batch for all updates
-    const batch = writeBatch(FIREBASE_DB);
-    let recurringTasksReset = 0;
-    let nonRecurringTasksReset = 0;
-    
-    userTasksSnapshot.forEach((docSnapshot) => {
-      const task = docSnapshot.data() as Task;
-      
-      // Handle recurring tasks - always reset to uncompleted
-      if (task.recurring === true) {
-        batch.update(docSnapshot.ref, {
-          completed: false,
-          completedAt: null,
-          lastCompletedDate: task.completed ? todayStr : task.lastCompletedDate
-        });
-        recurringTasksReset++;
-      }
-      // Handle non-recurring tasks - only reset if they're not already completed
-      else if (!task.completed) {
-        // For non-recurring tasks that aren't completed, just ensure they're in the right state
-        batch.update(docSnapshot.ref, {
-          completed: false,
-          completedAt: null
-        });
-        nonRecurringTasksReset++;
-      }
-      // Leave completed non-recurring tasks alone - they should stay completed
-    });
-    
-    // Only commit if there are tasks to reset
-    if (recurringTasksReset > 0 || nonRecurringTasksReset > 0) {
-      await batch.commit();
-      console.log(`Force reset ${recurringTasksReset} recurring tasks and ${nonRecurringTasksReset} non-recurring tasks`);
-    } else {
-      console.log('No tasks needed to be reset');
-    }
-    
-    return {
-      success: true,
-      message: `Reset ${recurringTasksReset} recurring tasks and ${nonRecurringTasksReset} non-recurring tasks`,
-      tasksReset: recurringTasksReset + nonRecurringTasksReset
-    };
-  } catch (error) {
-    console.error('Error force resetting tasks:', error);
-    return {
-      success: false,
-      message: `Error force resetting tasks: ${error instanceof Error ? error.message : String(error)}`
-    };
-  }
-};
-
 /**
  * Get user account creation date
  */
@@ -342,30 +181,25 @@ export const ALLOW_CLIENT_DAILYSTATS_WRITE = false;
 export const getTasks = async (): Promise<Task[]> => {
   try {
     const userId = getCurrentUserId();
-    const userTasksRef = collection(FIREBASE_DB, 'users', userId, 'tasks');
-    const querySnapshot = await getDocs(userTasksRef);
-    
-    const tasks: Task[] = [];
-    querySnapshot.forEach((doc) => {
-      // Create a new object with id first to avoid duplication
-      const taskData = doc.data();
-      tasks.push({ 
-        id: doc.id, 
-        ...taskData 
-      } as Task);
-    });
-    
-    return tasks;
+    return await getRepositories().tasks.list(userId);
   } catch (error) {
     console.error('Error fetching tasks:', error);
     throw error;
   }
 };
 
-// Flag to control whether to check legacy tasks collection
-// Set to true by default to avoid permission errors
-// This prevents the app from trying to access the top-level tasks collection which may have stricter permissions
-let DISABLE_LEGACY_TASKS_ACCESS = true;
+/**
+ * Get a single task for the current user, or null if it no longer exists
+ */
+export const getTaskById = async (taskId: string): Promise<Task | null> => {
+  try {
+    const userId = getCurrentUserId();
+    return await getRepositories().tasks.get(userId, taskId);
+  } catch (error) {
+    console.error('Error fetching task:', error);
+    throw error;
+  }
+};
 
 /**
  * Helper function to safely convert Firestore Timestamp objects to ISO strings
@@ -381,33 +215,11 @@ const serializeTimestamp = (timestamp: Timestamp | null | undefined): string | n
   }
 };
 
-/**
- * Helper function to safely handle legacy collection operations
- * This ensures that errors in legacy collection operations don't affect the main operation
- */
-const safelyUpdateLegacyCollection = async (
-  taskId: string,
-  updates: any
-): Promise<boolean> => {
-  if (DISABLE_LEGACY_TASKS_ACCESS) return false;
-  
-  try {
-    const legacyTaskRef = doc(FIREBASE_DB, 'tasks', taskId);
-    const legacyBatch = writeBatch(FIREBASE_DB);
-    legacyBatch.update(legacyTaskRef, updates);
-    await legacyBatch.commit();
-    return true;
-  } catch (error) {
-    console.warn(`Legacy collection update failed for task ${taskId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    return false;
-  }
-};
-
 /**
  * Subscribe to tasks updates
  * 
  * This function uses the user-specific data structure with tasks stored under users/{userId}/tasks
- * The legacy /tasks collection is no longer used as all data has been migrated
+ * The legacy /tasks collection is retired; scripts/migrateLegacyTasks.js moves any remaining documents
  */
 export const subscribeToTasks = (
   onNext: (tasks: Task[]) => void,
@@ -415,114 +227,40 @@ export const subscribeToTasks = (
 ): Unsubscribe => {
   try {
     const userId = getCurrentUserId();
+    const { tasks } = getRepositories();
+    let userTasks: Task[] | null = null;
+    let archivedTasks: Task[] = [];
     
-    // User-specific tasks collection
-    const userTasksRef = collection(FIREBASE_DB, 'users', userId, 'tasks');
-    const userTasksQuery = query(userTasksRef);
-    
-    // Also get completed tasks that were archived
-    const completedTasksRef = collection(FIREBASE_DB, 'users', userId, 'completedTasks');
-    const completedTasksQuery = query(completedTasksRef);
-    
-    // Subscribe to user-specific tasks collection
-    const userTasksUnsubscribe = onSnapshot(userTasksQuery, (userTasksSnapshot) => {
-      try {
-        const userTasks: Task[] = [];
-        userTasksSnapshot.forEach((doc) => {
-          userTasks.push({ id: doc.id, ...doc.data() } as Task);
-        });
-        
-        // Get completed tasks that were archived
-        const completedTasksUnsubscribe = onSnapshot(completedTasksQuery, (completedTasksSnapshot) => {
-          try {
-            const completedTasks: Task[] = [];
-            completedTasksSnapshot.forEach((doc) => {
-              // Only include tasks that are marked as archived and completed
-              const taskData = doc.data() as Task;
-              if (taskData.archived && taskData.completed) {
-                // Ensure timestamps are serialized properly to avoid Redux serialization issues
-                const serializedTaskData = {
-                  ...taskData,
-                  createdAt: taskData.createdAt ? taskData.createdAt.toDate().toISOString() : null,
-                  completedAt: taskData.completedAt ? taskData.completedAt.toDate().toISOString() : null
-                };
-                // For Redux compatibility, we need to handle the timestamps specially
-                // First create a copy of the data without the id to avoid duplication
-                const { id: docId, ...taskDataWithoutId } = taskData;
-                
-                // Then create a properly typed Task object with the serialized timestamps
-                completedTasks.push({
-                  id: doc.id,
-                  ...taskDataWithoutId
-                });
-            }
-          });
-          // Combine user tasks and completed tasks
-          const allTasks = [...userTasks, ...completedTasks];
-          onNext(allTasks);
-        } catch (completedError) {
-          console.error('Error processing completed tasks:', completedError);
-          // Still deliver the user tasks if we have them
-          onNext(userTasks);
-        }
-      }, (error) => {
-        console.error('Error in completed tasks listener:', error);
-        // Still deliver the user tasks if we have them
-        onNext(userTasks);
-      });
-          // Return unsubscribe function for both listeners
-          return () => {
-            userTasksUnsubscribe();
-            completedTasksUnsubscribe();
-          };
-        } catch (processingError) {
-          console.error('Error processing user tasks:', processingError);
-          if (onError) onError(processingError as Error);
-          // Return unsubscribe for user tasks only if completed tasks logic fails
-          return () => {
-            userTasksUnsubscribe();
-          };
-        }
-      }, (error) => {
-        console.error('Error in user tasks listener:', error);
-        if (onError) onError(error as Error);
-      });
-      // Return unsubscribe for user tasks only if everything else fails
-      return () => {
-        userTasksUnsubscribe();
-      };
-    } catch (error) {
-      console.error('Error setting up tasks listener:', error);
-      if (onError) onError(error as Error);
-      return () => {}; // Return empty unsubscribe function
-    }
-}
-
-/**
- * Helper function to migrate a task from the legacy collection to the user-specific collection
- */
-async function migrateTaskToUserCollection(task: Task): Promise<void> {
-  try {
-    const userId = task.userId;
-    const userTasksRef = collection(FIREBASE_DB, 'users', userId, 'tasks');
-    const newTaskRef = doc(userTasksRef, task.id);
-    const batch = writeBatch(FIREBASE_DB);
-    
-    // Copy the task to the new location
-    batch.set(newTaskRef, task);
+    // Deliver once the user's tasks have loaded, with the archived ones appended
+    const deliver = () => {
+      if (userTasks) onNext([...userTasks, ...archivedTasks]);
+    };
     
-    // Commit the batch
-    await batch.commit();
+    const unsubscribeUserTasks = tasks.subscribe(userId, (nextTasks) => {
+      userTasks = nextTasks;
+      deliver();
+    }, (error) => {
+      console.error('Error in user tasks listener:', error);
+      if (onError) onError(error);
+    });
     
-    // Optionally delete from the old location
-    // Uncomment once migration is complete and tested
-    // const oldTaskRef = doc(FIREBASE_DB, 'tasks', task.id);
-    // await deleteDoc(oldTaskRef);
+    // Completed tasks that were archived still show on the day they were completed
+    const unsubscribeArchivedTasks = tasks.subscribeArchived(userId, (nextTasks) => {
+      archivedTasks = nextTasks.filter(task => task.archived && task.completed);
+      deliver();
+    }, (error) => {
+      // The user tasks are still delivered without them
+      console.error('Error in completed tasks listener:', error);
+    });
     
-    console.log(`Migrated task ${task.id} to user collection`);
+    return () => {
+      unsubscribeUserTasks();
+      unsubscribeArchivedTasks();
+    };
   } catch (error) {
-    console.error('Error migrating task:', error);
-    throw error;
+    console.error('Error setting up tasks listener:', error);
+    if (onError) onError(error as Error);
+    return () => {}; // Return empty unsubscribe function
   }
 };
 
@@ -536,21 +274,18 @@ export const addTask = async (taskData: Omit<Task, 'id' | 'userId' | 'completed'
   try {
     const userId = getCurrentUserId();
     const now = new Date();
-    const dateStr = formatDateString(now);
+    const dateStr = getDayKey(now);
+    
+    const { tasks, xpLedger } = getRepositories();
     
     // Get today's XP bank to check available XP
-    const xpBankRef = doc(FIREBASE_DB, 'users', userId, 'xpBank', dateStr);
-    const xpBankDoc = await getDoc(xpBankRef);
-    const currentXpBank = xpBankDoc.exists() ? xpBankDoc.data() : null;
+    const currentXpBank = await xpLedger.getDay(userId, dateStr);
     
     // Calculate total planned XP for today (from existing tasks)
-    const userTasksRef = collection(FIREBASE_DB, 'users', userId, 'tasks');
-    const userTasksQuery = query(userTasksRef, where('completed', '==', false));
-    const userTasksSnapshot = await getDocs(userTasksQuery);
+    const openTasks = await tasks.list(userId, false);
     
     let plannedXpTotal = 0;
-    userTasksSnapshot.forEach((doc) => {
-      const task = doc.data() as Task;
+    openTasks.forEach((task) => {
       plannedXpTotal += task.xp || 0;
     });
     
@@ -558,12 +293,14 @@ export const addTask = async (taskData: Omit<Task, 'id' | 'userId' | 'completed'
     const earnedXP = currentXpBank?.totalXP || 0;
     
     // Calculate available XP for planning
-    const XP_CAP = 100;
-    const availableForPlanning = Math.max(0, XP_CAP - earnedXP);
+    const xpSettings = await getXpSettings(userId);
+    const availableForPlanning = getRemainingDailyXp(xpSettings, earnedXP);
     
     // Store the original planned XP
     const plannedXp = taskData.xp;
     
+    const deviceId = await getDeviceId();
+    
     // Create a new task document with the planned XP
     const newTask: Omit<Task, 'id'> = {
       ...taskData,
@@ -571,35 +308,27 @@ export const addTask = async (taskData: Omit<Task, 'id' | 'userId' | 'completed'
       userId,
       completed: false,
       createdAt: dateToTimestamp(now),
+      lastModifiedBy: deviceId,
     };
     
     // Create a batch for all writes
-    const batch = writeBatch(FIREBASE_DB);
-    
-    // Generate a new task ID
-    const userTasksCollection = collection(FIREBASE_DB, 'users', userId, 'tasks');
-    const newTaskRef = doc(userTasksCollection);
-    const taskId = newTaskRef.id;
+    const batch = tasks.batch(userId);
     
     // Add to user-specific collection
-    batch.set(newTaskRef, newTask);
+    const taskId = batch.createTask(newTask);
     
     // Add to task history with enhanced tracking
-    const taskHistoryRef = doc(collection(FIREBASE_DB, 'users', userId, 'taskHistory'));
-    const deviceId = await getDeviceId();
-    
-    batch.set(taskHistoryRef, {
+    batch.addHistory({
       taskId: taskId,
       title: taskData.title,
       description: taskData.description || '',
       category: taskData.category || 'uncategorized',
+      tags: taskData.tags || [],
       xp: taskData.xp,
       plannedXp: plannedXp,  // Store planned XP in history
       date: dateStr,
-      userId: userId,
       action: 'created',
-      deviceId: deviceId,
-      timestamp: serverTimestamp()
+      deviceId: deviceId
     });
     
     // Commit all changes
@@ -625,29 +354,27 @@ export const addTask = async (taskData: Omit<Task, 'id' | 'userId' | 'completed'
 /**
  * Update an existing task
  * 
- * This function updates tasks in both the user-specific collection
- * and the legacy collection for backward compatibility
+ * This function updates tasks in the user-specific collection
  * It also handles recurring task properties
  */
 export const updateTask = async (taskId: string, updates: Partial<Omit<Task, 'id' | 'userId'>>): Promise<{ success: boolean; message?: string }> => {
   try {
     const userId = getCurrentUserId();
     const now = new Date();
-    const dateStr = formatDateString(now);
+    const dateStr = getDayKey(now);
+    
+    const { tasks } = getRepositories();
     
     // Get the current task data from user-specific collection
-    const userTaskRef = doc(FIREBASE_DB, 'users', userId, 'tasks', taskId);
-    const userTaskDoc = await getDoc(userTaskRef);
+    const task = await tasks.get(userId, taskId);
     
-    if (!userTaskDoc.exists()) {
+    if (!task) {
       return {
         success: false,
         message: `Task with ID ${taskId} not found`
       };
     }
     
-    const task = userTaskDoc.data() as Task;
-    
     // Store the original state for history tracking
     const originalState = { ...task };
     
@@ -688,7 +415,7 @@ export const updateTask = async (taskId: string, updates: Partial<Omit<Task, 'id
     }
     
     // Use a batch write to ensure consistency across all collections
-    const batch = writeBatch(FIREBASE_DB);
+    const batch = tasks.batch(userId);
     
     // Clean up updates object to remove any undefined values
     // Firestore doesn't accept undefined values in updates
@@ -699,34 +426,31 @@ export const updateTask = async (taskId: string, updates: Partial<Omit<Task, 'id
       return acc;
     }, {} as Record<string, any>);
     
-    // Update in user-specific collection only
-    batch.update(userTaskRef, cleanUpdates);
-    
-    // Add to task history with enhanced tracking
-    const taskHistoryRef = doc(collection(FIREBASE_DB, 'users', userId, 'taskHistory'));
     const deviceId = await getDeviceId();
     
-    // Create a task history record with proper null handling for Firestore compatibility
-    const taskHistoryRecord = {
+    // Update in user-specific collection only
+    batch.updateTask(taskId, {
+      ...cleanUpdates,
+      lastModifiedBy: deviceId
+    });
+    
+    // Add to task history with enhanced tracking, with proper null handling for Firestore compatibility
+    batch.addHistory({
       taskId: taskId,
       title: updates.title || task.title,
       description: updates.description || task.description || '',
       category: updates.category || task.category || 'uncategorized',
+      tags: updates.tags || task.tags || [],
       xp: updates.xp !== undefined ? updates.xp : task.xp, // Use the updated XP if provided
       // Ensure completedAt is null rather than undefined if it doesn't exist
       completedAt: task.completedAt || null,
       date: dateStr,
-      userId: userId,
       action: 'updated',
       recurring: updates.recurring !== undefined ? updates.recurring : task.recurring || false,
       previousState: originalState,
       updates: cleanUpdates,
-      deviceId: deviceId,
-      timestamp: serverTimestamp()
-    };
-    
-    // Set the task history record, ensuring all fields have valid values
-    batch.set(taskHistoryRef, taskHistoryRecord);
+      deviceId: deviceId
+    });
     
     // Commit the batch
     await batch.commit();
@@ -748,12 +472,6 @@ export const updateTask = async (taskId: string, updates: Partial<Omit<Task, 'id
   }
 };
 
-/**
- * Delete a task
- * 
- * This function deletes tasks from both the user-specific collection
- * and the legacy collection for backward compatibility
- */
 /**
  * Delete a task from the planning layer (Manage Tasks)
  * 
@@ -768,101 +486,58 @@ export const deleteTask = async (taskId: string): Promise<{ success: boolean; me
   try {
     const userId = getCurrentUserId();
     const now = new Date();
-    const dateStr = formatDateString(now);
+    const dateStr = getDayKey(now);
+    
+    const { tasks, xpLedger, stats } = getRepositories();
     
     // First get the current task data to store in history
-    let task: Task | null = null;
-    let userTaskRef = doc(FIREBASE_DB, 'users', userId, 'tasks', taskId);
-    const userTaskDoc = await getDoc(userTaskRef);
+    const task = await tasks.get(userId, taskId);
     
-    if (userTaskDoc.exists()) {
-      task = userTaskDoc.data() as Task;
-    } else {
-      // Try legacy collection
-      const legacyTaskRef = doc(FIREBASE_DB, 'tasks', taskId);
-      const legacyTaskDoc = await getDoc(legacyTaskRef);
-      
-      if (legacyTaskDoc.exists()) {
-        task = legacyTaskDoc.data() as Task;
-      } else {
-        throw new Error('Task does not exist in either collection');
-      }
+    if (!task) {
+      throw new Error('Task does not exist');
     }
     
     // Store the original state for history tracking
     const originalState = { ...task };
     
     // Use a batch write to ensure consistency across all collections
-    const batch = writeBatch(FIREBASE_DB);
+    const batch = tasks.batch(userId);
     
     // If task is not completed, delete it completely
     // If task is completed, we'll keep it in a special collection for completed tasks
-    if (!task.completed) {
-      // Only delete from legacy collection if explicitly enabled
-      if (!DISABLE_LEGACY_TASKS_ACCESS) {
-        const legacyTaskRef = doc(FIREBASE_DB, 'tasks', taskId);
-        batch.delete(legacyTaskRef);
-      }
-      // Delete from user-specific collection
-      batch.delete(userTaskRef);
-    } else {
-      // For completed tasks, move to a special collection instead of deleting
-      const completedTasksRef = doc(FIREBASE_DB, 'users', userId, 'completedTasks', taskId);
-      
+    if (task.completed) {
       // Mark as archived but preserve the task data
-      batch.set(completedTasksRef, {
-        ...task,
-        archivedAt: serverTimestamp(),
-        archived: true
-      });
-      
-      // Delete from active collections
-      if (!DISABLE_LEGACY_TASKS_ACCESS) {
-        const legacyTaskRef = doc(FIREBASE_DB, 'tasks', taskId);
-        batch.delete(legacyTaskRef);
-      }
-      batch.delete(userTaskRef);
+      batch.archiveTask(taskId, task);
     }
     
+    // Delete from the active collection
+    batch.removeTask(taskId);
+    
     // Add to task history with enhanced tracking
-    const taskHistoryRef = doc(collection(FIREBASE_DB, 'users', userId, 'taskHistory'));
     const deviceId = await getDeviceId();
     
-    // Create history record with safe handling of completedAt
-    const historyRecord: any = {
+    batch.addHistory({
       taskId: taskId,
       title: task.title,
       description: task.description || '',
       category: task.category || 'uncategorized',
       xp: task.xp,
+      // Only add completedAt if it exists
+      completedAt: task.completedAt || undefined,
       date: dateStr,
-      userId: userId,
       action: 'deleted',
       previousState: originalState,
-      deviceId: deviceId,
-      timestamp: serverTimestamp()
-    };
-    
-    // Only add completedAt if it exists
-    if (task.completedAt) {
-      historyRecord.completedAt = task.completedAt;
-    }
-    
-    batch.set(taskHistoryRef, historyRecord);
+      deviceId: deviceId
+    });
     
     // If task was completed, add a record to XP bank for the deletion
     // but DO NOT remove the earned XP - this is part of the two-layer system
     if (task.completed && task.completedAt) {
       const completionDate = task.completedAt.toDate();
-      const completionDateStr = formatDateString(completionDate);
+      const completionDateStr = getDayKey(completionDate);
       
       // Create XP bank record for the deletion (for tracking purposes only)
-      const xpBankRecordRef = doc(collection(FIREBASE_DB, 'users', userId, 'xpBankRecords'));
-      const xpBankRecordId = xpBankRecordRef.id;
-      
-      batch.set(xpBankRecordRef, {
-        id: xpBankRecordId,
-        userId: userId,
+      const xpBankRecordId = batch.addXpRecord({
         date: dateStr,
         taskId: taskId,
         taskTitle: task.title,
@@ -870,7 +545,6 @@ export const deleteTask = async (taskId: string): Promise<{ success: boolean; me
         plannedXp: task.plannedXp || task.xp,
         originalXp: task.xp, 
         actionType: 'deleted',
-        timestamp: serverTimestamp(),
         taskData: {
           title: task.title,
           description: task.description || '',
@@ -884,53 +558,29 @@ export const deleteTask = async (taskId: string): Promise<{ success: boolean; me
       // Update the XP bank for the day the task was completed
       // Note: We don't reduce the totalXP in the XP bank to prevent gaming the system
       // This ensures users can't delete completed tasks to free up XP for new tasks
-      const xpBankRef = doc(FIREBASE_DB, 'users', userId, 'xpBank', completionDateStr);
-      const xpBankDoc = await getDoc(xpBankRef);
-      
-      if (xpBankDoc.exists()) {
-        batch.update(xpBankRef, {
-          // Add the record ID but DO NOT reduce the totalXP or availableXP
-          // This is critical to prevent users from gaming the system by deleting tasks
-          records: arrayUnion(xpBankRecordId),
-          lastUpdated: serverTimestamp()
-        });
+      if (await xpLedger.getDay(userId, completionDateStr)) {
+        // Add the record ID but DO NOT reduce the totalXP or availableXP
+        // This is critical to prevent users from gaming the system by deleting tasks
+        batch.updateXpDay(completionDateStr, xpBankRecordId);
       }
       
       // Also move the task to the completedTasks collection to preserve its data
       // This ensures we have a record of completed tasks even after deletion
-      const completedTaskRef = doc(FIREBASE_DB, 'users', userId, 'completedTasks', taskId);
-      batch.set(completedTaskRef, {
-        ...task,
-        deletedAt: serverTimestamp(),
-        isDeleted: true
-      });
+      batch.keepDeletedTask(taskId, task);
       
       // Update dailyStats collection for analytics
       // We don't reduce the XP in dailyStats to maintain consistency with XP bank
       // This ensures the analytics data accurately reflects the user's actual XP history
-      const dailyStatsRef = doc(FIREBASE_DB, 'dailyStats', `${userId}_${completionDateStr}`);
-      const dailyStatsDoc = await getDoc(dailyStatsRef);
-      
-      if (dailyStatsDoc.exists()) {
-        // We don't modify the XP value here, just add the record of deletion
-        // This maintains consistency with the XP bank approach
-        batch.update(dailyStatsRef, {
-          lastUpdated: serverTimestamp()
-          // Do NOT reduce xpEarned to prevent gaming the system
-          // This ensures users can't delete completed tasks to free up XP for new tasks
-        });
+      if (await stats.getDailyStats(userId, completionDateStr)) {
+        // Only the update time changes; do NOT reduce xpEarned to prevent gaming the system
+        batch.updateDailyStats(completionDateStr, {});
       }
       
       // Also update the daily snapshot to ensure it maintains XP tracking
-      const dailySnapshotRef = doc(FIREBASE_DB, 'users', userId, 'dailySnapshots', completionDateStr);
-      const dailySnapshotDoc = await getDoc(dailySnapshotRef);
-      
-      if (dailySnapshotDoc.exists()) {
+      if (await stats.getDailySnapshot(userId, completionDateStr)) {
         // Critical: Do NOT reduce dailyXpBank when a task is deleted
         // This ensures the XP cap is still enforced even after task deletion
-        batch.update(dailySnapshotRef, {
-          lastUpdated: serverTimestamp()
-        });
+        batch.updateDailySnapshot(completionDateStr, {});
       }
     }
     
@@ -974,21 +624,15 @@ export const completeTask = async (
   try {
     const userId = getCurrentUserId();
     const now = new Date();
-    const dateStr = formatDateString(now);
+    const dateStr = getDayKey(now);
     
-    // Step 1: Get the task data from user-specific collection
-    let task: Task | null = null;
-    const userTaskRef = doc(FIREBASE_DB, 'users', userId, 'tasks', taskId);
-    const userTaskDoc = await getDoc(userTaskRef);
+    const { tasks, xpLedger, stats } = getRepositories();
     
-    if (userTaskDoc.exists()) {
-      task = userTaskDoc.data() as Task;
-    } else {
-      throw new Error('Task does not exist in user collection');
-    }
+    // Step 1: Get the task data from user-specific collection
+    const task = await tasks.get(userId, taskId);
     
     if (!task) {
-      throw new Error('Failed to retrieve task data');
+      throw new Error('Task does not exist in user collection');
     }
     
     if (task.completed) {
@@ -996,12 +640,10 @@ export const completeTask = async (
     }
     
     // Step 3: Get daily snapshot if it exists
-    const dailySnapshotRef = doc(FIREBASE_DB, 'users', userId, 'dailySnapshots', dateStr);
-    const dailySnapshotDoc = await getDoc(dailySnapshotRef);
-    const dailySnapshot = dailySnapshotDoc.exists() ? dailySnapshotDoc.data() : null;
+    const dailySnapshot = await stats.getDailySnapshot(userId, dateStr);
     
     // Step 4: Create a batch for all writes
-    const batch = writeBatch(FIREBASE_DB);
+    const batch = tasks.batch(userId);
     
     // Save original state for history
     const originalState = {
@@ -1015,7 +657,7 @@ export const completeTask = async (
     };
     
     // Calculate current daily XP (for reference only)
-    const XP_CAP = 100; // Daily XP cap
+    const xpSettings = await getXpSettings(userId);
     const currentDailyXp = dailySnapshot?.dailyXpBank || 0;
     
     // TWO-LAYER XP SYSTEM IMPLEMENTATION
@@ -1030,10 +672,10 @@ export const completeTask = async (
     const taskEarnedXp = plannedXp;
     
     // Calculate remaining XP (for informational purposes only)
-    const remainingXP = Math.max(0, XP_CAP - currentDailyXp);
+    const remainingXP = getRemainingDailyXp(xpSettings, currentDailyXp);
     
     // Log XP award
-    console.log(`XP AWARDED: ${taskEarnedXp}. Current daily total: ${currentDailyXp}, Remaining cap: ${remainingXP}`);
+    console.log(`XP AWARDED: ${taskEarnedXp}. Current daily total: ${currentDailyXp}, Remaining cap: ${remainingXP ?? 'no cap'}`);
     
     // No adjustment tracking needed since we always award full XP
     const wasAdjusted = false;
@@ -1054,11 +696,12 @@ export const completeTask = async (
     }
     
     // Update task in both collections with completion status
-    const completionData: any = {
+    const completionData: TaskChanges = {
       completed: true,
       completedAt: completionTimestamp,
       lastCompletedDate: dateStr, // Track the date when the task was last completed
-      subtasks: updatedSubtasks
+      subtasks: updatedSubtasks,
+      lastModifiedBy: await getDeviceId()
     };
     
     // Update the task with execution layer data
@@ -1072,23 +715,18 @@ export const completeTask = async (
     if (wasAdjusted) {
       completionData.originalXp = originalXp;  // Original XP at time of completion
       completionData.wasAdjusted = true;
-      completionData.adjustmentReason = adjustmentReason;
+      completionData.adjustmentReason = adjustmentReason ?? undefined;
     }
     
     // Update the task in user-specific collection - we already verified it exists above
-    batch.update(userTaskRef, completionData);
+    batch.updateTask(taskId, completionData);
     
     // XP calculation is now done above before updating the task
     
     // Step 5: Create XP bank record for the completion
-    const xpBankRecordRef = doc(collection(FIREBASE_DB, 'users', userId, 'xpBankRecords'));
-    const xpBankRecordId = xpBankRecordRef.id;
-        
     // Create an immutable XP execution layer record
     // This record will persist even if the task is later deleted
-    batch.set(xpBankRecordRef, {
-      id: xpBankRecordId,
-      userId: userId,
+    const xpBankRecordId = batch.addXpRecord({
       date: dateStr,
       taskId: taskId,
       taskTitle: task.title,
@@ -1096,9 +734,8 @@ export const completeTask = async (
       plannedXp: plannedXp,             // Original planned XP from task creation
       originalXp: originalXp,           // XP value at time of completion
       wasAdjusted: wasAdjusted,         // Flag if XP was auto-adjusted
-      adjustmentReason: adjustmentReason,
+      adjustmentReason: adjustmentReason ?? undefined,
       actionType: 'completed',
-      timestamp: serverTimestamp(),
       // Store a snapshot of relevant task data at completion time
       taskData: {
         title: task.title,
@@ -1110,21 +747,19 @@ export const completeTask = async (
     });
 
     // Step 5b: Write to taskHistory for completion tracking
-    const taskHistoryRef = doc(collection(FIREBASE_DB, 'users', userId, 'taskHistory'));
-    batch.set(taskHistoryRef, {
+    batch.addHistory({
       taskId: taskId,
       title: task.title,
       description: task.description || '',
       category: task.category || 'uncategorized',
+      tags: task.tags || [],
       xp: taskEarnedXp,
       completedAt: dateToTimestamp(now),
       date: dateStr,
-      userId: userId,
       action: 'completed',
       recurring: task.recurring || false,
       deviceId: await getDeviceId(),
-      previousState: originalState,
-      timestamp: serverTimestamp()
+      previousState: originalState
     });
         
     // Prepare the return data (will be returned after all operations complete)
@@ -1136,75 +771,59 @@ export const completeTask = async (
       dailyXpBeforeTask: currentDailyXp,
       dailyXpAfterTask: currentDailyXp + taskEarnedXp,
       xpCapped: false, // Always false since we don't cap XP anymore
-      xpCapReached: currentDailyXp + taskEarnedXp >= XP_CAP,
-      remainingXpForToday: Math.max(0, XP_CAP - (currentDailyXp + taskEarnedXp))
+      xpCapReached: getRemainingDailyXp(xpSettings, currentDailyXp + taskEarnedXp) === 0,
+      remainingXpForToday: getRemainingDailyXp(xpSettings, currentDailyXp + taskEarnedXp) ?? undefined
     };
         
     // Step 6: Update or create XP bank for today
-    const xpBankRef = doc(FIREBASE_DB, 'users', userId, 'xpBank', dateStr);
-    const xpBankDoc = await getDoc(xpBankRef);
-    const xpBank = xpBankDoc.exists() ? xpBankDoc.data() : null;
+    const xpBank = await xpLedger.getDay(userId, dateStr);
     
     if (xpBank) {
-      batch.update(xpBankRef, {
-        totalXP: Math.min(XP_CAP, currentDailyXp + taskEarnedXp),
-        availableXP: Math.max(0, XP_CAP - (currentDailyXp + taskEarnedXp)),
-        records: arrayUnion(xpBankRecordId),
-        lastUpdated: serverTimestamp()
+      batch.updateXpDay(dateStr, xpBankRecordId, {
+        totalXP: capDailyXp(currentDailyXp + taskEarnedXp, xpSettings),
+        availableXP: getRemainingDailyXp(xpSettings, currentDailyXp + taskEarnedXp)
       });
     } else {
-      batch.set(xpBankRef, {
-        id: dateStr,
-        userId: userId,
-        date: dateStr,
+      batch.setXpDay(dateStr, {
         totalXP: taskEarnedXp,
-        availableXP: Math.max(0, XP_CAP - taskEarnedXp),
-        records: [xpBankRecordId],
-        lastUpdated: serverTimestamp()
-      });
+        availableXP: getRemainingDailyXp(xpSettings, taskEarnedXp)
+      }, [xpBankRecordId]);
     }
     
     // Step 7: Update daily snapshots and stats for analytics with error handling
     try {
       // Get daily snapshot for analytics
-      const dailySnapshotRef = doc(FIREBASE_DB, 'users', userId, 'dailySnapshots', dateStr);
       let dailySnapshot = null;
       
       try {
-        const dailySnapshotDoc = await getDoc(dailySnapshotRef);
-        dailySnapshot = dailySnapshotDoc.exists() ? dailySnapshotDoc.data() : null;
+        dailySnapshot = await stats.getDailySnapshot(userId, dateStr);
       } catch (snapshotError) {
         console.error('Error fetching daily snapshot, will create a new one:', snapshotError);
         // Continue without daily snapshot, we'll create one
       }
       
-      // Calculate new daily XP total (capped at XP_CAP)
-      const newDailyXpTotal = Math.min(XP_CAP, (dailySnapshot?.dailyXpBank || 0) + taskEarnedXp);
+      // Calculate new daily XP total (capped at the daily cap)
+      const newDailyXpTotal = capDailyXp((dailySnapshot?.dailyXpBank || 0) + taskEarnedXp, xpSettings);
       
       // Update daily snapshot for analytics
       if (dailySnapshot) {
-        // Calculate total XP after this task (capped at XP_CAP)
-        const newDailyXpTotal = Math.min(XP_CAP, currentDailyXp + taskEarnedXp);
+        // Calculate total XP after this task (capped at the daily cap)
+        const newDailyXpTotal = capDailyXp(currentDailyXp + taskEarnedXp, xpSettings);
         
-        batch.update(dailySnapshotRef, {
+        batch.updateDailySnapshot(dateStr, {
           tasksCompleted: (dailySnapshot.tasksCompleted || 0) + 1,
           xpEarned: (dailySnapshot.xpEarned || 0) + taskEarnedXp,
-          dailyXpBank: newDailyXpTotal, // XP Bank tracks total XP earned today (capped at XP_CAP)
+          dailyXpBank: newDailyXpTotal, // XP Bank tracks total XP earned today (capped at the daily cap)
           tasksAdjusted: wasAdjusted ? 
             (dailySnapshot.tasksAdjusted || 0) + 1 : 
-            (dailySnapshot.tasksAdjusted || 0),
-          lastUpdated: dateToTimestamp(now)
+            (dailySnapshot.tasksAdjusted || 0)
         });
       } else {
-        batch.set(dailySnapshotRef, {
-          date: dateStr,
-          userId: userId,
+        batch.setDailySnapshot(dateStr, {
           tasksCompleted: 1,
           xpEarned: taskEarnedXp,
-          dailyXpBank: Math.min(XP_CAP, taskEarnedXp), // Initialize XP Bank (capped at XP_CAP)
-          tasksAdjusted: wasAdjusted ? 1 : 0,
-          created: dateToTimestamp(now),
-          lastUpdated: dateToTimestamp(now)
+          dailyXpBank: capDailyXp(taskEarnedXp, xpSettings), // Initialize XP Bank (capped at the daily cap)
+          tasksAdjusted: wasAdjusted ? 1 : 0
         });
       }
     } catch (snapshotError) {
@@ -1212,21 +831,11 @@ export const completeTask = async (
       // Continue without blocking task completion
     }
 
-    // Update dailyStats collection for analytics - critical for XP persistence
-    const dailyStatsRef = doc(FIREBASE_DB, 'dailyStats', `${userId}_${dateStr}`);
-    let dailyStats = null;
-    try {
-      const dailyStatsDoc = await getDoc(dailyStatsRef);
-      dailyStats = dailyStatsDoc.exists() ? dailyStatsDoc.data() as DailyStats : null;
-      // ... any additional logic for dailyStats (if needed)
-    } catch (statsError) {
-      console.error('Error updating dailyStats:', statsError);
-      // Continue without blocking task completion
-    }
-
     // Commit the batch after all operations
     try {
       await batch.commit();
+      // The streak reads the history entry just written, so it's refreshed after the commit
+      await refreshStreak();
       return returnData;
     } catch (commitError) {
       const errorMessage = commitError instanceof Error ? commitError.message : String(commitError);
@@ -1279,21 +888,15 @@ export const uncompleteTask = async (taskId: string): Promise<{ success: boolean
   try {
     const userId = getCurrentUserId();
     const now = new Date();
-    const dateStr = formatDateString(now);
+    const dateStr = getDayKey(now);
     
-    // Step 1: Get the task data from user-specific collection
-    let task: Task | null = null;
-    const userTaskRef = doc(FIREBASE_DB, 'users', userId, 'tasks', taskId);
-    const userTaskDoc = await getDoc(userTaskRef);
+    const { tasks, xpLedger, stats } = getRepositories();
     
-    if (userTaskDoc.exists()) {
-      task = userTaskDoc.data() as Task;
-    } else {
-      throw new Error('Task does not exist in user collection');
-    }
+    // Step 1: Get the task data from user-specific collection
+    const task = await tasks.get(userId, taskId);
     
     if (!task) {
-      throw new Error('Failed to retrieve task data');
+      throw new Error('Task does not exist in user collection');
     }
     
     if (!task.completed || !task.completedAt) {
@@ -1301,135 +904,116 @@ export const uncompleteTask = async (taskId: string): Promise<{ success: boolean
     }
     
     // Create a batch for all writes
-    const batch = writeBatch(FIREBASE_DB);
+    const batch = tasks.batch(userId);
     
     // Store the original state for history tracking
     const originalState = { ...task };
     
-    // Update task in both collections
-    const uncompletionData = {
-      completed: false,
-      completedAt: null
-    };
-    
     // Update task in user-specific collection
-    batch.update(userTaskRef, uncompletionData);
+    batch.updateTask(taskId, {
+      completed: false,
+      completedAt: null,
+      lastModifiedBy: await getDeviceId()
+    });
     
     // Get the date string from the task completion timestamp
     const completionDate = task.completedAt.toDate();
-    const completionDateStr = formatDateString(completionDate);
-    const todayDateStr = formatDateString(now);
+    const completionDateStr = getDayKey(completionDate);
+    const todayDateStr = getDayKey(now);
     
     // Check if the task was completed today
     const completedToday = completionDateStr === todayDateStr;
     
     // Get user stats
-    const userStatsRef = doc(FIREBASE_DB, 'users', userId);
-    const userStatsDoc = await getDoc(userStatsRef);
-    
-    if (!userStatsDoc.exists()) {
+    if (!(await stats.getUser(userId))) {
       throw new Error('User stats not found');
     }
     
-    const userStats = userStatsDoc.data() as UserStats;
-    
     // Update user stats
     if (completedToday) {
       // Only decrement today's XP if the task was completed today
-      batch.update(userStatsRef, {
-        totalXP: increment(-task.xp),
-        todayXP: increment(-task.xp)
+      batch.updateUserStats({
+        totalXP: { increment: -task.xp },
+        todayXP: { increment: -task.xp }
       });
     } else {
       // Just decrement total XP if the task was completed on a different day
-      batch.update(userStatsRef, {
-        totalXP: increment(-task.xp)
+      batch.updateUserStats({
+        totalXP: { increment: -task.xp }
       });
     }
     
-    // Update daily snapshot if it exists
-    // We already have completionDate and completionDateStr from earlier in the function
+    // Update daily snapshot for the completion date, if it exists
+    const dailySnapshot = await stats.getDailySnapshot(userId, completionDateStr);
     
-    // Update daily snapshot for the completion date
-    const dailySnapshotRef = doc(FIREBASE_DB, 'users', userId, 'dailySnapshots', completionDateStr);
-    const dailySnapshotDoc = await getDoc(dailySnapshotRef);
-    
-    if (dailySnapshotDoc.exists()) {
-      const dailySnapshot = dailySnapshotDoc.data();
+    if (dailySnapshot) {
       const xpDifference = -task.xp;
       
-      batch.update(dailySnapshotRef, {
+      batch.updateDailySnapshot(completionDateStr, {
         tasksCompleted: Math.max(0, (dailySnapshot.tasksCompleted || 1) - 1),
         xpEarned: Math.max(0, (dailySnapshot.xpEarned || task.xp) + xpDifference),
-        dailyXpBank: Math.max(0, (dailySnapshot.dailyXpBank || task.xp) + xpDifference),
-        lastUpdated: serverTimestamp()
+        dailyXpBank: Math.max(0, (dailySnapshot.dailyXpBank || task.xp) + xpDifference)
       });
     }
     
     // Update dailyStats collection for analytics
-    const dailyStatsRef = doc(FIREBASE_DB, 'dailyStats', `${userId}_${completionDateStr}`);
-    const dailyStatsDoc = await getDoc(dailyStatsRef);
+    const dailyStats = await stats.getDailyStats(userId, completionDateStr);
     
-    if (dailyStatsDoc.exists()) {
-      const dailyStats = dailyStatsDoc.data() as DailyStats;
+    if (dailyStats) {
       const xpDifference = -task.xp;
       
-      batch.update(dailyStatsRef, {
+      batch.updateDailyStats(completionDateStr, {
         tasksCompleted: Math.max(0, (dailyStats.tasksCompleted || 1) - 1),
-        xpEarned: Math.max(0, (dailyStats.xpEarned || task.xp) + xpDifference),
-        lastUpdated: serverTimestamp()
+        xpEarned: Math.max(0, (dailyStats.xpEarned || task.xp) + xpDifference)
       });
     }
     
     // Add to task history with enhanced tracking
-    const taskHistoryRef = doc(collection(FIREBASE_DB, 'users', userId, 'taskHistory'));
     const deviceId = await getDeviceId();
-    batch.set(taskHistoryRef, {
+    batch.addHistory({
       taskId: taskId,
       title: task.title,
       description: task.description || '',
       category: task.category || 'uncategorized',
+      tags: task.tags || [],
       xp: task.xp,
       completedAt: task.completedAt,
       date: dateStr,
-      userId: userId,
       action: 'uncompleted',
       previousState: originalState,
-      deviceId: deviceId,
-      timestamp: serverTimestamp()
+      deviceId: deviceId
     });
     
     // Add record to XP bank for uncompleting the task
-    const xpBankRecordRef = doc(collection(FIREBASE_DB, 'users', userId, 'xpBankRecords'));
-    const xpBankRecordId = xpBankRecordRef.id;
-    
-    batch.set(xpBankRecordRef, {
-      id: xpBankRecordId,
-      userId: userId,
+    const xpBankRecordId = batch.addXpRecord({
       date: dateStr,
       taskId: taskId,
       taskTitle: task.title,
       xpAmount: -task.xp, // Negative XP to represent uncompleting
       originalXp: task.xp, // Always include originalXp for uncompleting
       actionType: 'modified',
-      timestamp: serverTimestamp()
+      taskData: {
+        title: task.title,
+        category: task.category || 'uncategorized'
+      }
     });
     
     // Update the XP bank for the day the task was completed
-    const taskCompletionDateStr = formatDateString(completionDate);
-    const xpBankRef = doc(FIREBASE_DB, 'users', userId, 'xpBank', taskCompletionDateStr);
-    const xpBankDoc = await getDoc(xpBankRef);
-    
-    if (xpBankDoc.exists()) {
-      batch.update(xpBankRef, {
-        records: arrayUnion(xpBankRecordId),
-        lastUpdated: serverTimestamp()
-        // Note: We don't update totalXP to prevent gaming the system
+    const xpBank = await xpLedger.getDay(userId, completionDateStr);
+    
+    if (xpBank) {
+      // The XP goes back on every layer (stats, snapshot and bank) so the totals stay reconciled
+      const xpSettings = await getXpSettings(userId);
+      const remainingBankXp = Math.max(0, (xpBank.totalXP || 0) - task.xp);
+      batch.updateXpDay(completionDateStr, xpBankRecordId, {
+        totalXP: remainingBankXp,
+        availableXP: getRemainingDailyXp(xpSettings, remainingBankXp)
       });
     }
     
     // Commit all changes
     await batch.commit();
+    await refreshStreak();
     
     // Return success status for the deletion
     return {
@@ -1449,52 +1033,120 @@ export const uncompleteTask = async (taskId: string): Promise<{ success: boolean
 // ===== JOURNALS =====
 
 /**
- * Save a journal entry for a specific date
+ * Save a journal reflection for a specific date
+ * The reflection is appended to the day's entries; saving the same reflection ID twice is a no-op
  */
 export const saveJournalEntry = async (
-  entry: Omit<JournalEntry, 'userId' | 'timestamp'>, 
+  reflection: NewJournalReflection, 
   date: Date = new Date()
 ): Promise<void> => {
   try {
     const userId = getCurrentUserId();
-    const dateStr = formatDateString(date);
+    const dateStr = getDayKey(date);
     
-    await setDoc(doc(FIREBASE_DB, 'users', userId, 'journal', dateStr), {
-      ...entry,
-      userId,
-      timestamp: dateToTimestamp(date),
+    await getRepositories().journal.updateDay(userId, dateStr, (current) => {
+      // Reading through getDayReflections also migrates a single-entry day on its next save
+      const reflections = getDayReflections(current);
+      const id = reflection.id || createReflectionId();
+      
+      if (reflections.some(existing => existing.id === id)) {
+        return null;
+      }
+      
+      const newReflection: JournalReflection = {
+        id,
+        thought: reflection.thought || '',
+        entry: reflection.entry || '',
+        timestamp: dateToTimestamp(date),
+      };
+      if (reflection.mood) {
+        newReflection.mood = reflection.mood;
+      }
+      if (reflection.moodIntensity) {
+        newReflection.moodIntensity = reflection.moodIntensity;
+      }
+      if (reflection.audio) {
+        newReflection.audio = reflection.audio;
+      }
+      
+      return buildJournalDay([...reflections, newReflection], userId);
     });
     
-    // Update daily stats to mark that this day has a journal
-    const dailyStatsRef = doc(FIREBASE_DB, 'dailyStats', `${userId}_${dateStr}`);
-    const dailyStatsDoc = await getDoc(dailyStatsRef);
-    
-    if (dailyStatsDoc.exists()) {
-      await updateDoc(dailyStatsRef, {
-        hasJournal: true,
-      });
-    } else {
-      await setDoc(dailyStatsRef, {
-        userId,
-        date: dateStr,
-        tasksCompleted: 0,
-        xpEarned: 0,
-        hasJournal: true,
-        timestamp: dateToTimestamp(date),
-      });
-    }
+    // Mark the day as journaled and the user as active
+    await getRepositories().stats.markJournalDay(userId, dateStr, dateToTimestamp(date));
+  } catch (error) {
+    console.error('Error saving journal entry:', error);
+    throw error;
+  }
+};
+
+/**
+ * Edit the text of one reflection, keeping its original timestamp and mood
+ */
+export const updateJournalReflection = async (
+  dateStr: string,
+  reflectionId: string,
+  updates: Pick<JournalReflection, 'thought' | 'entry'>
+): Promise<void> => {
+  try {
+    const userId = getCurrentUserId();
     
-    // Update user stats to mark last active
-    const userStatsRef = doc(FIREBASE_DB, 'users', userId);
-    const userStatsDoc = await getDoc(userStatsRef);
+    await getRepositories().journal.updateDay(userId, dateStr, (current) => {
+      if (!current) {
+        throw new Error('Journal entry not found');
+      }
+      
+      const reflections = getDayReflections(current);
+      const index = reflections.findIndex(reflection => reflection.id === reflectionId);
+      if (index === -1) {
+        throw new Error('Journal entry not found');
+      }
+      
+      reflections[index] = {
+        ...reflections[index],
+        thought: updates.thought,
+        entry: updates.entry || '',
+        editTimestamp: Timestamp.now(),
+        isEdited: true,
+      };
+      return buildJournalDay(reflections, userId);
+    });
+  } catch (error) {
+    console.error('Error updating journal entry:', error);
+    throw error;
+  }
+};
+
+/**
+ * Convert the current user's single-entry journal documents to the list shape
+ * Each document is re-checked inside its own transaction, so running this twice,
+ * or alongside a save, is safe
+ * @returns The number of documents migrated
+ */
+export const migrateLegacyJournalEntries = async (): Promise<number> => {
+  try {
+    const userId = getCurrentUserId();
+    const { journal } = getRepositories();
+    const days = await journal.listDays(userId);
+    let migrated = 0;
     
-    if (userStatsDoc.exists()) {
-      await updateDoc(userStatsRef, {
-        lastActive: dateToTimestamp(date),
+    for (const { date, ...day } of days) {
+      if (!isLegacyJournalDay(day)) continue;
+      
+      const converted = await journal.updateDay(userId, date, (current) => {
+        if (!current || !isLegacyJournalDay(current)) {
+          return null;
+        }
+        
+        return buildJournalDay(getDayReflections(current), userId);
       });
+      
+      if (converted) migrated++;
     }
+    
+    return migrated;
   } catch (error) {
-    console.error('Error saving journal entry:', error);
+    console.error('Error migrating journal entries:', error);
     throw error;
   }
 };
@@ -1505,59 +1157,32 @@ export const saveJournalEntry = async (
 export const getJournalEntry = async (date: Date = new Date()): Promise<JournalEntry | null> => {
   try {
     const userId = getCurrentUserId();
-    const dateStr = formatDateString(date);
-    const docRef = doc(FIREBASE_DB, 'users', userId, 'journal', dateStr);
-    const snapshot = await getDoc(docRef);
-    
-    if (snapshot.exists()) {
-      return snapshot.data() as JournalEntry;
-    }
-    
-    return null;
+    return await getRepositories().journal.getDay(userId, getDayKey(date));
   } catch (error) {
     console.error('Error getting journal entry:', error);
     throw error;
   }
 };
 
+export type JournalEntryChange = JournalDayChange;
+
 /**
  * Subscribe to journal entries
+ * Pass a null limit to receive the whole journal. Each snapshot also carries
+ * the entries that changed since the previous one, for incremental consumers.
  */
 export const subscribeToJournalEntries = (
-  entryLimit: number = 10,
-  onNext: (entries: (JournalEntry & { date: string })[]) => void,
+  entryLimit: number | null = 10,
+  onNext: (entries: JournalDay[], changes: JournalEntryChange[]) => void,
   onError?: (error: Error) => void
 ): Unsubscribe => {
   try {
     const userId = getCurrentUserId();
-    const journalRef = collection(FIREBASE_DB, 'users', userId, 'journal');
-    
-    // Simplify the query to avoid potential issues
-    // First create a basic query without the limit
-    let journalQuery = query(journalRef);
-    
-    // Then add the orderBy if needed
-    try {
-      journalQuery = query(journalRef, orderBy('timestamp', 'desc'));
-    } catch (orderByError) {
-      console.warn('Could not add orderBy to journal query:', orderByError);
-    }
     
-    // Finally add the limit
-    try {
-      journalQuery = query(journalQuery, limit(entryLimit));
-    } catch (limitError) {
-      console.warn('Could not add limit to journal query:', limitError);
-    }
-    
-    return onSnapshot(journalQuery, 
-      (snapshot) => {
+    return getRepositories().journal.subscribe(userId, entryLimit,
+      (entries, changes) => {
         try {
-          const entries = snapshot.docs.map(doc => ({
-            date: doc.id,
-            ...(doc.data() as JournalEntry)
-          }));
-          onNext(entries);
+          onNext(entries, changes);
         } catch (mapError) {
           console.error('Error processing journal entries:', mapError);
           if (onError) onError(mapError as Error);
@@ -1583,13 +1208,11 @@ export const subscribeToJournalEntries = (
 export const getTotalXPFromBank = async (): Promise<number> => {
   try {
     const userId = getCurrentUserId();
-    const xpBankRef = collection(FIREBASE_DB, 'users', userId, 'xpBank');
-    const snapshot = await getDocs(xpBankRef);
+    const banks = await getRepositories().xpLedger.listDays(userId);
     let totalXP = 0;
-    snapshot.forEach(doc => {
-      const data = doc.data();
-      if (typeof data.totalXP === 'number') {
-        totalXP += data.totalXP;
+    banks.forEach(bank => {
+      if (typeof bank.totalXP === 'number') {
+        totalXP += bank.totalXP;
       }
     });
     return totalXP;
@@ -1614,15 +1237,7 @@ export const getTodayXPFromBank = async (): Promise<number> => {
 export const getXPBank = async (date: Date = new Date()): Promise<DailyXPBank | null> => {
   try {
     const userId = getCurrentUserId();
-    const dateStr = formatDateString(date);
-    const xpBankRef = doc(FIREBASE_DB, 'users', userId, 'xpBank', dateStr);
-    const xpBankDoc = await getDoc(xpBankRef);
-    
-    if (xpBankDoc.exists()) {
-      return xpBankDoc.data() as DailyXPBank;
-    }
-    
-    return null;
+    return await getRepositories().xpLedger.getDay(userId, getDayKey(date));
   } catch (error) {
     console.error('Error getting XP bank:', error);
     throw error;
@@ -1635,7 +1250,6 @@ export const getXPBank = async (date: Date = new Date()): Promise<DailyXPBank |
 export const getXPBankRecords = async (date: Date = new Date()): Promise<XPBankRecord[]> => {
   try {
     const userId = getCurrentUserId();
-    const dateStr = formatDateString(date);
     
     // Get the XP bank first to get the record IDs
     const xpBank = await getXPBank(date);
@@ -1645,16 +1259,7 @@ export const getXPBankRecords = async (date: Date = new Date()): Promise<XPBankR
     }
     
     // Get all the records
-    const records: XPBankRecord[] = [];
-    
-    for (const recordId of xpBank.records) {
-      const recordRef = doc(FIREBASE_DB, 'users', userId, 'xpBankRecords', recordId);
-      const recordDoc = await getDoc(recordRef);
-      
-      if (recordDoc.exists()) {
-        records.push(recordDoc.data() as XPBankRecord);
-      }
-    }
+    const records = await getRepositories().xpLedger.getRecords(userId, xpBank.records);
     
     // Sort by timestamp (newest first)
     return records.sort((a, b) => {
@@ -1678,33 +1283,18 @@ export const modifyTaskXP = async (
   try {
     const userId = getCurrentUserId();
     const now = new Date();
-    const dateStr = formatDateString(now);
+    const dateStr = getDayKey(now);
     
-    // Get the task
-    let task: Task | null = null;
-    let taskRef: DocumentReference | null = null;
-    let userTaskRef: DocumentReference | null = null;
+    const { tasks, stats } = getRepositories();
     
-    // Try user-specific collection first
-    userTaskRef = doc(FIREBASE_DB, 'users', userId, 'tasks', taskId);
-    const userTaskDoc = await getDoc(userTaskRef);
+    // Get the task
+    const task = await tasks.get(userId, taskId);
     
-    if (userTaskDoc.exists()) {
-      task = userTaskDoc.data() as Task;
-      taskRef = doc(FIREBASE_DB, 'tasks', taskId); // Set legacy ref too
-    } else {
-      // Try legacy collection
-      taskRef = doc(FIREBASE_DB, 'tasks', taskId);
-      const taskDoc = await getDoc(taskRef);
-      
-      if (taskDoc.exists()) {
-        task = taskDoc.data() as Task;
-      } else {
-        return {
-          success: false,
-          message: 'Task does not exist'
-        };
-      }
+    if (!task) {
+      return {
+        success: false,
+        message: 'Task does not exist'
+      };
     }
     
     if (!task.completed) {
@@ -1725,137 +1315,108 @@ export const modifyTaskXP = async (
     // Get the XP bank for today
     const xpBank = await getXPBank(now);
     const currentTotalXp = xpBank?.totalXP || 0;
+    const xpSettings = await getXpSettings(userId);
+    const dailyXpCap = getDailyXpCap(xpSettings);
     
     // Calculate the XP difference
     const originalXp = task.xp;
     const xpDifference = newXpValue - originalXp;
     
     // Check if the modification would exceed the daily cap
-    if (xpDifference > 0 && currentTotalXp + xpDifference > XP_CAP) {
+    if (dailyXpCap !== null && xpDifference > 0 && currentTotalXp + xpDifference > dailyXpCap) {
       return {
         success: false,
-        message: `Increasing XP would exceed your daily cap. You can only add ${Math.max(0, XP_CAP - currentTotalXp)} more XP today.`
+        message: `Increasing XP would exceed your daily cap. You can only add ${getRemainingDailyXp(xpSettings, currentTotalXp)} more XP today.`
       };
     }
     
     // Create a batch for all writes
-    const batch = writeBatch(FIREBASE_DB);
+    const batch = tasks.batch(userId);
     
-    // Update the task XP in both collections
-    const updateData = {
+    // Update the task XP
+    batch.updateTask(taskId, {
       xp: newXpValue,
-      originalXp: originalXp // Store the original XP for reference
-    };
-    
-    if (taskRef) {
-      batch.update(taskRef, updateData);
-    }
-    
-    if (userTaskRef) {
-      batch.update(userTaskRef, updateData);
-    }
+      originalXp: originalXp, // Store the original XP for reference
+      lastModifiedBy: await getDeviceId()
+    });
     
     // Create XP bank record for the modification
-    const xpBankRecordRef = doc(collection(FIREBASE_DB, 'users', userId, 'xpBankRecords'));
-    const xpBankRecordId = xpBankRecordRef.id;
-    
-    batch.set(xpBankRecordRef, {
-      id: xpBankRecordId,
-      userId: userId,
+    const xpBankRecordId = batch.addXpRecord({
       date: dateStr,
       taskId: taskId,
       taskTitle: task.title,
       xpAmount: xpDifference,
       originalXp: originalXp, // Always include originalXp for modifications
       actionType: 'modified',
-      timestamp: serverTimestamp()
+      taskData: {
+        title: task.title,
+        category: task.category || 'uncategorized'
+      }
     });
     
     // Update the XP bank
     if (xpBank) {
-      const xpBankRef = doc(FIREBASE_DB, 'users', userId, 'xpBank', dateStr);
-      batch.update(xpBankRef, {
-        totalXP: Math.min(XP_CAP, currentTotalXp + xpDifference),
-        availableXP: Math.max(0, XP_CAP - (currentTotalXp + xpDifference)),
-        records: arrayUnion(xpBankRecordId),
-        lastUpdated: serverTimestamp()
+      batch.updateXpDay(dateStr, xpBankRecordId, {
+        totalXP: capDailyXp(currentTotalXp + xpDifference, xpSettings),
+        availableXP: getRemainingDailyXp(xpSettings, currentTotalXp + xpDifference)
       });
     } else {
       // Create a new XP bank if it doesn't exist
-      const xpBankRef = doc(FIREBASE_DB, 'users', userId, 'xpBank', dateStr);
-      batch.set(xpBankRef, {
-        id: dateStr,
-        userId: userId,
-        date: dateStr,
-        totalXP: Math.min(XP_CAP, xpDifference),
-        availableXP: Math.max(0, XP_CAP - xpDifference),
-        records: [xpBankRecordId],
-        lastUpdated: serverTimestamp()
-      } as DailyXPBank);
+      batch.setXpDay(dateStr, {
+        totalXP: capDailyXp(xpDifference, xpSettings),
+        availableXP: getRemainingDailyXp(xpSettings, xpDifference)
+      }, [xpBankRecordId]);
     }
     
     // Step 4: Get user stats with fallback mechanism
     let userStats: UserStats | null = null;
     try {
-      const userStatsRef = doc(FIREBASE_DB, 'users', userId);
-      const userStatsDoc = await getDoc(userStatsRef);
-      
-      if (userStatsDoc.exists()) {
-        userStats = userStatsDoc.data() as UserStats;
-      }
+      userStats = await stats.getUser(userId);
     } catch (statsError) {
       console.error('Error fetching user stats, will create new stats:', statsError);
       // Continue without user stats, we'll create new ones later
     }
     
     if (userStats) {
-      batch.update(doc(FIREBASE_DB, 'users', userId), {
+      batch.updateUserStats({
         totalXP: userStats.totalXP + xpDifference,
-        todayXP: Math.min(XP_CAP, Math.max(0, userStats.todayXP + xpDifference))
+        todayXP: capDailyXp(Math.max(0, userStats.todayXP + xpDifference), xpSettings)
       });
     } else {
-      batch.set(doc(FIREBASE_DB, 'users', userId), {
+      batch.setUserStats({
         userId: userId,
         totalXP: xpDifference,
-        todayXP: Math.min(XP_CAP, xpDifference),
+        todayXP: capDailyXp(xpDifference, xpSettings),
         streakCount: 1,
         lastActive: dateToTimestamp(now),
         bestDay: dateStr,
         bestDayXP: xpDifference,
         weeklyXPGoal: DEFAULT_WEEKLY_XP_GOAL,
         lastReset: dateToTimestamp(now)
-      } as UserStats);
+      });
     }
     
     // Check if the task was completed today
     let completedToday = false;
     if (task.completedAt) {
       const completionDate = task.completedAt.toDate();
-      const completionDateStr = formatDateString(completionDate);
+      const completionDateStr = getDayKey(completionDate);
       completedToday = completionDateStr === dateStr;
     }
     
     // Update dailyStats collection for analytics if the task was completed today
     if (completedToday) {
-      const dailyStatsRef = doc(FIREBASE_DB, 'dailyStats', `${userId}_${dateStr}`);
-      const dailyStatsDoc = await getDoc(dailyStatsRef);
+      const dailyStats = await stats.getDailyStats(userId, dateStr);
       
-      if (dailyStatsDoc.exists()) {
-        const dailyStats = dailyStatsDoc.data() as DailyStats;
-        batch.update(dailyStatsRef, {
-          xpEarned: Math.max(0, (dailyStats.xpEarned || 0) + xpDifference),
-          lastUpdated: serverTimestamp()
+      if (dailyStats) {
+        batch.updateDailyStats(dateStr, {
+          xpEarned: Math.max(0, (dailyStats.xpEarned || 0) + xpDifference)
         });
       } else {
         // Create a new daily stats document if it doesn't exist
-        batch.set(dailyStatsRef, {
-          id: `${userId}_${dateStr}`,
-          date: dateStr,
-          userId: userId,
+        batch.setDailyStats(dateStr, {
           tasksCompleted: 1, // At least this task is completed
-          xpEarned: Math.max(0, xpDifference),
-          created: serverTimestamp(),
-          lastUpdated: serverTimestamp()
+          xpEarned: Math.max(0, xpDifference)
         });
       }
     }
@@ -1896,52 +1457,41 @@ export async function togglePinnedTask(
     // Get the device ID for tracking
     const deviceId = await getDeviceId();
     
-    // Get the task document reference
-    const taskRef = doc(FIREBASE_DB, 'users', userId, 'tasks', taskId);
+    const { tasks } = getRepositories();
     
     // Get the current task data
-    const taskDoc = await getDoc(taskRef);
-    if (!taskDoc.exists()) {
+    const task = await tasks.get(userId, taskId);
+    if (!task) {
       return { success: false, message: 'Task not found' };
     }
     
-    const task = taskDoc.data() as Task;
     const currentPinnedStatus = task.pinned || false;
     const newPinnedStatus = !currentPinnedStatus;
     
     // Create a batch for consistent updates
-    const batch = writeBatch(FIREBASE_DB);
+    const batch = tasks.batch(userId);
     
     // Update the task with the new pinned status
-    batch.update(taskRef, {
-      pinned: newPinnedStatus
+    batch.updateTask(taskId, {
+      pinned: newPinnedStatus,
+      lastModifiedBy: deviceId
     });
     
-    // Add a history record for this action
-    const historyRef = doc(collection(FIREBASE_DB, 'users', userId, 'taskHistory'));
-    
-    // Create history record with only required fields
-    const historyRecord: any = {
-      id: historyRef.id,
+    // Add a history record for this action; optional fields are only stored if the task has them
+    batch.addHistory({
       taskId,
       title: task.title,
+      description: task.description || undefined,
+      category: task.category || undefined,
       xp: task.xp,
-      date: formatDateString(new Date()),
-      userId,
+      completedAt: task.completedAt || undefined,
+      date: getDayKey(new Date()),
       action: 'updated',
+      recurring: task.recurring,
       previousState: { pinned: currentPinnedStatus },
       updates: { pinned: newPinnedStatus },
-      deviceId,
-      timestamp: serverTimestamp()
-    };
-    
-    // Add optional fields only if they exist in the task
-    if (task.description) historyRecord.description = task.description;
-    if (task.category) historyRecord.category = task.category;
-    if (task.completedAt) historyRecord.completedAt = task.completedAt;
-    if (task.recurring !== undefined) historyRecord.recurring = task.recurring;
-    
-    batch.set(historyRef, historyRecord);
+      deviceId
+    });
     
     // Commit the batch
     await batch.commit();
@@ -1968,7 +1518,9 @@ export interface TaskHistoryRecord {
   title: string;
   description?: string;
   category?: string;
+  tags?: string[];
   xp: number;
+  plannedXp?: number; // The XP planned when the task was created
   completedAt: Timestamp | null;
   date: string; // YYYY-MM-DD format
   userId: string;
@@ -2044,12 +1596,12 @@ export const subscribeToTaskHistory = (
       
       // Apply date filters
       if (options.startDate) {
-        const startDateStr = formatDateString(options.startDate);
+        const startDateStr = getDayKey(options.startDate);
         historyRecords = historyRecords.filter(record => record.date >= startDateStr);
       }
       
       if (options.endDate) {
-        const endDateStr = formatDateString(options.endDate);
+        const endDateStr = getDayKey(options.endDate);
         historyRecords = historyRecords.filter(record => record.date <= endDateStr);
       }
       
@@ -2090,7 +1642,7 @@ export interface DailyXPBank {
   userId: string;
   date: string;
   totalXP: number;
-  availableXP: number;
+  availableXP: number | null;
   records: string[];
   lastUpdated: Timestamp;
 }
@@ -2111,6 +1663,7 @@ export interface DailySnapshot {
   tasksCompleted: number;
   xpEarned: number;
   dailyXpBank: number;
+  tasksAdjusted?: number;
   created: Timestamp;
   lastUpdated: Timestamp;
 }
@@ -2136,12 +1689,12 @@ export const subscribeToDailySnapshots = (
     
     // Apply date filters if provided
     if (startDate) {
-      const startDateStr = formatDateString(startDate);
+      const startDateStr = getDayKey(startDate);
       snapshotsQuery = query(snapshotsQuery, where('date', '>=', startDateStr));
     }
     
     if (endDate) {
-      const endDateStr = formatDateString(endDate);
+      const endDateStr = getDayKey(endDate);
       snapshotsQuery = query(snapshotsQuery, where('date', '<=', endDateStr));
     }
     
@@ -2205,7 +1758,7 @@ export const subscribeToDailyStats = (
         // Apply date range filtering client-side if needed
         if (startDate && endDate) {
           const dateStr = data.date;
-          if (dateStr >= formatDateString(startDate) && dateStr <= formatDateString(endDate)) {
+          if (dateStr >= getDayKey(startDate) && dateStr <= getDayKey(endDate)) {
             stats.push(data);
           }
         } else {
@@ -2237,11 +1790,11 @@ export const subscribeToDailyStats = (
 export const getUserStats = async (): Promise<UserStats> => {
   try {
     const userId = getCurrentUserId();
-    const userStatsRef = doc(FIREBASE_DB, 'users', userId);
-    const userStatsDoc = await getDoc(userStatsRef);
+    const { stats } = getRepositories();
+    const userStats = await stats.getUser(userId);
     
-    if (userStatsDoc.exists()) {
-      return userStatsDoc.data() as UserStats;
+    if (userStats) {
+      return userStats;
     }
     
     // Create default user stats if they don't exist
@@ -2257,7 +1810,7 @@ export const getUserStats = async (): Promise<UserStats> => {
       lastReset: dateToTimestamp(new Date()),
     };
     
-    await setDoc(userStatsRef, defaultStats);
+    await stats.setUser(userId, defaultStats);
     return defaultStats;
   } catch (error) {
     console.error('Error getting user stats:', error);
@@ -2274,11 +1827,10 @@ export const subscribeToUserStats = (
 ): Unsubscribe => {
   try {
     const userId = getCurrentUserId();
-    const userStatsRef = doc(FIREBASE_DB, 'users', userId);
     
-    return onSnapshot(userStatsRef, async (snapshot) => {
-      if (snapshot.exists()) {
-        onNext(snapshot.data() as UserStats);
+    return getRepositories().stats.subscribeUser(userId, async (userStats) => {
+      if (userStats) {
+        onNext(userStats);
       } else {
         // Create default user stats if they don't exist
         try {
@@ -2301,105 +1853,23 @@ export const subscribeToUserStats = (
 
 /**
  * Update user weekly XP goal
+ * The goal is spread evenly over the weekday targets of the user's XP settings
  */
 export const updateWeeklyXPGoal = async (goal: number): Promise<void> => {
   try {
     const userId = getCurrentUserId();
-    const userStatsRef = doc(FIREBASE_DB, 'users', userId);
-    await updateDoc(userStatsRef, {
-      weeklyXPGoal: goal,
+    const xpSettings = await getXpSettings(userId);
+    const dailyTarget = Math.floor(goal / 7);
+    const result = await saveXpSettings({
+      ...xpSettings,
+      // Any remainder goes to the first days of the week
+      weekdayTargets: Array.from({ length: 7 }, (_, day) => dailyTarget + (day < goal % 7 ? 1 : 0)),
     });
-  } catch (error) {
-    console.error('Error updating weekly XP goal:', error);
-    throw error;
-  }
-};
-
-/**
- * Reset daily tasks and update stats
- * 
- * This function now only resets recurring tasks, preserving non-recurring completed tasks
- * to ensure they don't reappear in the task list on subsequent days and their XP is preserved.
- */
-export const resetDailyTasks = async (): Promise<void> => {
-  try {
-    const userId = getCurrentUserId();
-    const now = new Date();
-    const todayStr = formatDateString(now);
-    
-    // Get user stats to check last reset
-    const userStatsRef = doc(FIREBASE_DB, 'users', userId);
-    const userStatsDoc = await getDoc(userStatsRef);
-    
-    if (!userStatsDoc.exists()) {
-      return; // No user stats, nothing to reset
+    if (!result.success) {
+      throw new Error(result.message);
     }
-    
-    const userStats = userStatsDoc.data() as UserStats;
-    const lastResetDate = userStats.lastReset.toDate();
-    const lastResetStr = formatDateString(lastResetDate);
-    
-    // Only reset if it's a new day
-    if (lastResetStr === todayStr) {
-      return; // Already reset today
-    }
-    
-    // Use the user-specific collection instead of the legacy collection
-    // to avoid permission issues
-    const userTasksRef = collection(FIREBASE_DB, 'users', userId, 'tasks');
-    const q = query(
-      userTasksRef,
-      where('recurring', '==', true), // Only reset recurring tasks
-      where('completed', '==', true)
-    );
-    const querySnapshot = await getDocs(q);
-    
-    // Reset tasks in a batch
-    const batch = writeBatch(FIREBASE_DB);
-    querySnapshot.forEach((doc) => {
-      const taskData = doc.data() as Task;
-      
-      // Update the task in the user-specific collection
-      batch.update(doc.ref, {
-        completed: false,
-        completedAt: null,
-        // Store the last completed date for streak tracking
-        lastCompletedDate: todayStr
-      });
-      
-      // Only update the legacy collection if we're not disabling legacy access
-      // Since DISABLE_LEGACY_TASKS_ACCESS is set to true by default, this block will usually be skipped
-      if (!DISABLE_LEGACY_TASKS_ACCESS) {
-        try {
-          if (taskData.id) {
-            const legacyTaskRef = doc(FIREBASE_DB, 'tasks', taskData.id);
-            // Update the legacy task in the same batch
-            // This is safe because we've already set DISABLE_LEGACY_TASKS_ACCESS to true by default
-            // so this code path is unlikely to be executed
-            batch.update(legacyTaskRef, {
-              completed: false,
-              completedAt: null,
-              lastCompletedDate: todayStr
-            });
-          }
-        } catch (legacyError) {
-          // This won't affect the main operation
-          console.warn(`Skipping legacy update for task ${taskData.id}: ${legacyError instanceof Error ? legacyError.message : 'Unknown error'}`);
-        }
-      }
-    });
-    
-    // Reset user stats for the new day
-    batch.update(userStatsRef, {
-      todayXP: 0,
-      lastReset: dateToTimestamp(now),
-    });
-    
-    await batch.commit();
-    
-    console.log(`Daily reset completed: Reset ${querySnapshot.size} recurring tasks`);
   } catch (error) {
-    console.error('Error resetting daily tasks:', error);
+    console.error('Error updating weekly XP goal:', error);
     throw error;
   }
 };
@@ -0,0 +1,431 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import moment from 'moment';
+import { ScheduledTask } from '../types/scheduledTask';
+import {
+  parseRRule,
+  formatRRule,
+  expandOccurrences,
+  getScheduledTaskRule,
+  getSeriesStartDate
+} from './rrule';
+
+// Fields needed to create a scheduled task, as accepted by addScheduledTask
+export type NewScheduledTask = Omit<ScheduledTask, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'status'>;
+
+// A VEVENT read from an .ics file
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  startDate: string; // YYYY-MM-DD
+  startTime?: string; // HH:MM, absent for all-day events
+  rrule?: string;
+  dueDate?: string;
+  recurrenceId?: string;
+  cancelled: boolean;
+  hasAlarm: boolean;
+}
+
+// One event of an import, with the task it would create or the reason it is skipped
+export interface IcsImportItem {
+  uid: string;
+  task: NewScheduledTask;
+  skipReason?: string;
+  warning?: string;
+}
+
+const PRODID = '-//DailyX//Schedule//EN';
+
+// Custom property used to round-trip the due date of one-time events
+const DUE_DATE_PROPERTY = 'X-DAILYX-DUE-DATE';
+
+/**
+ * UID of a scheduled task in exported calendars
+ * Imported tasks keep the UID of the event they came from
+ */
+export const getTaskIcsUid = (task: Pick<ScheduledTask, 'id' | 'icsUid'>): string =>
+  task.icsUid || `${task.id}@dailyx`;
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Octets a character takes in UTF-8
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) || 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Fold a content line to 75 octets of UTF-8, continuation lines start with a space (RFC 5545 3.1)
+ * Lines are only broken between characters, so a multi-octet character or surrogate pair stays whole
+ */
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  // Iterating a string visits whole code points
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > 75) {
+      chunks.push(chunk);
+      chunk = ' ';
+      octets = 1;
+    }
+    chunk += char;
+    octets += length;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n');
+};
+
+const toIcsDate = (date: string): string => date.replace(/-/g, '');
+
+const addDays = (date: string, days: number): string =>
+  moment(date, 'YYYY-MM-DD').add(days, 'days').format('YYYY-MM-DD');
+
+/**
+ * Build the VEVENT lines for a scheduled task
+ */
+const buildEventLines = (task: ScheduledTask, stamp: string): string[] => {
+  const rule = getScheduledTaskRule(task);
+  const startDate = rule ? getSeriesStartDate(task) : task.scheduledDate;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getTaskIcsUid(task)}`,
+    `DTSTAMP:${stamp}`,
+  ];
+
+  if (task.scheduledTime) {
+    // Floating time: the event happens at this wall-clock time wherever the user is
+    const [hours, minutes] = task.scheduledTime.split(':');
+    lines.push(`DTSTART:${toIcsDate(startDate)}T${hours}${minutes}00`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${toIcsDate(startDate)}`);
+    lines.push(`DTEND;VALUE=DATE:${toIcsDate(addDays(startDate, 1))}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(task.title)}`);
+  if (task.description) {
+    lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  }
+
+  if (rule) {
+    lines.push(`RRULE:${formatRRule(rule)}`);
+  } else if (task.dueDate) {
+    lines.push(`${DUE_DATE_PROPERTY};VALUE=DATE:${toIcsDate(task.dueDate)}`);
+  }
+
+  if (task.notificationEnabled) {
+    // Reminders fire at the event time, or at 9:00 for all-day events
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(task.title)}`,
+      `TRIGGER:${task.scheduledTime ? 'PT0M' : 'PT9H'}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Serialize scheduled tasks as an iCalendar (RFC 5545) document
+ *
+ * @param tasks - The tasks to export
+ * @returns The .ics file contents
+ */
+export const buildIcsCalendar = (tasks: ScheduledTask[]): string => {
+  const stamp = `${moment.utc().format('YYYYMMDD[T]HHmmss')}Z`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:DailyX Schedule',
+    ...tasks.flatMap(task => buildEventLines(task, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+/**
+ * Exports scheduled tasks to an .ics file and opens the share sheet
+ * @param tasks The tasks to export
+ * @returns Promise that resolves when the export is complete
+ */
+export const exportScheduledTasksToIcs = async (tasks: ScheduledTask[]): Promise<void> => {
+  try {
+    const fileUri = `${FileSystem.documentDirectory}schedule_export_${moment().format('YYYYMMDD_HHmmss')}.ics`;
+    await FileSystem.writeAsStringAsync(fileUri, buildIcsCalendar(tasks));
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'text/calendar',
+        UTI: 'com.apple.ical.ics',
+        dialogTitle: 'Export Schedule',
+      });
+    } else {
+      throw new Error('Sharing is not available on this device');
+    }
+  } catch (error) {
+    console.error('Error exporting schedule:', error);
+    throw error;
+  }
+};
+
+/**
+ * Split a content line into its name, parameters and value
+ */
+const parseContentLine = (line: string): { name: string; params: Record<string, string>; value: string } | null => {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, separator).split(';');
+  const params = paramParts.reduce((acc, part) => {
+    const [key, paramValue = ''] = part.split('=');
+    acc[key.toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+    return acc;
+  }, {} as Record<string, string>);
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+/**
+ * Parse a DATE or DATE-TIME value into a local date and optional time
+ * UTC times are converted to the device's time zone; TZID and floating times
+ * are kept as wall-clock times.
+ */
+const parseIcsDateTime = (
+  value: string,
+  params: Record<string, string>
+): { date: string; time?: string } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (!hours || params.VALUE === 'DATE') {
+    return { date: `${year}-${month}-${day}` };
+  }
+
+  if (utc) {
+    const local = moment.utc(`${year}-${month}-${day}T${hours}:${minutes}`).local();
+    return { date: local.format('YYYY-MM-DD'), time: local.format('HH:mm') };
+  }
+
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+};
+
+/**
+ * Read the VEVENTs of an iCalendar document
+ *
+ * @param content - The .ics file contents
+ * @returns The events, in file order
+ * @throws Error if the content is not an iCalendar document
+ */
+export const parseIcsEvents = (content: string): IcsEvent[] => {
+  // Unfold continuation lines before splitting into properties; splitting drops the line endings,
+  // and everything else on a line, trailing spaces included, belongs to its value
+  const lines = content.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some(line => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('This file is not an iCalendar (.ics) file');
+  }
+
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    if (!line) continue;
+    const upper = line.toUpperCase();
+
+    if (upper === 'BEGIN:VEVENT') {
+      current = { cancelled: false, hasAlarm: false };
+      nestedDepth = 0;
+      continue;
+    }
+    if (!current) continue;
+
+    if (upper === 'END:VEVENT') {
+      if (current.startDate) {
+        events.push({
+          ...current,
+          uid: current.uid || `${current.startDate}-${current.summary || 'event'}@import`,
+          summary: current.summary || 'Untitled event',
+        } as IcsEvent);
+      }
+      current = null;
+      continue;
+    }
+
+    // Properties of nested components (alarms) don't describe the event itself
+    if (upper.startsWith('BEGIN:')) {
+      if (upper === 'BEGIN:VALARM') current.hasAlarm = true;
+      nestedDepth++;
+      continue;
+    }
+    if (upper.startsWith('END:')) {
+      nestedDepth = Math.max(0, nestedDepth - 1);
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    switch (property.name) {
+      case 'UID':
+        current.uid = property.value;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(property.value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(property.value);
+        break;
+      case 'DTSTART': {
+        const start = parseIcsDateTime(property.value, property.params);
+        if (start) {
+          current.startDate = start.date;
+          current.startTime = start.time;
+        }
+        break;
+      }
+      case 'RRULE':
+        current.rrule = property.value;
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = property.value;
+        break;
+      case 'STATUS':
+        current.cancelled = property.value.toUpperCase() === 'CANCELLED';
+        break;
+      case DUE_DATE_PROPERTY:
+        current.dueDate = parseIcsDateTime(property.value, property.params)?.date;
+        break;
+    }
+  }
+
+  return events;
+};
+
+/**
+ * Work out what importing a set of events would create
+ *
+ * Events whose UID already exists in the schedule (or earlier in the file) are
+ * skipped, as are cancelled events, changed occurrences of a series and events
+ * with no dates left from today. Repeating events keep their original start so
+ * INTERVAL and COUNT line up, but are only scheduled from today onwards.
+ *
+ * @param events - Events read from the file
+ * @param existingTasks - The user's current scheduled tasks
+ * @param today - Today's date (YYYY-MM-DD)
+ * @returns One item per event
+ */
+export const buildIcsImportPreview = (
+  events: IcsEvent[],
+  existingTasks: ScheduledTask[],
+  today: string
+): IcsImportItem[] => {
+  const knownUids = new Set(existingTasks.map(getTaskIcsUid));
+
+  return events.map(event => {
+    const task: NewScheduledTask = {
+      title: event.summary,
+      description: event.description,
+      scheduledDate: event.startDate,
+      scheduledTime: event.startTime,
+      repeatFrequency: 'none',
+      notificationEnabled: event.hasAlarm,
+      icsUid: event.uid,
+    };
+    const item: IcsImportItem = { uid: event.uid, task };
+
+    if (event.recurrenceId) {
+      item.skipReason = 'Changed occurrence of a repeating event';
+      return item;
+    }
+    if (event.cancelled) {
+      item.skipReason = 'Cancelled';
+      return item;
+    }
+    if (knownUids.has(event.uid)) {
+      item.skipReason = 'Already in your schedule';
+      return item;
+    }
+    knownUids.add(event.uid);
+
+    if (event.rrule) {
+      try {
+        const rule = parseRRule(event.rrule);
+        const [nextOccurrence] = expandOccurrences(rule, event.startDate, {
+          from: event.startDate > today ? event.startDate : today,
+          to: addDays(today, 3660),
+          limit: 1,
+        });
+        if (!nextOccurrence) {
+          item.skipReason = 'Repeating event has ended';
+          return item;
+        }
+
+        task.repeatFrequency = 'custom';
+        task.rrule = formatRRule(rule);
+        task.seriesStartDate = event.startDate;
+        task.scheduledDate = nextOccurrence;
+        return item;
+      } catch (error) {
+        item.warning = `Repeat rule not supported (${error instanceof Error ? error.message : 'unknown'}), importing the first date only`;
+      }
+    }
+
+    if (event.startDate < today) {
+      item.skipReason = 'In the past';
+      return item;
+    }
+    if (event.dueDate && event.dueDate >= event.startDate) {
+      task.dueDate = event.dueDate;
+    }
+
+    return item;
+  });
+};
+
+/**
+ * Let the user pick an .ics file and read its contents
+ * @returns The file contents, or null if the user cancelled
+ */
+export const pickIcsFile = async (): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    // Many Android file managers don't report text/calendar, so accept any file and validate the contents
+    type: ['text/calendar', 'application/ics', '*/*'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  return FileSystem.readAsStringAsync(result.assets[0].uri);
+};
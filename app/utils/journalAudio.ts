@@ -0,0 +1,154 @@
+import { FIREBASE_AUTH, FIREBASE_DB, FIREBASE_STORAGE } from '../../FirebaseConfig';
+import { doc, runTransaction } from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import * as FileSystem from 'expo-file-system';
+import { JournalAudio, JournalEntry } from '../types';
+import { buildJournalDay, getDayReflections } from './journalEntries';
+
+// Recordings are kept here so they can be replayed offline and uploaded later
+const JOURNAL_AUDIO_DIR = `${FileSystem.documentDirectory}journal-audio/`;
+export const JOURNAL_AUDIO_EXTENSION = 'm4a';
+export const JOURNAL_AUDIO_MIME_TYPE = 'audio/mp4';
+
+/**
+ * Local cache location of a recording
+ * @param audioId The recording ID
+ */
+export const getCachedAudioUri = (audioId: string): string =>
+  `${JOURNAL_AUDIO_DIR}${audioId}.${JOURNAL_AUDIO_EXTENSION}`;
+
+const getStoragePath = (userId: string, audioId: string): string =>
+  `journalAudio/${userId}/${audioId}.${JOURNAL_AUDIO_EXTENSION}`;
+
+const ensureAudioDir = async (): Promise<void> => {
+  const info = await FileSystem.getInfoAsync(JOURNAL_AUDIO_DIR);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(JOURNAL_AUDIO_DIR, { intermediates: true });
+  }
+};
+
+/**
+ * Move a finished recording into the journal audio cache
+ * @param recordingUri The temporary file written by the recorder
+ * @param audioId The ID to store the recording under
+ * @returns The cached file URI
+ */
+export const cacheRecording = async (recordingUri: string, audioId: string): Promise<string> => {
+  await ensureAudioDir();
+  const cachedUri = getCachedAudioUri(audioId);
+  await FileSystem.moveAsync({ from: recordingUri, to: cachedUri });
+  return cachedUri;
+};
+
+/**
+ * Delete a cached recording, e.g. when the user discards it before saving
+ * @param audioId The recording ID
+ */
+export const deleteCachedRecording = async (audioId: string): Promise<void> => {
+  try {
+    await FileSystem.deleteAsync(getCachedAudioUri(audioId), { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting cached recording:', error);
+  }
+};
+
+/**
+ * Get a URI that can be played for a recording, preferring the local cache.
+ * Uploaded recordings missing from the cache (e.g. made on another device) are downloaded into it.
+ * @param audio The recording metadata
+ * @returns A playable URI, or null when the recording is not available on this device yet
+ */
+export const resolvePlayableAudioUri = async (audio: JournalAudio): Promise<string | null> => {
+  const cachedUri = getCachedAudioUri(audio.id);
+  const info = await FileSystem.getInfoAsync(cachedUri);
+  if (info.exists) {
+    return cachedUri;
+  }
+
+  if (!audio.downloadUrl) {
+    return null;
+  }
+
+  try {
+    await ensureAudioDir();
+    const download = await FileSystem.downloadAsync(audio.downloadUrl, cachedUri);
+    return download.uri;
+  } catch (error) {
+    console.error('Error caching journal audio, streaming instead:', error);
+    return audio.downloadUrl;
+  }
+};
+
+/**
+ * Upload a cached recording and mark it as uploaded on its reflection
+ * Safe to replay: the Storage path is derived from the recording ID
+ * @param dateStr The journal day (YYYY-MM-DD)
+ * @param reflectionId The reflection the recording belongs to
+ * @param audioId The recording ID
+ */
+export const uploadJournalAudio = async (
+  dateStr: string,
+  reflectionId: string,
+  audioId: string
+): Promise<void> => {
+  try {
+    const userId = FIREBASE_AUTH.currentUser?.uid;
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const cachedUri = getCachedAudioUri(audioId);
+    const info = await FileSystem.getInfoAsync(cachedUri);
+    if (!info.exists) {
+      throw new Error('The voice recording is no longer on this device');
+    }
+
+    // Read the file as bytes, the same way profile pictures are uploaded
+    const response = await fetch(cachedUri);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+
+    const storagePath = getStoragePath(userId, audioId);
+    const storageRef = ref(FIREBASE_STORAGE, storagePath);
+    await uploadBytes(storageRef, bytes, { contentType: JOURNAL_AUDIO_MIME_TYPE });
+    const downloadUrl = await getDownloadURL(storageRef);
+
+    const journalRef = doc(FIREBASE_DB, 'users', userId, 'journal', dateStr);
+    await runTransaction(FIREBASE_DB, async (transaction) => {
+      const snapshot = await transaction.get(journalRef);
+      if (!snapshot.exists()) {
+        throw new Error('Journal entry not found');
+      }
+
+      const reflections = getDayReflections(snapshot.data() as JournalEntry);
+      const index = reflections.findIndex(reflection => reflection.id === reflectionId);
+      if (index === -1 || !reflections[index].audio) {
+        throw new Error('Journal entry not found');
+      }
+
+      reflections[index] = {
+        ...reflections[index],
+        audio: {
+          ...reflections[index].audio!,
+          status: 'uploaded',
+          storagePath,
+          downloadUrl,
+        },
+      };
+      transaction.set(journalRef, buildJournalDay(reflections, userId));
+    });
+  } catch (error) {
+    console.error('Error uploading journal audio:', error);
+    throw error;
+  }
+};
+
+/**
+ * Format a recording length as m:ss
+ * @param durationMs The length in milliseconds
+ */
+export const formatAudioDuration = (durationMs: number): string => {
+  const totalSeconds = Math.max(0, Math.round(durationMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
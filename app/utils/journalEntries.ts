@@ -0,0 +1,78 @@
+import { Timestamp } from 'firebase/firestore';
+import { JournalEntry, JournalReflection } from '../types';
+
+// ID given to the reflection converted from a single-entry journal document
+export const LEGACY_REFLECTION_ID = 'legacy';
+
+type JournalDayData = Partial<JournalEntry>;
+
+/**
+ * Create a client-side ID for a new reflection, so a retried save doesn't add it twice
+ */
+export const createReflectionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toMillis = (timestamp?: Timestamp | Date): number => {
+  if (!timestamp) return 0;
+  return timestamp instanceof Date ? timestamp.getTime() : timestamp.toMillis();
+};
+
+/**
+ * Whether a journal document still uses the single-entry shape
+ * @param data The journal document data
+ */
+export const isLegacyJournalDay = (data: JournalDayData): boolean =>
+  !Array.isArray(data.entries) && (!!data.thought || !!data.entry || !!data.mood);
+
+/**
+ * Get the reflections of a journal day in the order they were written
+ * Single-entry documents are read as a day with one reflection
+ * @param data The journal document data
+ * @returns Reflections sorted by timestamp, oldest first
+ */
+export const getDayReflections = (data: JournalDayData | undefined | null): JournalReflection[] => {
+  if (!data) return [];
+
+  if (Array.isArray(data.entries)) {
+    return [...data.entries].sort((a, b) => toMillis(a.timestamp) - toMillis(b.timestamp));
+  }
+
+  if (!isLegacyJournalDay(data)) return [];
+
+  const legacy: JournalReflection = {
+    id: LEGACY_REFLECTION_ID,
+    thought: data.thought || '',
+    entry: data.entry || '',
+    timestamp: data.timestamp!,
+  };
+  // Firestore rejects undefined fields, so optional ones are only set when present
+  if (data.mood) {
+    legacy.mood = data.mood;
+  }
+  if (data.isEdited) {
+    legacy.isEdited = true;
+    if (data.editTimestamp) legacy.editTimestamp = data.editTimestamp;
+  }
+  return [legacy];
+};
+
+/**
+ * Build the journal document for a day from its reflections
+ * The day's mood and timestamp follow the latest reflection so existing queries keep working
+ * @param reflections The day's reflections
+ * @param userId The owner of the journal
+ */
+export const buildJournalDay = (reflections: JournalReflection[], userId: string): JournalEntry => {
+  const sorted = [...reflections].sort((a, b) => toMillis(a.timestamp) - toMillis(b.timestamp));
+  const latest = sorted[sorted.length - 1];
+
+  const day: JournalEntry = {
+    entries: sorted,
+    timestamp: latest.timestamp,
+    userId,
+  };
+  if (latest.mood) {
+    day.mood = latest.mood;
+  }
+  return day;
+};
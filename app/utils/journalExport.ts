@@ -1,95 +1,405 @@
-import { FIREBASE_DB } from '../../FirebaseConfig';
-import { collection, query, orderBy, getDocs, Timestamp } from 'firebase/firestore';
+import { getRepositories } from '../repositories';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import * as MediaLibrary from 'expo-media-library';
 import { Platform } from 'react-native';
 import moment from 'moment';
+import { JournalReflection } from '../types';
+import { getDayReflections } from './journalEntries';
+import { formatAudioDuration } from './journalAudio';
+import { MAX_MOOD_INTENSITY, getMoodPalette } from './moodPalette';
+import { DayProductivity, MoodInsights, loadMoodInsights, summarizeMoodInsights, toMoodDay } from './moodInsights';
 
-interface JournalEntry {
-  thought: string;
-  entry: string;
-  mood?: string;
-  timestamp: Timestamp | Date;
-  date?: string;
+// A journal day as handed to exporters: the document ID is the day (YYYY-MM-DD)
+export interface ExportableJournalEntry {
+  date: string;
+  reflections: JournalReflection[]; // Oldest first
+  productivity?: DayProductivity; // XP and completions that day, when there were any
 }
 
+export type JournalExportFormat = 'text' | 'markdown' | 'html' | 'csv';
+
 /**
- * Exports a user's journal entries to a text file
+ * Turns journal entries into a file of one format
+ * Register new formats with registerJournalExporter
+ */
+export interface JournalExporter {
+  format: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  UTI?: string;
+  // Insights are omitted when they could not be loaded
+  render: (entries: ExportableJournalEntry[], exportedAt: moment.Moment, insights?: MoodInsights | null) => string;
+}
+
+const formatEntryDate = (date: string): string => moment(date, 'YYYY-MM-DD').format('MMMM D, YYYY');
+
+const formatReflectionTime = (reflection: JournalReflection): string =>
+  reflection.timestamp ? moment(reflection.timestamp.toDate()).format('h:mm A') : '';
+
+// Voice notes are linked by their Storage URL; ones still waiting to upload can't be linked yet
+const describeVoiceNote = (reflection: JournalReflection): string | null => {
+  if (!reflection.audio) return null;
+  const label = `Voice note (${formatAudioDuration(reflection.audio.durationMs)})`;
+  return reflection.audio.downloadUrl ? `${label}: ${reflection.audio.downloadUrl}` : `${label}: not uploaded yet`;
+};
+
+// Mood label with its intensity when one was recorded, e.g. "Happy (4/5)"
+const formatReflectionMood = (reflection: JournalReflection): string => {
+  if (!reflection.mood) return '';
+  return reflection.moodIntensity
+    ? `${reflection.mood} (${reflection.moodIntensity}/${MAX_MOOD_INTENSITY})`
+    : reflection.mood;
+};
+
+/**
+ * Count the words of a reflection's thought and journal text
+ */
+export const countJournalWords = (reflection: Pick<JournalReflection, 'thought' | 'entry'>): number =>
+  `${reflection.thought || ''} ${reflection.entry || ''}`.split(/\s+/).filter(Boolean).length;
+
+const textExporter: JournalExporter = {
+  format: 'text',
+  label: 'Text',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  UTI: 'public.plain-text',
+  render: (entries, exportedAt, insights) => {
+    let textContent = `# DailyX Journal Export\n\n`;
+    textContent += `Exported on: ${exportedAt.format('MMMM D, YYYY [at] h:mm A')}\n`;
+    textContent += `Total Entries: ${entries.length}\n\n`;
+
+    const insightLines = insights ? summarizeMoodInsights(insights) : [];
+    if (insightLines.length > 0) {
+      textContent += `## Mood & Productivity\n\n${insightLines.map(line => `- ${line}`).join('\n')}\n\n---\n\n`;
+    }
+
+    // Add each journal day to the text content, with its reflections in the order they were written
+    entries.forEach(entry => {
+      textContent += `## ${formatEntryDate(entry.date)}\n\n`;
+
+      entry.reflections.forEach(reflection => {
+        if (entry.reflections.length > 1) {
+          textContent += `[${formatReflectionTime(reflection)}]\n\n`;
+        }
+
+        if (reflection.mood) {
+          textContent += `Mood: ${formatReflectionMood(reflection)}\n\n`;
+        }
+
+        if (reflection.thought) {
+          textContent += `### Today's Thought\n${reflection.thought}\n\n`;
+        }
+
+        if (reflection.entry) {
+          textContent += `### Journal Entry\n${reflection.entry}\n\n`;
+        }
+
+        const voiceNote = describeVoiceNote(reflection);
+        if (voiceNote) {
+          textContent += `${voiceNote}\n\n`;
+        }
+      });
+
+      textContent += `---\n\n`;
+    });
+
+    return textContent;
+  },
+};
+
+const markdownExporter: JournalExporter = {
+  format: 'markdown',
+  label: 'Markdown',
+  extension: 'md',
+  mimeType: 'text/markdown',
+  UTI: 'net.daringfireball.markdown',
+  render: (entries, exportedAt, insights) => {
+    const insightLines = insights ? summarizeMoodInsights(insights) : [];
+    const sections = entries.map(entry => {
+      const lines = [`## ${moment(entry.date, 'YYYY-MM-DD').format('dddd, MMMM D, YYYY')}`, ''];
+
+      entry.reflections.forEach(reflection => {
+        const heading = [formatReflectionTime(reflection), formatReflectionMood(reflection)].filter(Boolean).join(' · ');
+        if (heading) {
+          lines.push(`### ${heading}`, '');
+        }
+        if (reflection.thought) {
+          // Quote every line so multi-line thoughts stay inside the blockquote
+          lines.push(reflection.thought.split('\n').map(line => `> ${line}`).join('\n'), '');
+        }
+        if (reflection.entry) {
+          lines.push(reflection.entry, '');
+        }
+        if (reflection.audio) {
+          const label = `Voice note (${formatAudioDuration(reflection.audio.durationMs)})`;
+          lines.push(reflection.audio.downloadUrl ? `🎙️ [${label}](${reflection.audio.downloadUrl})` : `🎙️ ${label}, not uploaded yet`, '');
+        }
+      });
+
+      return lines.join('\n');
+    });
+
+    return [
+      '# DailyX Journal',
+      '',
+      `_Exported on ${exportedAt.format('MMMM D, YYYY [at] h:mm A')} · ${entries.length} days_`,
+      '',
+      ...(insightLines.length > 0
+        ? ['## Mood & Productivity', '', ...insightLines.map(line => `- ${line}`), '']
+        : []),
+      ...sections,
+    ].join('\n');
+  },
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Blank lines separate paragraphs, single newlines become line breaks
+const toHtmlParagraphs = (value: string): string =>
+  value
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+const htmlExporter: JournalExporter = {
+  format: 'html',
+  label: 'HTML',
+  extension: 'html',
+  mimeType: 'text/html',
+  UTI: 'public.html',
+  render: (entries, exportedAt, insights) => {
+    const insightLines = insights ? summarizeMoodInsights(insights) : [];
+    const renderReflection = (reflection: JournalReflection) => `
+      <section>
+        <div class="mood">${escapeHtml([formatReflectionTime(reflection), reflection.mood ? `Mood: ${formatReflectionMood(reflection)}` : ''].filter(Boolean).join(' · '))}</div>
+        ${reflection.thought ? `<blockquote>${toHtmlParagraphs(reflection.thought)}</blockquote>` : ''}
+        ${reflection.entry ? `<div class="entry">${toHtmlParagraphs(reflection.entry)}</div>` : ''}
+        ${reflection.audio?.downloadUrl ? `
+        <div class="voice-note">
+          <audio controls preload="none" src="${escapeHtml(reflection.audio.downloadUrl)}"></audio>
+          <a href="${escapeHtml(reflection.audio.downloadUrl)}">Voice note (${formatAudioDuration(reflection.audio.durationMs)})</a>
+        </div>` : reflection.audio ? `<div class="voice-note">${escapeHtml(describeVoiceNote(reflection)!)}</div>` : ''}
+      </section>`;
+
+    const articles = entries.map(entry => `
+    <article>
+      <h2>${escapeHtml(moment(entry.date, 'YYYY-MM-DD').format('dddd, MMMM D, YYYY'))}</h2>
+      ${entry.reflections.map(renderReflection).join('\n')}
+    </article>`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>DailyX Journal</title>
+  <style>
+    body { font-family: Georgia, 'Times New Roman', serif; color: #222; max-width: 720px; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; }
+    header { border-bottom: 2px solid #4A6FA5; margin-bottom: 2rem; }
+    h1 { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #4A6FA5; margin-bottom: 0.25rem; }
+    .meta { color: #666; font-size: 0.9rem; margin-bottom: 1rem; }
+    article { margin-bottom: 2.5rem; }
+    section + section { border-top: 1px dashed #ddd; margin-top: 1rem; }
+    .voice-note { display: flex; align-items: center; gap: 0.75rem; color: #555; font-size: 0.9rem; margin: 0.5rem 0; }
+    h2 { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; font-size: 1.2rem; border-bottom: 1px solid #ddd; padding-bottom: 0.25rem; }
+    .mood { color: #555; font-size: 0.95rem; margin: 0.5rem 0; }
+    .insights { background: #f5f7fb; border-radius: 6px; padding: 0.5rem 1rem; margin-bottom: 2rem; font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; font-size: 0.9rem; }
+    blockquote { margin: 0.75rem 0; padding: 0.25rem 1rem; border-left: 4px solid #4A6FA5; background: #f5f7fb; font-style: italic; }
+    @media print {
+      body { margin: 0; max-width: none; }
+      audio { display: none; }
+      article { page-break-inside: avoid; }
+      blockquote { background: none; }
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>DailyX Journal</h1>
+    <div class="meta">Exported on ${escapeHtml(exportedAt.format('MMMM D, YYYY [at] h:mm A'))} · ${entries.length} days</div>
+  </header>
+${insightLines.length > 0 ? `  <aside class="insights">
+    <h2>Mood &amp; Productivity</h2>
+    <ul>
+      ${insightLines.map(line => `<li>${escapeHtml(line)}</li>`).join('\n      ')}
+    </ul>
+  </aside>
+` : ''}${articles}
+</body>
+</html>
+`;
+  },
+};
+
+// Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+const toCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvExporter: JournalExporter = {
+  format: 'csv',
+  label: 'CSV',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  UTI: 'public.comma-separated-values-text',
+  render: entries => {
+    const rows = [
+      ['date', 'time', 'mood', 'mood_intensity', 'thought', 'entry', 'word_count', 'audio_url', 'day_xp', 'day_tasks_completed'],
+      // One row per reflection
+      ...entries.flatMap(entry => entry.reflections.map(reflection => [
+        entry.date,
+        reflection.timestamp ? moment(reflection.timestamp.toDate()).format('HH:mm') : '',
+        reflection.mood || '',
+        reflection.moodIntensity || '',
+        reflection.thought || '',
+        reflection.entry || '',
+        countJournalWords(reflection),
+        reflection.audio?.downloadUrl || '',
+        entry.productivity?.xpEarned ?? 0,
+        entry.productivity?.tasksCompleted ?? 0,
+      ])),
+    ];
+
+    // The byte order mark lets spreadsheet apps detect UTF-8 (mood emojis)
+    return `\uFEFF${rows.map(row => row.map(toCsvField).join(',')).join('\r\n')}\r\n`;
+  },
+};
+
+const JOURNAL_EXPORTERS: Record<string, JournalExporter> = {
+  text: textExporter,
+  markdown: markdownExporter,
+  html: htmlExporter,
+  csv: csvExporter,
+};
+
+/**
+ * Add or replace an exporter for a format
+ * @param exporter The exporter to register under its format name
+ */
+export const registerJournalExporter = (exporter: JournalExporter): void => {
+  JOURNAL_EXPORTERS[exporter.format] = exporter;
+};
+
+/**
+ * All registered exporters, in registration order
+ */
+export const getJournalExporters = (): JournalExporter[] => Object.values(JOURNAL_EXPORTERS);
+
+const getJournalExporter = (format: JournalExportFormat | string): JournalExporter => {
+  const exporter = JOURNAL_EXPORTERS[format];
+  if (!exporter) {
+    throw new Error(`Unsupported export format: ${format}`);
+  }
+  return exporter;
+};
+
+/**
+ * Load a user's journal entries, optionally limited to a date range
+ * @param userId The user ID whose journal entries to load
+ * @param startDate Optional start date to filter entries (format: YYYY-MM-DD)
+ * @param endDate Optional end date to filter entries (format: YYYY-MM-DD)
+ * @returns Entries sorted newest first
+ */
+const fetchJournalEntries = async (
+  userId: string,
+  startDate?: string,
+  endDate?: string
+): Promise<ExportableJournalEntry[]> => {
+  // Get all journal entries, newest first
+  const days = await getRepositories().journal.listDays(userId);
+
+  // Filter by date range if provided
+  let entries = days.map(day => ({
+    date: day.date,
+    reflections: getDayReflections(day),
+  }));
+
+  if (startDate) {
+    const startMoment = moment(startDate, 'YYYY-MM-DD');
+    entries = entries.filter(entry => moment(entry.date, 'YYYY-MM-DD').isSameOrAfter(startMoment));
+  }
+
+  if (endDate) {
+    const endMoment = moment(endDate, 'YYYY-MM-DD');
+    entries = entries.filter(entry => moment(entry.date, 'YYYY-MM-DD').isSameOrBefore(endMoment));
+  }
+
+  // Sort entries by date (newest first)
+  entries.sort((a, b) => moment(b.date).diff(moment(a.date)));
+
+  return entries;
+};
+
+/**
+ * Render the journal in a format and write it to a file in the document directory
+ * @returns The file URI and the exporter used
+ */
+const writeJournalFile = async (
+  userId: string,
+  format: JournalExportFormat | string,
+  startDate?: string,
+  endDate?: string
+): Promise<{ fileUri: string; exporter: JournalExporter }> => {
+  const exporter = getJournalExporter(format);
+  const entries = await fetchJournalEntries(userId, startDate, endDate);
+  const exportedAt = moment();
+
+  // Productivity is a bonus; the journal is still exported if it can't be loaded
+  let insights: MoodInsights | null = null;
+  try {
+    const palette = await getMoodPalette(userId);
+    const result = await loadMoodInsights(
+      userId,
+      entries.map(entry => toMoodDay(entry.date, entry.reflections)),
+      palette
+    );
+    insights = result.insights;
+    entries.forEach(entry => {
+      entry.productivity = result.productivity[entry.date];
+    });
+  } catch (error) {
+    console.error('Error loading mood insights for export:', error);
+  }
+
+  const fileUri = `${FileSystem.documentDirectory}journal_export_${exportedAt.format('YYYYMMDD_HHmmss')}.${exporter.extension}`;
+  await FileSystem.writeAsStringAsync(fileUri, exporter.render(entries, exportedAt, insights));
+
+  return { fileUri, exporter };
+};
+
+/**
+ * Exports a user's journal entries in the given format and opens the share sheet
  * @param userId The user ID whose journal entries to export
+ * @param format The export format (text, markdown, html, csv or a registered format)
  * @param startDate Optional start date to filter entries (format: YYYY-MM-DD)
  * @param endDate Optional end date to filter entries (format: YYYY-MM-DD)
  * @returns Promise that resolves when the export is complete
  */
-export const exportJournalToText = async (
+export const exportJournal = async (
   userId: string,
+  format: JournalExportFormat | string,
   startDate?: string,
   endDate?: string
 ): Promise<void> => {
   try {
-    // Create a reference to the user's journal collection
-    const journalRef = collection(FIREBASE_DB, 'users', userId, 'journal');
-    
-    // Create a query to get all journal entries, ordered by timestamp
-    const journalQuery = query(journalRef, orderBy('timestamp', 'desc'));
-    
-    // Get the documents
-    const snapshot = await getDocs(journalQuery);
-    
-    // Filter by date range if provided
-    let entries = snapshot.docs.map(doc => ({
-      date: doc.id,
-      ...(doc.data() as JournalEntry)
-    }));
-    
-    if (startDate) {
-      const startMoment = moment(startDate, 'YYYY-MM-DD');
-      entries = entries.filter(entry => moment(entry.date, 'YYYY-MM-DD').isSameOrAfter(startMoment));
-    }
-    
-    if (endDate) {
-      const endMoment = moment(endDate, 'YYYY-MM-DD');
-      entries = entries.filter(entry => moment(entry.date, 'YYYY-MM-DD').isSameOrBefore(endMoment));
-    }
-    
-    // Sort entries by date (newest first)
-    entries.sort((a, b) => moment(b.date).diff(moment(a.date)));
-    
-    // Create text content
-    let textContent = `# DailyX Journal Export\n\n`;
-    textContent += `Exported on: ${moment().format('MMMM D, YYYY [at] h:mm A')}\n`;
-    textContent += `Total Entries: ${entries.length}\n\n`;
-    
-    // Add each journal entry to the text content
-    entries.forEach(entry => {
-      const entryDate = moment(entry.date, 'YYYY-MM-DD').format('MMMM D, YYYY');
-      
-      textContent += `## ${entryDate}\n\n`;
-      
-      if (entry.mood) {
-        textContent += `Mood: ${entry.mood}\n\n`;
-      }
-      
-      if (entry.thought) {
-        textContent += `### Today's Thought\n${entry.thought}\n\n`;
-      }
-      
-      if (entry.entry) {
-        textContent += `### Journal Entry\n${entry.entry}\n\n`;
-      }
-      
-      textContent += `---\n\n`;
-    });
-    
-    // Create a temporary file
-    const fileUri = `${FileSystem.documentDirectory}journal_export_${moment().format('YYYYMMDD_HHmmss')}.txt`;
-    
-    // Write the text content to the file
-    await FileSystem.writeAsStringAsync(fileUri, textContent);
-    
+    const { fileUri, exporter } = await writeJournalFile(userId, format, startDate, endDate);
+
     // Share the file
     if (await Sharing.isAvailableAsync()) {
-      await Sharing.shareAsync(fileUri);
+      await Sharing.shareAsync(fileUri, {
+        mimeType: exporter.mimeType,
+        UTI: exporter.UTI,
+        dialogTitle: 'Export Journal',
+      });
     } else {
       throw new Error('Sharing is not available on this device');
     }
@@ -100,15 +410,17 @@ export const exportJournalToText = async (
 };
 
 /**
- * Downloads a user's journal entries as a text file to the device
+ * Downloads a user's journal entries in the given format to the device
  * This function will work properly when the app is built as an APK
  * @param userId The user ID whose journal entries to download
+ * @param format The export format (text, markdown, html, csv or a registered format)
  * @param startDate Optional start date to filter entries (format: YYYY-MM-DD)
  * @param endDate Optional end date to filter entries (format: YYYY-MM-DD)
  * @returns Promise that resolves when the download is complete
  */
-export const downloadJournalAsTextFile = async (
+export const downloadJournal = async (
   userId: string,
+  format: JournalExportFormat | string,
   startDate?: string,
   endDate?: string
 ): Promise<void> => {
@@ -119,75 +431,14 @@ export const downloadJournalAsTextFile = async (
       throw new Error('Media library permission is required to save files');
     }
 
-    // Create a reference to the user's journal collection
-    const journalRef = collection(FIREBASE_DB, 'users', userId, 'journal');
-    
-    // Create a query to get all journal entries, ordered by timestamp
-    const journalQuery = query(journalRef, orderBy('timestamp', 'desc'));
-    
-    // Get the documents
-    const snapshot = await getDocs(journalQuery);
-    
-    // Filter by date range if provided
-    let entries = snapshot.docs.map(doc => ({
-      date: doc.id,
-      ...(doc.data() as JournalEntry)
-    }));
-    
-    if (startDate) {
-      const startMoment = moment(startDate, 'YYYY-MM-DD');
-      entries = entries.filter(entry => moment(entry.date, 'YYYY-MM-DD').isSameOrAfter(startMoment));
-    }
-    
-    if (endDate) {
-      const endMoment = moment(endDate, 'YYYY-MM-DD');
-      entries = entries.filter(entry => moment(entry.date, 'YYYY-MM-DD').isSameOrBefore(endMoment));
-    }
-    
-    // Sort entries by date (newest first)
-    entries.sort((a, b) => moment(b.date).diff(moment(a.date)));
-    
-    // Create text content
-    let textContent = `# DailyX Journal Export\n\n`;
-    textContent += `Exported on: ${moment().format('MMMM D, YYYY [at] h:mm A')}\n`;
-    textContent += `Total Entries: ${entries.length}\n\n`;
-    
-    // Add each journal entry to the text content
-    entries.forEach(entry => {
-      const entryDate = moment(entry.date, 'YYYY-MM-DD').format('MMMM D, YYYY');
-      
-      textContent += `## ${entryDate}\n\n`;
-      
-      if (entry.mood) {
-        textContent += `Mood: ${entry.mood}\n\n`;
-      }
-      
-      if (entry.thought) {
-        textContent += `### Today's Thought\n${entry.thought}\n\n`;
-      }
-      
-      if (entry.entry) {
-        textContent += `### Journal Entry\n${entry.entry}\n\n`;
-      }
-      
-      textContent += `---\n\n`;
-    });
-    
-    // Create a filename
-    const filename = `journal_export_${moment().format('YYYYMMDD_HHmmss')}.txt`;
-    
-    // Create a temporary file
-    const fileUri = `${FileSystem.documentDirectory}${filename}`;
-    
-    // Write the text content to the file
-    await FileSystem.writeAsStringAsync(fileUri, textContent);
-    
+    const { fileUri, exporter } = await writeJournalFile(userId, format, startDate, endDate);
+
     try {
       // Different handling based on platform
       if (Platform.OS === 'android') {
         // For Android: First create the asset, then add to album
         const asset = await MediaLibrary.createAssetAsync(fileUri);
-        
+
         // Create the album if it doesn't exist and add the asset to it
         const album = await MediaLibrary.getAlbumAsync('DailyX');
         if (album) {
@@ -195,29 +446,29 @@ export const downloadJournalAsTextFile = async (
         } else {
           await MediaLibrary.createAlbumAsync('DailyX', asset, false);
         }
-        
+
         return;
       } else if (Platform.OS === 'ios') {
         // For iOS: Save to camera roll
         await MediaLibrary.createAssetAsync(fileUri);
         return;
       }
-      
+
       // Fallback to sharing if we can't save directly
       if (await Sharing.isAvailableAsync()) {
-        await Sharing.shareAsync(fileUri);
+        await Sharing.shareAsync(fileUri, { mimeType: exporter.mimeType, UTI: exporter.UTI });
       } else {
         throw new Error('Saving to device is not available in this environment');
       }
     } catch (error: any) {
       console.error('Error saving file:', error);
-      
+
       // If saving fails, try sharing as fallback
       if (await Sharing.isAvailableAsync()) {
-        await Sharing.shareAsync(fileUri);
+        await Sharing.shareAsync(fileUri, { mimeType: exporter.mimeType, UTI: exporter.UTI });
         return;
       }
-      
+
       throw new Error(`Could not save file: ${error.message}`);
     }
   } catch (error: any) {
@@ -226,6 +477,33 @@ export const downloadJournalAsTextFile = async (
   }
 };
 
+/**
+ * Exports a user's journal entries to a text file
+ * @param userId The user ID whose journal entries to export
+ * @param startDate Optional start date to filter entries (format: YYYY-MM-DD)
+ * @param endDate Optional end date to filter entries (format: YYYY-MM-DD)
+ * @returns Promise that resolves when the export is complete
+ */
+export const exportJournalToText = async (
+  userId: string,
+  startDate?: string,
+  endDate?: string
+): Promise<void> => exportJournal(userId, 'text', startDate, endDate);
+
+/**
+ * Downloads a user's journal entries as a text file to the device
+ * This function will work properly when the app is built as an APK
+ * @param userId The user ID whose journal entries to download
+ * @param startDate Optional start date to filter entries (format: YYYY-MM-DD)
+ * @param endDate Optional end date to filter entries (format: YYYY-MM-DD)
+ * @returns Promise that resolves when the download is complete
+ */
+export const downloadJournalAsTextFile = async (
+  userId: string,
+  startDate?: string,
+  endDate?: string
+): Promise<void> => downloadJournal(userId, 'text', startDate, endDate);
+
 /**
  * Exports a specific journal entry to text
  * @param userId The user ID
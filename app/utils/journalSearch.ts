@@ -0,0 +1,257 @@
+import moment from 'moment';
+import { JournalEntry } from '../types';
+import type { JournalEntryChange } from './firebaseService';
+import { getDayReflections } from './journalEntries';
+
+type IndexableJournalEntry = Partial<JournalEntry> & { date: string };
+
+// One indexed journal day; the text of all of its reflections is searched together
+interface IndexedJournalEntry {
+  date: string;
+  thought: string;
+  entry: string;
+  mood?: string; // Mood of the latest reflection
+  moods: string[];
+  // Token -> number of occurrences in the entry, used for ranking
+  termCounts: Map<string, number>;
+}
+
+/**
+ * In-memory inverted index over journal thoughts and entries, keyed by entry date
+ */
+export interface JournalSearchIndex {
+  entries: Map<string, IndexedJournalEntry>;
+  postings: Map<string, Set<string>>;
+}
+
+export interface JournalSearchFilters {
+  mood?: string;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface JournalSearchResult {
+  date: string;
+  mood?: string;
+  score: number;
+  thought: HighlightSegment[];
+  entry: HighlightSegment[];
+}
+
+// Words are split on whitespace and punctuation so any script can be indexed
+const WORD_PATTERN = /[^\s.,;:!?"“”‘’()[\]{}<>/\\|@#$%^&*+=~`…—–-]+/g;
+const SNIPPET_CONTEXT = 60;
+const MAX_RESULTS = 100;
+
+const normalizeWord = (word: string): string =>
+  word
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/^'+|'+$/g, '');
+
+const tokenize = (text: string): string[] =>
+  (text.match(WORD_PATTERN) || []).map(normalizeWord).filter(Boolean);
+
+/**
+ * Create an empty search index
+ */
+export const createJournalSearchIndex = (): JournalSearchIndex => ({
+  entries: new Map(),
+  postings: new Map(),
+});
+
+const removeFromIndex = (index: JournalSearchIndex, date: string): void => {
+  const existing = index.entries.get(date);
+  if (!existing) return;
+
+  existing.termCounts.forEach((_, term) => {
+    const dates = index.postings.get(term);
+    if (!dates) return;
+    dates.delete(date);
+    if (dates.size === 0) {
+      index.postings.delete(term);
+    }
+  });
+  index.entries.delete(date);
+};
+
+const addToIndex = (index: JournalSearchIndex, entry: IndexableJournalEntry): void => {
+  const reflections = getDayReflections(entry);
+  const thought = reflections.map(reflection => reflection.thought).filter(Boolean).join('\n');
+  const text = reflections.map(reflection => reflection.entry).filter(Boolean).join('\n\n');
+
+  const termCounts = new Map<string, number>();
+  tokenize(`${thought} ${text}`).forEach(term => {
+    termCounts.set(term, (termCounts.get(term) || 0) + 1);
+  });
+
+  index.entries.set(entry.date, {
+    date: entry.date,
+    thought,
+    entry: text,
+    mood: reflections[reflections.length - 1]?.mood,
+    moods: reflections.map(reflection => reflection.mood).filter((mood): mood is string => !!mood),
+    termCounts,
+  });
+
+  termCounts.forEach((_, term) => {
+    const dates = index.postings.get(term) || new Set<string>();
+    dates.add(entry.date);
+    index.postings.set(term, dates);
+  });
+};
+
+/**
+ * Add or replace a single journal day in the index
+ * @param index The index to update in place
+ * @param entry The journal entry, keyed by its date (YYYY-MM-DD)
+ */
+export const indexJournalEntry = (index: JournalSearchIndex, entry: IndexableJournalEntry): void => {
+  removeFromIndex(index, entry.date);
+  addToIndex(index, entry);
+};
+
+/**
+ * Apply the document changes from a journal snapshot to the index
+ * @param index The index to update in place
+ * @param changes Changes reported by subscribeToJournalEntries
+ * @returns Whether anything in the index changed
+ */
+export const applyJournalChanges = (index: JournalSearchIndex, changes: JournalEntryChange[]): boolean => {
+  changes.forEach(change => {
+    if (change.type === 'removed') {
+      removeFromIndex(index, change.entry.date);
+    } else {
+      indexJournalEntry(index, change.entry);
+    }
+  });
+  return changes.length > 0;
+};
+
+/**
+ * Split text into highlighted and plain segments for every word that starts with a query term
+ * @param text The original text
+ * @param terms Normalized query terms
+ * @param snippet Whether to trim the text to a window around the first match
+ */
+export const highlightMatches = (text: string, terms: string[], snippet: boolean = false): HighlightSegment[] => {
+  if (!text) return [];
+
+  const ranges: [number, number][] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = normalizeWord(match[0]);
+    if (terms.some(term => word.startsWith(term))) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+
+  let start = 0;
+  let end = text.length;
+  if (snippet && text.length > SNIPPET_CONTEXT * 2) {
+    const anchor = ranges.length > 0 ? ranges[0][0] : 0;
+    start = Math.max(0, anchor - SNIPPET_CONTEXT);
+    end = Math.min(text.length, anchor + SNIPPET_CONTEXT * 2);
+  }
+
+  const segments: HighlightSegment[] = [];
+  let cursor = start;
+  ranges
+    .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+    .forEach(([rangeStart, rangeEnd]) => {
+      if (rangeStart > cursor) {
+        segments.push({ text: text.slice(cursor, rangeStart), match: false });
+      }
+      segments.push({ text: text.slice(rangeStart, rangeEnd), match: true });
+      cursor = rangeEnd;
+    });
+  if (cursor < end) {
+    segments.push({ text: text.slice(cursor, end), match: false });
+  }
+
+  if (start > 0) {
+    segments.unshift({ text: '…', match: false });
+  }
+  if (end < text.length) {
+    segments.push({ text: '…', match: false });
+  }
+
+  return segments;
+};
+
+// Dates containing a token that starts with the term, with the summed occurrence count
+const findTermMatches = (index: JournalSearchIndex, term: string): Map<string, number> => {
+  const matches = new Map<string, number>();
+  index.postings.forEach((dates, token) => {
+    if (!token.startsWith(term)) return;
+    dates.forEach(date => {
+      const count = index.entries.get(date)?.termCounts.get(token) || 0;
+      // Exact word matches rank above prefix matches
+      const weight = token === term ? count * 2 : count;
+      matches.set(date, (matches.get(date) || 0) + weight);
+    });
+  });
+  return matches;
+};
+
+/**
+ * Search the index. Every query term must match the start of a word in the entry.
+ * An empty query lists all entries that pass the filters.
+ * @param index The search index
+ * @param queryText Free text typed by the user
+ * @param filters Optional mood and inclusive date range filters
+ * @returns Results ordered by relevance, newest first on ties
+ */
+export const searchJournal = (
+  index: JournalSearchIndex,
+  queryText: string,
+  filters: JournalSearchFilters = {}
+): JournalSearchResult[] => {
+  const terms = Array.from(new Set(tokenize(queryText)));
+
+  let scores: Map<string, number>;
+  if (terms.length === 0) {
+    scores = new Map(Array.from(index.entries.keys()).map(date => [date, 0]));
+  } else {
+    scores = findTermMatches(index, terms[0]);
+    for (const term of terms.slice(1)) {
+      const termMatches = findTermMatches(index, term);
+      const intersected = new Map<string, number>();
+      scores.forEach((score, date) => {
+        const termScore = termMatches.get(date);
+        if (termScore !== undefined) {
+          intersected.set(date, score + termScore);
+        }
+      });
+      scores = intersected;
+      if (scores.size === 0) break;
+    }
+  }
+
+  const startMoment = filters.startDate ? moment(filters.startDate, 'YYYY-MM-DD') : null;
+  const endMoment = filters.endDate ? moment(filters.endDate, 'YYYY-MM-DD') : null;
+
+  return Array.from(scores.entries())
+    .map(([date, score]) => ({ indexed: index.entries.get(date)!, score }))
+    .filter(({ indexed }) => {
+      if (filters.mood && !indexed.moods.includes(filters.mood)) return false;
+      const entryMoment = moment(indexed.date, 'YYYY-MM-DD');
+      if (startMoment && entryMoment.isBefore(startMoment)) return false;
+      if (endMoment && entryMoment.isAfter(endMoment)) return false;
+      return true;
+    })
+    .sort((a, b) => b.score - a.score || b.indexed.date.localeCompare(a.indexed.date))
+    .slice(0, MAX_RESULTS)
+    .map(({ indexed, score }) => ({
+      date: indexed.date,
+      mood: indexed.mood,
+      score,
+      thought: highlightMatches(indexed.thought, terms),
+      entry: highlightMatches(indexed.entry, terms, true),
+    }));
+};
@@ -0,0 +1,259 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { LevelEvent } from '../types';
+import { getDeviceId } from './firebaseService';
+
+/**
+ * How level points are earned and how many a level needs
+ * Level n starts at `pointsScale * n ^ exponent` points
+ */
+export interface LevelCurve {
+  xpWeight: number;    // Points per XP earned
+  taskPoints: number;  // Points per completed task
+  pointsScale: number;
+  exponent: number;
+}
+
+export interface LevelInfo {
+  level: number;
+  title: string;
+  points: number;
+  progress: number; // value between 0 and 1
+  currentLevelPoints: number;
+  nextLevelPoints: number;
+}
+
+/**
+ * The inputs levels are calculated from
+ */
+export interface LevelProgress {
+  totalXP: number;
+  daysWithXP: number;
+  totalTasks: number;
+  completedTasks: number;
+  levelInfo: LevelInfo;
+}
+
+// Weighted blend: 60% XP, 40% task count, with square level steps
+export const DEFAULT_LEVEL_CURVE: LevelCurve = {
+  xpWeight: 0.6,
+  taskPoints: 40,
+  pointsScale: 10,
+  exponent: 2,
+};
+
+// Titles by the first level they apply to, lowest first
+export const LEVEL_TITLES: { minLevel: number; title: string }[] = [
+  { minLevel: 0, title: 'Newcomer' },
+  { minLevel: 3, title: 'Apprentice' },
+  { minLevel: 6, title: 'Achiever' },
+  { minLevel: 10, title: 'Pathfinder' },
+  { minLevel: 15, title: 'Expert' },
+  { minLevel: 20, title: 'Master' },
+  { minLevel: 30, title: 'Legend' },
+];
+
+/**
+ * The title that goes with a level
+ */
+export const getLevelTitle = (level: number): string => {
+  let title = LEVEL_TITLES[0].title;
+  LEVEL_TITLES.forEach(entry => {
+    if (level >= entry.minLevel) title = entry.title;
+  });
+  return title;
+};
+
+/**
+ * Level points for the given XP and completed task count
+ */
+export const getLevelPoints = (
+  totalXP: number,
+  completedTasks: number,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE
+): number => totalXP * curve.xpWeight + completedTasks * curve.taskPoints;
+
+/**
+ * Points needed to reach a level
+ */
+export const getLevelThreshold = (level: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): number =>
+  Math.round(curve.pointsScale * level ** curve.exponent);
+
+/**
+ * Work out the level, title and progress to the next level
+ * @param totalXP Total XP earned
+ * @param completedTasks Number of completed tasks
+ * @param curve The level curve (defaults to the standard curve)
+ */
+export const getLevelInfo = (
+  totalXP: number,
+  completedTasks: number = 0,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE
+): LevelInfo => {
+  const points = Math.max(0, getLevelPoints(totalXP, completedTasks, curve));
+
+  // Start from the closed form and step past any rounding at the level boundaries
+  let level = Math.floor((points / curve.pointsScale) ** (1 / curve.exponent));
+  while (getLevelThreshold(level + 1, curve) <= points) level++;
+  while (level > 0 && getLevelThreshold(level, curve) > points) level--;
+
+  const currentLevelPoints = getLevelThreshold(level, curve);
+  const nextLevelPoints = getLevelThreshold(level + 1, curve);
+  const progress = (points - currentLevelPoints) / (nextLevelPoints - currentLevelPoints);
+
+  return {
+    level,
+    title: getLevelTitle(level),
+    points: Math.round(points),
+    progress: Math.min(Math.max(progress, 0), 1), // clamp between 0 and 1
+    currentLevelPoints,
+    nextLevelPoints,
+  };
+};
+
+/**
+ * Subscribe to the current user's level progress
+ * XP comes from the daily XP banks and the task count from the task list
+ * @param onNext Called once both have loaded, then whenever the XP banks or tasks change
+ */
+export const subscribeToLevelProgress = (
+  onNext: (progress: LevelProgress) => void,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE
+): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) return () => {};
+
+  let totalXP = 0;
+  let daysWithXP = 0;
+  let totalTasks = 0;
+  let completedTasks = 0;
+  let xpLoaded = false;
+  let tasksLoaded = false;
+
+  // Wait for both listeners so a half-loaded level is never reported
+  const notify = () => {
+    if (!xpLoaded || !tasksLoaded) return;
+    onNext({
+      totalXP,
+      daysWithXP,
+      totalTasks,
+      completedTasks,
+      levelInfo: getLevelInfo(totalXP, completedTasks, curve),
+    });
+  };
+
+  const unsubscribeXP = onSnapshot(collection(FIREBASE_DB, 'users', user.uid, 'xpBank'), (snapshot) => {
+    totalXP = 0;
+    daysWithXP = 0;
+    snapshot.forEach(bankDoc => {
+      const data = bankDoc.data();
+      if (typeof data.totalXP === 'number') {
+        totalXP += data.totalXP;
+        daysWithXP++;
+      }
+    });
+    xpLoaded = true;
+    notify();
+  }, (error) => {
+    console.error('Error in level XP listener:', error);
+  });
+
+  const unsubscribeTasks = onSnapshot(collection(FIREBASE_DB, 'users', user.uid, 'tasks'), (snapshot) => {
+    totalTasks = snapshot.size;
+    completedTasks = 0;
+    snapshot.forEach(taskDoc => {
+      if (taskDoc.data().status === 'completed') completedTasks++;
+    });
+    tasksLoaded = true;
+    notify();
+  }, (error) => {
+    console.error('Error in level task listener:', error);
+  });
+
+  return () => {
+    unsubscribeXP();
+    unsubscribeTasks();
+  };
+};
+
+/**
+ * Record newly reached levels in the user's level history
+ *
+ * Each level is stored once, under its level number, inside a transaction, so only one
+ * device ever records a level. The first time history is kept, levels reached earlier are
+ * filled in without a celebration.
+ * @param progress The user's current level progress
+ * @returns The level to celebrate, or null when nothing new was reached here
+ */
+export const recordLevelUps = async (progress: LevelProgress): Promise<number | null> => {
+  try {
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    const { level } = progress.levelInfo;
+    if (level < 1) return null;
+
+    const eventsRef = collection(FIREBASE_DB, 'users', user.uid, 'levelEvents');
+    const deviceId = await getDeviceId();
+
+    return await runTransaction(FIREBASE_DB, async (transaction) => {
+      const levelRefs = Array.from({ length: level }, (_, index) => doc(eventsRef, String(index + 1)));
+      const existing = await Promise.all(levelRefs.map(ref => transaction.get(ref)));
+      if (existing[level - 1].exists()) return null;
+
+      // Without any history we can't tell when earlier levels were reached,
+      // unless this is the account's very first level
+      const backfilled = !existing.some(snapshot => snapshot.exists()) && level > 1;
+
+      existing.forEach((snapshot, index) => {
+        if (snapshot.exists()) return;
+
+        const eventLevel = index + 1;
+        transaction.set(levelRefs[index], {
+          level: eventLevel,
+          title: getLevelTitle(eventLevel),
+          points: progress.levelInfo.points,
+          totalXP: progress.totalXP,
+          completedTasks: progress.completedTasks,
+          reachedAt: backfilled ? null : serverTimestamp(),
+          backfilled,
+          deviceId,
+        });
+      });
+
+      return backfilled ? null : level;
+    });
+  } catch (error) {
+    console.error('Error recording level ups:', error);
+    return null;
+  }
+};
+
+/**
+ * Subscribe to the current user's level history, highest level first
+ */
+export const subscribeToLevelEvents = (onNext: (events: LevelEvent[]) => void): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext([]);
+    return () => {};
+  }
+
+  const eventsQuery = query(collection(FIREBASE_DB, 'users', user.uid, 'levelEvents'), orderBy('level', 'desc'));
+  return onSnapshot(eventsQuery, (snapshot) => {
+    onNext(snapshot.docs.map(eventDoc => eventDoc.data() as LevelEvent));
+  }, (error) => {
+    console.error('Error in level history listener:', error);
+    onNext([]);
+  });
+};
+
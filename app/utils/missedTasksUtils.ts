@@ -1,5 +1,6 @@
 import { Task } from './firebaseService';
-import { formatDateString } from './dateUtils';
+import { addDaysToKey, getDayKey, getDayStart } from './dateUtils';
+import { isTaskDueOn } from './recurrenceUtils';
 
 // Interface for missed task occurrences
 export interface MissedTaskOccurrence {
@@ -8,6 +9,7 @@ export interface MissedTaskOccurrence {
   title: string;
   description?: string;
   category?: string;
+  tags?: string[];
   xp: number;
   date: string;  // The specific date this task was missed
   userId: string;
@@ -25,7 +27,7 @@ export interface MissedTaskOccurrence {
  * Generate missed occurrences for a task
  * 
  * For recurring tasks:
- * - Generate an occurrence for each day since creation (or last reset) that the task wasn't completed
+ * - Generate an occurrence for each due day since creation (or last reset) that the task wasn't completed
  * 
  * For non-recurring tasks:
  * - Generate an occurrence if the task wasn't completed by its due date
@@ -35,8 +37,7 @@ export interface MissedTaskOccurrence {
  */
 export const generateMissedOccurrences = (task: Task): MissedTaskOccurrence[] => {
   const missedOccurrences: MissedTaskOccurrence[] = [];
-  const today = new Date();
-  const todayStr = formatDateString(today);
+  const todayStr = getDayKey();
   
   // If task is completed and not recurring, it can't have missed occurrences
   if (task.completed && !task.recurring) {
@@ -47,24 +48,22 @@ export const generateMissedOccurrences = (task: Task): MissedTaskOccurrence[] =>
     // For recurring tasks, we need to generate missed occurrences for each day
     // since the task was created (or last reset) that it wasn't completed
     
-    // Get task creation date
-    const creationDate = task.createdAt ? new Date(task.createdAt.toDate()) : new Date();
-    const startDate = new Date(creationDate);
+    // Get the day the task was created
+    const startDateStr = task.createdAt ? getDayKey(task.createdAt.toDate()) : todayStr;
     
     // Loop through each day from creation to yesterday
-    const currentDate = new Date(startDate);
-    while (formatDateString(currentDate) < todayStr) {
-      const dateStr = formatDateString(currentDate);
+    for (let dateStr = startDateStr; dateStr < todayStr; dateStr = addDaysToKey(dateStr, 1)) {
       
-      // If the task wasn't completed on this date, add a missed occurrence
+      // If the task was due but wasn't completed on this date, add a missed occurrence
       // We check if lastCompletedDate is different from the current date
-      if (!task.lastCompletedDate || task.lastCompletedDate !== dateStr) {
+      if (isTaskDueOn(task, dateStr) && (!task.lastCompletedDate || task.lastCompletedDate !== dateStr)) {
         missedOccurrences.push({
           id: `missed_${task.id}_${dateStr}`,
           taskId: task.id,
           title: task.title,
           description: task.description,
           category: task.category,
+          tags: task.tags,
           xp: task.xp,
           date: dateStr,
           userId: task.userId,
@@ -75,12 +74,9 @@ export const generateMissedOccurrences = (task: Task): MissedTaskOccurrence[] =>
             title: subtask.title,
             completed: subtask.completed
           })),
-          timestamp: new Date(currentDate)
+          timestamp: getDayStart(dateStr)
         });
       }
-      
-      // Move to the next day
-      currentDate.setDate(currentDate.getDate() + 1);
     }
   } else {
     // For non-recurring tasks, we only generate a missed occurrence if:
@@ -90,7 +86,7 @@ export const generateMissedOccurrences = (task: Task): MissedTaskOccurrence[] =>
     
     if (!task.completed && task.completedAt) {
       const dueDate = new Date(task.completedAt.toDate());
-      const dueDateStr = formatDateString(dueDate);
+      const dueDateStr = getDayKey(dueDate);
       
       if (dueDateStr < todayStr) {
         // The task was due in the past and wasn't completed
@@ -100,6 +96,7 @@ export const generateMissedOccurrences = (task: Task): MissedTaskOccurrence[] =>
           title: task.title,
           description: task.description,
           category: task.category,
+          tags: task.tags,
           xp: task.xp,
           date: dueDateStr,
           userId: task.userId,
@@ -0,0 +1,301 @@
+import { FIREBASE_DB } from '../../FirebaseConfig';
+import { collection, getDocs, orderBy, query, where } from 'firebase/firestore';
+import moment from 'moment';
+import { JournalReflection, MoodDefinition } from '../types';
+import { getMoodScore } from './moodPalette';
+
+// XP and task completions of one day, joined from dailySnapshots and taskHistory
+export interface DayProductivity {
+  date: string;
+  xpEarned: number;
+  tasksCompleted: number;
+  // Share of the tasks created, completed or uncompleted that day that ended up completed
+  completionRate: number | null;
+}
+
+// The moods recorded on one journal day
+export interface MoodDay {
+  date: string;
+  moods: { label: string; intensity?: number }[];
+}
+
+export interface MoodProductivityStat {
+  mood: string;
+  days: number;
+  averageXp: number;
+  averageCompletionRate: number | null;
+}
+
+export interface WeekdayStat {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  days: number;
+  averageXp: number;
+  averageMoodScore: number | null;
+}
+
+// A pattern between one day and the next, e.g. a mood that tends to follow high-XP days
+export interface LaggedEffect {
+  kind: 'moodAfterHighXp' | 'xpAfterMood';
+  mood: string;
+  samples: number;
+  observed: number; // Share of next days with the mood, or average next-day XP
+  baseline: number; // The same measure across all days
+}
+
+export interface MoodInsights {
+  dayCount: number;
+  moods: MoodProductivityStat[]; // Most frequent first
+  weekdays: WeekdayStat[];
+  bestWeekday: WeekdayStat | null;
+  worstWeekday: WeekdayStat | null;
+  laggedEffects: LaggedEffect[];
+}
+
+// Days at the daily XP cap count as high-XP days
+export const HIGH_XP_DAY = 100;
+// Patterns seen fewer times than this are left out as noise
+const MIN_SAMPLE_DAYS = 3;
+// How much more often a mood must follow high-XP days than usual to be reported
+const MIN_MOOD_LIFT = 1.5;
+// How far next-day XP must move from the average to be reported
+const MIN_XP_CHANGE = 0.2;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const nextDay = (date: string): string => moment(date, 'YYYY-MM-DD').add(1, 'day').format('YYYY-MM-DD');
+
+/**
+ * The moods of a journal day's reflections, for joining with productivity
+ * @param date The journal day (YYYY-MM-DD)
+ * @param reflections The day's reflections
+ */
+export const toMoodDay = (date: string, reflections: JournalReflection[]): MoodDay => ({
+  date,
+  moods: reflections
+    .filter(reflection => reflection.mood)
+    .map(reflection => ({ label: reflection.mood!, intensity: reflection.moodIntensity })),
+});
+
+/**
+ * Load XP and completion counts per day for a user
+ * @param userId The user ID
+ * @param startDate First day to include (YYYY-MM-DD)
+ * @param endDate Optional last day to include (YYYY-MM-DD)
+ * @returns Productivity keyed by date; days without any activity are missing
+ */
+export const fetchDailyProductivity = async (
+  userId: string,
+  startDate: string,
+  endDate?: string
+): Promise<Record<string, DayProductivity>> => {
+  const inRange = (date: string) => date >= startDate && (!endDate || date <= endDate);
+
+  const snapshotsQuery = query(
+    collection(FIREBASE_DB, 'users', userId, 'dailySnapshots'),
+    where('date', '>=', startDate),
+    orderBy('date')
+  );
+  const historyQuery = query(
+    collection(FIREBASE_DB, 'users', userId, 'taskHistory'),
+    where('date', '>=', startDate),
+    orderBy('date')
+  );
+  const [snapshotDocs, historyDocs] = await Promise.all([getDocs(snapshotsQuery), getDocs(historyQuery)]);
+
+  const productivity: Record<string, DayProductivity> = {};
+  const getDay = (date: string) =>
+    productivity[date] || (productivity[date] = { date, xpEarned: 0, tasksCompleted: 0, completionRate: null });
+
+  snapshotDocs.forEach(doc => {
+    const data = doc.data();
+    if (!inRange(data.date)) return;
+    const day = getDay(data.date);
+    day.xpEarned = data.xpEarned || 0;
+    day.tasksCompleted = data.tasksCompleted || 0;
+  });
+
+  // The last completion action of each task decides whether it counts as done that day
+  const taskStates: Record<string, Map<string, { completed: boolean; time: number }>> = {};
+  historyDocs.forEach(doc => {
+    const record = doc.data();
+    if (!inRange(record.date) || !['created', 'completed', 'uncompleted'].includes(record.action)) return;
+
+    const tasks = taskStates[record.date] || (taskStates[record.date] = new Map());
+    const time = record.timestamp?.toMillis?.() || 0;
+    const current = tasks.get(record.taskId);
+    if (record.action === 'created') {
+      if (!current) tasks.set(record.taskId, { completed: false, time });
+    } else if (!current || time >= current.time) {
+      tasks.set(record.taskId, { completed: record.action === 'completed', time });
+    }
+  });
+
+  Object.entries(taskStates).forEach(([date, tasks]) => {
+    const completed = Array.from(tasks.values()).filter(task => task.completed).length;
+    getDay(date).completionRate = tasks.size > 0 ? completed / tasks.size : null;
+  });
+
+  return productivity;
+};
+
+/**
+ * Relate moods to productivity
+ * Computes average XP and completion rate per mood, the best and worst weekdays by XP,
+ * and lagged effects between consecutive days
+ * @param moodDays Journal days with their moods
+ * @param productivity Productivity keyed by date, from fetchDailyProductivity
+ * @param palette The user's mood palette, used to score moods
+ */
+export const computeMoodInsights = (
+  moodDays: MoodDay[],
+  productivity: Record<string, DayProductivity>,
+  palette: MoodDefinition[]
+): MoodInsights => {
+  const daysWithMood = moodDays.filter(day => day.moods.length > 0);
+  const moodsByDate = new Map(daysWithMood.map(day => [day.date, day]));
+  const xpOn = (date: string) => productivity[date]?.xpEarned || 0;
+
+  // Average XP and completion rate per mood; a day counts once for each distinct mood
+  const moodGroups = new Map<string, string[]>();
+  daysWithMood.forEach(day => {
+    new Set(day.moods.map(m => m.label)).forEach(label => {
+      moodGroups.set(label, [...(moodGroups.get(label) || []), day.date]);
+    });
+  });
+
+  const moods: MoodProductivityStat[] = Array.from(moodGroups.entries())
+    .map(([mood, dates]) => ({
+      mood,
+      days: dates.length,
+      averageXp: average(dates.map(xpOn)) || 0,
+      averageCompletionRate: average(
+        dates
+          .map(date => productivity[date]?.completionRate)
+          .filter((rate): rate is number => rate !== null && rate !== undefined)
+      ),
+    }))
+    .sort((a, b) => b.days - a.days);
+
+  // Weekdays over every day with a journal entry or task activity
+  const allDates = Array.from(new Set([...daysWithMood.map(day => day.date), ...Object.keys(productivity)]));
+  const weekdays: WeekdayStat[] = Array.from({ length: 7 }, (_, weekday) => {
+    const dates = allDates.filter(date => moment(date, 'YYYY-MM-DD').day() === weekday);
+    const moodScores = dates.flatMap(date =>
+      (moodsByDate.get(date)?.moods || [])
+        .map(m => getMoodScore(m.label, m.intensity, palette))
+        .filter((score): score is number => score !== null)
+    );
+    return {
+      weekday,
+      days: dates.length,
+      averageXp: average(dates.map(xpOn)) || 0,
+      averageMoodScore: average(moodScores),
+    };
+  });
+
+  const rankedWeekdays = weekdays
+    .filter(stat => stat.days >= MIN_SAMPLE_DAYS)
+    .sort((a, b) => b.averageXp - a.averageXp);
+  // Only reported when the weekdays actually differ
+  const hasWeekdaySpread = rankedWeekdays.length >= 2
+    && rankedWeekdays[0].averageXp > rankedWeekdays[rankedWeekdays.length - 1].averageXp;
+  const bestWeekday = hasWeekdaySpread ? rankedWeekdays[0] : null;
+  const worstWeekday = hasWeekdaySpread ? rankedWeekdays[rankedWeekdays.length - 1] : null;
+
+  const laggedEffects: LaggedEffect[] = [];
+
+  // Moods that show up more often than usual on the day after a high-XP day
+  const highXpFollowUps = allDates
+    .filter(date => xpOn(date) >= HIGH_XP_DAY && moodsByDate.has(nextDay(date)))
+    .map(date => moodsByDate.get(nextDay(date))!);
+  if (highXpFollowUps.length >= MIN_SAMPLE_DAYS) {
+    moodGroups.forEach((dates, mood) => {
+      const baseline = dates.length / daysWithMood.length;
+      const followUps = highXpFollowUps.filter(day => day.moods.some(m => m.label === mood)).length;
+      const observed = followUps / highXpFollowUps.length;
+      if (followUps >= MIN_SAMPLE_DAYS && observed >= baseline * MIN_MOOD_LIFT) {
+        laggedEffects.push({ kind: 'moodAfterHighXp', mood, samples: highXpFollowUps.length, observed, baseline });
+      }
+    });
+  }
+
+  // Moods after which the next day's XP is notably higher or lower than usual
+  // Days after the last known day have no data yet, so they don't count as zero-XP days
+  const baselineXp = average(allDates.map(xpOn)) || 0;
+  const lastDate = allDates.reduce((latest, date) => (date > latest ? date : latest), '');
+  moodGroups.forEach((dates, mood) => {
+    const followingDates = dates.map(nextDay).filter(date => date <= lastDate);
+    if (followingDates.length < MIN_SAMPLE_DAYS || baselineXp === 0) return;
+    const observed = average(followingDates.map(xpOn)) || 0;
+    if (Math.abs(observed - baselineXp) / baselineXp >= MIN_XP_CHANGE) {
+      laggedEffects.push({ kind: 'xpAfterMood', mood, samples: followingDates.length, observed, baseline: baselineXp });
+    }
+  });
+
+  return {
+    dayCount: daysWithMood.length,
+    moods,
+    weekdays,
+    bestWeekday,
+    worstWeekday,
+    laggedEffects,
+  };
+};
+
+/**
+ * Describe a lagged effect in one sentence, e.g. "Tired days follow 100-XP days (3 of 4 times)"
+ */
+export const describeLaggedEffect = (effect: LaggedEffect): string => {
+  if (effect.kind === 'moodAfterHighXp') {
+    const times = Math.round(effect.observed * effect.samples);
+    return `${effect.mood} days follow ${HIGH_XP_DAY}-XP days (${times} of ${effect.samples} times, vs ${Math.round(effect.baseline * 100)}% of days)`;
+  }
+  return `Days after ${effect.mood} days average ${Math.round(effect.observed)} XP (vs ${Math.round(effect.baseline)} XP overall)`;
+};
+
+/**
+ * Summarise insights as short lines for exports
+ * @returns One line per finding, empty when there is nothing to report
+ */
+export const summarizeMoodInsights = (insights: MoodInsights): string[] => {
+  if (insights.dayCount === 0) return [];
+
+  const lines = insights.moods.map(stat => {
+    const completion = stat.averageCompletionRate !== null
+      ? `, ${Math.round(stat.averageCompletionRate * 100)}% of tasks completed`
+      : '';
+    return `${stat.mood} (${stat.days} ${stat.days === 1 ? 'day' : 'days'}): ${Math.round(stat.averageXp)} XP on average${completion}`;
+  });
+
+  if (insights.bestWeekday && insights.worstWeekday) {
+    lines.push(
+      `Best weekday: ${moment().day(insights.bestWeekday.weekday).format('dddd')} (${Math.round(insights.bestWeekday.averageXp)} XP on average)`,
+      `Toughest weekday: ${moment().day(insights.worstWeekday.weekday).format('dddd')} (${Math.round(insights.worstWeekday.averageXp)} XP on average)`
+    );
+  }
+
+  insights.laggedEffects.forEach(effect => lines.push(describeLaggedEffect(effect)));
+  return lines;
+};
+
+/**
+ * Load productivity for the span of some journal days and relate it to their moods
+ * @param userId The user ID
+ * @param moodDays Journal days with their moods
+ * @param palette The user's mood palette
+ */
+export const loadMoodInsights = async (
+  userId: string,
+  moodDays: MoodDay[],
+  palette: MoodDefinition[]
+): Promise<{ insights: MoodInsights; productivity: Record<string, DayProductivity> }> => {
+  if (moodDays.length === 0) {
+    return { insights: computeMoodInsights([], {}, palette), productivity: {} };
+  }
+
+  const dates = moodDays.map(day => day.date).sort();
+  // Include the day after the last entry so lagged effects can see it
+  const productivity = await fetchDailyProductivity(userId, dates[0], nextDay(dates[dates.length - 1]));
+  return { insights: computeMoodInsights(moodDays, productivity, palette), productivity };
+};
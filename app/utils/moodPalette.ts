@@ -0,0 +1,171 @@
+import { doc, getDoc, onSnapshot, updateDoc, Unsubscribe } from 'firebase/firestore';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { MoodDefinition } from '../types';
+
+export const MIN_MOOD_VALENCE = -2;
+export const MAX_MOOD_VALENCE = 2;
+export const MIN_MOOD_INTENSITY = 1;
+export const MAX_MOOD_INTENSITY = 5;
+// Intensity assumed for reflections saved without one
+export const DEFAULT_MOOD_INTENSITY = 3;
+export const MAX_PALETTE_SIZE = 12;
+
+// The moods every journal started with; entries saved before custom palettes use these labels
+export const DEFAULT_MOOD_PALETTE: MoodDefinition[] = [
+  { emoji: '😄', label: 'Happy', color: '#48BB78', valence: 2, icon: 'sun' },
+  { emoji: '😐', label: 'Neutral', color: '#718096', valence: 0, icon: 'minus' },
+  { emoji: '😔', label: 'Low', color: '#4299E1', valence: -1, icon: 'cloud-rain' },
+  { emoji: '😠', label: 'Frustrated', color: '#F56565', valence: -2, icon: 'zap' },
+  { emoji: '😴', label: 'Tired', color: '#9F7AEA', valence: -1, icon: 'moon' },
+];
+
+// Colours offered when creating a mood
+export const MOOD_COLOR_OPTIONS = [
+  '#48BB78', '#38B2AC', '#4299E1', '#5e60ce', '#9F7AEA',
+  '#ED64A6', '#F56565', '#ED8936', '#ECC94B', '#718096',
+];
+
+const UNKNOWN_MOOD: MoodDefinition = { emoji: '😐', label: 'Unknown', color: '#718096', valence: 0, icon: 'minus' };
+
+/**
+ * Find the definition for a mood label
+ * Labels missing from the palette (e.g. a deleted custom mood) fall back to the built-in moods,
+ * then to a neutral placeholder, so old entries always render
+ * @param label The mood label stored on a reflection
+ * @param palette The user's palette
+ */
+export const findMood = (label: string | undefined, palette: MoodDefinition[]): MoodDefinition | undefined => {
+  if (!label) return undefined;
+  return palette.find(m => m.label === label)
+    || DEFAULT_MOOD_PALETTE.find(m => m.label === label)
+    || { ...UNKNOWN_MOOD, label };
+};
+
+/**
+ * Score a mood for charts: its valence, scaled by how strongly it was felt
+ * An intensity of 3 (or none) plots the plain valence
+ * @param label The mood label
+ * @param intensity The 1-5 intensity, if recorded
+ * @param palette The user's palette
+ * @returns The score, or null when the reflection has no mood
+ */
+export const getMoodScore = (
+  label: string | undefined,
+  intensity: number | undefined,
+  palette: MoodDefinition[]
+): number | null => {
+  const mood = findMood(label, palette);
+  if (!mood) return null;
+  return mood.valence * ((intensity || DEFAULT_MOOD_INTENSITY) / DEFAULT_MOOD_INTENSITY);
+};
+
+/**
+ * Check a palette before saving it
+ * @returns A list of problems, empty when the palette is valid
+ */
+export const validateMoodPalette = (palette: MoodDefinition[]): string[] => {
+  const errors: string[] = [];
+
+  if (palette.length === 0) {
+    errors.push('Keep at least one mood.');
+  }
+  if (palette.length > MAX_PALETTE_SIZE) {
+    errors.push(`You can have up to ${MAX_PALETTE_SIZE} moods.`);
+  }
+
+  const labels = new Set<string>();
+  palette.forEach((mood, index) => {
+    const label = mood.label.trim();
+    const name = label || `Mood ${index + 1}`;
+
+    if (!label) {
+      errors.push(`${name} needs a name.`);
+    } else if (labels.has(label.toLowerCase())) {
+      errors.push(`There is more than one mood called "${label}".`);
+    }
+    labels.add(label.toLowerCase());
+
+    if (!mood.emoji.trim()) {
+      errors.push(`${name} needs an emoji.`);
+    }
+    if (!/^#[0-9a-fA-F]{6}$/.test(mood.color)) {
+      errors.push(`${name} has an invalid colour.`);
+    }
+    if (!Number.isInteger(mood.valence) || mood.valence < MIN_MOOD_VALENCE || mood.valence > MAX_MOOD_VALENCE) {
+      errors.push(`${name} needs a feeling between ${MIN_MOOD_VALENCE} and +${MAX_MOOD_VALENCE}.`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Subscribe to the current user's mood palette
+ * @param onNext Called with the palette, or the built-in moods when none is saved
+ */
+export const subscribeToMoodPalette = (onNext: (palette: MoodDefinition[]) => void): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext(DEFAULT_MOOD_PALETTE);
+    return () => {};
+  }
+
+  return onSnapshot(doc(FIREBASE_DB, 'users', user.uid), (snapshot) => {
+    const palette = snapshot.data()?.moodPalette as MoodDefinition[] | undefined;
+    onNext(Array.isArray(palette) && palette.length > 0 ? palette : DEFAULT_MOOD_PALETTE);
+  }, (error) => {
+    console.error('Error in mood palette listener:', error);
+    onNext(DEFAULT_MOOD_PALETTE);
+  });
+};
+
+/**
+ * Read a user's mood palette once
+ * @param userId The user ID
+ * @returns The palette, or the built-in moods when none is saved
+ */
+export const getMoodPalette = async (userId: string): Promise<MoodDefinition[]> => {
+  try {
+    const snapshot = await getDoc(doc(FIREBASE_DB, 'users', userId));
+    const palette = snapshot.data()?.moodPalette as MoodDefinition[] | undefined;
+    return Array.isArray(palette) && palette.length > 0 ? palette : DEFAULT_MOOD_PALETTE;
+  } catch (error) {
+    console.error('Error loading mood palette:', error);
+    return DEFAULT_MOOD_PALETTE;
+  }
+};
+
+/**
+ * Save the current user's mood palette
+ * @param palette The moods, in display order
+ */
+export const saveMoodPalette = async (palette: MoodDefinition[]) => {
+  try {
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    const cleaned = palette.map(mood => {
+      const saved: MoodDefinition = {
+        label: mood.label.trim(),
+        emoji: mood.emoji.trim(),
+        color: mood.color,
+        valence: mood.valence,
+      };
+      if (mood.icon) {
+        saved.icon = mood.icon;
+      }
+      return saved;
+    });
+
+    const errors = validateMoodPalette(cleaned);
+    if (errors.length > 0) {
+      return { success: false, message: errors.join('\n') };
+    }
+
+    await updateDoc(doc(FIREBASE_DB, 'users', user.uid), { moodPalette: cleaned });
+    return { success: true, message: 'Moods saved' };
+  } catch (error: any) {
+    console.error('Error saving mood palette:', error);
+    return { success: false, message: error.message || 'Failed to save moods' };
+  }
+};
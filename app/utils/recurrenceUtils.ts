@@ -0,0 +1,97 @@
+import { Task, TaskRecurrence } from '../types';
+
+export const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a YYYY-MM-DD string to a UTC day number so day arithmetic is unaffected by DST
+ *
+ * @param dateStr - Date in YYYY-MM-DD format
+ * @returns Whole days since the Unix epoch
+ */
+const toDayNumber = (dateStr: string): number => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+/**
+ * Get the weekday (0 = Sunday) of a YYYY-MM-DD date string
+ */
+export const getWeekdayOfDateString = (dateStr: string): number => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * Get the recurrence rule for a task
+ * Recurring tasks created before recurrence rules existed are treated as daily
+ *
+ * @param task - The task to inspect
+ * @returns The recurrence rule, or null for non-recurring tasks
+ */
+export const getTaskRecurrence = (task: Pick<Task, 'recurring' | 'recurrence'>): TaskRecurrence | null => {
+  if (!task.recurring) return null;
+  return task.recurrence || { type: 'daily' };
+};
+
+/**
+ * Check whether a recurrence rule is due on a given date
+ *
+ * @param rule - The recurrence rule
+ * @param dateStr - Date in YYYY-MM-DD format
+ * @returns true if the rule produces an occurrence on that date
+ */
+export const isRecurrenceDueOn = (rule: TaskRecurrence, dateStr: string): boolean => {
+  switch (rule.type) {
+    case 'daily':
+      return true;
+    case 'weekdays': {
+      const weekday = getWeekdayOfDateString(dateStr);
+      return weekday >= 1 && weekday <= 5;
+    }
+    case 'weekly':
+      return rule.days.includes(getWeekdayOfDateString(dateStr));
+    case 'interval': {
+      const everyDays = Math.max(1, Math.floor(rule.everyDays));
+      const daysSinceStart = toDayNumber(dateStr) - toDayNumber(rule.startDate);
+      return daysSinceStart >= 0 && daysSinceStart % everyDays === 0;
+    }
+    default:
+      return true;
+  }
+};
+
+/**
+ * Check whether a recurring task is due on a given date
+ * Non-recurring tasks are never "due" by recurrence
+ *
+ * @param task - The task to check
+ * @param dateStr - Date in YYYY-MM-DD format
+ * @returns true if the task should be available on that date
+ */
+export const isTaskDueOn = (task: Pick<Task, 'recurring' | 'recurrence'>, dateStr: string): boolean => {
+  const rule = getTaskRecurrence(task);
+  return rule ? isRecurrenceDueOn(rule, dateStr) : false;
+};
+
+/**
+ * Human-readable summary of a recurrence rule, e.g. "Mon, Wed, Fri" or "Every 3 days"
+ */
+export const describeRecurrence = (rule: TaskRecurrence): string => {
+  switch (rule.type) {
+    case 'daily':
+      return 'Daily';
+    case 'weekdays':
+      return 'Weekdays';
+    case 'weekly':
+      return [...rule.days]
+        .sort((a, b) => a - b)
+        .map(day => WEEKDAY_SHORT_LABELS[day])
+        .join(', ');
+    case 'interval':
+      return rule.everyDays === 1 ? 'Daily' : `Every ${rule.everyDays} days`;
+    default:
+      return 'Daily';
+  }
+};
@@ -0,0 +1,478 @@
+/**
+ * RRULE utilities for DailyX
+ *
+ * Implements the subset of RFC 5545 recurrence rules used by scheduled events:
+ * FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+ * All dates are handled as YYYY-MM-DD strings and day arithmetic is done in UTC
+ * so daylight saving changes never shift an occurrence.
+ */
+
+import { ScheduledTask, ScheduledTaskOccurrence } from '../types/scheduledTask';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type RRuleWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+// A BYDAY entry; ordinal is only meaningful for MONTHLY rules (e.g. -1FR = last Friday)
+export interface RRuleByDay {
+  weekday: RRuleWeekday;
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleByDay[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: string; // Inclusive end date (YYYY-MM-DD)
+}
+
+export const RRULE_WEEKDAYS: RRuleWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES: Record<RRuleWeekday, string> = {
+  SU: 'Sun', MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat',
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Hard stop for expansion loops so a malformed rule can never hang the UI
+const MAX_ITERATIONS = 10000;
+
+const toDayNumber = (dateStr: string): number => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+const fromDayNumber = (dayNumber: number): string => {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+};
+
+const weekdayOf = (dayNumber: number): number => new Date(dayNumber * MS_PER_DAY).getUTCDay();
+
+const daysInMonth = (year: number, monthIndex: number): number =>
+  new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;COUNT=10"
+ * The "RRULE:" prefix is optional.
+ *
+ * @param rruleString - The rule to parse
+ * @returns The parsed rule
+ * @throws Error if the rule uses unsupported or invalid parts
+ */
+export const parseRRule = (rruleString: string): RecurrenceRule => {
+  const body = rruleString.trim().replace(/^RRULE:/i, '');
+  const parts = body.split(';').filter(Boolean);
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of parts) {
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    const value = rawValue?.trim().toUpperCase();
+    if (!key || !value) {
+      throw new Error(`Invalid RRULE part: ${part}`);
+    }
+
+    switch (key) {
+      case 'FREQ':
+        if (value !== 'DAILY' && value !== 'WEEKLY' && value !== 'MONTHLY') {
+          throw new Error(`Unsupported RRULE frequency: ${value}`);
+        }
+        rule.freq = value;
+        break;
+      case 'INTERVAL': {
+        const interval = parseInt(value, 10);
+        if (isNaN(interval) || interval < 1) {
+          throw new Error(`Invalid RRULE interval: ${value}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(entry => {
+          const match = entry.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) {
+            throw new Error(`Invalid RRULE BYDAY value: ${entry}`);
+          }
+          const ordinal = match[1] ? parseInt(match[1], 10) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new Error(`Invalid RRULE BYDAY ordinal: ${entry}`);
+          }
+          return { weekday: match[2] as RRuleWeekday, ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map(entry => {
+          const day = parseInt(entry, 10);
+          if (isNaN(day) || day === 0 || Math.abs(day) > 31) {
+            throw new Error(`Invalid RRULE BYMONTHDAY value: ${entry}`);
+          }
+          return day;
+        });
+        break;
+      case 'COUNT': {
+        const count = parseInt(value, 10);
+        if (isNaN(count) || count < 1) {
+          throw new Error(`Invalid RRULE count: ${value}`);
+        }
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        // Accept both DATE (20250131) and DATE-TIME (20250131T235959Z) forms
+        const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+        if (!match) {
+          throw new Error(`Invalid RRULE until: ${value}`);
+        }
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'WKST':
+        // Weeks always start on Monday here, which is the RFC 5545 default
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part: ${key}`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error('RRULE is missing FREQ');
+  }
+  if (rule.count && rule.until) {
+    throw new Error('RRULE cannot have both COUNT and UNTIL');
+  }
+  if (rule.byDay?.some(day => day.ordinal !== undefined) && rule.freq !== 'MONTHLY') {
+    throw new Error('BYDAY ordinals are only supported for MONTHLY rules');
+  }
+
+  return rule as RecurrenceRule;
+};
+
+/**
+ * Serialize a rule back to an RRULE string (without the "RRULE:" prefix)
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+};
+
+// Resolve a BYMONTHDAY value (negative counts from the end) to a day of the month, or null if out of range
+const resolveMonthDay = (monthDay: number, monthLength: number): number | null => {
+  const day = monthDay > 0 ? monthDay : monthLength + monthDay + 1;
+  return day >= 1 && day <= monthLength ? day : null;
+};
+
+/**
+ * Candidate days (as day numbers) for the period starting at periodStart, sorted ascending
+ */
+const getPeriodCandidates = (
+  rule: RecurrenceRule,
+  periodStart: number,
+  startDay: number
+): number[] => {
+  const byWeekdays = rule.byDay?.map(day => RRULE_WEEKDAYS.indexOf(day.weekday));
+
+  if (rule.freq === 'DAILY') {
+    const date = new Date(periodStart * MS_PER_DAY);
+    const monthLength = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+    if (byWeekdays && !byWeekdays.includes(weekdayOf(periodStart))) return [];
+    if (rule.byMonthDay && !rule.byMonthDay.some(
+      monthDay => resolveMonthDay(monthDay, monthLength) === date.getUTCDate()
+    )) return [];
+    return [periodStart];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const weekdays = byWeekdays && byWeekdays.length > 0 ? byWeekdays : [weekdayOf(startDay)];
+    // Period starts on Monday; Sunday is the last day of the week
+    return weekdays
+      .map(weekday => periodStart + ((weekday + 6) % 7))
+      .sort((a, b) => a - b);
+  }
+
+  // MONTHLY
+  const periodDate = new Date(periodStart * MS_PER_DAY);
+  const monthLength = daysInMonth(periodDate.getUTCFullYear(), periodDate.getUTCMonth());
+  let days: number[];
+
+  if (!rule.byMonthDay && !rule.byDay) {
+    // Same day of month as the start; months without that day are skipped per RFC 5545
+    const startDayOfMonth = new Date(startDay * MS_PER_DAY).getUTCDate();
+    days = startDayOfMonth <= monthLength ? [periodStart + startDayOfMonth - 1] : [];
+  } else {
+    const monthDays = rule.byMonthDay
+      ?.map(monthDay => resolveMonthDay(monthDay, monthLength))
+      .filter((day): day is number => day !== null)
+      .map(day => periodStart + day - 1);
+
+    const weekdayDays = rule.byDay?.flatMap(({ weekday, ordinal }) => {
+      const weekdayIndex = RRULE_WEEKDAYS.indexOf(weekday);
+      const matches: number[] = [];
+      for (let day = 0; day < monthLength; day++) {
+        if (weekdayOf(periodStart + day) === weekdayIndex) {
+          matches.push(periodStart + day);
+        }
+      }
+      if (ordinal === undefined) return matches;
+      const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      return match !== undefined ? [match] : [];
+    });
+
+    // When both are given, BYDAY narrows the BYMONTHDAY set (e.g. Friday the 13th)
+    days = monthDays && weekdayDays
+      ? monthDays.filter(day => weekdayDays.includes(day))
+      : monthDays || weekdayDays || [];
+  }
+
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
+/**
+ * First day of the period (day, week or month) that contains the given day
+ */
+const getPeriodStart = (rule: RecurrenceRule, dayNumber: number): number => {
+  if (rule.freq === 'WEEKLY') {
+    return dayNumber - ((weekdayOf(dayNumber) + 6) % 7);
+  }
+  if (rule.freq === 'MONTHLY') {
+    const date = new Date(dayNumber * MS_PER_DAY);
+    return Math.floor(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / MS_PER_DAY);
+  }
+  return dayNumber;
+};
+
+const advancePeriod = (rule: RecurrenceRule, periodStart: number): number => {
+  if (rule.freq === 'DAILY') return periodStart + rule.interval;
+  if (rule.freq === 'WEEKLY') return periodStart + 7 * rule.interval;
+  const date = new Date(periodStart * MS_PER_DAY);
+  return Math.floor(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + rule.interval, 1) / MS_PER_DAY);
+};
+
+/**
+ * Expand a rule into occurrence dates
+ *
+ * Occurrences are counted from dtstart (so COUNT applies to the whole series),
+ * but only those inside [from, to] are returned.
+ *
+ * @param rule - The recurrence rule
+ * @param dtstart - First date of the series (YYYY-MM-DD)
+ * @param options.from - Earliest occurrence to return (defaults to dtstart)
+ * @param options.to - Latest occurrence to return
+ * @param options.limit - Maximum number of occurrences to return
+ * @returns Occurrence dates in ascending order
+ */
+export const expandOccurrences = (
+  rule: RecurrenceRule,
+  dtstart: string,
+  options: { from?: string; to: string; limit?: number }
+): string[] => {
+  const startDay = toDayNumber(dtstart);
+  const fromDay = options.from ? toDayNumber(options.from) : startDay;
+  let endDay = toDayNumber(options.to);
+  if (rule.until) {
+    endDay = Math.min(endDay, toDayNumber(rule.until));
+  }
+
+  const occurrences: string[] = [];
+  let generated = 0;
+  let periodStart = getPeriodStart(rule, startDay);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS && periodStart <= endDay; iteration++) {
+    for (const day of getPeriodCandidates(rule, periodStart, startDay)) {
+      if (day < startDay) continue;
+      if (day > endDay) return occurrences;
+
+      generated++;
+      if (rule.count && generated > rule.count) return occurrences;
+
+      if (day >= fromDay) {
+        occurrences.push(fromDayNumber(day));
+        if (options.limit && occurrences.length >= options.limit) return occurrences;
+      }
+    }
+    periodStart = advancePeriod(rule, periodStart);
+  }
+
+  return occurrences;
+};
+
+/**
+ * Get the first occurrence strictly after a date, or null if the series has ended
+ *
+ * @param rule - The recurrence rule
+ * @param dtstart - First date of the series (YYYY-MM-DD)
+ * @param after - Date to search after (YYYY-MM-DD)
+ * @returns The next occurrence date, or null
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  dtstart: string,
+  after: string
+): string | null => {
+  const from = fromDayNumber(toDayNumber(after) + 1);
+  // Search up to ten years ahead, which covers any interval the UI can create
+  const to = fromDayNumber(toDayNumber(after) + 3660);
+  const [next] = expandOccurrences(rule, dtstart, { from, to, limit: 1 });
+  return next || null;
+};
+
+// 1 -> "1st", -1 -> "last", -2 -> "2nd to last"
+const formatOrdinal = (ordinal: number): string => {
+  if (ordinal === -1) return 'last';
+  const abs = Math.abs(ordinal);
+  const suffix = abs === 1 ? 'st' : abs === 2 ? 'nd' : abs === 3 ? 'rd' : 'th';
+  return ordinal > 0 ? `${abs}${suffix}` : `${abs}${suffix} to last`;
+};
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+ */
+export const describeRRule = (rule: RecurrenceRule): string => {
+  const unit = rule.freq === 'DAILY' ? 'day' : rule.freq === 'WEEKLY' ? 'week' : 'month';
+  let description = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.byDay && rule.byDay.length > 0) {
+    const days = rule.byDay.map(({ weekday, ordinal }) => {
+      if (ordinal === undefined) return WEEKDAY_NAMES[weekday];
+      return `${formatOrdinal(ordinal)} ${WEEKDAY_NAMES[weekday]}`;
+    });
+    description += ` on ${days.join(', ')}`;
+  }
+  if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+    const days = rule.byMonthDay.map(day => (day > 0 ? `day ${day}` : `${formatOrdinal(day)} day`));
+    description += ` on ${days.join(', ')}`;
+  }
+  if (rule.count) {
+    description += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  }
+  if (rule.until) {
+    description += `, until ${rule.until}`;
+  }
+
+  return description;
+};
+
+/**
+ * Get the recurrence rule of a scheduled event
+ * Legacy frequencies are mapped to their RRULE equivalent, and a due date on a
+ * rule without COUNT or UNTIL ends the series, matching the previous behaviour.
+ *
+ * @param task - The scheduled event
+ * @returns The rule, or null for one-time events and unparseable rules
+ */
+export const getScheduledTaskRule = (
+  task: Pick<ScheduledTask, 'repeatFrequency' | 'rrule' | 'dueDate'>
+): RecurrenceRule | null => {
+  let rule: RecurrenceRule;
+
+  try {
+    switch (task.repeatFrequency) {
+      case 'daily':
+        rule = { freq: 'DAILY', interval: 1 };
+        break;
+      case 'weekly':
+        rule = { freq: 'WEEKLY', interval: 1 };
+        break;
+      case 'monthly':
+        rule = { freq: 'MONTHLY', interval: 1 };
+        break;
+      case 'custom':
+        if (!task.rrule) return null;
+        rule = parseRRule(task.rrule);
+        break;
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.error(`Invalid recurrence rule "${task.rrule}":`, error);
+    return null;
+  }
+
+  if (task.dueDate && !rule.count && !rule.until) {
+    rule = { ...rule, until: task.dueDate };
+  }
+
+  return rule;
+};
+
+/**
+ * First date of a scheduled event's series
+ * Events created before series tracking existed start at their scheduled date
+ */
+export const getSeriesStartDate = (task: Pick<ScheduledTask, 'scheduledDate' | 'seriesStartDate'>): string =>
+  task.seriesStartDate || task.scheduledDate;
+
+/**
+ * Status of a scheduled event on one of its occurrence dates
+ */
+export const getOccurrenceStatus = (task: ScheduledTask, date: string): ScheduledTask['status'] => {
+  if (task.completedOccurrences?.includes(date)) return 'completed';
+  if (task.missedOccurrences?.includes(date)) return 'missed';
+  return date === task.scheduledDate ? task.status : 'upcoming';
+};
+
+/**
+ * Expand a scheduled event into its occurrences within a date range
+ *
+ * One-time events produce a single occurrence on their scheduled date. Once a
+ * repeating series is no longer upcoming it has ended, so nothing after its
+ * last scheduled date is produced.
+ *
+ * @param task - The scheduled event
+ * @param from - Start of the range (YYYY-MM-DD)
+ * @param to - End of the range (YYYY-MM-DD)
+ * @returns Occurrences in ascending date order
+ */
+export const getScheduledTaskOccurrences = (
+  task: ScheduledTask,
+  from: string,
+  to: string
+): ScheduledTaskOccurrence[] => {
+  const rule = getScheduledTaskRule(task);
+  const toOccurrence = (date: string): ScheduledTaskOccurrence => ({
+    ...task,
+    occurrenceDate: date,
+    status: getOccurrenceStatus(task, date),
+  });
+
+  if (!rule) {
+    return task.scheduledDate >= from && task.scheduledDate <= to
+      ? [toOccurrence(task.scheduledDate)]
+      : [];
+  }
+
+  const end = task.status === 'upcoming' || task.scheduledDate > to ? to : task.scheduledDate;
+  return expandOccurrences(rule, getSeriesStartDate(task), { from, to: end }).map(toOccurrence);
+};
+
+/**
+ * Find the first occurrence on or after a date that has not been completed or missed yet
+ *
+ * @param task - The scheduled event, including any occurrence dates just recorded
+ * @param fromDate - Date to start searching from (YYYY-MM-DD)
+ * @returns The next pending occurrence, or null if the series has no occurrences left
+ */
+export const getNextPendingOccurrence = (task: ScheduledTask, fromDate: string): string | null => {
+  const rule = getScheduledTaskRule(task);
+  if (!rule) return null;
+
+  const settled = new Set([...(task.completedOccurrences || []), ...(task.missedOccurrences || [])]);
+  const to = fromDayNumber(toDayNumber(fromDate) + 3660);
+  const candidates = expandOccurrences(rule, getSeriesStartDate(task), {
+    from: fromDate,
+    to,
+    limit: settled.size + 1,
+  });
+
+  return candidates.find(date => !settled.has(date)) || null;
+};
@@ -1,22 +1,14 @@
-import { 
-  collection, 
-  query, 
-  where, 
-  getDocs, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc, 
-  onSnapshot,
-  orderBy,
-  serverTimestamp,
-  Timestamp,
-  writeBatch,
-  Unsubscribe
-} from 'firebase/firestore';
-import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { FIREBASE_AUTH } from '../../FirebaseConfig';
+import { getRepositories, ScheduledTaskChanges, Unsubscribe } from '../repositories';
 import { ScheduledTask } from '../types/scheduledTask';
-import { formatDateString } from './dateUtils';
+import { addDaysToKey, getDayKey } from './dateUtils';
+import {
+  parseRRule,
+  getScheduledTaskRule,
+  getSeriesStartDate,
+  getScheduledTaskOccurrences,
+  getNextPendingOccurrence
+} from './rrule';
 import * as Notifications from 'expo-notifications';
 
 /**
@@ -28,6 +20,24 @@ const getCurrentUserId = (): string => {
   return user.uid;
 };
 
+/**
+ * Validate the recurrence settings of a scheduled task
+ * Returns an error message, or null if the settings are valid
+ */
+const validateRecurrence = (
+  repeatFrequency: ScheduledTask['repeatFrequency'],
+  rrule?: string
+): string | null => {
+  if (repeatFrequency !== 'custom') return null;
+  if (!rrule) return 'A custom repeat needs a recurrence rule';
+  try {
+    parseRRule(rrule);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid recurrence rule';
+  }
+};
+
 /**
  * Add a new scheduled task
  */
@@ -37,15 +47,40 @@ export const addScheduledTask = async (
   try {
     const userId = getCurrentUserId();
     
+    const recurrenceError = validateRecurrence(task.repeatFrequency, task.rrule);
+    if (recurrenceError) {
+      return { success: false, message: recurrenceError };
+    }
+    
     // Create the task object, removing any undefined values
     const taskData: Record<string, any> = {
       title: task.title,
       description: task.description || null, // Convert undefined to null
+      tags: task.tags || [],
       scheduledDate: task.scheduledDate,
       repeatFrequency: task.repeatFrequency,
       notificationEnabled: task.notificationEnabled,
     };
     
+    // Repeating events keep their series start and begin at the first real occurrence
+    // (imported series can start in the past and only be scheduled from today)
+    if (task.repeatFrequency !== 'none') {
+      const seriesStartDate = task.seriesStartDate || task.scheduledDate;
+      taskData.seriesStartDate = seriesStartDate;
+      if (task.rrule) {
+        taskData.rrule = task.rrule;
+      }
+      
+      const firstOccurrence = getNextPendingOccurrence(
+        { ...taskData, seriesStartDate, dueDate: task.dueDate } as ScheduledTask,
+        task.scheduledDate > seriesStartDate ? task.scheduledDate : seriesStartDate
+      );
+      if (!firstOccurrence) {
+        return { success: false, message: 'The repeat rule does not produce any dates' };
+      }
+      taskData.scheduledDate = firstOccurrence;
+    }
+    
     // Only add scheduledTime if it exists
     if (task.scheduledTime) {
       taskData.scheduledTime = task.scheduledTime;
@@ -57,37 +92,37 @@ export const addScheduledTask = async (
       console.log(`Adding task with due date: ${task.dueDate}`);
     }
     
+    // Keep the calendar UID of imported events so re-importing the same file doesn't duplicate them
+    if (task.icsUid) {
+      taskData.icsUid = task.icsUid;
+    }
+    
     // Create the final task object
     const newTask = {
       ...taskData,
       userId,
       status: 'upcoming' as const,
-      createdAt: serverTimestamp() as Timestamp,
-      updatedAt: serverTimestamp() as Timestamp,
-    };
+    } as Omit<ScheduledTask, 'id' | 'createdAt' | 'updatedAt'>;
     
-    // Add to Firestore
-    const taskRef = collection(FIREBASE_DB, `users/${userId}/scheduledTasks`);
-    const docRef = await addDoc(taskRef, newTask);
+    const { schedule } = getRepositories();
+    const taskId = await schedule.create(userId, newTask);
     
     // Schedule notification if enabled
     if (task.notificationEnabled) {
       const notificationId = await scheduleTaskNotification({
         ...newTask,
-        id: docRef.id
+        id: taskId
       } as ScheduledTask);
       
       // Update the task with the notification ID
       if (notificationId) {
-        await updateDoc(docRef, {
-          notificationId
-        });
+        await schedule.update(userId, taskId, { notificationId });
       }
     }
     
     return { 
       success: true, 
-      taskId: docRef.id,
+      taskId,
       message: 'Scheduled task created successfully'
     };
   } catch (error) {
@@ -108,22 +143,21 @@ export const updateScheduledTask = async (
 ): Promise<{ success: boolean; message?: string; }> => {
   try {
     const userId = getCurrentUserId();
-    const taskRef = doc(FIREBASE_DB, `users/${userId}/scheduledTasks/${taskId}`);
+    const { schedule } = getRepositories();
     
     // Get the current task to check notification settings
-    const taskSnapshot = await getDocs(query(
-      collection(FIREBASE_DB, `users/${userId}/scheduledTasks`),
-      where('__name__', '==', taskId)
-    ));
+    const currentTask = await schedule.get(userId, taskId);
     
-    if (taskSnapshot.empty) {
+    if (!currentTask) {
       return { success: false, message: 'Task not found' };
     }
     
-    const currentTask = { 
-      id: taskSnapshot.docs[0].id, 
-      ...taskSnapshot.docs[0].data() 
-    } as ScheduledTask;
+    if (updates.repeatFrequency !== undefined) {
+      const recurrenceError = validateRecurrence(updates.repeatFrequency, updates.rrule);
+      if (recurrenceError) {
+        return { success: false, message: recurrenceError };
+      }
+    }
     
     // Cancel existing notification if it exists
     if (currentTask.notificationId) {
@@ -131,9 +165,7 @@ export const updateScheduledTask = async (
     }
     
     // Create a clean update object without undefined values
-    const cleanUpdates: Record<string, any> = {
-      updatedAt: serverTimestamp() as Timestamp
-    };
+    const cleanUpdates: Record<string, any> = {};
     
     // Add title if provided
     if (updates.title !== undefined) {
@@ -145,6 +177,11 @@ export const updateScheduledTask = async (
       cleanUpdates.description = updates.description || null;
     }
     
+    // Add tags if provided
+    if (updates.tags !== undefined) {
+      cleanUpdates.tags = updates.tags;
+    }
+    
     // Add scheduledDate if provided
     if (updates.scheduledDate !== undefined) {
       cleanUpdates.scheduledDate = updates.scheduledDate;
@@ -164,18 +201,48 @@ export const updateScheduledTask = async (
     // Add other fields if provided
     if (updates.repeatFrequency !== undefined) {
       cleanUpdates.repeatFrequency = updates.repeatFrequency;
+      cleanUpdates.rrule = updates.repeatFrequency === 'custom' ? updates.rrule : null;
+      
+      // Changing the schedule of a series starts it over from the chosen date
+      const scheduleChanged = updates.repeatFrequency !== currentTask.repeatFrequency ||
+        (updates.rrule || null) !== (currentTask.rrule || null) ||
+        (updates.scheduledDate !== undefined && updates.scheduledDate !== currentTask.scheduledDate);
+      
+      if (updates.repeatFrequency === 'none') {
+        cleanUpdates.seriesStartDate = null;
+      } else if (scheduleChanged) {
+        const seriesStartDate = cleanUpdates.scheduledDate || currentTask.scheduledDate;
+        const firstOccurrence = getNextPendingOccurrence({
+          ...currentTask,
+          ...cleanUpdates,
+          dueDate: updates.dueDate !== undefined ? updates.dueDate : currentTask.dueDate,
+          seriesStartDate,
+          completedOccurrences: [],
+          missedOccurrences: []
+        } as ScheduledTask, seriesStartDate);
+        
+        if (!firstOccurrence) {
+          return { success: false, message: 'The repeat rule does not produce any dates' };
+        }
+        
+        cleanUpdates.seriesStartDate = seriesStartDate;
+        cleanUpdates.scheduledDate = firstOccurrence;
+        cleanUpdates.completedOccurrences = [];
+        cleanUpdates.missedOccurrences = [];
+        cleanUpdates.status = 'upcoming';
+      }
     }
     
     if (updates.notificationEnabled !== undefined) {
       cleanUpdates.notificationEnabled = updates.notificationEnabled;
     }
     
-    if (updates.status !== undefined) {
+    if (updates.status !== undefined && cleanUpdates.status === undefined) {
       cleanUpdates.status = updates.status;
     }
     
     // Update the task
-    await updateDoc(taskRef, cleanUpdates);
+    await schedule.update(userId, taskId, cleanUpdates as ScheduledTaskChanges);
     
     // Schedule new notification if enabled
     if (updates.notificationEnabled !== false && 
@@ -185,7 +252,7 @@ export const updateScheduledTask = async (
       
       // Update the task with the new notification ID
       if (notificationId) {
-        await updateDoc(taskRef, { notificationId });
+        await schedule.update(userId, taskId, { notificationId });
       }
     }
     
@@ -207,25 +274,18 @@ export const deleteScheduledTask = async (
 ): Promise<{ success: boolean; message?: string; }> => {
   try {
     const userId = getCurrentUserId();
-    const taskRef = doc(FIREBASE_DB, `users/${userId}/scheduledTasks/${taskId}`);
+    const { schedule } = getRepositories();
     
     // Get the task to check for notification ID
-    const taskSnapshot = await getDocs(query(
-      collection(FIREBASE_DB, `users/${userId}/scheduledTasks`),
-      where('__name__', '==', taskId)
-    ));
+    const task = await schedule.get(userId, taskId);
     
-    if (!taskSnapshot.empty) {
-      const task = taskSnapshot.docs[0].data() as ScheduledTask;
-      
-      // Cancel notification if it exists
-      if (task.notificationId) {
-        await Notifications.cancelScheduledNotificationAsync(task.notificationId);
-      }
+    // Cancel notification if it exists
+    if (task?.notificationId) {
+      await Notifications.cancelScheduledNotificationAsync(task.notificationId);
     }
     
     // Delete the task
-    await deleteDoc(taskRef);
+    await schedule.remove(userId, taskId);
     
     return { success: true, message: 'Scheduled task deleted successfully' };
   } catch (error) {
@@ -239,21 +299,93 @@ export const deleteScheduledTask = async (
 
 /**
  * Update a scheduled task's status
+ * 
+ * For repeating tasks the status applies to a single occurrence (defaulting to the
+ * current one). Completing or missing an occurrence rolls the task forward to the
+ * next pending occurrence; the task only becomes completed or missed once its
+ * series has no occurrences left.
  */
 export const updateScheduledTaskStatus = async (
   taskId: string,
-  status: 'upcoming' | 'completed' | 'missed'
+  status: 'upcoming' | 'completed' | 'missed',
+  occurrenceDate?: string
 ): Promise<{ success: boolean; message?: string; }> => {
   try {
     const userId = getCurrentUserId();
-    const taskRef = doc(FIREBASE_DB, `users/${userId}/scheduledTasks/${taskId}`);
+    const { schedule } = getRepositories();
     
-    await updateDoc(taskRef, {
-      status,
-      updatedAt: serverTimestamp()
-    });
+    const task = await schedule.get(userId, taskId);
+    if (!task) {
+      return { success: false, message: 'Task not found' };
+    }
     
-    return { success: true, message: `Task marked as ${status}` };
+    const rule = getScheduledTaskRule(task);
+    
+    if (!rule) {
+      await schedule.update(userId, taskId, { status });
+      
+      return { success: true, message: `Task marked as ${status}` };
+    }
+    
+    const date = occurrenceDate || task.scheduledDate;
+    const completedOccurrences = (task.completedOccurrences || []).filter(d => d !== date);
+    const missedOccurrences = (task.missedOccurrences || []).filter(d => d !== date);
+    const updates: ScheduledTaskChanges = {
+      seriesStartDate: getSeriesStartDate(task)
+    };
+    
+    if (status === 'upcoming') {
+      // Reopen the occurrence; it becomes the current one if it is earlier
+      updates.completedOccurrences = { remove: [date] };
+      updates.missedOccurrences = { remove: [date] };
+      updates.status = 'upcoming';
+      if (task.status !== 'upcoming' || date < task.scheduledDate) {
+        updates.scheduledDate = date;
+      }
+    } else {
+      if (status === 'completed') {
+        completedOccurrences.push(date);
+        updates.completedOccurrences = { add: [date] };
+        updates.missedOccurrences = { remove: [date] };
+      } else {
+        missedOccurrences.push(date);
+        updates.missedOccurrences = { add: [date] };
+        updates.completedOccurrences = { remove: [date] };
+      }
+      
+      // Roll forward from the current occurrence to the next one not yet settled
+      const nextOccurrence = getNextPendingOccurrence(
+        { ...task, completedOccurrences, missedOccurrences },
+        task.scheduledDate < date ? task.scheduledDate : date
+      );
+      
+      if (nextOccurrence) {
+        updates.scheduledDate = nextOccurrence;
+        updates.status = 'upcoming';
+      } else {
+        // Series finished: the last occurrence decides the final status
+        updates.scheduledDate = date > task.scheduledDate ? date : task.scheduledDate;
+        updates.status = status;
+      }
+    }
+    
+    await schedule.update(userId, taskId, updates);
+
+    // The reminder follows the current occurrence, and goes once the series is finished
+    const nextDate = updates.scheduledDate || task.scheduledDate;
+    if (nextDate !== task.scheduledDate || updates.status !== task.status) {
+      if (task.notificationId) {
+        await cancelTaskNotification(task.notificationId);
+      }
+      const notificationId = updates.status === 'upcoming'
+        ? await scheduleTaskNotification({ ...task, scheduledDate: nextDate, status: 'upcoming' })
+        : null;
+      if (notificationId || task.notificationId) {
+        await schedule.update(userId, taskId, { notificationId });
+      }
+    }
+
+    return { success: true, message: `Occurrence on ${date} marked as ${status}` };
   } catch (error) {
     console.error(`Error updating task status to ${status}:`, error);
     return { 
@@ -278,18 +410,9 @@ export const subscribeToScheduledTasks = (
   }
 ): Unsubscribe => {
   const userId = getCurrentUserId();
-  const tasksRef = collection(FIREBASE_DB, `users/${userId}/scheduledTasks`);
   
-  // Create a simple query without compound conditions to avoid index requirements
-  let q = query(tasksRef);
-  
-  // Subscribe to the query
-  return onSnapshot(q, (snapshot) => {
-    const tasks = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as ScheduledTask[];
-    
+  // Subscribe to every scheduled task; filtering needs no index this way
+  return getRepositories().schedule.subscribe(userId, (tasks) => {
     // Apply all filters client-side
     let filteredTasks = tasks;
     
@@ -324,43 +447,67 @@ export const subscribeToScheduledTasks = (
 /**
  * Check for missed scheduled tasks and update their status
  * 
+ * One-time tasks scheduled before today are marked as missed. Repeating tasks
+ * record every past occurrence that was not completed as missed and roll forward
+ * to their next occurrence, only becoming missed once the series has ended.
+ * 
  * This implementation avoids the need for a composite index by using
  * client-side filtering instead of a compound query.
  */
 export const checkForMissedTasks = async (): Promise<number> => {
   try {
     const userId = getCurrentUserId();
-    const today = formatDateString(new Date());
-    
-    // Get all upcoming tasks - using only a single where clause to avoid index requirements
-    const tasksRef = collection(FIREBASE_DB, `users/${userId}/scheduledTasks`);
-    const q = query(
-      tasksRef,
-      where('status', '==', 'upcoming')
-    );
+    const today = getDayKey();
     
-    const snapshot = await getDocs(q);
-    if (snapshot.empty) return 0;
+    // Get all upcoming tasks - filtering by a single field avoids index requirements
+    const { schedule } = getRepositories();
+    const upcomingTasks = await schedule.list(userId, 'upcoming');
     
     // Filter tasks with dates before today client-side
-    const missedTasks = snapshot.docs.filter(doc => {
-      const data = doc.data();
-      return data.scheduledDate < today;
-    });
+    const overdueTasks = upcomingTasks.filter(task => task.scheduledDate < today);
+    
+    if (overdueTasks.length === 0) return 0;
     
-    if (missedTasks.length === 0) return 0;
+    // Update all overdue tasks together
+    const updates: { taskId: string; changes: ScheduledTaskChanges }[] = [];
+    let missedCount = 0;
     
-    // Update all missed tasks in a batch
-    const batch = writeBatch(FIREBASE_DB);
-    missedTasks.forEach(doc => {
-      batch.update(doc.ref, {
-        status: 'missed',
-        updatedAt: serverTimestamp()
-      });
+    overdueTasks.forEach(task => {
+      const rule = getScheduledTaskRule(task);
+      
+      if (!rule) {
+        updates.push({ taskId: task.id, changes: { status: 'missed' } });
+        missedCount++;
+        return;
+      }
+      
+      // Every unsettled occurrence from the current one up to yesterday was missed
+      const settled = new Set(task.completedOccurrences || []);
+      const missedDates = getScheduledTaskOccurrences(task, task.scheduledDate, addDaysToKey(today, -1))
+        .map(occurrence => occurrence.occurrenceDate)
+        .filter(date => !settled.has(date));
+      
+      const missedOccurrences = [...(task.missedOccurrences || []), ...missedDates];
+      const nextOccurrence = getNextPendingOccurrence({ ...task, missedOccurrences }, today);
+      
+      const changes: ScheduledTaskChanges = {
+        seriesStartDate: getSeriesStartDate(task)
+      };
+      if (missedDates.length > 0) {
+        changes.missedOccurrences = { add: missedDates };
+      }
+      if (nextOccurrence) {
+        changes.scheduledDate = nextOccurrence;
+      } else {
+        changes.status = 'missed';
+      }
+      
+      updates.push({ taskId: task.id, changes });
+      missedCount += missedDates.length;
     });
     
-    await batch.commit();
-    return missedTasks.length;
+    await schedule.updateMany(userId, updates);
+    return missedCount;
   } catch (error) {
     console.error('Error checking for missed tasks:', error);
     return 0;
@@ -0,0 +1,279 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  serverTimestamp,
+  updateDoc,
+  writeBatch,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { DEMO_MODE, DEMO_MODE_MESSAGE } from '../repositories';
+import { StreakProtection, StreakSettings } from '../types';
+import { addDaysToKey, getDayKey, getDayStart } from './dateUtils';
+
+// One streak freeze is earned for every this much total XP
+export const XP_PER_STREAK_FREEZE = 500;
+
+export const GRACE_HOUR_OPTIONS = [0, 1, 2, 3, 4];
+
+export const DEFAULT_STREAK_SETTINGS: StreakSettings = {
+  graceHours: 2,
+};
+
+export interface StreakOptions {
+  now?: Date;
+  graceHours?: number;
+  frozenDays?: string[];    // Days already protected by a spent freeze
+  freezesAvailable?: number; // Freezes that may be spent on missed days
+}
+
+export interface StreakResult {
+  count: number;                       // Days with activity in the current streak
+  protectedDays: StreakProtection[];   // Days in the streak kept by a freeze or the grace period, newest first
+  newFreezes: string[];                // Missed days this calculation spent a freeze on
+  pendingToday: boolean;               // Nothing done today yet, so the streak is still counted up to yesterday
+}
+
+/**
+ * Fill in defaults for missing or malformed streak settings
+ */
+export const resolveStreakSettings = (raw?: Partial<StreakSettings> | null): StreakSettings => ({
+  graceHours: raw && GRACE_HOUR_OPTIONS.includes(raw.graceHours as number)
+    ? raw.graceHours as number
+    : DEFAULT_STREAK_SETTINGS.graceHours,
+});
+
+/**
+ * Number of streak freezes earned with the given total XP
+ */
+export const getEarnedStreakFreezes = (totalXP: number): number =>
+  Math.max(0, Math.floor(totalXP / XP_PER_STREAK_FREEZE));
+
+/**
+ * Calculate a streak from activity times
+ *
+ * Used for both the task streak and the journal streak, so the two always follow the same rules:
+ * - Days are the user's days (see getDayKey), so they follow their time zone and day start hour
+ * - Activity in the first `graceHours` after the day starts counts for the day before, when that day
+ *   has nothing of its own, and the day is marked as kept by the grace period
+ * - Today doesn't break the streak until it's over
+ * - A run of missed days is bridged when enough freezes are available to cover all of it;
+ *   days frozen earlier stay protected
+ * @param activity When each activity happened (completions, reflections)
+ * @param options Clock, grace period and freezes
+ */
+export const computeStreak = (activity: Date[], options: StreakOptions = {}): StreakResult => {
+  const now = options.now || new Date();
+  const graceHours = options.graceHours || 0;
+  const frozen = new Set(options.frozenDays || []);
+  let freezesLeft = options.freezesAvailable || 0;
+
+  // Work out which day each activity counts for
+  const calendarDays = new Set(activity.map(time => getDayKey(time)));
+  const activeDays = new Set<string>();
+  const graceDays = new Set<string>();
+  activity.forEach(time => {
+    const day = getDayKey(time);
+    const previousDay = addDaysToKey(day, -1);
+    const intoDay = time.getTime() - getDayStart(day).getTime();
+    if (intoDay < graceHours * 60 * 60 * 1000 && !calendarDays.has(previousDay)) {
+      activeDays.add(previousDay);
+      graceDays.add(previousDay);
+    } else {
+      activeDays.add(day);
+    }
+  });
+
+  // Within the grace period it's still "yesterday" for the streak
+  const today = getDayKey(new Date(now.getTime() - graceHours * 60 * 60 * 1000));
+  const pendingToday = !activeDays.has(today);
+  const result: StreakResult = { count: 0, protectedDays: [], newFreezes: [], pendingToday };
+  if (activeDays.size === 0) return result;
+
+  const earliest = Array.from(activeDays).sort()[0];
+  let day = pendingToday ? addDaysToKey(today, -1) : today;
+
+  while (day >= earliest) {
+    if (activeDays.has(day)) {
+      result.count++;
+      if (graceDays.has(day)) result.protectedDays.push({ date: day, reason: 'grace' });
+      day = addDaysToKey(day, -1);
+      continue;
+    }
+    if (frozen.has(day)) {
+      result.protectedDays.push({ date: day, reason: 'freeze' });
+      day = addDaysToKey(day, -1);
+      continue;
+    }
+
+    // Only bridge the gap if every missed day in it can be frozen
+    const gap: string[] = [];
+    let cursor = day;
+    while (cursor >= earliest && !activeDays.has(cursor) && !frozen.has(cursor)) {
+      gap.push(cursor);
+      cursor = addDaysToKey(cursor, -1);
+    }
+    if (cursor < earliest || gap.length > freezesLeft) break;
+
+    gap.forEach(date => {
+      result.newFreezes.push(date);
+      result.protectedDays.push({ date, reason: 'freeze' });
+    });
+    freezesLeft -= gap.length;
+    day = cursor;
+  }
+
+  return result;
+};
+
+// The parts of a task history record that streaks look at
+type CompletionRecord = { action: string; taskId: string; timestamp?: { toDate: () => Date } | null };
+
+/**
+ * When each completion that still stands happened
+ * A completion that was later undone doesn't count
+ * @param records Task history records with their action, task and time
+ */
+export const getCompletionTimes = (
+  records: CompletionRecord[]
+): Date[] => {
+  const sorted = records
+    .filter(record => record.timestamp && (record.action === 'completed' || record.action === 'uncompleted'))
+    .sort((a, b) => a.timestamp!.toDate().getTime() - b.timestamp!.toDate().getTime());
+
+  const completions = new Map<string, Date[]>();
+  sorted.forEach(record => {
+    const times = completions.get(record.taskId) || [];
+    if (record.action === 'completed') {
+      times.push(record.timestamp!.toDate());
+    } else {
+      times.pop();
+    }
+    completions.set(record.taskId, times);
+  });
+
+  return Array.from(completions.values()).flat();
+};
+
+/**
+ * Recalculate the current user's task streak and store it
+ * Spends earned freezes on missed days where that keeps the streak going, and records
+ * every protected day in `streakProtections`
+ */
+export const refreshStreak = async () => {
+  try {
+    if (DEMO_MODE) return { success: false, message: DEMO_MODE_MESSAGE };
+
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    const userRef = doc(FIREBASE_DB, 'users', user.uid);
+    const protectionsRef = collection(FIREBASE_DB, 'users', user.uid, 'streakProtections');
+    const [userDoc, historyDocs, protectionDocs] = await Promise.all([
+      getDoc(userRef),
+      getDocs(collection(FIREBASE_DB, 'users', user.uid, 'taskHistory')),
+      getDocs(protectionsRef),
+    ]);
+    if (!userDoc.exists()) throw new Error('User stats not found');
+
+    const userData = userDoc.data();
+    const stored = protectionDocs.docs.map(protectionDoc => protectionDoc.data() as StreakProtection);
+    const frozenDays = stored.filter(protection => protection.reason === 'freeze').map(protection => protection.date);
+    const storedDays = new Set(stored.map(protection => protection.date));
+    const freezesAvailable = Math.max(0, getEarnedStreakFreezes(userData.totalXP || 0) - frozenDays.length);
+
+    const streak = computeStreak(
+      getCompletionTimes(historyDocs.docs.map(historyDoc => historyDoc.data() as CompletionRecord)),
+      {
+        graceHours: resolveStreakSettings(userData.streakSettings).graceHours,
+        frozenDays,
+        freezesAvailable,
+      }
+    );
+
+    const batch = writeBatch(FIREBASE_DB);
+    const freezesLeft = freezesAvailable - streak.newFreezes.length;
+    if (userData.streakCount !== streak.count || userData.streakFreezesAvailable !== freezesLeft) {
+      batch.update(userRef, { streakCount: streak.count, streakFreezesAvailable: freezesLeft });
+    }
+    streak.protectedDays
+      .filter(protection => !storedDays.has(protection.date))
+      .forEach(protection => {
+        batch.set(doc(protectionsRef, protection.date), { ...protection, createdAt: serverTimestamp() });
+      });
+    await batch.commit();
+
+    return { success: true, message: `Streak: ${streak.count} days`, streak };
+  } catch (error: any) {
+    console.error('Error refreshing streak:', error);
+    return { success: false, message: error.message || 'Failed to refresh streak' };
+  }
+};
+
+/**
+ * Subscribe to the current user's protected streak days, newest first
+ */
+export const subscribeToStreakProtections = (onNext: (protections: StreakProtection[]) => void): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext([]);
+    return () => {};
+  }
+
+  return onSnapshot(collection(FIREBASE_DB, 'users', user.uid, 'streakProtections'), (snapshot) => {
+    const protections = snapshot.docs
+      .map(protectionDoc => protectionDoc.data() as StreakProtection)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    onNext(protections);
+  }, (error) => {
+    console.error('Error in streak protections listener:', error);
+    onNext([]);
+  });
+};
+
+/**
+ * Subscribe to the current user's streak settings
+ * @param onNext Called with the settings, with defaults for anything not saved
+ */
+export const subscribeToStreakSettings = (onNext: (settings: StreakSettings) => void): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext(DEFAULT_STREAK_SETTINGS);
+    return () => {};
+  }
+
+  return onSnapshot(doc(FIREBASE_DB, 'users', user.uid), (snapshot) => {
+    onNext(resolveStreakSettings(snapshot.data()?.streakSettings));
+  }, (error) => {
+    console.error('Error in streak settings listener:', error);
+    onNext(DEFAULT_STREAK_SETTINGS);
+  });
+};
+
+/**
+ * Save the current user's streak settings
+ * @param settings The new settings
+ */
+export const saveStreakSettings = async (settings: StreakSettings) => {
+  try {
+    if (DEMO_MODE) return { success: false, message: DEMO_MODE_MESSAGE };
+
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    if (!GRACE_HOUR_OPTIONS.includes(settings.graceHours)) {
+      return { success: false, message: 'Choose a grace period from the list' };
+    }
+
+    await updateDoc(doc(FIREBASE_DB, 'users', user.uid), {
+      streakSettings: { graceHours: settings.graceHours },
+    });
+    return { success: true, message: 'Streak settings saved' };
+  } catch (error: any) {
+    console.error('Error saving streak settings:', error);
+    return { success: false, message: error.message || 'Failed to save streak settings' };
+  }
+};
@@ -0,0 +1,215 @@
+import { Task, SubTask } from './firebaseService';
+
+// Fields of a task that can be edited through updateTask
+export type TaskUpdates = Partial<Omit<Task, 'id' | 'userId'>>;
+
+/**
+ * Snapshot of a task as this device last saw it, captured when an edit is queued.
+ * The values are the pre-edit values of the fields being changed, so replay can
+ * tell which side (this device or the server) changed each field.
+ */
+export interface TaskConflictBase {
+  updatedAt: number | null;
+  values: TaskUpdates;
+}
+
+// A single field that was changed both locally and on another device
+export interface FieldConflict {
+  field: string;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+}
+
+export interface TaskMergeResult {
+  // Updates that can be written without asking the user
+  updates: TaskUpdates;
+  // Fields that need a manual pick between the local and server version
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Convert Firestore timestamps (live or rehydrated from redux-persist) to milliseconds
+ */
+export const timestampToMillis = (value: any): number | null => {
+  if (!value) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value.seconds === 'number') {
+    return value.seconds * 1000 + Math.floor((value.nanoseconds || 0) / 1e6);
+  }
+  if (value instanceof Date) return value.getTime();
+  return null;
+};
+
+/**
+ * Normalize a value for comparison so timestamps compare by time and
+ * missing values compare equal to null
+ */
+const normalizeValue = (value: any): any => {
+  if (value === undefined || value === null) return null;
+  const millis = typeof value === 'object' && !Array.isArray(value) ? timestampToMillis(value) : null;
+  if (millis !== null) return millis;
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce((acc, key) => {
+        const normalized = normalizeValue(value[key]);
+        if (normalized !== null) {
+          acc[key] = normalized;
+        }
+        return acc;
+      }, {} as Record<string, any>);
+  }
+  return value;
+};
+
+export const valuesEqual = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+
+/**
+ * Capture the conflict base for an edit to the given task
+ */
+export const createTaskConflictBase = (task: Partial<Task>, updates: TaskUpdates): TaskConflictBase => {
+  const values = Object.keys(updates).reduce((acc, key) => {
+    (acc as Record<string, unknown>)[key] = (task as Record<string, any>)[key] ?? null;
+    return acc;
+  }, {} as TaskUpdates);
+
+  return {
+    updatedAt: timestampToMillis(task.updatedAt),
+    values
+  };
+};
+
+/**
+ * Whether the server copy changed after the base was captured by another device
+ */
+export const hasRemoteChanges = (
+  base: TaskConflictBase,
+  server: Task,
+  deviceId: string
+): boolean => {
+  const serverUpdatedAt = timestampToMillis(server.updatedAt);
+  if (serverUpdatedAt === null) return false;
+  if (server.lastModifiedBy === deviceId) return false;
+  return base.updatedAt === null || serverUpdatedAt > base.updatedAt;
+};
+
+/**
+ * Three-way merge of subtask lists keyed by subtask ID.
+ * Returns null when the same subtask's title or completion was changed differently on both sides.
+ */
+export const mergeSubtasks = (
+  base: SubTask[],
+  local: SubTask[],
+  server: SubTask[]
+): SubTask[] | null => {
+  const baseById = new Map(base.map(st => [st.id, st]));
+  const localById = new Map(local.map(st => [st.id, st]));
+  const serverById = new Map(server.map(st => [st.id, st]));
+  const merged: SubTask[] = [];
+
+  // Keep the local ordering, then append subtasks that only exist on the server
+  const orderedIds = [
+    ...local.map(st => st.id),
+    ...server.map(st => st.id).filter(id => !localById.has(id))
+  ];
+
+  for (const id of orderedIds) {
+    const baseSubtask = baseById.get(id);
+    const localSubtask = localById.get(id);
+    const serverSubtask = serverById.get(id);
+
+    if (localSubtask && serverSubtask) {
+      const pick = <K extends keyof SubTask>(key: K): SubTask[K] | undefined => {
+        if (!baseSubtask || valuesEqual(serverSubtask[key], baseSubtask[key])) return localSubtask[key];
+        return serverSubtask[key];
+      };
+
+      const changedOnBothSides = (key: keyof SubTask) =>
+        !!baseSubtask &&
+        !valuesEqual(localSubtask[key], baseSubtask[key]) &&
+        !valuesEqual(serverSubtask[key], baseSubtask[key]) &&
+        !valuesEqual(localSubtask[key], serverSubtask[key]);
+
+      if (changedOnBothSides('title') || changedOnBothSides('completed')) {
+        return null;
+      }
+
+      // Checking or unchecking on one device wins over a device that left it alone
+      const completed = !!pick('completed');
+      const completedFrom = completed === !!localSubtask.completed ? localSubtask : serverSubtask;
+      merged.push({
+        id,
+        title: pick('title') || localSubtask.title,
+        completed,
+        completedAt: completed ? completedFrom.completedAt || null : null
+      });
+    } else if (localSubtask) {
+      // Deleted on the server: drop it unless it was added locally or edited locally
+      if (!baseSubtask || !valuesEqual(localSubtask, baseSubtask)) {
+        merged.push(localSubtask);
+      }
+    } else if (serverSubtask) {
+      // Deleted locally: keep it only if it is new or was edited on the server
+      if (!baseSubtask || !valuesEqual(serverSubtask, baseSubtask)) {
+        merged.push(serverSubtask);
+      }
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Resolve a queued task edit against the current server copy, field by field.
+ *
+ * Fields only changed locally are applied, fields only changed remotely are left alone,
+ * subtask lists are merged, and anything changed differently on both sides is reported
+ * as a conflict for the user to decide.
+ */
+export const resolveTaskUpdate = (
+  base: TaskConflictBase,
+  updates: TaskUpdates,
+  server: Task,
+  deviceId: string
+): TaskMergeResult => {
+  if (!hasRemoteChanges(base, server, deviceId)) {
+    return { updates, conflicts: [] };
+  }
+
+  const merged: Record<string, unknown> = {};
+  const conflicts: FieldConflict[] = [];
+
+  Object.entries(updates).forEach(([field, localValue]) => {
+    const baseValue = (base.values as Record<string, unknown>)[field];
+    const serverValue = (server as Record<string, any>)[field];
+
+    if (valuesEqual(serverValue, baseValue)) {
+      // Untouched on the server, the local edit wins
+      merged[field] = localValue;
+    } else if (valuesEqual(serverValue, localValue)) {
+      // Both devices made the same change
+      return;
+    } else if (field === 'subtasks') {
+      const mergedSubtasks = mergeSubtasks(
+        (baseValue as SubTask[]) || [],
+        (localValue as SubTask[]) || [],
+        (serverValue as SubTask[]) || []
+      );
+
+      if (mergedSubtasks) {
+        if (!valuesEqual(mergedSubtasks, serverValue)) {
+          merged[field] = mergedSubtasks;
+        }
+      } else {
+        conflicts.push({ field, base: baseValue, local: localValue, server: serverValue });
+      }
+    } else {
+      conflicts.push({ field, base: baseValue, local: localValue, server: serverValue });
+    }
+  });
+
+  return { updates: merged as TaskUpdates, conflicts };
+};
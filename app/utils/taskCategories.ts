@@ -0,0 +1,331 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  updateDoc,
+  where,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { TaskCategory } from '../types';
+import { addDaysToKey, getDayKey } from './dateUtils';
+
+// Tasks saved without a category, or whose category was removed, are filed under this ID
+export const UNCATEGORIZED_ID = 'uncategorized';
+export const MAX_CATEGORIES = 12;
+export const MAX_CATEGORY_XP_BUDGET = 1000;
+
+export const UNCATEGORIZED: TaskCategory = {
+  id: UNCATEGORIZED_ID,
+  name: 'Uncategorized',
+  color: '#718096',
+  icon: 'label-outline',
+};
+
+// The categories every account starts with
+export const DEFAULT_TASK_CATEGORIES: TaskCategory[] = [
+  { id: 'work', name: 'Work', color: '#4299E1', icon: 'work' },
+  { id: 'health', name: 'Health', color: '#48BB78', icon: 'favorite' },
+  { id: 'learning', name: 'Learning', color: '#9F7AEA', icon: 'school' },
+  { id: 'home', name: 'Home', color: '#ED8936', icon: 'home' },
+];
+
+// Colours offered when creating a category
+export const CATEGORY_COLOR_OPTIONS = [
+  '#48BB78', '#38B2AC', '#4299E1', '#5e60ce', '#9F7AEA',
+  '#ED64A6', '#F56565', '#ED8936', '#ECC94B', '#718096',
+];
+
+// MaterialIcons offered when creating a category
+export const CATEGORY_ICON_OPTIONS = [
+  'work', 'favorite', 'school', 'home', 'fitness-center', 'restaurant',
+  'attach-money', 'brush', 'people', 'spa', 'code', 'label-outline',
+];
+
+export interface CategoryGroup<T> {
+  category: TaskCategory;
+  items: T[];
+}
+
+export interface CategoryXpSummary {
+  category: TaskCategory;
+  totalXP: number;     // XP earned in the period
+  previousXP: number;  // XP earned in the period before, for the trend
+  dailyXP: number[];   // XP per day of the period, oldest first
+}
+
+/**
+ * Generate an ID for a new category
+ */
+export const createCategoryId = (): string =>
+  `category-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Find the category a task is filed under
+ * Tasks without a category, or whose category was removed, fall back to "Uncategorized"
+ * @param id The category ID stored on the task
+ * @param categories The user's categories
+ */
+export const findCategory = (id: string | undefined, categories: TaskCategory[]): TaskCategory =>
+  categories.find(category => category.id === id) || UNCATEGORIZED;
+
+/**
+ * Group items by category, in the user's category order with "Uncategorized" last
+ * Categories without any items are left out
+ * @param items Anything with a category ID, such as tasks or history records
+ * @param categories The user's categories
+ */
+export const groupByCategory = <T extends { category?: string }>(
+  items: T[],
+  categories: TaskCategory[]
+): CategoryGroup<T>[] => {
+  const groups = new Map<string, CategoryGroup<T>>();
+  items.forEach(item => {
+    const category = findCategory(item.category, categories);
+    if (!groups.has(category.id)) {
+      groups.set(category.id, { category, items: [] });
+    }
+    groups.get(category.id)!.items.push(item);
+  });
+
+  const order = [...categories.map(category => category.id), UNCATEGORIZED_ID];
+  const position = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+  return Array.from(groups.values()).sort((a, b) => position(a.category.id) - position(b.category.id));
+};
+
+/**
+ * Check categories before saving them
+ * @returns A list of problems, empty when the categories are valid
+ */
+export const validateTaskCategories = (categories: TaskCategory[]): string[] => {
+  const errors: string[] = [];
+
+  if (categories.length > MAX_CATEGORIES) {
+    errors.push(`You can have up to ${MAX_CATEGORIES} categories.`);
+  }
+
+  const names = new Set<string>();
+  categories.forEach((category, index) => {
+    const name = category.name.trim();
+    const label = name || `Category ${index + 1}`;
+
+    if (!name) {
+      errors.push(`${label} needs a name.`);
+    } else if (names.has(name.toLowerCase()) || name.toLowerCase() === UNCATEGORIZED.name.toLowerCase()) {
+      errors.push(`There is more than one category called "${name}".`);
+    }
+    names.add(name.toLowerCase());
+
+    if (!/^#[0-9a-fA-F]{6}$/.test(category.color)) {
+      errors.push(`${label} has an invalid colour.`);
+    }
+    if (!category.icon) {
+      errors.push(`${label} needs an icon.`);
+    }
+    if (category.dailyXpBudget !== undefined && (
+      !Number.isInteger(category.dailyXpBudget) ||
+      category.dailyXpBudget < 1 ||
+      category.dailyXpBudget > MAX_CATEGORY_XP_BUDGET
+    )) {
+      errors.push(`${label} needs a daily XP budget between 1 and ${MAX_CATEGORY_XP_BUDGET}, or none.`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Subscribe to the current user's task categories
+ * @param onNext Called with the categories, or the built-in ones when none are saved
+ */
+export const subscribeToTaskCategories = (onNext: (categories: TaskCategory[]) => void): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext(DEFAULT_TASK_CATEGORIES);
+    return () => {};
+  }
+
+  return onSnapshot(doc(FIREBASE_DB, 'users', user.uid), (snapshot) => {
+    const categories = snapshot.data()?.taskCategories as TaskCategory[] | undefined;
+    onNext(Array.isArray(categories) ? categories : DEFAULT_TASK_CATEGORIES);
+  }, (error) => {
+    console.error('Error in task categories listener:', error);
+    onNext(DEFAULT_TASK_CATEGORIES);
+  });
+};
+
+/**
+ * Save the current user's task categories
+ * Removing a category leaves its tasks in place; they show as "Uncategorized"
+ * @param categories The categories, in display order
+ */
+export const saveTaskCategories = async (categories: TaskCategory[]) => {
+  try {
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    const cleaned = categories.map(category => {
+      const saved: TaskCategory = {
+        id: category.id,
+        name: category.name.trim(),
+        color: category.color,
+        icon: category.icon,
+      };
+      if (category.dailyXpBudget !== undefined) {
+        saved.dailyXpBudget = category.dailyXpBudget;
+      }
+      return saved;
+    });
+
+    const errors = validateTaskCategories(cleaned);
+    if (errors.length > 0) {
+      return { success: false, message: errors.join('\n') };
+    }
+
+    await updateDoc(doc(FIREBASE_DB, 'users', user.uid), { taskCategories: cleaned });
+    return { success: true, message: 'Categories saved' };
+  } catch (error: any) {
+    console.error('Error saving task categories:', error);
+    return { success: false, message: error.message || 'Failed to save categories' };
+  }
+};
+
+// The parts of an XP bank record that category totals look at
+type CategoryXpRecord = { date: string; taskId?: string; xpAmount?: number; taskData?: { category?: string } };
+
+/**
+ * Add up XP by category and day
+ * Undone completions carry negative XP, so they cancel out the XP they gave. Older records
+ * without the task's category take it from another record of the same task.
+ * @param records XP bank records with their date, XP, task and the task's category
+ * @returns XP keyed by category ID, then by date
+ */
+export const sumXpByCategory = (
+  records: CategoryXpRecord[]
+): Map<string, Map<string, number>> => {
+  const taskCategories = new Map<string, string>();
+  records.forEach(record => {
+    if (record.taskId && record.taskData?.category) {
+      taskCategories.set(record.taskId, record.taskData.category);
+    }
+  });
+
+  const totals = new Map<string, Map<string, number>>();
+  records.forEach(record => {
+    const categoryId = record.taskData?.category
+      || (record.taskId && taskCategories.get(record.taskId))
+      || UNCATEGORIZED_ID;
+    const byDate = totals.get(categoryId) || new Map<string, number>();
+    byDate.set(record.date, (byDate.get(record.date) || 0) + (record.xpAmount || 0));
+    totals.set(categoryId, byDate);
+  });
+  return totals;
+};
+
+/**
+ * Build each category's XP over a period, and over the period before it
+ * @param totals XP keyed by category ID, then by date (see sumXpByCategory)
+ * @param categories The user's categories
+ * @param days Length of the period in days, ending today
+ * @param today The last day of the period, as YYYY-MM-DD
+ */
+export const buildCategoryXpBreakdown = (
+  totals: Map<string, Map<string, number>>,
+  categories: TaskCategory[],
+  days: number,
+  today: string = getDayKey()
+): CategoryXpSummary[] => {
+  const periodDates = Array.from({ length: days }, (_, index) => addDaysToKey(today, index - days + 1));
+  const previousStart = addDaysToKey(today, 1 - days * 2);
+
+  // Removed categories are counted under "Uncategorized", like their tasks
+  const summaries = new Map<string, CategoryXpSummary>();
+  totals.forEach((byDate, categoryId) => {
+    const category = findCategory(categoryId, categories);
+    const summary = summaries.get(category.id) || {
+      category,
+      totalXP: 0,
+      previousXP: 0,
+      dailyXP: periodDates.map(() => 0),
+    };
+
+    byDate.forEach((xp, date) => {
+      const index = periodDates.indexOf(date);
+      if (index >= 0) {
+        summary.dailyXP[index] += xp;
+        summary.totalXP += xp;
+      } else if (date >= previousStart && date < periodDates[0]) {
+        summary.previousXP += xp;
+      }
+    });
+    summaries.set(category.id, summary);
+  });
+
+  return Array.from(summaries.values())
+    .map(summary => ({
+      ...summary,
+      totalXP: Math.max(0, summary.totalXP),
+      previousXP: Math.max(0, summary.previousXP),
+      dailyXP: summary.dailyXP.map(xp => Math.max(0, xp)),
+    }))
+    .filter(summary => summary.totalXP > 0 || summary.previousXP > 0)
+    .sort((a, b) => b.totalXP - a.totalXP);
+};
+
+/**
+ * Load the current user's XP by category for a period and the period before it
+ * @param days Length of the period in days, ending today
+ * @param categories The user's categories
+ */
+export const loadCategoryXpBreakdown = async (
+  days: number,
+  categories: TaskCategory[]
+): Promise<CategoryXpSummary[]> => {
+  try {
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    const since = addDaysToKey(getDayKey(), 1 - days * 2);
+    const recordDocs = await getDocs(query(
+      collection(FIREBASE_DB, 'users', user.uid, 'xpBankRecords'),
+      where('date', '>=', since)
+    ));
+
+    const records = recordDocs.docs.map(recordDoc => recordDoc.data() as CategoryXpRecord);
+    return buildCategoryXpBreakdown(sumXpByCategory(records), categories, days);
+  } catch (error) {
+    console.error('Error loading category XP breakdown:', error);
+    return [];
+  }
+};
+
+/**
+ * Subscribe to the XP the current user has earned today in each category
+ * @param onNext Called with today's XP keyed by category ID
+ */
+export const subscribeToTodayCategoryXp = (onNext: (xpByCategory: Record<string, number>) => void): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext({});
+    return () => {};
+  }
+
+  const todayQuery = query(
+    collection(FIREBASE_DB, 'users', user.uid, 'xpBankRecords'),
+    where('date', '==', getDayKey())
+  );
+  return onSnapshot(todayQuery, (snapshot) => {
+    const xpByCategory: Record<string, number> = {};
+    sumXpByCategory(snapshot.docs.map(recordDoc => recordDoc.data() as CategoryXpRecord)).forEach((byDate, categoryId) => {
+      byDate.forEach(xp => {
+        xpByCategory[categoryId] = (xpByCategory[categoryId] || 0) + xp;
+      });
+    });
+    onNext(xpByCategory);
+  }, (error) => {
+    console.error('Error in category XP listener:', error);
+    onNext({});
+  });
+};
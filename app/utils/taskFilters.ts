@@ -0,0 +1,270 @@
+import { doc, onSnapshot, runTransaction, Unsubscribe } from 'firebase/firestore';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { SavedTaskView, TaskCategory, TaskFilter } from '../types';
+import { getDayKey } from './dateUtils';
+import { findCategory } from './taskCategories';
+
+export const MAX_TAGS_PER_TASK = 10;
+export const MAX_TAG_LENGTH = 24;
+export const MAX_SAVED_VIEWS = 20;
+
+/**
+ * The fields filters look at; tasks, history records and missed occurrences all map onto this
+ */
+export interface FilterableItem {
+  title: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+  recurring?: boolean;
+  xp?: number;
+  date?: string; // YYYY-MM-DD: when a task was created, or when a history entry happened
+}
+
+/**
+ * Tidy a tag: lowercase, no leading "#", spaces turned into dashes
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH);
+
+/**
+ * Read tags typed as a comma separated list, e.g. "errands, #deep work"
+ * @returns The unique, tidied tags, at most MAX_TAGS_PER_TASK of them
+ */
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(normalizeTag).filter(tag => tag.length > 0)))
+    .slice(0, MAX_TAGS_PER_TASK);
+
+/**
+ * Show tags the way they're typed in, so they can be edited and parsed back
+ */
+export const formatTags = (tags?: string[]): string => (tags || []).join(', ');
+
+/**
+ * Every tag used by the given items, sorted
+ */
+export const collectTags = (items: { tags?: string[] }[]): string[] =>
+  Array.from(new Set(items.flatMap(item => item.tags || []))).sort();
+
+/**
+ * The filter fields of a task; its date is the day it was created
+ */
+export const getTaskFilterFields = (task: {
+  title: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+  recurring?: boolean;
+  xp?: number;
+  creationDate?: string;
+  createdAt?: { toDate: () => Date } | null;
+}): FilterableItem => ({
+  ...task,
+  date: task.creationDate
+    ? task.creationDate.slice(0, 10)
+    : task.createdAt ? getDayKey(task.createdAt.toDate()) : undefined,
+});
+
+/**
+ * Drop the conditions that aren't set, so a filter can be compared and saved
+ */
+export const cleanTaskFilter = (filter: TaskFilter): TaskFilter => {
+  const cleaned: TaskFilter = {};
+  if (filter.text && filter.text.trim()) cleaned.text = filter.text.trim();
+  if (filter.tags && filter.tags.length > 0) cleaned.tags = [...filter.tags].sort();
+  if (filter.category) cleaned.category = filter.category;
+  if (filter.recurring !== undefined) cleaned.recurring = filter.recurring;
+  if (filter.minXp !== undefined) cleaned.minXp = filter.minXp;
+  if (filter.maxXp !== undefined) cleaned.maxXp = filter.maxXp;
+  if (filter.startDate) cleaned.startDate = filter.startDate;
+  if (filter.endDate) cleaned.endDate = filter.endDate;
+  return cleaned;
+};
+
+/**
+ * Number of conditions set on a filter
+ */
+export const countFilterConditions = (filter: TaskFilter): number =>
+  Object.keys(cleanTaskFilter(filter)).length;
+
+/**
+ * Whether two filters have the same conditions
+ */
+export const isSameTaskFilter = (a: TaskFilter, b: TaskFilter): boolean =>
+  JSON.stringify(cleanTaskFilter(a)) === JSON.stringify(cleanTaskFilter(b));
+
+/**
+ * Check a filter before using or saving it
+ * @returns A list of problems, empty when the filter is valid
+ */
+export const validateTaskFilter = (filter: TaskFilter): string[] => {
+  const errors: string[] = [];
+  const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+  if (filter.minXp !== undefined && (!Number.isInteger(filter.minXp) || filter.minXp < 0)) {
+    errors.push('Minimum XP must be a whole number.');
+  }
+  if (filter.maxXp !== undefined && (!Number.isInteger(filter.maxXp) || filter.maxXp < 0)) {
+    errors.push('Maximum XP must be a whole number.');
+  }
+  if (filter.minXp !== undefined && filter.maxXp !== undefined && filter.minXp > filter.maxXp) {
+    errors.push('Minimum XP must not be more than the maximum.');
+  }
+  if (filter.startDate && !isDate(filter.startDate)) {
+    errors.push('Enter the start date as YYYY-MM-DD.');
+  }
+  if (filter.endDate && !isDate(filter.endDate)) {
+    errors.push('Enter the end date as YYYY-MM-DD.');
+  }
+  if (filter.startDate && filter.endDate && filter.startDate > filter.endDate) {
+    errors.push('The start date must not be after the end date.');
+  }
+
+  return errors;
+};
+
+/**
+ * Check an item against every condition of a filter
+ * @param item The item's filter fields
+ * @param filter The filter
+ * @param categories The user's categories, so items in a removed category match "Uncategorized"
+ */
+export const matchesTaskFilter = (
+  item: FilterableItem,
+  filter: TaskFilter,
+  categories: TaskCategory[]
+): boolean => {
+  if (filter.text) {
+    const text = filter.text.toLowerCase();
+    const inTitle = item.title.toLowerCase().includes(text);
+    const inDescription = !!item.description && item.description.toLowerCase().includes(text);
+    if (!inTitle && !inDescription) return false;
+  }
+  if (filter.tags && filter.tags.length > 0) {
+    const tags = item.tags || [];
+    if (!filter.tags.every(tag => tags.includes(tag))) return false;
+  }
+  if (filter.category && findCategory(item.category, categories).id !== filter.category) {
+    return false;
+  }
+  if (filter.recurring !== undefined && !!item.recurring !== filter.recurring) {
+    return false;
+  }
+  if (filter.minXp !== undefined && (item.xp ?? 0) < filter.minXp) return false;
+  if (filter.maxXp !== undefined && (item.xp ?? 0) > filter.maxXp) return false;
+  if (filter.startDate && (!item.date || item.date < filter.startDate)) return false;
+  if (filter.endDate && (!item.date || item.date > filter.endDate)) return false;
+  return true;
+};
+
+/**
+ * A short summary of a filter, e.g. "#errands · Work · 10-50 XP"
+ */
+export const describeTaskFilter = (filter: TaskFilter, categories: TaskCategory[]): string => {
+  const parts: string[] = [];
+  if (filter.text) parts.push(`"${filter.text}"`);
+  (filter.tags || []).forEach(tag => parts.push(`#${tag}`));
+  if (filter.category) parts.push(findCategory(filter.category, categories).name);
+  if (filter.recurring !== undefined) parts.push(filter.recurring ? 'Recurring' : 'One-off');
+  if (filter.minXp !== undefined || filter.maxXp !== undefined) {
+    parts.push(`${filter.minXp ?? 0}-${filter.maxXp ?? '∞'} XP`);
+  }
+  if (filter.startDate || filter.endDate) {
+    parts.push(`${filter.startDate || '…'} to ${filter.endDate || '…'}`);
+  }
+  return parts.join(' · ');
+};
+
+/**
+ * Subscribe to the current user's saved views
+ * @param onNext Called with the views, in the order they were saved
+ */
+export const subscribeToSavedTaskViews = (onNext: (views: SavedTaskView[]) => void): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext([]);
+    return () => {};
+  }
+
+  return onSnapshot(doc(FIREBASE_DB, 'users', user.uid), (snapshot) => {
+    const views = snapshot.data()?.savedTaskViews as SavedTaskView[] | undefined;
+    onNext(Array.isArray(views) ? views : []);
+  }, (error) => {
+    console.error('Error in saved views listener:', error);
+    onNext([]);
+  });
+};
+
+/**
+ * Save a filter as a named view
+ * A view with the same name is replaced, so saving again updates it
+ * @param name The view's name
+ * @param filter The filter to save
+ */
+export const saveTaskView = async (name: string, filter: TaskFilter) => {
+  try {
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    const trimmedName = name.trim();
+    const cleaned = cleanTaskFilter(filter);
+    if (!trimmedName) {
+      return { success: false, message: 'Give the view a name.' };
+    }
+    if (Object.keys(cleaned).length === 0) {
+      return { success: false, message: 'Set at least one filter to save a view.' };
+    }
+    const errors = validateTaskFilter(cleaned);
+    if (errors.length > 0) {
+      return { success: false, message: errors.join('\n') };
+    }
+
+    const userRef = doc(FIREBASE_DB, 'users', user.uid);
+    return await runTransaction(FIREBASE_DB, async (transaction) => {
+      const snapshot = await transaction.get(userRef);
+      const views = (snapshot.data()?.savedTaskViews as SavedTaskView[] | undefined) || [];
+      const existing = views.find(view => view.name.toLowerCase() === trimmedName.toLowerCase());
+
+      if (!existing && views.length >= MAX_SAVED_VIEWS) {
+        return { success: false, message: `You can save up to ${MAX_SAVED_VIEWS} views.` };
+      }
+
+      const view: SavedTaskView = {
+        id: existing?.id || `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        name: trimmedName,
+        filter: cleaned,
+      };
+      transaction.update(userRef, {
+        savedTaskViews: existing
+          ? views.map(saved => (saved.id === existing.id ? view : saved))
+          : [...views, view],
+      });
+      return { success: true, message: existing ? `Updated "${trimmedName}"` : `Saved "${trimmedName}"` };
+    });
+  } catch (error: any) {
+    console.error('Error saving view:', error);
+    return { success: false, message: error.message || 'Failed to save view' };
+  }
+};
+
+/**
+ * Delete a saved view
+ * @param viewId The view's ID
+ */
+export const deleteTaskView = async (viewId: string) => {
+  try {
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    const userRef = doc(FIREBASE_DB, 'users', user.uid);
+    await runTransaction(FIREBASE_DB, async (transaction) => {
+      const snapshot = await transaction.get(userRef);
+      const views = (snapshot.data()?.savedTaskViews as SavedTaskView[] | undefined) || [];
+      transaction.update(userRef, { savedTaskViews: views.filter(view => view.id !== viewId) });
+    });
+    return { success: true, message: 'View deleted' };
+  } catch (error: any) {
+    console.error('Error deleting view:', error);
+    return { success: false, message: error.message || 'Failed to delete view' };
+  }
+};
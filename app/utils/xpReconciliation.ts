@@ -0,0 +1,269 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  writeBatch,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { DEMO_MODE, DEMO_MODE_MESSAGE } from '../repositories';
+import { UserStats, XPSettings } from '../types';
+import { getDayKey } from './dateUtils';
+import { DailySnapshot, DailyXPBank, XPBankRecord } from './firebaseService';
+import { capDailyXp, getRemainingDailyXp, resolveXpSettings } from './xpSettings';
+
+// Firestore allows 500 writes per batch; stay below it
+const BATCH_SIZE = 450;
+
+export type ReconciliationTrigger = 'manual' | 'scheduled' | 'restore';
+
+/**
+ * XP totals for one day, rebuilt from the XP bank records
+ */
+export interface LedgerDay {
+  date: string;
+  earnedXP: number;  // Net XP of the day's records, never below zero
+  recordCount: number;
+}
+
+/**
+ * A stored value that disagrees with the XP bank records
+ */
+export interface XpCorrection {
+  target: 'xpBank' | 'dailySnapshot' | 'userStats';
+  docId: string;
+  field: string;
+  before: number | null;
+  after: number | null;
+}
+
+export interface XpReconciliationResult {
+  success: boolean;
+  message: string;
+  corrections: XpCorrection[];
+}
+
+/**
+ * Rebuild each day's earned XP from the XP bank records
+ *
+ * A record counts toward the day whose XP bank lists it. Uncompleting a task files its
+ * negative record under the day the task was completed, even though the record is dated
+ * the day it was undone. Records no bank lists fall back to their own date.
+ * @param records Every XP bank record of the user
+ * @param banks Every daily XP bank of the user
+ */
+export const buildXpLedger = (records: XPBankRecord[], banks: DailyXPBank[]): Map<string, LedgerDay> => {
+  const recordDates = new Map<string, string>();
+  banks.forEach(bank => {
+    (bank.records || []).forEach(recordId => recordDates.set(recordId, bank.date));
+  });
+
+  const netByDate = new Map<string, { net: number; recordCount: number }>();
+  records.forEach(record => {
+    const date = recordDates.get(record.id) || record.date;
+    if (!date) return;
+
+    const day = netByDate.get(date) || { net: 0, recordCount: 0 };
+    day.net += record.xpAmount || 0;
+    day.recordCount += 1;
+    netByDate.set(date, day);
+  });
+
+  const ledger = new Map<string, LedgerDay>();
+  netByDate.forEach((day, date) => {
+    ledger.set(date, { date, earnedXP: Math.max(0, day.net), recordCount: day.recordCount });
+  });
+  return ledger;
+};
+
+/**
+ * Compare the stored XP totals with the ledger
+ *
+ * The ledger decides every day it has records for:
+ * - the day's XP bank holds the capped earned XP and what is left under the cap
+ * - the day's snapshot holds the earned XP and the capped XP bank figure
+ * - today's XP on the user document is the capped earned XP of today
+ * Snapshots from before the ledger existed are left alone and still count toward total XP.
+ * @param today The day the user's today XP belongs to
+ * @returns The corrections to write, empty when everything agrees
+ */
+export const findXpDrift = (
+  ledger: Map<string, LedgerDay>,
+  banks: DailyXPBank[],
+  snapshots: DailySnapshot[],
+  userStats: Pick<UserStats, 'totalXP' | 'todayXP'> | null,
+  settings: XPSettings,
+  userId: string,
+  today: string
+): XpCorrection[] => {
+  const corrections: XpCorrection[] = [];
+  const compare = (target: XpCorrection['target'], docId: string, field: string, before: unknown, after: number | null) => {
+    const stored = typeof before === 'number' ? before : null;
+    if (stored !== after) {
+      corrections.push({ target, docId, field, before: stored, after });
+    }
+  };
+
+  const banksByDate = new Map(banks.map(bank => [bank.date, bank]));
+  ledger.forEach(day => {
+    const bank = banksByDate.get(day.date);
+    compare('xpBank', day.date, 'totalXP', bank?.totalXP, capDailyXp(day.earnedXP, settings));
+    compare('xpBank', day.date, 'availableXP', bank ? bank.availableXP : undefined, getRemainingDailyXp(settings, day.earnedXP));
+  });
+
+  // A bank with no records left behind has nothing to count
+  banks.forEach(bank => {
+    if (ledger.has(bank.date)) return;
+    compare('xpBank', bank.date, 'totalXP', bank.totalXP, 0);
+    compare('xpBank', bank.date, 'availableXP', bank.availableXP, getRemainingDailyXp(settings, 0));
+  });
+
+  let totalXP = 0;
+  snapshots.forEach(snapshot => {
+    const day = ledger.get(snapshot.date);
+    if (!day) {
+      totalXP += snapshot.xpEarned || 0;
+      return;
+    }
+    compare('dailySnapshot', snapshot.date, 'xpEarned', snapshot.xpEarned, day.earnedXP);
+    compare('dailySnapshot', snapshot.date, 'dailyXpBank', snapshot.dailyXpBank, capDailyXp(day.earnedXP, settings));
+  });
+  ledger.forEach(day => {
+    totalXP += day.earnedXP;
+  });
+
+  if (userStats) {
+    const todayXP = capDailyXp(ledger.get(today)?.earnedXP || 0, settings);
+    compare('userStats', userId, 'totalXP', userStats.totalXP, totalXP);
+    compare('userStats', userId, 'todayXP', userStats.todayXP, todayXP);
+  }
+
+  return corrections;
+};
+
+/**
+ * Describe a correction for the user
+ */
+export const describeXpCorrection = (correction: XpCorrection): string => {
+  const formatValue = (value: number | null) => (value === null ? 'none' : `${value} XP`);
+  const where = correction.target === 'userStats'
+    ? 'Profile'
+    : `${correction.target === 'xpBank' ? 'XP bank' : 'Daily snapshot'} ${correction.docId}`;
+  return `${where} ${correction.field}: ${formatValue(correction.before)} → ${formatValue(correction.after)}`;
+};
+
+/**
+ * Rebuild the current user's XP totals from the XP bank records and fix any drift
+ *
+ * Corrections are written together with an audit record in `xpReconciliations`
+ * holding every changed value before and after.
+ * @param trigger Whether the user asked for the check or it ran on its schedule
+ */
+export const reconcileXp = async (trigger: ReconciliationTrigger): Promise<XpReconciliationResult> => {
+  try {
+    if (DEMO_MODE) return { success: false, message: DEMO_MODE_MESSAGE, corrections: [] };
+
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+    const userId = user.uid;
+
+    const [recordsSnapshot, banksSnapshot, snapshotsSnapshot, userDoc] = await Promise.all([
+      getDocs(collection(FIREBASE_DB, 'users', userId, 'xpBankRecords')),
+      getDocs(collection(FIREBASE_DB, 'users', userId, 'xpBank')),
+      getDocs(collection(FIREBASE_DB, 'users', userId, 'dailySnapshots')),
+      getDoc(doc(FIREBASE_DB, 'users', userId)),
+    ]);
+
+    const records = recordsSnapshot.docs.map(recordDoc => ({ ...recordDoc.data(), id: recordDoc.id } as XPBankRecord));
+    const banks = banksSnapshot.docs.map(bankDoc => ({ date: bankDoc.id, ...bankDoc.data() } as DailyXPBank));
+    const snapshots = snapshotsSnapshot.docs.map(snapshotDoc => ({ date: snapshotDoc.id, ...snapshotDoc.data() } as DailySnapshot));
+    const userData = userDoc.exists() ? userDoc.data() as UserStats : null;
+
+    const ledger = buildXpLedger(records, banks);
+    const corrections = findXpDrift(
+      ledger,
+      banks,
+      snapshots,
+      userData,
+      resolveXpSettings(userData?.xpSettings),
+      userId,
+      getDayKey()
+    );
+
+    if (corrections.length === 0) {
+      return { success: true, message: 'Your XP totals all match your XP history.', corrections };
+    }
+
+    // Group the changed fields per document so each one is written once
+    type DocumentUpdate = { path: string[]; isNewBank: boolean; fields: Record<string, number | null> };
+    const updates = new Map<string, DocumentUpdate>();
+    const existingBanks = new Set(banks.map(bank => bank.date));
+    const listedRecords = new Set(banks.flatMap(bank => bank.records || []));
+    corrections.forEach(correction => {
+      const path = correction.target === 'userStats'
+        ? ['users', userId]
+        : ['users', userId, correction.target === 'xpBank' ? 'xpBank' : 'dailySnapshots', correction.docId];
+      const key = path.join('/');
+      const update: DocumentUpdate = updates.get(key) || {
+        path,
+        isNewBank: correction.target === 'xpBank' && !existingBanks.has(correction.docId),
+        fields: {},
+      };
+      update.fields[correction.field] = correction.after;
+      updates.set(key, update);
+    });
+
+    const operations: ((batch: ReturnType<typeof writeBatch>) => void)[] = [];
+    updates.forEach(({ path, isNewBank, fields }) => {
+      const [collectionName, ...segments] = path;
+      const ref = doc(FIREBASE_DB, collectionName, ...segments);
+      if (isNewBank) {
+        // Records no bank lists still need a bank for their day
+        const date = segments[segments.length - 1];
+        const recordIds = records
+          .filter(record => record.date === date && !listedRecords.has(record.id))
+          .map(record => record.id);
+        operations.push(batch => batch.set(ref, {
+          id: date,
+          userId,
+          date,
+          ...fields,
+          records: recordIds,
+          lastUpdated: serverTimestamp(),
+        }));
+      } else if (path.length === 2) {
+        operations.push(batch => batch.update(ref, fields));
+      } else {
+        operations.push(batch => batch.update(ref, { ...fields, lastUpdated: serverTimestamp() }));
+      }
+    });
+
+    // The audit record goes out with the last batch of corrections
+    const auditRef = doc(collection(FIREBASE_DB, 'users', userId, 'xpReconciliations'));
+    operations.push(batch => batch.set(auditRef, {
+      id: auditRef.id,
+      userId,
+      trigger,
+      recordsChecked: records.length,
+      daysChecked: ledger.size,
+      corrections,
+      timestamp: serverTimestamp(),
+    }));
+
+    for (let i = 0; i < operations.length; i += BATCH_SIZE) {
+      const batch = writeBatch(FIREBASE_DB);
+      operations.slice(i, i + BATCH_SIZE).forEach(operation => operation(batch));
+      await batch.commit();
+    }
+
+    return {
+      success: true,
+      message: `Fixed ${corrections.length} XP ${corrections.length === 1 ? 'total' : 'totals'} to match your XP history.`,
+      corrections,
+    };
+  } catch (error: any) {
+    console.error('Error reconciling XP:', error);
+    return { success: false, message: error.message || 'Failed to reconcile XP', corrections: [] };
+  }
+};
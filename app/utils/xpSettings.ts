@@ -0,0 +1,175 @@
+import { doc, getDoc, onSnapshot, updateDoc, Unsubscribe } from 'firebase/firestore';
+import { FIREBASE_DB, FIREBASE_AUTH } from '../../FirebaseConfig';
+import { DEMO_MODE, DEMO_MODE_MESSAGE } from '../repositories';
+import { XPSettings } from '../types';
+import { getDayKey } from './dateUtils';
+import { getWeekdayOfDateString } from './recurrenceUtils';
+
+export const DEFAULT_DAILY_XP_CAP = 100;
+export const MIN_DAILY_XP_CAP = 10;
+export const MAX_DAILY_XP_CAP = 1000;
+
+export const DEFAULT_XP_SETTINGS: XPSettings = {
+  dailyXpCap: DEFAULT_DAILY_XP_CAP,
+  capEnabled: true,
+  weekdayTargets: Array(7).fill(DEFAULT_DAILY_XP_CAP),
+};
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Fill in defaults for missing or malformed settings read from the user document
+ * @param raw The stored settings, if any
+ */
+export const resolveXpSettings = (raw?: Partial<XPSettings> | null): XPSettings => {
+  if (!raw) return DEFAULT_XP_SETTINGS;
+
+  const dailyXpCap = isWholeNumber(raw.dailyXpCap, MIN_DAILY_XP_CAP, MAX_DAILY_XP_CAP)
+    ? raw.dailyXpCap
+    : DEFAULT_XP_SETTINGS.dailyXpCap;
+  const weekdayTargets = Array.isArray(raw.weekdayTargets) && raw.weekdayTargets.length === 7
+    ? raw.weekdayTargets.map(target => (isWholeNumber(target, 0, MAX_DAILY_XP_CAP) ? target : dailyXpCap))
+    : Array(7).fill(dailyXpCap);
+
+  return {
+    dailyXpCap,
+    capEnabled: raw.capEnabled !== false,
+    weekdayTargets,
+  };
+};
+
+/**
+ * The daily XP cap in effect
+ * @returns The cap, or null when the user has turned it off
+ */
+export const getDailyXpCap = (settings: XPSettings): number | null =>
+  settings.capEnabled ? settings.dailyXpCap : null;
+
+/**
+ * Apply the daily cap to an XP total
+ */
+export const capDailyXp = (xp: number, settings: XPSettings): number => {
+  const cap = getDailyXpCap(settings);
+  return cap === null ? xp : Math.min(cap, xp);
+};
+
+/**
+ * XP still available under the daily cap
+ * @param usedXp XP already planned or earned today
+ * @returns The remaining XP, or null when the cap is off
+ */
+export const getRemainingDailyXp = (settings: XPSettings, usedXp: number): number | null => {
+  const cap = getDailyXpCap(settings);
+  return cap === null ? null : Math.max(0, cap - usedXp);
+};
+
+/**
+ * The XP goal for a day, from the weekday targets
+ * @param day The day as YYYY-MM-DD (defaults to the user's today)
+ */
+export const getDailyXpTarget = (settings: XPSettings, day: string = getDayKey()): number =>
+  settings.weekdayTargets[getWeekdayOfDateString(day)];
+
+/**
+ * Today's XP as a percentage (0-100) of the day's target
+ * @param todayXp XP earned today
+ */
+export const getDailyXpProgress = (todayXp: number, settings: XPSettings, day: string = getDayKey()): number => {
+  const target = getDailyXpTarget(settings, day);
+  if (target <= 0) return 100;
+  return Math.min(100, Math.round((todayXp / target) * 100));
+};
+
+/**
+ * The weekly XP goal: the sum of the weekday targets
+ */
+export const getWeeklyXpGoal = (settings: XPSettings): number =>
+  settings.weekdayTargets.reduce((sum, target) => sum + target, 0);
+
+/**
+ * Check settings before saving them
+ * @returns A list of problems, empty when the settings are valid
+ */
+export const validateXpSettings = (settings: XPSettings): string[] => {
+  const errors: string[] = [];
+
+  if (!isWholeNumber(settings.dailyXpCap, MIN_DAILY_XP_CAP, MAX_DAILY_XP_CAP)) {
+    errors.push(`The daily cap must be a whole number between ${MIN_DAILY_XP_CAP} and ${MAX_DAILY_XP_CAP}.`);
+  }
+  if (settings.weekdayTargets.length !== 7) {
+    errors.push('Set a target for every day of the week.');
+  } else if (settings.weekdayTargets.some(target => !isWholeNumber(target, 0, MAX_DAILY_XP_CAP))) {
+    errors.push(`Daily targets must be whole numbers between 0 and ${MAX_DAILY_XP_CAP}.`);
+  } else if (settings.capEnabled && settings.weekdayTargets.some(target => target > settings.dailyXpCap)) {
+    errors.push('Daily targets cannot be higher than the daily cap.');
+  }
+
+  return errors;
+};
+
+/**
+ * Read a user's XP settings once
+ * @param userId The user ID
+ * @returns The settings, with defaults for anything not saved
+ */
+export const getXpSettings = async (userId: string): Promise<XPSettings> => {
+  try {
+    const snapshot = await getDoc(doc(FIREBASE_DB, 'users', userId));
+    return resolveXpSettings(snapshot.data()?.xpSettings);
+  } catch (error) {
+    console.error('Error loading XP settings:', error);
+    return DEFAULT_XP_SETTINGS;
+  }
+};
+
+/**
+ * Subscribe to the current user's XP settings
+ * @param onNext Called with the settings, with defaults for anything not saved
+ */
+export const subscribeToXpSettings = (onNext: (settings: XPSettings) => void): Unsubscribe => {
+  const user = FIREBASE_AUTH.currentUser;
+  if (!user) {
+    onNext(DEFAULT_XP_SETTINGS);
+    return () => {};
+  }
+
+  return onSnapshot(doc(FIREBASE_DB, 'users', user.uid), (snapshot) => {
+    onNext(resolveXpSettings(snapshot.data()?.xpSettings));
+  }, (error) => {
+    console.error('Error in XP settings listener:', error);
+    onNext(DEFAULT_XP_SETTINGS);
+  });
+};
+
+/**
+ * Save the current user's XP settings
+ * The weekly goal on the user document is kept in step with the weekday targets
+ * @param settings The new settings
+ */
+export const saveXpSettings = async (settings: XPSettings) => {
+  try {
+    if (DEMO_MODE) return { success: false, message: DEMO_MODE_MESSAGE };
+
+    const user = FIREBASE_AUTH.currentUser;
+    if (!user) throw new Error('User not authenticated');
+
+    const errors = validateXpSettings(settings);
+    if (errors.length > 0) {
+      return { success: false, message: errors.join('\n') };
+    }
+
+    await updateDoc(doc(FIREBASE_DB, 'users', user.uid), {
+      xpSettings: {
+        dailyXpCap: settings.dailyXpCap,
+        capEnabled: settings.capEnabled,
+        weekdayTargets: [...settings.weekdayTargets],
+      },
+      weeklyXPGoal: getWeeklyXpGoal(settings),
+    });
+    return { success: true, message: 'XP settings saved' };
+  } catch (error: any) {
+    console.error('Error saving XP settings:', error);
+    return { success: false, message: error.message || 'Failed to save XP settings' };
+  }
+};
@@ -0,0 +1,30 @@
+// Unit tests run in Node on the in-memory repositories (`npm test`).
+// Integration tests run against the Firebase emulators; see `npm run test:emulator`
+const shared = {
+  testEnvironment: 'node',
+  testMatch: ['**/*.test.ts'],
+  moduleNameMapper: {
+    // The app's FirebaseConfig isn't checked in; the tests use one pointed at the emulators
+    '^(\\.\\./)+FirebaseConfig$': '<rootDir>/tests/emulator/firebaseConfig.ts',
+    '^@react-native-async-storage/async-storage$': '@react-native-async-storage/async-storage/jest/async-storage-mock',
+  },
+};
+
+module.exports = {
+  projects: [
+    {
+      ...shared,
+      displayName: 'unit',
+      roots: ['<rootDir>/tests/unit'],
+    },
+    {
+      ...shared,
+      displayName: 'emulator',
+      roots: ['<rootDir>/tests/emulator'],
+      setupFilesAfterEnv: ['<rootDir>/tests/emulator/setup.ts'],
+    },
+  ],
+  // Every emulator test shares one emulator, so files must not run side by side
+  maxWorkers: 1,
+  testTimeout: 30000,
+};
@@ -0,0 +1,180 @@
+// Script to move tasks from the legacy top-level /tasks collection into /users/{userId}/tasks
+// Run this with Node.js and the Firebase Admin SDK:
+//   node scripts/migrateLegacyTasks.js [--dry-run] [--delete-legacy] [--restart]
+//
+// --dry-run        Report what would happen without writing anything
+// --delete-legacy  Delete each legacy document once its user copy exists (and a new copy has been verified)
+// --restart        Ignore the saved progress and start from the first legacy document
+//
+// Progress is saved after every page, so an interrupted run picks up where it stopped.
+// A task that already has a user copy is never overwritten: the app treats
+// /users/{userId}/tasks as the source of truth, so that copy counts as migrated and any
+// fields where it differs from the legacy document are listed in the report. Re-running
+// the whole migration is safe. A JSON report is written at the end.
+
+const admin = require('firebase-admin');
+const fs = require('fs');
+const path = require('path');
+
+// Path to your service account key
+const serviceAccount = require(path.resolve(__dirname, '../serviceAccountKey.json'));
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const db = admin.firestore();
+
+const PAGE_SIZE = 200;
+const OUTPUT_DIR = path.resolve(__dirname, 'output');
+const PROGRESS_FILE = path.join(OUTPUT_DIR, 'migrateLegacyTasks.progress.json');
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const deleteLegacy = args.includes('--delete-legacy');
+const restart = args.includes('--restart');
+
+// Compare Firestore values, including Timestamps and nested maps and arrays
+function isSameValue(a, b) {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (typeof a.isEqual === 'function') return a.isEqual(b);
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((value, index) => isSameValue(value, b[index]));
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => isSameValue(a[key], b[key]));
+}
+
+// Top-level fields whose values differ between two documents
+function getChangedFields(a, b) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter((key) => !isSameValue(a[key], b[key])).sort();
+}
+
+function loadProgress() {
+  if (restart || !fs.existsSync(PROGRESS_FILE)) {
+    return { lastDocId: null, counts: { migrated: 0, alreadyMigrated: 0, deleted: 0, skipped: 0 }, issues: [], differences: [] };
+  }
+  return { differences: [], ...JSON.parse(fs.readFileSync(PROGRESS_FILE, 'utf8')) };
+}
+
+function saveProgress(progress) {
+  if (dryRun) return;
+  fs.writeFileSync(PROGRESS_FILE, JSON.stringify(progress, null, 2));
+}
+
+// Copy one legacy task, verify the copy and optionally delete the original
+async function migrateLegacyTask(legacyDoc, progress) {
+  const taskId = legacyDoc.id;
+  const legacyData = legacyDoc.data();
+  const userId = legacyData.userId;
+
+  if (!userId || typeof userId !== 'string') {
+    progress.counts.skipped++;
+    progress.issues.push({ taskId, reason: 'missing userId' });
+    console.log(`Skipped /tasks/${taskId}: no userId`);
+    return;
+  }
+
+  const userDoc = await db.collection('users').doc(userId).get();
+  if (!userDoc.exists) {
+    progress.counts.skipped++;
+    progress.issues.push({ taskId, userId, reason: 'user does not exist' });
+    console.log(`Skipped /tasks/${taskId}: user ${userId} does not exist`);
+    return;
+  }
+
+  const targetRef = db.collection('users').doc(userId).collection('tasks').doc(taskId);
+  const targetDoc = await targetRef.get();
+
+  if (targetDoc.exists) {
+    // Either an earlier run copied it, or it was dual-written and the app has changed it since.
+    // The user copy is the source of truth, so keep it and note what the legacy document had.
+    const changedFields = getChangedFields(targetDoc.data(), legacyData);
+    if (changedFields.length > 0) {
+      progress.differences.push({ taskId, userId, fields: changedFields });
+      console.log(`Kept /users/${userId}/tasks/${taskId}; it differs from /tasks/${taskId} in: ${changedFields.join(', ')}`);
+    }
+    progress.counts.alreadyMigrated++;
+  } else {
+    if (dryRun) {
+      progress.counts.migrated++;
+      console.log(`Would migrate /tasks/${taskId} to /users/${userId}/tasks/${taskId}`);
+      return;
+    }
+
+    await targetRef.set(legacyData);
+    const copiedDoc = await targetRef.get();
+    if (!copiedDoc.exists || !isSameValue(copiedDoc.data(), legacyData)) {
+      progress.counts.skipped++;
+      progress.issues.push({ taskId, userId, reason: 'copy failed verification' });
+      console.log(`Copy of /tasks/${taskId} failed verification; the legacy document is kept`);
+      return;
+    }
+    progress.counts.migrated++;
+    console.log(`Migrated /tasks/${taskId} to /users/${userId}/tasks/${taskId}`);
+  }
+
+  if (deleteLegacy && !dryRun) {
+    await legacyDoc.ref.delete();
+    progress.counts.deleted++;
+  }
+}
+
+async function migrateLegacyTasks() {
+  if (!fs.existsSync(OUTPUT_DIR)) {
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  }
+
+  const progress = loadProgress();
+  if (progress.lastDocId) {
+    console.log(`Resuming after /tasks/${progress.lastDocId}`);
+  }
+
+  while (true) {
+    let pageQuery = db.collection('tasks').orderBy(admin.firestore.FieldPath.documentId()).limit(PAGE_SIZE);
+    if (progress.lastDocId) {
+      pageQuery = pageQuery.startAfter(progress.lastDocId);
+    }
+
+    const page = await pageQuery.get();
+    if (page.empty) break;
+
+    for (const legacyDoc of page.docs) {
+      await migrateLegacyTask(legacyDoc, progress);
+    }
+
+    progress.lastDocId = page.docs[page.docs.length - 1].id;
+    saveProgress(progress);
+  }
+
+  const report = {
+    finishedAt: new Date().toISOString(),
+    dryRun,
+    deleteLegacy,
+    ...progress.counts,
+    issues: progress.issues,
+    differences: progress.differences,
+  };
+  const reportFile = path.join(OUTPUT_DIR, `migrateLegacyTasks-report-${Date.now()}.json`);
+  fs.writeFileSync(reportFile, JSON.stringify(report, null, 2));
+
+  // A finished run starts over next time, so later legacy writes are picked up too
+  if (!dryRun && fs.existsSync(PROGRESS_FILE)) {
+    fs.unlinkSync(PROGRESS_FILE);
+  }
+
+  const { migrated, alreadyMigrated, deleted, skipped } = progress.counts;
+  console.log(`\nMigration ${dryRun ? 'dry run ' : ''}complete. Migrated: ${migrated}, Already migrated: ${alreadyMigrated}, Deleted: ${deleted}, Skipped: ${skipped}`);
+  console.log(`Report written to ${reportFile}`);
+  if (progress.issues.length > 0) {
+    console.log('Skipped documents were left in /tasks; see the report for details.');
+  }
+}
+
+migrateLegacyTasks().catch((err) => {
+  console.error('Error during legacy task migration:', err);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { doc, setDoc } from 'firebase/firestore';
+import { FIREBASE_DB } from './firebaseConfig';
+import {
+  AccountBackup,
+  BACKUP_COLLECTIONS,
+  BACKUP_FORMAT,
+  BackupCollection,
+  BackupDocument,
+  CURRENT_BACKUP_VERSION,
+  restoreAccountBackup,
+} from '../../app/utils/accountBackup';
+import { readUserDoc, signInTestUser } from './fixtures';
+import { travelTo } from './timeTravel';
+
+// Native modules used for picking and sharing backup files; restoring doesn't reach them
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('expo-document-picker', () => ({}));
+
+// A day's XP bank and the one record it lists
+const xpDay = (date: string, recordId: string, xp: number) => ({
+  bank: { id: date, date, totalXP: xp, availableXP: null, records: [recordId] },
+  record: { id: recordId, date, taskId: `task-${recordId}`, taskTitle: 'Stretch', xpAmount: xp, actionType: 'completed' },
+});
+
+const createBackup = (profile: Record<string, unknown>, collections: Partial<Record<BackupCollection, BackupDocument[]>>): AccountBackup => ({
+  format: BACKUP_FORMAT,
+  version: CURRENT_BACKUP_VERSION,
+  exportedAt: '2025-03-10T12:00:00.000Z',
+  source: { userId: 'backed-up-user', email: null },
+  profile,
+  collections: {
+    ...Object.fromEntries(BACKUP_COLLECTIONS.map(name => [name, []])) as unknown as Record<BackupCollection, BackupDocument[]>,
+    ...collections,
+  },
+});
+
+describe('restoreAccountBackup', () => {
+  it('recounts total XP after merging in XP bank days', async () => {
+    const userId = await signInTestUser({ totalXP: 30 });
+    const kept = xpDay('2025-03-09', 'record-1', 30);
+    await setDoc(doc(FIREBASE_DB, 'users', userId, 'xpBank', kept.bank.date), { ...kept.bank, userId });
+    await setDoc(doc(FIREBASE_DB, 'users', userId, 'xpBankRecords', kept.record.id), { ...kept.record, userId });
+    travelTo('2025-03-10');
+
+    const added = xpDay('2025-03-08', 'record-2', 50);
+    const result = await restoreAccountBackup(createBackup({ totalXP: 50 }, {
+      xpBank: [{ id: added.bank.date, data: added.bank }],
+      xpBankRecords: [{ id: added.record.id, data: added.record }],
+    }), 'merge');
+
+    expect(result).toMatchObject({ success: true, written: 2 });
+    expect(await readUserDoc(userId)).toMatchObject({ totalXP: 80 });
+  });
+});
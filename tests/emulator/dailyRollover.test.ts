@@ -0,0 +1,147 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import * as firestore from 'firebase/firestore';
+import { doc, setDoc, Timestamp, updateDoc } from 'firebase/firestore';
+import * as firebaseConfig from './firebaseConfig';
+import { FIREBASE_DB } from './firebaseConfig';
+import * as dateUtils from '../../app/utils/dateUtils';
+import { runDailyRollover } from '../../app/utils/dailyRollover';
+import { readUserCollection, readUserDoc, seedTask, signInTestUser, TASK_FIXTURES } from './fixtures';
+import { atDay, travelTo } from './timeTravel';
+
+// A fresh copy of the rollover module, as after the app restarts, so nothing it remembers
+// in memory skips the run; it shares this test's Firebase instances and day settings
+const loadRolloverAfterRestart = () => {
+  let rollover!: typeof import('../../app/utils/dailyRollover');
+  jest.isolateModules(() => {
+    jest.doMock('firebase/firestore', () => firestore);
+    jest.doMock('../../FirebaseConfig', () => firebaseConfig);
+    jest.doMock('../../app/utils/dateUtils', () => dateUtils);
+    rollover = require('../../app/utils/dailyRollover');
+  });
+  return rollover;
+};
+
+// A task as it's left after being completed on the given day
+const completedOn = (day: string) => ({
+  completed: true,
+  completedAt: Timestamp.fromDate(atDay(day, '18:00')),
+  lastCompletedDate: day,
+});
+
+describe('runDailyRollover', () => {
+  it('resets recurring tasks completed on an earlier day', async () => {
+    const userId = await signInTestUser({ lastRolloverDay: '2025-03-09' });
+    const taskId = await seedTask(userId, { ...TASK_FIXTURES.dailyHabit, ...completedOn('2025-03-09') });
+    travelTo('2025-03-10');
+
+    const result = await runDailyRollover();
+
+    expect(result).toMatchObject({ success: true, daysRolledOver: ['2025-03-10'] });
+    // lastCompletedDate is kept for the streak
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({
+      completed: false,
+      completedAt: null,
+      lastCompletedDate: '2025-03-09',
+    });
+  });
+
+  it('leaves recurring tasks already completed today alone', async () => {
+    const userId = await signInTestUser({ lastRolloverDay: '2025-03-09' });
+    const taskId = await seedTask(userId, { ...TASK_FIXTURES.dailyHabit, ...completedOn('2025-03-10') });
+    travelTo(atDay('2025-03-10', '20:00'));
+
+    await runDailyRollover();
+
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({ completed: true, lastCompletedDate: '2025-03-10' });
+  });
+
+  it("waits for a recurring task's next due day", async () => {
+    // 2025-03-11 is a Tuesday; the task is due on Mondays
+    const userId = await signInTestUser({ lastRolloverDay: '2025-03-10' });
+    const taskId = await seedTask(userId, { ...TASK_FIXTURES.mondayHabit, ...completedOn('2025-03-10') });
+    travelTo('2025-03-11');
+
+    await runDailyRollover();
+
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({ completed: true });
+  });
+
+  it('archives one-off tasks completed before the day and keeps open ones', async () => {
+    const userId = await signInTestUser({ lastRolloverDay: '2025-03-09' });
+    const doneId = await seedTask(userId, { ...TASK_FIXTURES.oneOff, ...completedOn('2025-03-09') });
+    const openId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    await runDailyRollover();
+
+    expect(await readUserDoc(userId, 'tasks', doneId)).toMatchObject({ completed: true, archivedDate: '2025-03-10' });
+    expect(await readUserDoc(userId, 'tasks', openId)).not.toHaveProperty('archivedDate');
+  });
+
+  it('catches up on missed days in order', async () => {
+    // 2025-03-10 is a Monday, so the weekly task comes due on the last missed day
+    const userId = await signInTestUser({ lastRolloverDay: '2025-03-06' });
+    const habitId = await seedTask(userId, { ...TASK_FIXTURES.dailyHabit, ...completedOn('2025-03-06') });
+    const mondayId = await seedTask(userId, { ...TASK_FIXTURES.mondayHabit, ...completedOn('2025-03-03') });
+    travelTo('2025-03-10');
+
+    const result = await runDailyRollover();
+
+    expect(result.daysRolledOver).toEqual(['2025-03-07', '2025-03-08', '2025-03-09', '2025-03-10']);
+    const ledger = await readUserCollection(userId, 'rollovers');
+    expect(ledger.map(entry => [entry.id, entry.tasksReset])).toEqual([
+      ['2025-03-07', 1],
+      ['2025-03-08', 0],
+      ['2025-03-09', 0],
+      ['2025-03-10', 1],
+    ]);
+    expect(await readUserDoc(userId)).toMatchObject({ lastRolloverDay: '2025-03-10' });
+    expect(await readUserDoc(userId, 'tasks', habitId)).toMatchObject({ completed: false });
+    expect(await readUserDoc(userId, 'tasks', mondayId)).toMatchObject({ completed: false });
+  });
+
+  it('rolls each day over once, even from a device with a stale view', async () => {
+    const userId = await signInTestUser({ lastRolloverDay: '2025-03-09' });
+    travelTo('2025-03-10');
+    await runDailyRollover();
+    travelTo('2025-03-11');
+    await runDailyRollover();
+
+    // Another device that still thinks 2025-03-09 was the last rollover
+    await updateDoc(doc(FIREBASE_DB, 'users', userId), { lastRolloverDay: '2025-03-09' });
+    const taskId = await seedTask(userId, { ...TASK_FIXTURES.dailyHabit, ...completedOn('2025-03-11') });
+    travelTo('2025-03-12');
+    const result = await runDailyRollover();
+
+    expect(result.daysRolledOver).toEqual(['2025-03-12']);
+    expect((await readUserCollection(userId, 'rollovers')).map(entry => entry.id))
+      .toEqual(['2025-03-10', '2025-03-11', '2025-03-12']);
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({ completed: false });
+  });
+
+  it("does nothing once today's rollover has run", async () => {
+    const userId = await signInTestUser({ lastRolloverDay: '2025-03-09' });
+    travelTo('2025-03-10');
+    await runDailyRollover();
+
+    // A completion from yesterday that syncs late would be reset if the day ran again
+    const taskId = await seedTask(userId, { ...TASK_FIXTURES.dailyHabit, ...completedOn('2025-03-09') });
+    // Restart the app and roll back its view of the user doc, so only the ledger stops the rerun
+    await updateDoc(doc(FIREBASE_DB, 'users', userId), { lastRolloverDay: '2025-03-09' });
+    const result = await loadRolloverAfterRestart().runDailyRollover();
+
+    expect(result).toMatchObject({ success: true, daysRolledOver: [] });
+    expect(await readUserCollection(userId, 'rollovers')).toHaveLength(1);
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({ completed: true });
+  });
+
+  it("starts today's XP from what's already banked for the day", async () => {
+    const userId = await signInTestUser({ lastRolloverDay: '2025-03-09', todayXP: 55 });
+    await setDoc(doc(FIREBASE_DB, 'users', userId, 'xpBank', '2025-03-10'), { date: '2025-03-10', totalXP: 20 });
+    travelTo(atDay('2025-03-10', '08:00'));
+
+    await runDailyRollover();
+
+    expect(await readUserDoc(userId)).toMatchObject({ todayXP: 20 });
+  });
+});
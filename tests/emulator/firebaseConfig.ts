@@ -0,0 +1,22 @@
+import { initializeApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+
+// Stands in for the app's FirebaseConfig in tests (see jest.config.js)
+// `firebase emulators:exec` sets these variables; the defaults match firebase.json
+export const EMULATOR_PROJECT_ID = process.env.GCLOUD_PROJECT || 'demo-dailyx';
+export const FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+export const AUTH_EMULATOR_HOST = process.env.FIREBASE_AUTH_EMULATOR_HOST || '127.0.0.1:9099';
+
+export const FIREBASE_APP = initializeApp({
+  apiKey: 'demo-api-key',
+  authDomain: `${EMULATOR_PROJECT_ID}.firebaseapp.com`,
+  projectId: EMULATOR_PROJECT_ID,
+});
+
+export const FIREBASE_AUTH = getAuth(FIREBASE_APP);
+connectAuthEmulator(FIREBASE_AUTH, `http://${AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+
+export const FIREBASE_DB = getFirestore(FIREBASE_APP);
+const [firestoreHost, firestorePort] = FIRESTORE_EMULATOR_HOST.split(':');
+connectFirestoreEmulator(FIREBASE_DB, firestoreHost, Number(firestorePort));
@@ -0,0 +1,217 @@
+import { describe, expect, it } from '@jest/globals';
+import { completeTask, deleteTask, modifyTaskXP, uncompleteTask } from '../../app/utils/firebaseService';
+import { readUserCollection, readUserDoc, seedTask, signInTestUser, TASK_FIXTURES } from './fixtures';
+import { travelTo } from './timeTravel';
+
+const historyActions = async (userId: string, taskId: string) =>
+  (await readUserCollection(userId, 'taskHistory'))
+    .filter(entry => entry.taskId === taskId)
+    .sort((a, b) => a.timestamp.toMillis() - b.timestamp.toMillis())
+    .map(entry => entry.action);
+
+describe('completeTask', () => {
+  it('banks the XP for the day and records the completion', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    const result = await completeTask(taskId);
+
+    expect(result).toMatchObject({ success: true, awardedXP: 30 });
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({
+      completed: true,
+      lastCompletedDate: '2025-03-10',
+      xp: 30,
+      plannedXp: 30,
+    });
+    const records = await readUserCollection(userId, 'xpBankRecords');
+    expect(records).toEqual([
+      expect.objectContaining({ taskId, date: '2025-03-10', xpAmount: 30, actionType: 'completed' }),
+    ]);
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-10')).toMatchObject({
+      totalXP: 30,
+      availableXP: 70,
+      records: [records[0].id],
+    });
+  });
+
+  it('writes a completion entry to the task history', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.dailyHabit);
+    travelTo('2025-03-10');
+
+    await completeTask(taskId);
+
+    const history = await readUserCollection(userId, 'taskHistory');
+    expect(history).toEqual([
+      expect.objectContaining({ taskId, action: 'completed', date: '2025-03-10', xp: 20, recurring: true }),
+    ]);
+  });
+
+  it('awards the full XP but keeps the bank at the daily cap', async () => {
+    const userId = await signInTestUser();
+    const firstId = await seedTask(userId, { ...TASK_FIXTURES.oneOff, xp: 80 });
+    const secondId = await seedTask(userId, { ...TASK_FIXTURES.oneOff, xp: 40 });
+    travelTo('2025-03-10');
+
+    await completeTask(firstId);
+    const result = await completeTask(secondId);
+
+    expect(result).toMatchObject({ success: true, awardedXP: 40, xpCapReached: true });
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-10')).toMatchObject({ totalXP: 100, availableXP: 0 });
+    expect(await readUserCollection(userId, 'xpBankRecords')).toHaveLength(2);
+  });
+
+  it('banks the XP on the day it was earned', async () => {
+    const userId = await signInTestUser();
+    const firstId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    const secondId = await seedTask(userId, TASK_FIXTURES.oneOff);
+
+    travelTo('2025-03-10');
+    await completeTask(firstId);
+    travelTo('2025-03-11');
+    await completeTask(secondId);
+
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-10')).toMatchObject({ totalXP: 30 });
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-11')).toMatchObject({ totalXP: 30 });
+  });
+
+  it('refuses to complete a task twice', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    await completeTask(taskId);
+    const result = await completeTask(taskId);
+
+    expect(result.success).toBe(false);
+    expect(await readUserCollection(userId, 'xpBankRecords')).toHaveLength(1);
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-10')).toMatchObject({ totalXP: 30 });
+  });
+});
+
+describe('uncompleteTask', () => {
+  it('takes the XP back out of the bank', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    await completeTask(taskId);
+    const result = await uncompleteTask(taskId);
+
+    expect(result.success).toBe(true);
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({ completed: false, completedAt: null });
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-10')).toMatchObject({ totalXP: 0, availableXP: 100 });
+    const records = await readUserCollection(userId, 'xpBankRecords');
+    expect(records.map(record => record.xpAmount).sort((a, b) => a - b)).toEqual([-30, 30]);
+    expect(records.reduce((sum, record) => sum + record.xpAmount, 0)).toBe(0);
+  });
+
+  it('reverses the XP on the day it was earned, not today', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+
+    travelTo('2025-03-10');
+    await completeTask(taskId);
+    travelTo('2025-03-11');
+    await uncompleteTask(taskId);
+
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-10')).toMatchObject({ totalXP: 0 });
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-11')).toBeUndefined();
+  });
+
+  it('writes an uncompletion entry to the task history', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    await completeTask(taskId);
+    await uncompleteTask(taskId);
+
+    expect(await historyActions(userId, taskId)).toEqual(['completed', 'uncompleted']);
+  });
+
+  it('refuses to uncomplete an open task', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    const result = await uncompleteTask(taskId);
+
+    expect(result.success).toBe(false);
+    expect(await readUserCollection(userId, 'xpBankRecords')).toHaveLength(0);
+  });
+});
+
+describe('deleteTask', () => {
+  it('keeps the XP a completed task earned', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    await completeTask(taskId);
+    const result = await deleteTask(taskId);
+
+    expect(result.success).toBe(true);
+    expect(await readUserDoc(userId, 'tasks', taskId)).toBeUndefined();
+    expect(await readUserDoc(userId, 'completedTasks', taskId)).toMatchObject({ isDeleted: true, completed: true });
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-10')).toMatchObject({ totalXP: 30 });
+    const records = await readUserCollection(userId, 'xpBankRecords');
+    expect(records).toContainEqual(expect.objectContaining({ taskId, actionType: 'deleted', xpAmount: 0 }));
+    expect(await historyActions(userId, taskId)).toEqual(['completed', 'deleted']);
+  });
+
+  it('removes an open task without touching the bank', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    await deleteTask(taskId);
+
+    expect(await readUserDoc(userId, 'tasks', taskId)).toBeUndefined();
+    expect(await readUserDoc(userId, 'completedTasks', taskId)).toBeUndefined();
+    expect(await readUserCollection(userId, 'xpBankRecords')).toHaveLength(0);
+    expect(await historyActions(userId, taskId)).toEqual(['deleted']);
+  });
+});
+
+describe('modifyTaskXP', () => {
+  it('moves the bank by the difference', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    await completeTask(taskId);
+    const result = await modifyTaskXP(taskId, 50);
+
+    expect(result.success).toBe(true);
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({ xp: 50, originalXp: 30 });
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-10')).toMatchObject({ totalXP: 50, availableXP: 50 });
+    const records = await readUserCollection(userId, 'xpBankRecords');
+    expect(records).toContainEqual(expect.objectContaining({ taskId, actionType: 'modified', xpAmount: 20 }));
+  });
+
+  it('refuses to go over the daily cap', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, { ...TASK_FIXTURES.oneOff, xp: 80 });
+    travelTo('2025-03-10');
+
+    await completeTask(taskId);
+    const result = await modifyTaskXP(taskId, 120);
+
+    expect(result.success).toBe(false);
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({ xp: 80 });
+    expect(await readUserDoc(userId, 'xpBank', '2025-03-10')).toMatchObject({ totalXP: 80 });
+  });
+
+  it('refuses to modify an open task', async () => {
+    const userId = await signInTestUser();
+    const taskId = await seedTask(userId, TASK_FIXTURES.oneOff);
+    travelTo('2025-03-10');
+
+    const result = await modifyTaskXP(taskId, 50);
+
+    expect(result.success).toBe(false);
+    expect(await readUserDoc(userId, 'tasks', taskId)).toMatchObject({ xp: 30 });
+  });
+});
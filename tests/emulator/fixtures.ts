@@ -0,0 +1,79 @@
+import { signInAnonymously } from 'firebase/auth';
+import { collection, doc, getDoc, getDocs, setDoc, Timestamp } from 'firebase/firestore';
+import { FIREBASE_AUTH, FIREBASE_DB } from './firebaseConfig';
+import { Task, UserStats } from '../../app/types';
+import { atDay } from './timeTravel';
+
+// Tasks seeded by the tests, keyed by what makes them interesting
+export const TASK_FIXTURES = {
+  oneOff: { title: 'Post the parcel', category: 'personal', xp: 30 },
+  dailyHabit: { title: 'Stretch', category: 'health', xp: 20, recurring: true, recurrence: { type: 'daily' } },
+  mondayHabit: { title: 'Plan the week', category: 'work', xp: 40, recurring: true, recurrence: { type: 'weekly', days: [1] } },
+} satisfies Record<string, Partial<Task>>;
+
+/**
+ * Sign in a new anonymous user and give them a user document
+ * @param stats Fields to set on the user document
+ * @returns The user's ID
+ */
+export const signInTestUser = async (stats: Partial<UserStats> = {}): Promise<string> => {
+  const { user } = await signInAnonymously(FIREBASE_AUTH);
+  await seedUser(user.uid, stats);
+  return user.uid;
+};
+
+/**
+ * Write a user document with a fresh account's stats
+ */
+export const seedUser = async (userId: string, stats: Partial<UserStats> = {}) => {
+  const createdAt = Timestamp.fromDate(atDay('2025-03-01', '09:00'));
+  const userStats: UserStats = {
+    userId,
+    totalXP: 0,
+    todayXP: 0,
+    streakCount: 0,
+    lastActive: createdAt,
+    bestDay: '',
+    bestDayXP: 0,
+    weeklyXPGoal: 700,
+    lastReset: createdAt,
+    ...stats,
+  };
+  await setDoc(doc(FIREBASE_DB, 'users', userId), userStats);
+};
+
+/**
+ * Write a task straight to the user's tasks, skipping addTask's checks and history
+ * @param task The task fields, usually one of TASK_FIXTURES plus overrides
+ * @returns The task's ID
+ */
+export const seedTask = async (userId: string, task: Partial<Task>): Promise<string> => {
+  const taskRef = doc(collection(FIREBASE_DB, 'users', userId, 'tasks'));
+  await setDoc(taskRef, {
+    title: 'Task',
+    xp: 10,
+    completed: false,
+    recurring: false,
+    createdAt: Timestamp.fromDate(atDay('2025-03-01', '09:00')),
+    ...task,
+    userId,
+  });
+  return taskRef.id;
+};
+
+/**
+ * Read a document under the user, e.g. readUserDoc(uid, 'xpBank', '2025-03-10')
+ * @returns The document's data, or undefined when it doesn't exist
+ */
+export const readUserDoc = async (userId: string, ...path: string[]): Promise<Record<string, any> | undefined> => {
+  const snapshot = await getDoc(doc(FIREBASE_DB, 'users', userId, ...path));
+  return snapshot.data();
+};
+
+/**
+ * Read every document in one of the user's subcollections
+ */
+export const readUserCollection = async (userId: string, name: string): Promise<Record<string, any>[]> => {
+  const snapshot = await getDocs(collection(FIREBASE_DB, 'users', userId, name));
+  return snapshot.docs.map(docSnapshot => ({ id: docSnapshot.id, ...docSnapshot.data() }));
+};
@@ -0,0 +1,43 @@
+import { afterAll, afterEach, beforeEach } from '@jest/globals';
+import { deleteApp } from 'firebase/app';
+import { signOut } from 'firebase/auth';
+import { terminate } from 'firebase/firestore';
+import {
+  AUTH_EMULATOR_HOST,
+  EMULATOR_PROJECT_ID,
+  FIREBASE_APP,
+  FIREBASE_AUTH,
+  FIREBASE_DB,
+  FIRESTORE_EMULATOR_HOST,
+} from './firebaseConfig';
+import { setActiveDaySettings } from '../../app/utils/dateUtils';
+import { returnToPresent } from './timeTravel';
+
+// Wipe the emulators through their REST APIs so every test starts from nothing
+const clearEmulators = async () => {
+  const responses = await Promise.all([
+    fetch(`http://${FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${EMULATOR_PROJECT_ID}/databases/(default)/documents`, { method: 'DELETE' }),
+    fetch(`http://${AUTH_EMULATOR_HOST}/emulator/v1/projects/${EMULATOR_PROJECT_ID}/accounts`, { method: 'DELETE' }),
+  ]);
+  responses.forEach(response => {
+    if (!response.ok) {
+      throw new Error(`Could not clear the emulators (${response.status}); are they running? Use npm run test:emulator`);
+    }
+  });
+};
+
+beforeEach(async () => {
+  // Days are counted in UTC from midnight, whatever the machine running the tests uses
+  setActiveDaySettings({ timeZone: 'UTC', dayStartHour: 0 });
+  await signOut(FIREBASE_AUTH);
+  await clearEmulators();
+});
+
+afterEach(() => {
+  returnToPresent();
+});
+
+afterAll(async () => {
+  await terminate(FIREBASE_DB);
+  await deleteApp(FIREBASE_APP);
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import { addDoc, collection, Timestamp } from 'firebase/firestore';
+import { FIREBASE_DB } from './firebaseConfig';
+import { refreshStreak, XP_PER_STREAK_FREEZE } from '../../app/utils/streaks';
+import { readUserCollection, readUserDoc, signInTestUser } from './fixtures';
+import { atDay, travelTo } from './timeTravel';
+
+// Task history entries for a completion of task-1 on each of the given days
+const seedCompletions = async (userId: string, days: string[]) => {
+  for (const day of days) {
+    await addDoc(collection(FIREBASE_DB, 'users', userId, 'taskHistory'), {
+      action: 'completed',
+      taskId: 'task-1',
+      timestamp: Timestamp.fromDate(atDay(day, '18:00')),
+    });
+  }
+};
+
+describe('refreshStreak', () => {
+  it('stores the count of consecutive days', async () => {
+    const userId = await signInTestUser();
+    await seedCompletions(userId, ['2025-03-08', '2025-03-09', '2025-03-10']);
+    travelTo(atDay('2025-03-10', '20:00'));
+
+    const result = await refreshStreak();
+
+    expect(result).toMatchObject({ success: true });
+    expect(await readUserDoc(userId)).toMatchObject({ streakCount: 3 });
+  });
+
+  it('starts over after a missed day when no freeze is left', async () => {
+    const userId = await signInTestUser({ streakCount: 4 });
+    await seedCompletions(userId, ['2025-03-06', '2025-03-07', '2025-03-09', '2025-03-10']);
+    travelTo(atDay('2025-03-10', '20:00'));
+
+    await refreshStreak();
+
+    expect(await readUserDoc(userId)).toMatchObject({ streakCount: 2, streakFreezesAvailable: 0 });
+    expect(await readUserCollection(userId, 'streakProtections')).toEqual([]);
+  });
+
+  it('spends an earned freeze on a missed day and records it', async () => {
+    const userId = await signInTestUser({ totalXP: XP_PER_STREAK_FREEZE });
+    await seedCompletions(userId, ['2025-03-07', '2025-03-09', '2025-03-10']);
+    travelTo(atDay('2025-03-10', '20:00'));
+
+    await refreshStreak();
+    // A second refresh keeps the day frozen without spending another freeze
+    await refreshStreak();
+
+    expect(await readUserDoc(userId)).toMatchObject({ streakCount: 3, streakFreezesAvailable: 0 });
+    expect(await readUserCollection(userId, 'streakProtections')).toEqual([
+      expect.objectContaining({ id: '2025-03-08', date: '2025-03-08', reason: 'freeze' }),
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { jest } from '@jest/globals';
+
+// Only the clock is faked; real timers keep the Firestore and Auth clients talking to the emulators
+const REAL_TIMER_APIS = [
+  'hrtime',
+  'nextTick',
+  'performance',
+  'queueMicrotask',
+  'requestAnimationFrame',
+  'cancelAnimationFrame',
+  'requestIdleCallback',
+  'cancelIdleCallback',
+  'setImmediate',
+  'clearImmediate',
+  'setInterval',
+  'clearInterval',
+  'setTimeout',
+  'clearTimeout',
+] as const;
+
+/**
+ * The moment a test day is pinned to, in UTC (the tests count days in UTC from midnight)
+ * @param day The day, YYYY-MM-DD
+ * @param time The time of day, HH:mm
+ */
+export const atDay = (day: string, time: string = '12:00'): Date => new Date(`${day}T${time}:00.000Z`);
+
+/**
+ * Stop the clock at the given moment until the test ends or returnToPresent is called
+ * Travel into the past only: sign-in tokens issued now stay valid, ones from the future would not
+ * @param moment A Date, or a day (YYYY-MM-DD) to stop at its noon
+ */
+export const travelTo = (moment: Date | string): Date => {
+  const date = typeof moment === 'string' ? atDay(moment) : moment;
+  jest.useFakeTimers({ now: date, doNotFake: [...REAL_TIMER_APIS] });
+  return date;
+};
+
+/**
+ * Restart the real clock
+ */
+export const returnToPresent = () => {
+  jest.useRealTimers();
+};
@@ -0,0 +1,34 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { deleteApp } from 'firebase/app';
+import { disableNetwork, terminate } from 'firebase/firestore';
+import { FIREBASE_APP, FIREBASE_DB } from '../emulator/firebaseConfig';
+import { runDailyRollover } from '../../app/utils/dailyRollover';
+
+// Signed in, with Firestore cut off from the network before anything is cached
+jest.mock('../../FirebaseConfig', () => ({
+  ...jest.requireActual<object>('../emulator/firebaseConfig'),
+  FIREBASE_AUTH: { currentUser: { uid: 'user-1' } },
+}));
+
+describe('runDailyRollover offline', () => {
+  beforeAll(async () => {
+    await disableNetwork(FIREBASE_DB);
+  });
+
+  afterAll(async () => {
+    await terminate(FIREBASE_DB);
+    await deleteApp(FIREBASE_APP);
+  });
+
+  it('waits for the device to come back online and tries again on the next call', async () => {
+    const waiting = {
+      success: false,
+      message: 'Offline; the rollover runs once the device is back online',
+      daysRolledOver: [],
+    };
+
+    expect(await runDailyRollover()).toEqual(waiting);
+    // Not remembered as done for today, so the next call reaches Firestore again
+    expect(await runDailyRollover()).toEqual(waiting);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from '@jest/globals';
+import { getDayKey, getDayStart } from '../../app/utils/dateUtils';
+
+const london = (dayStartHour: number) => ({ timeZone: 'Europe/London', dayStartHour });
+const berlin = (dayStartHour: number) => ({ timeZone: 'Europe/Berlin', dayStartHour });
+const newYork = (dayStartHour: number) => ({ timeZone: 'America/New_York', dayStartHour });
+
+describe('getDayStart', () => {
+  it('starts an ordinary day at the start hour in the time zone', () => {
+    expect(getDayStart('2025-06-10', london(4)).toISOString()).toBe('2025-06-10T03:00:00.000Z');
+    expect(getDayStart('2025-01-10', newYork(0)).toISOString()).toBe('2025-01-10T05:00:00.000Z');
+  });
+
+  describe('when clocks go back', () => {
+    // London repeats 01:00-02:00 on 2025-10-26, Berlin 02:00-03:00, New York 01:00-02:00 on 2025-11-02
+    it('starts at the first of the repeated hours east of UTC', () => {
+      expect(getDayStart('2025-10-26', london(1)).toISOString()).toBe('2025-10-26T00:00:00.000Z');
+      expect(getDayStart('2025-10-26', berlin(2)).toISOString()).toBe('2025-10-26T00:00:00.000Z');
+    });
+
+    it('starts at the first of the repeated hours west of UTC', () => {
+      expect(getDayStart('2025-11-02', newYork(1)).toISOString()).toBe('2025-11-02T05:00:00.000Z');
+    });
+
+    it('keeps both repeated hours in the day', () => {
+      const settings = london(1);
+      expect(getDayKey(new Date('2025-10-26T00:30:00Z'), settings)).toBe('2025-10-26');
+      expect(getDayKey(new Date('2025-10-25T23:59:00Z'), settings)).toBe('2025-10-25');
+    });
+  });
+
+  describe('when clocks go forward', () => {
+    // London skips 01:00-02:00 on 2025-03-30, Berlin 02:00-03:00, New York 02:00-03:00 on 2025-03-09
+    it('starts at the first moment after the skipped hour', () => {
+      expect(getDayStart('2025-03-30', london(1)).toISOString()).toBe('2025-03-30T01:00:00.000Z');
+      expect(getDayStart('2025-03-30', berlin(2)).toISOString()).toBe('2025-03-30T01:00:00.000Z');
+      expect(getDayStart('2025-03-09', newYork(2)).toISOString()).toBe('2025-03-09T07:00:00.000Z');
+    });
+
+    it('uses the new offset for start hours after the change', () => {
+      expect(getDayStart('2025-03-30', london(4)).toISOString()).toBe('2025-03-30T03:00:00.000Z');
+    });
+  });
+});
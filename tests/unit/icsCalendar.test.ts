@@ -0,0 +1,72 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import { buildIcsCalendar, parseIcsEvents } from '../../app/utils/icsCalendar';
+import type { ScheduledTask } from '../../app/types/scheduledTask';
+
+// Native modules used for picking and sharing .ics files; building and parsing don't reach them
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('expo-document-picker', () => ({}));
+
+const createdAt = Timestamp.fromDate(new Date('2025-03-01T09:00:00Z'));
+
+const scheduledTask = (fields: Partial<ScheduledTask> = {}): ScheduledTask => ({
+  id: 'scheduled-1',
+  userId: 'user-1',
+  title: 'Dentist',
+  scheduledDate: '2025-03-12',
+  repeatFrequency: 'none',
+  notificationEnabled: false,
+  status: 'upcoming',
+  createdAt,
+  updatedAt: createdAt,
+  ...fields,
+});
+
+const octets = (line: string) => Buffer.byteLength(line, 'utf8');
+
+describe('buildIcsCalendar', () => {
+  it('folds long lines at 75 octets without splitting a character', () => {
+    // Two-octet accents, three-octet symbols and four-octet emoji (surrogate pairs in JavaScript)
+    const description = 'Café crème ☕ with 🦷 check-up, bring the card 💳 and the forms. '.repeat(6);
+
+    const lines = buildIcsCalendar([scheduledTask({ description })]).split('\r\n');
+
+    lines.forEach(line => {
+      expect(octets(line)).toBeLessThanOrEqual(75);
+      // A split surrogate pair wouldn't survive the trip through UTF-8
+      expect(Buffer.from(line, 'utf8').toString('utf8')).toBe(line);
+    });
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    expect(parseIcsEvents(lines.join('\r\n'))[0].description).toBe(description);
+  });
+
+  it('leaves lines of 75 octets alone', () => {
+    const title = 'x'.repeat(75 - 'SUMMARY:'.length);
+
+    const lines = buildIcsCalendar([scheduledTask({ title })]).split('\r\n');
+
+    expect(lines).toContain(`SUMMARY:${title}`);
+  });
+});
+
+describe('parseIcsEvents', () => {
+  it('keeps trailing spaces that belong to a value', () => {
+    const content = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:event-1',
+      'DTSTART;VALUE=DATE:20250312',
+      'SUMMARY:Dentist  ',
+      'DESCRIPTION:Bring the card ',
+      ' and the forms',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ].join('\r\n');
+
+    expect(parseIcsEvents(content)).toEqual([
+      expect.objectContaining({ summary: 'Dentist  ', description: 'Bring the card and the forms' }),
+    ]);
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, expect, it } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import { createMemoryRepositories } from '../../app/repositories/memory';
+import type { Task } from '../../app/utils/firebaseService';
+import type { ScheduledTask } from '../../app/types/scheduledTask';
+import type { UserStats } from '../../app/types';
+
+const USER_ID = 'user-1';
+const createdAt = Timestamp.fromDate(new Date('2025-03-01T09:00:00Z'));
+
+const task = (fields: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  userId: USER_ID,
+  title: 'Post the parcel',
+  xp: 30,
+  completed: false,
+  createdAt,
+  ...fields,
+});
+
+const userStats = (fields: Partial<UserStats> = {}): UserStats => ({
+  userId: USER_ID,
+  totalXP: 100,
+  todayXP: 40,
+  streakCount: 0,
+  lastActive: createdAt,
+  bestDay: '',
+  bestDayXP: 0,
+  weeklyXPGoal: 700,
+  lastReset: createdAt,
+  ...fields,
+});
+
+const scheduledTask = (fields: Partial<ScheduledTask> = {}): ScheduledTask => ({
+  id: 'scheduled-1',
+  userId: USER_ID,
+  title: 'Dentist',
+  scheduledDate: '2025-03-12',
+  repeatFrequency: 'weekly',
+  notificationEnabled: false,
+  status: 'upcoming',
+  createdAt,
+  updatedAt: createdAt,
+  ...fields,
+});
+
+// Listeners are called asynchronously, as Firestore's are
+const nextDelivery = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('tasks', () => {
+  it('lists only the seeded user\'s tasks, filtered by completion', async () => {
+    const { tasks } = createMemoryRepositories({
+      tasks: [task(), task({ id: 'task-2', completed: true }), task({ id: 'task-3', userId: 'user-2' })],
+    });
+
+    expect((await tasks.list(USER_ID)).map(entry => entry.id).sort()).toEqual(['task-1', 'task-2']);
+    expect((await tasks.list(USER_ID, false)).map(entry => entry.id)).toEqual(['task-1']);
+    expect(await tasks.get(USER_ID, 'task-3')).toBeNull();
+  });
+
+  it('hands out copies, so changing one doesn\'t change the stored task', async () => {
+    const { tasks } = createMemoryRepositories({ tasks: [task()] });
+
+    const copy = await tasks.get(USER_ID, 'task-1');
+    copy!.title = 'Changed';
+
+    expect(await tasks.get(USER_ID, 'task-1')).toMatchObject({ title: 'Post the parcel' });
+  });
+
+  it('tells subscribers about every change', async () => {
+    const { tasks } = createMemoryRepositories();
+    const deliveries: string[][] = [];
+    const unsubscribe = tasks.subscribe(USER_ID, next => deliveries.push(next.map(entry => entry.title)));
+
+    await nextDelivery();
+    const taskId = await tasks.create(USER_ID, task({ title: 'Stretch' }));
+    await nextDelivery();
+    unsubscribe();
+    await tasks.remove(USER_ID, taskId);
+    await nextDelivery();
+
+    expect(deliveries).toEqual([[], ['Stretch']]);
+  });
+
+  it('refuses to update a task that doesn\'t exist', async () => {
+    const { tasks } = createMemoryRepositories();
+
+    await expect(tasks.update(USER_ID, 'missing', { xp: 10 })).rejects.toThrow('No task missing to update');
+  });
+});
+
+describe('task batches', () => {
+  it('writes nothing until commit', async () => {
+    const { tasks } = createMemoryRepositories();
+    const batch = tasks.batch(USER_ID);
+
+    const taskId = batch.createTask(task({ title: 'Stretch' }));
+    expect(await tasks.get(USER_ID, taskId)).toBeNull();
+
+    await batch.commit();
+    expect(await tasks.get(USER_ID, taskId)).toMatchObject({ id: taskId, title: 'Stretch', completed: false });
+  });
+
+  it('banks XP records and totals in the ledger', async () => {
+    const { tasks, xpLedger } = createMemoryRepositories({ tasks: [task()] });
+
+    const first = tasks.batch(USER_ID);
+    first.updateTask('task-1', { completed: true });
+    const firstRecord = first.addXpRecord({ date: '2025-03-10', taskId: 'task-1', taskTitle: 'Post the parcel', xpAmount: 30, actionType: 'completed' });
+    first.setXpDay('2025-03-10', { totalXP: 30, availableXP: 70 }, [firstRecord]);
+    await first.commit();
+
+    const second = tasks.batch(USER_ID);
+    const secondRecord = second.addXpRecord({ date: '2025-03-10', taskId: 'task-1', taskTitle: 'Post the parcel', xpAmount: 20, actionType: 'modified' });
+    second.updateXpDay('2025-03-10', secondRecord, { totalXP: 50, availableXP: 50 });
+    await second.commit();
+
+    const day = await xpLedger.getDay(USER_ID, '2025-03-10');
+    expect(day).toMatchObject({ date: '2025-03-10', totalXP: 50, availableXP: 50, records: [firstRecord, secondRecord] });
+    const records = await xpLedger.getRecords(USER_ID, day!.records);
+    expect(records.map(record => record.xpAmount)).toEqual([30, 20]);
+    expect(records[0]).toMatchObject({ id: firstRecord, userId: USER_ID });
+    expect(await xpLedger.listDays(USER_ID)).toHaveLength(1);
+  });
+
+  it('adds increments to the user\'s totals and sets plain numbers', async () => {
+    const { tasks, stats } = createMemoryRepositories({ users: [userStats()] });
+
+    const batch = tasks.batch(USER_ID);
+    batch.updateUserStats({ totalXP: { increment: -30 }, todayXP: 5 });
+    await batch.commit();
+
+    expect(await stats.getUser(USER_ID)).toMatchObject({ totalXP: 70, todayXP: 5 });
+  });
+
+  it('changes nothing when one of its updates has no document', async () => {
+    const { tasks, xpLedger } = createMemoryRepositories({ tasks: [task()] });
+
+    const batch = tasks.batch(USER_ID);
+    batch.updateTask('task-1', { completed: true });
+    const recordId = batch.addXpRecord({ date: '2025-03-10', taskId: 'task-1', taskTitle: 'Post the parcel', xpAmount: 30, actionType: 'completed' });
+    batch.updateXpDay('2025-03-10', recordId);
+
+    await expect(batch.commit()).rejects.toThrow('No XP bank for 2025-03-10 to update');
+    expect(await tasks.get(USER_ID, 'task-1')).toMatchObject({ completed: false });
+    expect(await xpLedger.getRecords(USER_ID, [recordId])).toEqual([]);
+  });
+
+  it('keeps archived tasks apart from the task list', async () => {
+    const { tasks } = createMemoryRepositories({ tasks: [task({ completed: true })] });
+    const archived: Task[][] = [];
+    tasks.subscribeArchived(USER_ID, next => archived.push(next));
+
+    const batch = tasks.batch(USER_ID);
+    batch.archiveTask('task-1', task({ completed: true }));
+    batch.removeTask('task-1');
+    await batch.commit();
+    await nextDelivery();
+
+    expect(await tasks.list(USER_ID)).toEqual([]);
+    expect(archived[archived.length - 1]).toEqual([expect.objectContaining({ id: 'task-1', archived: true, completed: true })]);
+  });
+
+  it('records the day\'s snapshot and stats', async () => {
+    const { tasks, stats } = createMemoryRepositories();
+
+    const first = tasks.batch(USER_ID);
+    first.setDailySnapshot('2025-03-10', { tasksCompleted: 1, xpEarned: 30, dailyXpBank: 30 });
+    first.setDailyStats('2025-03-10', { tasksCompleted: 1, xpEarned: 30 });
+    await first.commit();
+
+    const second = tasks.batch(USER_ID);
+    second.updateDailySnapshot('2025-03-10', { tasksCompleted: 0, xpEarned: 0, dailyXpBank: 0 });
+    second.updateDailyStats('2025-03-10', { tasksCompleted: 0 });
+    await second.commit();
+
+    expect(await stats.getDailySnapshot(USER_ID, '2025-03-10')).toMatchObject({ userId: USER_ID, tasksCompleted: 0, dailyXpBank: 0 });
+    expect(await stats.getDailyStats(USER_ID, '2025-03-10')).toMatchObject({ tasksCompleted: 0, xpEarned: 30 });
+  });
+});
+
+describe('stats', () => {
+  it('marks a journaled day and the user as active', async () => {
+    const { stats } = createMemoryRepositories({ users: [userStats()] });
+    const at = Timestamp.fromDate(new Date('2025-03-10T21:00:00Z'));
+
+    await stats.markJournalDay(USER_ID, '2025-03-10', at);
+
+    expect(await stats.getDailyStats(USER_ID, '2025-03-10')).toMatchObject({ hasJournal: true, tasksCompleted: 0, xpEarned: 0 });
+    expect(await stats.getUser(USER_ID)).toMatchObject({ lastActive: at });
+  });
+});
+
+describe('journal', () => {
+  it('leaves the day alone when the change returns null', async () => {
+    const { journal } = createMemoryRepositories();
+
+    const written = await journal.updateDay(USER_ID, '2025-03-10', () => null);
+
+    expect(written).toBe(false);
+    expect(await journal.getDay(USER_ID, '2025-03-10')).toBeNull();
+  });
+
+  it('keeps both of two saves made at once', async () => {
+    const { journal } = createMemoryRepositories();
+    const append = (thought: string) => journal.updateDay(USER_ID, '2025-03-10', current => ({
+      userId: USER_ID,
+      thought: current ? `${current.thought}, ${thought}` : thought,
+      entry: '',
+      timestamp: createdAt,
+    }));
+
+    await Promise.all([append('first'), append('second')]);
+
+    expect(await journal.getDay(USER_ID, '2025-03-10')).toMatchObject({ thought: 'first, second' });
+  });
+
+  it('passes the current day to the change and reports what changed to subscribers', async () => {
+    const { journal } = createMemoryRepositories();
+    const changes: string[][] = [];
+    journal.subscribe(USER_ID, null, (_days, dayChanges) => changes.push(dayChanges.map(change => `${change.type} ${change.entry.date}`)));
+    await nextDelivery();
+
+    await journal.updateDay(USER_ID, '2025-03-10', () => ({ userId: USER_ID, thought: 'First', entry: '', timestamp: createdAt }));
+    await nextDelivery();
+    await journal.updateDay(USER_ID, '2025-03-10', current => ({ ...current!, thought: `${current!.thought}, then second` }));
+    await nextDelivery();
+
+    expect(await journal.getDay(USER_ID, '2025-03-10')).toMatchObject({ thought: 'First, then second' });
+    expect(changes).toEqual([[], ['added 2025-03-10'], ['modified 2025-03-10']]);
+  });
+});
+
+describe('schedule', () => {
+  it('adds and removes occurrences without repeating dates', async () => {
+    const { schedule } = createMemoryRepositories({ scheduledTasks: [scheduledTask({ completedOccurrences: ['2025-03-05'] })] });
+
+    await schedule.update(USER_ID, 'scheduled-1', { completedOccurrences: { add: ['2025-03-05', '2025-03-12'] } });
+    await schedule.update(USER_ID, 'scheduled-1', { completedOccurrences: { remove: ['2025-03-05'] } });
+
+    expect(await schedule.get(USER_ID, 'scheduled-1')).toMatchObject({ completedOccurrences: ['2025-03-12'] });
+  });
+
+  it('clears fields set to null and ignores undefined ones', async () => {
+    const { schedule } = createMemoryRepositories({ scheduledTasks: [scheduledTask({ scheduledTime: '09:30' })] });
+
+    await schedule.update(USER_ID, 'scheduled-1', { scheduledTime: null, title: undefined });
+
+    expect(await schedule.get(USER_ID, 'scheduled-1')).toMatchObject({ scheduledTime: null, title: 'Dentist' });
+  });
+
+  it('updates all of the tasks or none of them', async () => {
+    const { schedule } = createMemoryRepositories({ scheduledTasks: [scheduledTask()] });
+
+    await expect(schedule.updateMany(USER_ID, [
+      { taskId: 'scheduled-1', changes: { status: 'completed' } },
+      { taskId: 'missing', changes: { status: 'completed' } },
+    ])).rejects.toThrow('No scheduled task missing to update');
+
+    expect(await schedule.list(USER_ID, 'upcoming')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { configureStore } from '@reduxjs/toolkit';
+import networkReducer, {
+  addPendingOperation,
+  runOrQueueOperation,
+  scheduleOperationRetry,
+  setIsSyncing,
+} from '../../app/store/slices/networkSlice';
+import type { AppDispatch, RootState } from '../../app/store/types';
+
+// Native modules the replayed services import; none of these tests reach them
+jest.mock('expo-notifications', () => ({}));
+jest.mock('expo-file-system', () => ({}));
+
+const createStore = () => configureStore({ reducer: { network: networkReducer } });
+
+const run = (store: ReturnType<typeof createStore>, taskId: string) =>
+  runOrQueueOperation({ type: 'togglePinnedTask', payload: { taskId } })(
+    store.dispatch as AppDispatch,
+    store.getState as () => RootState
+  );
+
+describe('runOrQueueOperation', () => {
+  it('queues behind operations still waiting to sync, even when online', async () => {
+    const store = createStore();
+    // An earlier operation that failed and is waiting out its backoff
+    store.dispatch(addPendingOperation({ type: 'togglePinnedTask', payload: { taskId: 'task-1' }, timestamp: Date.now() }));
+    const [earlier] = store.getState().network.pendingOperations;
+    store.dispatch(scheduleOperationRetry({ id: earlier.id, error: 'unavailable', nextAttemptAt: Date.now() + 60000 }));
+
+    const result = await run(store, 'task-2');
+
+    expect(result).toMatchObject({ success: true, queued: true });
+    expect(store.getState().network.pendingOperations.map(op => op.payload)).toEqual([
+      { taskId: 'task-1' },
+      { taskId: 'task-2' },
+    ]);
+  });
+
+  it('queues while a sync is running', async () => {
+    const store = createStore();
+    store.dispatch(setIsSyncing(true));
+
+    const result = await run(store, 'task-1');
+
+    expect(result).toMatchObject({ success: true, queued: true });
+    expect(store.getState().network.pendingOperations).toHaveLength(1);
+  });
+
+  it('runs straight away when nothing is waiting', async () => {
+    const store = createStore();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await run(store, 'task-1');
+    consoleError.mockRestore();
+
+    // Nobody is signed in, so the operation itself fails, but it was attempted rather than queued
+    expect(result.queued).toBeUndefined();
+    expect(store.getState().network.pendingOperations).toHaveLength(0);
+  });
+});
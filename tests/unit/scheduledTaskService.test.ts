@@ -0,0 +1,67 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import { createMemoryRepositories, setRepositories } from '../../app/repositories';
+import { updateScheduledTaskStatus } from '../../app/utils/scheduledTaskService';
+import type { ScheduledTask } from '../../app/types/scheduledTask';
+
+jest.mock('../../FirebaseConfig', () => ({
+  ...jest.requireActual<object>('../emulator/firebaseConfig'),
+  FIREBASE_AUTH: { currentUser: { uid: 'user-1' } },
+}));
+jest.mock('expo-notifications', () => ({}));
+
+const USER_ID = 'user-1';
+const createdAt = Timestamp.fromDate(new Date('2025-03-01T09:00:00Z'));
+
+// Far enough ahead that every occurrence gets a reminder
+const weeklyReminder = (fields: Partial<ScheduledTask> = {}): ScheduledTask => ({
+  id: 'scheduled-1',
+  userId: USER_ID,
+  title: 'Water the plants',
+  scheduledDate: '2099-03-12',
+  scheduledTime: '09:30',
+  repeatFrequency: 'weekly',
+  notificationEnabled: true,
+  notificationId: 'reminder-1',
+  status: 'upcoming',
+  createdAt,
+  updatedAt: createdAt,
+  ...fields,
+});
+
+const useSchedule = (task: ScheduledTask) => {
+  const repositories = createMemoryRepositories({ scheduledTasks: [task] });
+  setRepositories(repositories);
+  return repositories.schedule;
+};
+
+describe('updateScheduledTaskStatus', () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  it('moves the reminder to the next occurrence', async () => {
+    const schedule = useSchedule(weeklyReminder());
+
+    await updateScheduledTaskStatus('scheduled-1', 'completed');
+
+    const task = await schedule.get(USER_ID, 'scheduled-1');
+    expect(task).toMatchObject({ scheduledDate: '2099-03-19', status: 'upcoming' });
+    expect(task!.notificationId).toEqual(expect.any(String));
+    expect(task!.notificationId).not.toBe('reminder-1');
+  });
+
+  it('drops the reminder once the series is finished', async () => {
+    const schedule = useSchedule(weeklyReminder({ repeatFrequency: 'custom', rrule: 'FREQ=WEEKLY;COUNT=1' }));
+
+    await updateScheduledTaskStatus('scheduled-1', 'completed');
+
+    expect(await schedule.get(USER_ID, 'scheduled-1')).toMatchObject({ status: 'completed', notificationId: null });
+  });
+
+  it('leaves tasks without reminders alone', async () => {
+    const schedule = useSchedule(weeklyReminder({ notificationEnabled: false, notificationId: undefined }));
+
+    await updateScheduledTaskStatus('scheduled-1', 'completed');
+
+    expect((await schedule.get(USER_ID, 'scheduled-1'))!.notificationId).toBeUndefined();
+  });
+});
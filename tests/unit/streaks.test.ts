@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setActiveDaySettings } from '../../app/utils/dateUtils';
+import { computeStreak, getCompletionTimes } from '../../app/utils/streaks';
+
+// Days run from 04:00 UTC, so activity just after midnight still counts for the day before
+const DAY_START_HOUR = 4;
+const at = (day: string, time: string) => new Date(`${day}T${time}:00Z`);
+const now = at('2025-03-10', '20:00');
+
+describe('computeStreak', () => {
+  beforeEach(() => {
+    setActiveDaySettings({ timeZone: 'UTC', dayStartHour: DAY_START_HOUR });
+  });
+
+  it('counts consecutive days up to today', () => {
+    const activity = ['2025-03-08', '2025-03-09', '2025-03-10'].map(day => at(day, '12:00'));
+
+    expect(computeStreak(activity, { now })).toMatchObject({ count: 3, pendingToday: false, protectedDays: [] });
+  });
+
+  it('keeps counting up to yesterday while today is still open', () => {
+    const activity = ['2025-03-08', '2025-03-09'].map(day => at(day, '12:00'));
+
+    expect(computeStreak(activity, { now })).toMatchObject({ count: 2, pendingToday: true });
+  });
+
+  it('stops at a missed day', () => {
+    const activity = ['2025-03-06', '2025-03-07', '2025-03-09', '2025-03-10'].map(day => at(day, '12:00'));
+
+    expect(computeStreak(activity, { now })).toMatchObject({ count: 2, newFreezes: [] });
+  });
+
+  it('spends a freeze on a missed day and keeps the streak', () => {
+    const activity = ['2025-03-07', '2025-03-09', '2025-03-10'].map(day => at(day, '12:00'));
+
+    const streak = computeStreak(activity, { now, freezesAvailable: 1 });
+
+    expect(streak).toMatchObject({ count: 3, newFreezes: ['2025-03-08'] });
+    expect(streak.protectedDays).toEqual([{ date: '2025-03-08', reason: 'freeze' }]);
+  });
+
+  it("doesn't spend freezes on a gap it can't bridge", () => {
+    const activity = ['2025-03-06', '2025-03-09', '2025-03-10'].map(day => at(day, '12:00'));
+
+    expect(computeStreak(activity, { now, freezesAvailable: 1 })).toMatchObject({ count: 2, newFreezes: [] });
+  });
+
+  it('keeps days frozen earlier without spending another freeze', () => {
+    const activity = ['2025-03-07', '2025-03-09', '2025-03-10'].map(day => at(day, '12:00'));
+
+    expect(computeStreak(activity, { now, frozenDays: ['2025-03-08'] })).toMatchObject({ count: 3, newFreezes: [] });
+  });
+
+  it('counts activity before the day start hour for the day before', () => {
+    // 03:30 on 2025-03-10 is still 2025-03-09; 04:30 is already 2025-03-10
+    const beforeStart = computeStreak([at('2025-03-09', '12:00'), at('2025-03-10', '03:30')], { now });
+    const afterStart = computeStreak([at('2025-03-09', '12:00'), at('2025-03-10', '04:30')], { now });
+
+    expect(beforeStart).toMatchObject({ count: 1, pendingToday: true });
+    expect(afterStart).toMatchObject({ count: 2, pendingToday: false });
+  });
+
+  it('credits the grace period to an empty day before', () => {
+    const activity = [at('2025-03-08', '12:00'), at('2025-03-10', '05:00'), at('2025-03-10', '12:00')];
+
+    const streak = computeStreak(activity, { now, graceHours: 2 });
+
+    expect(streak.count).toBe(3);
+    expect(streak.protectedDays).toEqual([{ date: '2025-03-09', reason: 'grace' }]);
+  });
+});
+
+describe('getCompletionTimes', () => {
+  const record = (action: string, taskId: string, time: Date) => ({ action, taskId, timestamp: { toDate: () => time } });
+
+  it('drops completions that were undone', () => {
+    const times = getCompletionTimes([
+      record('completed', 'task-1', at('2025-03-09', '12:00')),
+      record('uncompleted', 'task-1', at('2025-03-09', '12:05')),
+      record('completed', 'task-2', at('2025-03-10', '09:00')),
+      record('created', 'task-3', at('2025-03-10', '10:00')),
+    ]);
+
+    expect(times).toEqual([at('2025-03-10', '09:00')]);
+  });
+});